@@ -0,0 +1,100 @@
+import { mkdir, mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { encodingFromCpg } from "../src/utils/codepages";
+import { DbfFieldMeta } from "../src/utils/dbf";
+import { writeDbf } from "../src/utils/dbfWrite";
+import { main } from "./dbf-convert";
+
+const fields: DbfFieldMeta[] = [{ name: "CITY", type: "C", length: 10, decimalCount: 0 }];
+
+let dir: string;
+let errors: string[];
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "dbf-convert-"));
+  errors = [];
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation((message) => errors.push(String(message)));
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function table(relative: string, city: string) {
+  const file = path.join(dir, relative);
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, new Uint8Array(writeDbf(fields, [[city]])));
+}
+
+/** Every file under `root`, as forward-slash paths relative to it. */
+async function listing(root: string) {
+  const entries = await readdir(root, { recursive: true, withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) => path.relative(root, path.join(entry.parentPath, entry.name)))
+    .map((file) => file.split(path.sep).join("/"))
+    .sort();
+}
+
+describe("dbf-convert", () => {
+  it("mirrors the input folders under --out-dir so same-named tables do not collide", async () => {
+    await table("in/north/parcels.dbf", "Haifa");
+    await table("in/south/parcels.dbf", "Beersheba");
+    const out = path.join(dir, "out");
+
+    expect(await main([path.join(dir, "in"), "--out-dir", out, "--no-bom"])).toBe(0);
+    expect(await listing(out)).toEqual([
+      "north/parcels.csv",
+      "north/parcels.summary.json",
+      "south/parcels.csv",
+      "south/parcels.summary.json",
+    ]);
+    expect(await readFile(path.join(out, "south/parcels.csv"), "utf8")).toBe("CITY\r\nBeersheba");
+    const summary = JSON.parse(
+      await readFile(path.join(out, "north/parcels.summary.json"), "utf8"),
+    );
+    expect(summary).toMatchObject({
+      parsedRecords: 1,
+      output: path.join(out, "north/parcels.csv"),
+    });
+  });
+
+  it("mirrors the folders below a glob's base", async () => {
+    await table("in/2024/jan/deals.dbf", "Acre");
+    const out = path.join(dir, "out");
+    const pattern = `${path.join(dir, "in").split(path.sep).join("/")}/**/*.dbf`;
+
+    expect(await main([pattern, "-o", out, "-f", "jsonl"])).toBe(0);
+    expect(await listing(out)).toEqual(["2024/jan/deals.jsonl", "2024/jan/deals.summary.json"]);
+  });
+
+  it("writes a .cpg next to DBF output naming its code page", async () => {
+    await table("in/parcels.dbf", "Haifa");
+    const out = path.join(dir, "out");
+
+    expect(
+      await main([path.join(dir, "in"), "-o", out, "-f", "dbf", "--dbf-encoding", "cp862"]),
+    ).toBe(0);
+    expect(await readFile(path.join(out, "parcels.cpg"), "utf8")).toBe("862");
+    expect(encodingFromCpg(await readFile(path.join(out, "parcels.cpg"), "utf8"))).toBe("cp862");
+  });
+
+  it("refuses to overwrite the input it is converting", async () => {
+    await table("parcels.dbf", "Haifa");
+    const input = path.join(dir, "parcels.dbf");
+    const before = await readFile(input);
+    expect(await main([input, "-f", "dbf"])).toBe(1);
+    expect(errors.join("\n")).toMatch(/Refusing to overwrite the input/);
+    expect(await readFile(input)).toEqual(before);
+  });
+
+  it("exits with 2 on usage errors", async () => {
+    expect(await main(["-f", "pdf", "x.dbf"])).toBe(2);
+    expect(await main([])).toBe(2);
+    expect(await main([path.join(dir, "missing.dbf")])).toBe(2);
+  });
+});
@@ -0,0 +1,242 @@
+import { readFile, mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { DBF_ENCODINGS, DbfEncoding, cpgFor } from "../src/utils/codepages";
+import { DbfSummary, summarizeLayer } from "../src/utils/dbfSummary";
+import { DbfValidationReport, validateDbf } from "../src/utils/dbfValidate";
+import { EXPORT_FORMATS, ExportFormat, exportTable, getExportFormat } from "../src/utils/exporters";
+import { ShapefileLayer, collectShapefileSources, readShapefile } from "../src/utils/shapefile";
+import { InputGroup, resolveInputs } from "./inputs";
+
+const USAGE = `Usage: dbf-convert [options] <file|directory|glob>...
+
+Converts DBF tables and shapefiles (loose or zipped) with the same code as
+the playground's DBF card. Next to every output it writes <name>.summary.json.
+
+Options:
+  -f, --format <${EXPORT_FORMATS.map((item) => item.id).join("|")}>  Output format (default: csv)
+  -e, --encoding <auto|${DBF_ENCODINGS.map((item) => item.id).join("|")}>  Code page (default: auto)
+      --dbf-encoding <${DBF_ENCODINGS.map((item) => item.id).join("|")}>  Code page of DBF output, also written to a .cpg (default: the input's)
+  -o, --out-dir <dir>   Write outputs here instead of next to each input, keeping
+                        the folders below each input directory or glob base
+      --no-bom          Leave the UTF-8 BOM off CSV output
+  -h, --help            Show this message
+
+Exit status: 0 when every file converted and validated cleanly, 1 when any
+file failed validation or conversion, 2 on usage errors.`;
+
+type FileResult = DbfSummary & {
+  output: string | null;
+  validation: DbfValidationReport | null;
+  error?: string;
+};
+
+class UsageError extends Error {}
+
+const EMPTY_LAYER: ShapefileLayer = {
+  name: "",
+  shapeType: null,
+  bbox: null,
+  srid: null,
+  prj: null,
+  table: null,
+  features: [],
+};
+
+function toArrayBuffer(buffer: Buffer) {
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+function parseOptions(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", short: "f", default: "csv" },
+      encoding: { type: "string", short: "e", default: "auto" },
+      "dbf-encoding": { type: "string" },
+      "out-dir": { type: "string", short: "o" },
+      "no-bom": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const format = values.format as ExportFormat;
+  if (!EXPORT_FORMATS.some((item) => item.id === format)) {
+    throw new UsageError(`Unknown format "${values.format}".`);
+  }
+  const encoding = values.encoding === "auto" ? undefined : (values.encoding as DbfEncoding);
+  if (encoding && !DBF_ENCODINGS.some((item) => item.id === encoding)) {
+    throw new UsageError(`Unknown encoding "${values.encoding}".`);
+  }
+  const dbfEncoding = values["dbf-encoding"] as DbfEncoding | undefined;
+  if (dbfEncoding && !DBF_ENCODINGS.some((item) => item.id === dbfEncoding)) {
+    throw new UsageError(`Unknown DBF output encoding "${dbfEncoding}".`);
+  }
+  if (!values.help && !positionals.length) {
+    throw new UsageError("No input files given.");
+  }
+
+  return {
+    help: Boolean(values.help),
+    inputs: positionals,
+    format,
+    encoding,
+    dbfEncoding,
+    outDir: values["out-dir"],
+    bom: !values["no-bom"],
+  };
+}
+
+async function convertGroup(
+  { files, directory, relativeDir }: InputGroup,
+  options: ReturnType<typeof parseOptions>,
+  /** Outputs written so far in this run, so two inputs never share one. */
+  claimed: Set<string>,
+): Promise<FileResult[]> {
+  const entries = await Promise.all(
+    files.map(async (file) => ({ name: path.basename(file), data: toArrayBuffer(await readFile(file)) })),
+  );
+  const layers = await collectShapefileSources(entries);
+  if (!layers.length) {
+    throw new Error(`No .dbf or .shp found in ${files.map((file) => path.basename(file)).join(", ")}.`);
+  }
+
+  const results: FileResult[] = [];
+  const outDir = options.outDir ? path.join(options.outDir, relativeDir) : directory;
+  const { extension } = getExportFormat(options.format);
+
+  for (const sources of layers) {
+    const validation = sources.dbf
+      ? validateDbf(sources.dbf, { encoding: options.encoding, cpg: sources.cpg })
+      : null;
+    const output = path.resolve(outDir, `${sources.name}.${extension}`);
+    const summaryPath = path.resolve(outDir, `${sources.name}.summary.json`);
+    const key = process.platform === "win32" ? output.toLowerCase() : output;
+    if (claimed.has(key)) {
+      results.push({
+        ...summarizeLayer({ ...EMPTY_LAYER, name: sources.name, prj: sources.prj ?? null }, options.format),
+        output: null,
+        validation,
+        error: `${output} was already written by another input with the same name; skipped.`,
+      });
+      continue;
+    }
+    claimed.add(key);
+    let layer: ShapefileLayer = { ...EMPTY_LAYER, name: sources.name, prj: sources.prj ?? null };
+    let written: string | null = null;
+    let error: string | undefined;
+
+    try {
+      if (files.some((file) => path.resolve(file) === output)) {
+        throw new Error(`Refusing to overwrite the input ${output}; pass --out-dir.`);
+      }
+      layer = readShapefile(sources, { encoding: options.encoding });
+      if (!layer.table && options.format !== "geojson") {
+        throw new Error(`"${sources.name}" has no .dbf; only GeoJSON can be written from geometry alone.`);
+      }
+      const blob = await exportTable(
+        options.format,
+        {
+          fields: layer.table?.fields ?? [],
+          records: layer.table?.records ?? [],
+          features: layer.features,
+          name: sources.name,
+          encoding: layer.table?.encoding,
+        },
+        { bom: options.bom, dbfEncoding: options.dbfEncoding },
+      );
+      await mkdir(outDir, { recursive: true });
+      await writeFile(output, new Uint8Array(await blob.arrayBuffer()));
+      if (options.format === "dbf") {
+        // The header cannot name every code page, so the sidecar says which one.
+        const cpg = cpgFor(options.dbfEncoding ?? layer.table?.encoding ?? "utf-8");
+        await writeFile(path.resolve(outDir, `${sources.name}.cpg`), cpg);
+      }
+      written = output;
+    } catch (cause) {
+      error = cause instanceof Error ? cause.message : String(cause);
+    }
+
+    const result: FileResult = {
+      ...summarizeLayer(layer, options.format),
+      output: written,
+      validation,
+      ...(error ? { error } : {}),
+    };
+    await mkdir(outDir, { recursive: true });
+    await writeFile(summaryPath, `${JSON.stringify(result, null, 2)}\n`);
+    results.push(result);
+  }
+  return results;
+}
+
+/** Runs the converter on `argv` (without the node and script paths) and returns the exit status. */
+export async function main(argv: string[]) {
+  let options: ReturnType<typeof parseOptions>;
+  try {
+    options = parseOptions(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    return 2;
+  }
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  let groups: Awaited<ReturnType<typeof resolveInputs>>;
+  try {
+    groups = await resolveInputs(options.inputs);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 2;
+  }
+
+  let failed = 0;
+  const claimed = new Set<string>();
+  for (const group of groups) {
+    let results: FileResult[];
+    try {
+      results = await convertGroup(group, options, claimed);
+    } catch (error) {
+      failed += 1;
+      console.error(`✗ ${group.files.join(", ")}: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+
+    for (const result of results) {
+      const problems = result.validation?.issues.filter((issue) => issue.severity === "error") ?? [];
+      if (result.error || problems.length) failed += 1;
+      if (result.error) {
+        console.error(`✗ ${result.fileName}: ${result.error}`);
+      } else {
+        console.log(
+          `${problems.length ? "!" : "✓"} ${result.fileName} → ${result.output} (${result.parsedRecords} rows, ${
+            result.encoding ?? "no table"
+          })`,
+        );
+      }
+      for (const issue of problems) {
+        console.error(`    ${issue.code}: ${issue.message}`);
+      }
+    }
+  }
+
+  return failed ? 1 : 0;
+}
+
+// Only run when started as a script, so tests can import `main`.
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (error) => {
+      console.error(error);
+      process.exitCode = 1;
+    },
+  );
+}
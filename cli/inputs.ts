@@ -0,0 +1,128 @@
+import { readdir, stat } from "node:fs/promises";
+import path from "node:path";
+
+/** Files a conversion starts from; sidecars are picked up next to them. */
+const ANCHOR_EXTENSIONS = new Set([".dbf", ".shp", ".zip"]);
+const SIDECAR_EXTENSIONS = new Set([".dbf", ".shp", ".shx", ".prj", ".cpg", ".dbt", ".fpt"]);
+const GLOB_CHARS = /[*?[]/;
+
+export type InputGroup = {
+  /** Directory the outputs go to unless `--out-dir` is given. */
+  directory: string;
+  /**
+   * `directory` relative to the directory or glob base it was found under
+   * ("" for files named directly), mirrored under `--out-dir`.
+   */
+  relativeDir: string;
+  /** Paths read together: one zip, or a layer's .dbf/.shp plus its sidecars. */
+  files: string[];
+};
+
+function globToRegExp(pattern: string) {
+  let source = "";
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (char === "*" && pattern[index + 1] === "*") {
+      const slash = pattern[index + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      index += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", index);
+      if (end < 0) {
+        source += "\\[";
+        continue;
+      }
+      source += `[${pattern.slice(index + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+      index = end;
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, process.platform === "win32" ? "i" : "");
+}
+
+async function walk(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) files.push(...(await walk(fullPath)));
+    else if (entry.isFile()) files.push(fullPath);
+  }
+  return files;
+}
+
+async function expandGlob(pattern: string) {
+  const normalized = pattern.split(path.sep).join("/");
+  const segments = normalized.split("/");
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  const base = segments.slice(0, firstGlob).join("/") || ".";
+  const matcher = globToRegExp(segments.slice(firstGlob).join("/"));
+  const files = await walk(base);
+  return {
+    base,
+    files: files.filter((file) => matcher.test(path.relative(base, file).split(path.sep).join("/"))),
+  };
+}
+
+const isAnchor = (file: string) => ANCHOR_EXTENSIONS.has(path.extname(file).toLowerCase());
+const layerKey = (file: string) =>
+  path.join(path.dirname(file), path.basename(file, path.extname(file))).toLowerCase();
+
+/**
+ * Resolves files, directories (searched recursively) and glob patterns into
+ * conversion groups. A layer's `.dbf` and `.shp` land in the same group, with
+ * whatever `.cpg`/`.prj`/memo files sit beside them.
+ */
+export async function resolveInputs(patterns: string[]): Promise<InputGroup[]> {
+  // Each anchor maps to the root it was found under; the first pattern wins.
+  const anchors = new Map<string, string>();
+  const add = (file: string, root: string) => {
+    const anchor = path.resolve(file);
+    if (!anchors.has(anchor)) anchors.set(anchor, path.resolve(root));
+  };
+  for (const pattern of patterns) {
+    if (GLOB_CHARS.test(pattern)) {
+      const { base, files } = await expandGlob(pattern);
+      const matches = files.filter(isAnchor);
+      if (!matches.length) throw new Error(`No .dbf, .shp or .zip files match "${pattern}".`);
+      matches.forEach((file) => add(file, base));
+      continue;
+    }
+
+    const info = await stat(pattern).catch(() => null);
+    if (!info) throw new Error(`"${pattern}" does not exist.`);
+    if (info.isDirectory()) {
+      (await walk(pattern)).filter(isAnchor).forEach((file) => add(file, pattern));
+    } else {
+      add(pattern, path.dirname(pattern));
+    }
+  }
+
+  const groups = new Map<string, InputGroup>();
+  const listings = new Map<string, string[]>();
+  for (const anchor of [...anchors.keys()].sort()) {
+    const root = anchors.get(anchor) ?? path.dirname(anchor);
+    const directory = path.dirname(anchor);
+    const relativeDir = path.relative(root, directory);
+    if (path.extname(anchor).toLowerCase() === ".zip") {
+      groups.set(anchor, { directory, relativeDir, files: [anchor] });
+      continue;
+    }
+
+    const key = layerKey(anchor);
+    if (groups.has(key)) continue;
+    if (!listings.has(directory)) {
+      listings.set(directory, (await readdir(directory)).map((name) => path.join(directory, name)));
+    }
+    const files = (listings.get(directory) ?? []).filter(
+      (file) => layerKey(file) === key && SIDECAR_EXTENSIONS.has(path.extname(file).toLowerCase()),
+    );
+    groups.set(key, { directory, relativeDir, files });
+  }
+  return [...groups.values()];
+}
@@ -0,0 +1,92 @@
+import { mkdtemp, readdir, rm, utimes } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { CachedUpstreamResponse, DiskCache, createDiskCache, normalizeCacheUrl } from "./diskCache";
+
+const ORIGIN = "https://www.govmap.gov.il";
+const rules = [{ prefix: "/api/real-estate/", ttlMs: 60_000, staleMs: 60_000 }];
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "govmap-cache-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function response(pathAndQuery: string, body = "[]"): CachedUpstreamResponse {
+  return {
+    url: `${ORIGIN}${pathAndQuery}`,
+    status: 200,
+    headers: { "content-type": "application/json" },
+    body: Buffer.from(body),
+    storedAt: Date.now(),
+  };
+}
+
+const entries = async () => (await readdir(dir)).filter((name) => name.endsWith(".json"));
+
+/** Writes an entry and backdates its file, since pruning goes by modification time. */
+async function writeAged(cache: DiskCache, name: string, secondsAgo: number) {
+  const before = new Set(await entries());
+  await cache.write(response(`/api/real-estate/${name}`));
+  const file = (await entries()).find((entry) => !before.has(entry))!;
+  const time = Date.now() / 1000 - secondsAgo;
+  await utimes(path.join(dir, file), time, time);
+}
+
+describe("normalizeCacheUrl", () => {
+  it("sorts the query", () => {
+    expect(normalizeCacheUrl(new URL(`${ORIGIN}/api/real-estate/deals?b=1&a=2`))).toBe(
+      `${ORIGIN}/api/real-estate/deals?a=2&b=1`,
+    );
+    expect(normalizeCacheUrl(new URL(`${ORIGIN}/api/real-estate/deals?`))).toBe(
+      `${ORIGIN}/api/real-estate/deals`,
+    );
+  });
+});
+
+describe("createDiskCache", () => {
+  it("reads back what it wrote under any query order", async () => {
+    const cache = createDiskCache({ dir, rules });
+    await cache.write(response("/api/real-estate/deals?a=1&b=2", '{"deals":[]}'));
+    const stored = await cache.read(new URL(`${ORIGIN}/api/real-estate/deals?b=2&a=1`));
+    expect(stored?.body.toString()).toBe('{"deals":[]}');
+    expect(stored?.headers).toEqual({ "content-type": "application/json" });
+    expect(await cache.read(new URL(`${ORIGIN}/api/real-estate/deals?a=2`))).toBeNull();
+  });
+
+  it("picks the rule for a path prefix", () => {
+    const cache = createDiskCache({ dir, rules });
+    expect(cache.ruleFor(new URL(`${ORIGIN}/api/real-estate/deals`))).toBe(rules[0]);
+    expect(cache.ruleFor(new URL(`${ORIGIN}/api/layers`))).toBeNull();
+  });
+
+  it("prunes the oldest entries beyond maxEntries", async () => {
+    const cache = createDiskCache({ dir, rules, maxEntries: 2 });
+    await writeAged(cache, "a", 30);
+    await writeAged(cache, "b", 20);
+    await cache.write(response("/api/real-estate/c"));
+    expect(await entries()).toHaveLength(2);
+    expect(await cache.read(new URL(`${ORIGIN}/api/real-estate/a`))).toBeNull();
+    expect(await cache.read(new URL(`${ORIGIN}/api/real-estate/b`))).not.toBeNull();
+  });
+
+  it("prunes entries older than any rule would serve", async () => {
+    const cache = createDiskCache({ dir, rules });
+    await writeAged(cache, "old", 3600);
+    await cache.write(response("/api/real-estate/new"));
+    expect(await cache.read(new URL(`${ORIGIN}/api/real-estate/old`))).toBeNull();
+    expect(await entries()).toHaveLength(1);
+  });
+
+  it("clears every entry", async () => {
+    const cache = createDiskCache({ dir, rules });
+    await cache.write(response("/api/real-estate/deals"));
+    await cache.clear();
+    expect(await cache.read(new URL(`${ORIGIN}/api/real-estate/deals`))).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/** TTL and stale window for upstream paths under `prefix`. */
+export type DiskCacheRule = { prefix: string; ttlMs: number; staleMs: number };
+
+export type DiskCacheOptions = {
+  dir: string;
+  rules?: DiskCacheRule[];
+  /** Oldest entries beyond this count are pruned on each write. */
+  maxEntries?: number;
+};
+
+export type CachedUpstreamResponse = {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer;
+  storedAt: number;
+};
+
+const MINUTE = 60_000;
+const DEFAULT_MAX_ENTRIES = 1000;
+
+export const DEFAULT_CACHE_RULES: DiskCacheRule[] = [
+  { prefix: "/api/real-estate/", ttlMs: 10 * MINUTE, staleMs: 60 * MINUTE },
+];
+
+/** Path plus sorted query, so `?b=1&a=2` and `?a=2&b=1` share an entry. */
+export function normalizeCacheUrl(url: URL) {
+  const params = [...url.searchParams.entries()].sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+  return `${url.origin}${url.pathname}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Upstream responses kept as one JSON file per URL under `dir`. Writes go
+ * through a temporary file and a rename, so readers never see half an entry.
+ * Each write prunes entries no rule would still serve and, past `maxEntries`,
+ * the oldest ones.
+ */
+export function createDiskCache({
+  dir,
+  rules = DEFAULT_CACHE_RULES,
+  maxEntries = DEFAULT_MAX_ENTRIES,
+}: DiskCacheOptions) {
+  const fileFor = (url: URL) =>
+    path.join(dir, `${createHash("sha256").update(normalizeCacheUrl(url)).digest("hex")}.json`);
+  const maxAgeMs = Math.max(0, ...rules.map((rule) => rule.ttlMs + rule.staleMs));
+
+  const prune = async () => {
+    const names = (await readdir(dir)).filter((name) => name.endsWith(".json"));
+    const entries = await Promise.all(
+      names.map(async (name) => {
+        const file = path.join(dir, name);
+        // A concurrent prune may already have removed it.
+        const storedAt = await stat(file).then(
+          (info) => info.mtimeMs,
+          () => null,
+        );
+        return { file, storedAt };
+      }),
+    );
+    const now = Date.now();
+    const live = entries
+      .filter((entry): entry is { file: string; storedAt: number } => entry.storedAt !== null)
+      .sort((a, b) => b.storedAt - a.storedAt);
+    const expired = live.filter(
+      (entry, index) => index >= maxEntries || now - entry.storedAt > maxAgeMs,
+    );
+    await Promise.all(expired.map((entry) => rm(entry.file, { force: true })));
+  };
+
+  return {
+    ruleFor: (url: URL) => rules.find((rule) => url.pathname.startsWith(rule.prefix)) ?? null,
+    read: async (url: URL): Promise<CachedUpstreamResponse | null> => {
+      try {
+        const stored = JSON.parse(await readFile(fileFor(url), "utf8"));
+        return { ...stored, body: Buffer.from(stored.body, "base64") };
+      } catch {
+        return null;
+      }
+    },
+    write: async (entry: CachedUpstreamResponse) => {
+      const file = fileFor(new URL(entry.url));
+      const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await mkdir(dir, { recursive: true });
+      await writeFile(temporary, JSON.stringify({ ...entry, body: entry.body.toString("base64") }));
+      await rename(temporary, file);
+      await prune();
+    },
+    clear: () => rm(dir, { recursive: true, force: true }),
+  };
+}
+
+export type DiskCache = ReturnType<typeof createDiskCache>;
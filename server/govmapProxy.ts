@@ -0,0 +1,235 @@
+import type {
+  IncomingHttpHeaders,
+  IncomingMessage,
+  OutgoingHttpHeaders,
+  ServerResponse,
+} from "node:http";
+import type { CachedUpstreamResponse, DiskCache } from "./diskCache";
+
+export type GovmapProxyOptions = {
+  /** Origin requests are forwarded to. */
+  upstream?: string;
+  /** Public path prefix stripped before forwarding, as the Vite dev proxy does. */
+  prefix?: string;
+  /** Upstream path prefixes that may be reached; anything else gets a 403. */
+  allowedPaths?: string[];
+  timeoutMs?: number;
+  /** Keeps successful GET answers on disk; absent means every request goes upstream. */
+  cache?: DiskCache;
+};
+
+export type CacheResult = "HIT" | "STALE" | "MISS" | "BYPASS";
+
+/** What the access log records about a forwarded request. */
+export type ProxyOutcome = {
+  upstreamUrl?: string;
+  upstreamStatus?: number;
+  upstreamMs?: number;
+  cache?: CacheResult;
+  error?: string;
+};
+
+export const DEFAULT_UPSTREAM = "https://www.govmap.gov.il";
+export const DEFAULT_PREFIX = "/api/govmap";
+export const DEFAULT_ALLOWED_PATHS = ["/api/real-estate/"];
+export const DEFAULT_PROXY_TIMEOUT_MS = 15000;
+
+const FORWARDED_METHODS = ["GET", "HEAD"];
+/**
+ * Request headers passed upstream. Cookies, auth and forwarding headers stay
+ * behind, and Accept-Encoding is left to fetch, which decompresses what it asks for.
+ */
+const REQUEST_HEADERS = [
+  "accept",
+  "accept-language",
+  "if-none-match",
+  "if-modified-since",
+  "user-agent",
+];
+/** Response headers passed back; hop-by-hop, cookie and encoding headers are dropped. */
+const RESPONSE_HEADERS = ["content-type", "cache-control", "etag", "last-modified", "expires"];
+
+export function sanitizeRequestHeaders(headers: IncomingHttpHeaders) {
+  const forwarded: Record<string, string> = {};
+  for (const name of REQUEST_HEADERS) {
+    const value = headers[name];
+    if (typeof value === "string") forwarded[name] = value;
+  }
+  return forwarded;
+}
+
+export function sanitizeResponseHeaders(headers: Headers) {
+  const kept: Record<string, string> = {};
+  for (const name of RESPONSE_HEADERS) {
+    const value = headers.get(name);
+    if (value !== null) kept[name] = value;
+  }
+  return kept;
+}
+
+/**
+ * The upstream URL for a proxied path, or null when it falls outside the
+ * allow-list. Dot segments are resolved first so `..` cannot climb out of an
+ * allowed prefix.
+ */
+export function resolveUpstreamUrl(
+  pathAndQuery: string,
+  upstream: string,
+  allowedPaths: string[],
+): URL | null {
+  let url: URL;
+  try {
+    url = new URL(
+      `${new URL(upstream).origin}${pathAndQuery.startsWith("/") ? "" : "/"}${pathAndQuery}`,
+    );
+  } catch {
+    return null;
+  }
+  if (url.origin !== new URL(upstream).origin) return null;
+  return allowedPaths.some((prefix) => url.pathname.startsWith(prefix)) ? url : null;
+}
+
+/** A request that asks to skip caches, as the playground's "bypass cache" toggle sends. */
+function wantsFresh(headers: IncomingHttpHeaders) {
+  return /no-cache|no-store/.test(`${headers["cache-control"] ?? ""} ${headers.pragma ?? ""}`);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  const text = JSON.stringify(body);
+  res.writeHead(status, {
+    "content-type": "application/json; charset=utf-8",
+    "content-length": Buffer.byteLength(text),
+    "cache-control": "no-store",
+  });
+  res.end(text);
+}
+
+/**
+ * Forwards `prefix`-ed requests to GovMap; `handles` says which requests
+ * those are. `forward` resolves with what happened, for the access log.
+ */
+export function createGovmapProxy(options: GovmapProxyOptions = {}) {
+  const upstream = options.upstream ?? DEFAULT_UPSTREAM;
+  const prefix = options.prefix ?? DEFAULT_PREFIX;
+  const allowedPaths = options.allowedPaths ?? DEFAULT_ALLOWED_PATHS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_PROXY_TIMEOUT_MS;
+
+  const revalidating = new Set<string>();
+
+  const fetchUpstream = async (
+    url: URL,
+    method: string,
+    headers: Record<string, string>,
+    signal: AbortSignal,
+  ): Promise<CachedUpstreamResponse> => {
+    const response = await fetch(url, {
+      method,
+      headers,
+      redirect: "manual",
+      signal,
+    });
+    return {
+      url: url.href,
+      status: response.status,
+      headers: sanitizeResponseHeaders(response.headers),
+      body: Buffer.from(await response.arrayBuffer()),
+      storedAt: Date.now(),
+    };
+  };
+
+  /** Refreshes a stale entry after it was served; the client is not kept waiting. */
+  const revalidate = (url: URL, cache: DiskCache) => {
+    if (revalidating.has(url.href)) return;
+    revalidating.add(url.href);
+    fetchUpstream(url, "GET", {}, AbortSignal.timeout(timeoutMs))
+      .then((response) => (response.status === 200 ? cache.write(response) : undefined))
+      .catch((error) => console.error(`Revalidating ${url.href} failed`, error))
+      .finally(() => revalidating.delete(url.href));
+  };
+
+  const handles = (path: string) =>
+    path === prefix || path.startsWith(`${prefix}/`) || path.startsWith(`${prefix}?`);
+
+  const forward = async (req: IncomingMessage, res: ServerResponse): Promise<ProxyOutcome> => {
+    const path = req.url ?? "/";
+    if (!FORWARDED_METHODS.includes(req.method ?? "")) {
+      res.setHeader("allow", FORWARDED_METHODS.join(", "));
+      sendJson(res, 405, { error: `${req.method} is not forwarded to GovMap.` });
+      return { error: "method not allowed" };
+    }
+    const url = resolveUpstreamUrl(path.slice(prefix.length), upstream, allowedPaths);
+    if (!url) {
+      sendJson(res, 403, { error: "This GovMap path is not on the proxy's allow-list." });
+      return { error: "path not allowed" };
+    }
+
+    const { cache } = options;
+    const rule = cache && req.method === "GET" ? cache.ruleFor(url) : null;
+    const outcome: ProxyOutcome = { upstreamUrl: url.href };
+    const send = (response: CachedUpstreamResponse, result?: CacheResult) => {
+      const headers: OutgoingHttpHeaders = {
+        ...response.headers,
+        "content-length": response.body.byteLength,
+        "x-content-type-options": "nosniff",
+      };
+      if (result) {
+        headers["x-cache"] = result;
+        headers.age = String(Math.round((Date.now() - response.storedAt) / 1000));
+      }
+      res.writeHead(response.status, headers);
+      res.end(req.method === "HEAD" ? undefined : response.body);
+    };
+
+    if (cache && rule && !wantsFresh(req.headers)) {
+      const cached = await cache.read(url);
+      const ageMs = cached ? Date.now() - cached.storedAt : Infinity;
+      if (cached && ageMs <= rule.ttlMs + rule.staleMs) {
+        outcome.cache = ageMs > rule.ttlMs ? "STALE" : "HIT";
+        if (outcome.cache === "STALE") revalidate(url, cache);
+        send(cached, outcome.cache);
+        return outcome;
+      }
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error("timeout")), timeoutMs);
+    const onClose = () => controller.abort(new Error("client closed"));
+    res.on("close", onClose);
+    const started = performance.now();
+    try {
+      const response = await fetchUpstream(
+        url,
+        req.method ?? "GET",
+        sanitizeRequestHeaders(req.headers),
+        controller.signal,
+      );
+      outcome.upstreamStatus = response.status;
+      outcome.upstreamMs = Math.round(performance.now() - started);
+      if (cache && rule) {
+        outcome.cache = wantsFresh(req.headers) ? "BYPASS" : "MISS";
+        if (response.status === 200) {
+          await cache.write(response).catch((error) => console.error("Cache write failed", error));
+        }
+      }
+      send(response, outcome.cache);
+    } catch (error) {
+      outcome.upstreamMs = Math.round(performance.now() - started);
+      const reason = controller.signal.reason as Error | undefined;
+      if (reason?.message === "client closed") {
+        outcome.error = "client closed";
+      } else if (reason?.message === "timeout") {
+        outcome.error = "upstream timeout";
+        sendJson(res, 504, { error: `GovMap did not answer within ${timeoutMs} ms.` });
+      } else {
+        outcome.error = error instanceof Error ? error.message : String(error);
+        sendJson(res, 502, { error: "GovMap could not be reached." });
+      }
+    } finally {
+      clearTimeout(timer);
+      res.off("close", onClose);
+    }
+    return outcome;
+  };
+
+  return { handles, forward };
+}
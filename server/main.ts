@@ -0,0 +1,47 @@
+/**
+ * Serves the built playground and forwards /api/govmap to GovMap, so the
+ * street-deals explorer works outside `vite dev`. Configured through the
+ * environment:
+ *
+ *   PORT, HOST              Listen address (default 4173 on 0.0.0.0, as vite.config.ts)
+ *   DIST_DIR                Built app to serve (default ./dist)
+ *   GOVMAP_UPSTREAM         Origin to forward to (default https://www.govmap.gov.il)
+ *   GOVMAP_ALLOWED_PATHS    Comma-separated upstream path prefixes (default /api/real-estate/)
+ *   GOVMAP_TIMEOUT_MS       Upstream timeout (default 15000)
+ *   GOVMAP_CACHE_DIR        Where upstream answers are cached (default ./.cache/govmap;
+ *                           "off" disables the cache)
+ *
+ * Point GOVMAP_UPSTREAM at a local stub to exercise the proxy offline;
+ * server/stubUpstream.ts is the one server.test.ts uses.
+ */
+import path from "node:path";
+import { createDiskCache } from "./diskCache";
+import { DEFAULT_ALLOWED_PATHS, DEFAULT_PROXY_TIMEOUT_MS, DEFAULT_UPSTREAM } from "./govmapProxy";
+import { HEALTH_PATH, createPlaygroundServer } from "./server";
+
+const port = Number(process.env.PORT) || 4173;
+const host = process.env.HOST || "0.0.0.0";
+const allowedPaths = (process.env.GOVMAP_ALLOWED_PATHS ?? "")
+  .split(",")
+  .map((item) => item.trim())
+  .filter(Boolean);
+
+const cacheDir = process.env.GOVMAP_CACHE_DIR || ".cache/govmap";
+
+const server = createPlaygroundServer({
+  distDir: path.resolve(process.env.DIST_DIR || "dist"),
+  proxy: {
+    upstream: process.env.GOVMAP_UPSTREAM || DEFAULT_UPSTREAM,
+    allowedPaths: allowedPaths.length ? allowedPaths : DEFAULT_ALLOWED_PATHS,
+    timeoutMs: Number(process.env.GOVMAP_TIMEOUT_MS) || DEFAULT_PROXY_TIMEOUT_MS,
+    cache: cacheDir === "off" ? undefined : createDiskCache({ dir: path.resolve(cacheDir) }),
+  },
+});
+
+server.listen(port, host, () => {
+  console.error(`Playground on http://${host}:${port} (health: ${HEALTH_PATH})`);
+});
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.once(signal, () => server.close(() => process.exit(0)));
+}
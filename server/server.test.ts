@@ -0,0 +1,135 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DiskCache, createDiskCache } from "./diskCache";
+import { AccessLogEntry, createPlaygroundServer } from "./server";
+import { StubUpstream, startStubUpstream } from "./stubUpstream";
+
+const DEALS_PATH = "/api/real-estate/street-deals/6638-108";
+const TTL_MS = 60_000;
+
+let stub: StubUpstream;
+let server: Server;
+let cache: DiskCache;
+let dir: string;
+let base: string;
+let logs: AccessLogEntry[];
+
+beforeEach(async () => {
+  stub = await startStubUpstream();
+  dir = await mkdtemp(path.join(tmpdir(), "govmap-proxy-"));
+  cache = createDiskCache({
+    dir: path.join(dir, "cache"),
+    rules: [{ prefix: "/api/real-estate/", ttlMs: TTL_MS, staleMs: TTL_MS }],
+  });
+  logs = [];
+  server = createPlaygroundServer({
+    distDir: dir,
+    proxy: { upstream: stub.origin, timeoutMs: 100, cache },
+    log: (entry) => logs.push(entry),
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/govmap`;
+});
+
+afterEach(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  await stub.close();
+  await rm(dir, { recursive: true, force: true });
+});
+
+/** Polls for work the proxy does after answering, such as revalidation. */
+async function eventually(done: () => boolean | Promise<boolean>) {
+  for (let tries = 0; tries < 100 && !(await done()); tries += 1) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe("GovMap proxy", () => {
+  it("forwards an allowed GET with only the safe request headers", async () => {
+    const response = await fetch(`${base}${DEALS_PATH}?limit=5`, {
+      headers: { accept: "application/json", cookie: "secret=1", authorization: "Bearer x" },
+    });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ path: `${DEALS_PATH}?limit=5`, served: 1 });
+    expect(response.headers.get("set-cookie")).toBeNull();
+    expect(stub.requests[0].headers).toMatchObject({ accept: "application/json" });
+    expect(stub.requests[0].headers).not.toHaveProperty("cookie");
+    expect(stub.requests[0].headers).not.toHaveProperty("authorization");
+  });
+
+  it("refuses paths off the allow-list with 403", async () => {
+    for (const rejected of ["/api/layers/secret", "/api/real-estate/../layers/secret"]) {
+      const response = await fetch(`${base}${rejected}`);
+      expect(response.status).toBe(403);
+    }
+    expect(stub.requests).toHaveLength(0);
+    expect(logs.map((entry) => entry.error)).toEqual(["path not allowed", "path not allowed"]);
+  });
+
+  it("refuses methods other than GET and HEAD with 405", async () => {
+    const response = await fetch(`${base}${DEALS_PATH}`, { method: "POST", body: "{}" });
+    expect(response.status).toBe(405);
+    expect(response.headers.get("allow")).toBe("GET, HEAD");
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it("answers 504 when the upstream is slower than the timeout", async () => {
+    stub.delayMs = 500;
+    const response = await fetch(`${base}${DEALS_PATH}`);
+    expect(response.status).toBe(504);
+    expect(await response.json()).toEqual({ error: "GovMap did not answer within 100 ms." });
+    expect(logs[0]).toMatchObject({ route: "proxy", status: 504, error: "upstream timeout" });
+  });
+});
+
+describe("GovMap proxy cache", () => {
+  it("misses, then hits without going upstream", async () => {
+    const first = await fetch(`${base}${DEALS_PATH}`);
+    expect(first.headers.get("x-cache")).toBe("MISS");
+    expect(await first.json()).toMatchObject({ served: 1 });
+
+    const second = await fetch(`${base}${DEALS_PATH}`);
+    expect(second.headers.get("x-cache")).toBe("HIT");
+    expect(await second.json()).toMatchObject({ served: 1 });
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it("serves a stale entry at once and refreshes it in the background", async () => {
+    const url = new URL(`${stub.origin}${DEALS_PATH}`);
+    const storedAt = Date.now() - TTL_MS - 1000;
+    await cache.write({
+      url: url.href,
+      status: 200,
+      headers: { "content-type": "application/json" },
+      body: Buffer.from(JSON.stringify({ served: 0 })),
+      storedAt,
+    });
+
+    const stale = await fetch(`${base}${DEALS_PATH}`, { headers: { accept: "text/plain" } });
+    expect(stale.headers.get("x-cache")).toBe("STALE");
+    expect(await stale.json()).toEqual({ served: 0 });
+
+    await eventually(() => stub.requests.length > 0);
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0]).toMatchObject({ method: "GET", path: DEALS_PATH });
+    expect(stub.requests[0].headers).not.toHaveProperty("accept", "text/plain");
+    await eventually(async () => (await cache.read(url))?.storedAt !== storedAt);
+    const fresh = await fetch(`${base}${DEALS_PATH}`);
+    expect(fresh.headers.get("x-cache")).toBe("HIT");
+    expect(await fresh.json()).toMatchObject({ served: 1 });
+  });
+
+  it("goes upstream when the client asks for a fresh answer", async () => {
+    await fetch(`${base}${DEALS_PATH}`);
+    const bypass = await fetch(`${base}${DEALS_PATH}`, {
+      headers: { "cache-control": "no-cache" },
+    });
+    expect(bypass.headers.get("x-cache")).toBe("BYPASS");
+    expect(await bypass.json()).toMatchObject({ served: 2 });
+  });
+});
@@ -0,0 +1,84 @@
+import { createServer } from "node:http";
+import { GovmapProxyOptions, ProxyOutcome, createGovmapProxy } from "./govmapProxy";
+import { createStaticHandler } from "./staticFiles";
+
+/** One line of the access log, written as JSON. */
+export type AccessLogEntry = {
+  time: string;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  /** Written to the socket for this response, headers included. */
+  bytes: number;
+  route: "proxy" | "static" | "health";
+  remote?: string;
+} & ProxyOutcome;
+
+export type PlaygroundServerOptions = {
+  /** Directory of the built app (`vite build` output). */
+  distDir: string;
+  proxy?: GovmapProxyOptions;
+  log?: (entry: AccessLogEntry) => void;
+};
+
+export const HEALTH_PATH = "/healthz";
+
+const writeLogLine = (entry: AccessLogEntry) => console.log(JSON.stringify(entry));
+
+/** The production server: health check, GovMap proxy, then the static app. */
+export function createPlaygroundServer({
+  distDir,
+  proxy: proxyOptions,
+  log = writeLogLine,
+}: PlaygroundServerOptions) {
+  const proxy = createGovmapProxy(proxyOptions);
+  const serveStatic = createStaticHandler(distDir);
+  const startedAt = Date.now();
+
+  return createServer(async (req, res) => {
+    const started = performance.now();
+    const bytesBefore = req.socket.bytesWritten;
+    const remote = req.socket.remoteAddress;
+    const path = req.url ?? "/";
+    const route: AccessLogEntry["route"] =
+      path.split("?")[0] === HEALTH_PATH ? "health" : proxy.handles(path) ? "proxy" : "static";
+    let outcome: ProxyOutcome = {};
+
+    try {
+      if (route === "health") {
+        const body = JSON.stringify({
+          status: "ok",
+          uptimeS: Math.round((Date.now() - startedAt) / 1000),
+        });
+        res.writeHead(200, {
+          "content-type": "application/json",
+          "content-length": Buffer.byteLength(body),
+          "cache-control": "no-store",
+        });
+        res.end(body);
+      } else if (route === "proxy") {
+        outcome = await proxy.forward(req, res);
+      } else if (!(await serveStatic(req, res))) {
+        res.writeHead(404, { "content-type": "text/plain; charset=utf-8", "content-length": 9 });
+        res.end("Not found");
+      }
+    } catch (error) {
+      outcome = { error: error instanceof Error ? error.message : String(error) };
+      if (!res.headersSent) res.writeHead(500, { "content-type": "text/plain; charset=utf-8" });
+      res.end();
+    } finally {
+      log({
+        time: new Date().toISOString(),
+        method: req.method ?? "",
+        path,
+        status: res.statusCode,
+        durationMs: Math.round(performance.now() - started),
+        bytes: req.socket.bytesWritten - bytesBefore,
+        route,
+        remote,
+        ...outcome,
+      });
+    }
+  });
+}
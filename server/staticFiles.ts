@@ -0,0 +1,71 @@
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import path from "node:path";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".geojson": "application/geo+json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".ico": "image/x-icon",
+  ".woff2": "font/woff2",
+  ".wasm": "application/wasm",
+  ".txt": "text/plain; charset=utf-8",
+};
+
+async function fileAt(root: string, urlPath: string) {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(urlPath);
+  } catch {
+    return null;
+  }
+  const filePath = path.join(root, path.normalize(decoded));
+  if (filePath !== root && !filePath.startsWith(`${root}${path.sep}`)) return null;
+  try {
+    const info = await stat(filePath);
+    return info.isFile() ? { filePath, size: info.size } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serves the built app from `root`. Paths without a file fall back to
+ * index.html so client-side routes load; hashed /assets/ files are cached for
+ * a year, everything else is revalidated.
+ */
+export function createStaticHandler(root: string) {
+  const base = path.resolve(root);
+
+  return async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+    if (req.method !== "GET" && req.method !== "HEAD") return false;
+    const urlPath = new URL(req.url ?? "/", "http://localhost").pathname;
+    const file =
+      (urlPath.endsWith("/") ? null : await fileAt(base, urlPath)) ??
+      (path.extname(urlPath) ? null : await fileAt(base, "/index.html"));
+    if (!file) return false;
+
+    res.writeHead(200, {
+      "content-type": CONTENT_TYPES[path.extname(file.filePath)] ?? "application/octet-stream",
+      "content-length": file.size,
+      "cache-control": urlPath.startsWith("/assets/")
+        ? "public, max-age=31536000, immutable"
+        : "no-cache",
+      "x-content-type-options": "nosniff",
+    });
+    if (req.method === "HEAD") {
+      res.end();
+      return true;
+    }
+    await new Promise<void>((resolve, reject) => {
+      createReadStream(file.filePath).on("error", reject).on("end", resolve).pipe(res);
+    });
+    return true;
+  };
+}
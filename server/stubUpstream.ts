@@ -0,0 +1,54 @@
+import { IncomingHttpHeaders, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/** A request the stub received. */
+export type StubRequest = { method: string; path: string; headers: IncomingHttpHeaders };
+
+export type StubUpstream = {
+  /** Origin to pass as the proxy's `upstream`. */
+  origin: string;
+  requests: StubRequest[];
+  /** Delay before each answer; raise it past the proxy timeout to get a 504. */
+  delayMs: number;
+  close: () => Promise<void>;
+};
+
+/**
+ * A stand-in for GovMap's REST API on a free local port. Every path answers
+ * 200 with JSON naming the path and how many requests came before it, so a
+ * test can tell a cached answer from a fresh one.
+ */
+export async function startStubUpstream(): Promise<StubUpstream> {
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  const server = createServer((req, res) => {
+    const request = { method: req.method ?? "", path: req.url ?? "/", headers: req.headers };
+    stub.requests.push(request);
+    const body = JSON.stringify({ path: request.path, served: stub.requests.length });
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      res.writeHead(200, {
+        "content-type": "application/json",
+        "content-length": Buffer.byteLength(body),
+        etag: `"${stub.requests.length}"`,
+        "set-cookie": "session=stub",
+      });
+      res.end(req.method === "HEAD" ? undefined : body);
+    }, stub.delayMs);
+    timers.add(timer);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const stub: StubUpstream = {
+    origin: `http://127.0.0.1:${port}`,
+    requests: [],
+    delayMs: 0,
+    close: () =>
+      new Promise((resolve) => {
+        timers.forEach(clearTimeout);
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+  return stub;
+}
@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import App from "./App";
+import { createFakeGovmapRuntime, seededRandom } from "./govmap/fakeRuntime";
+import type { FakeGovmapOptions } from "./govmap/fakeRuntime";
+
+function installFake(options: FakeGovmapOptions = {}) {
+  window.govmap = createFakeGovmapRuntime({
+    latencyMs: 0,
+    jitterMs: 5,
+    random: seededRandom(42),
+    ...options,
+  });
+}
+
+const mapStatus = () => screen.getByText("Map status:").parentElement as HTMLElement;
+const logText = () => document.querySelector(".log-box")?.textContent ?? "";
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  delete window.govmap;
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("App against the fake runtime", () => {
+  it("builds the map and draws the fixture layers", async () => {
+    installFake();
+    render(<App />);
+    await waitFor(() => expect(within(mapStatus()).getByText("ready")).toBeTruthy());
+    expect(document.querySelector("#govmap-stage svg")).not.toBeNull();
+    expect(logText()).toMatch(/Map revived \(layers: SUB_GUSH_ALL, PARCEL_ALL/);
+  });
+
+  it("rebuilds the map when the defaults are reloaded", async () => {
+    installFake();
+    render(<App />);
+    await waitFor(() => expect(within(mapStatus()).getByText("ready")).toBeTruthy());
+    fireEvent.click(screen.getByRole("button", { name: "Reload defaults" }));
+    await waitFor(() => expect(logText().match(/Map revived/g)).toHaveLength(2));
+    expect(logText()).toMatch(/Reset configuration back to defaults/);
+  });
+
+  it("reports a refused token as a map error", async () => {
+    installFake({ authFailure: true });
+    render(<App />);
+    await waitFor(() => expect(within(mapStatus()).getByText("error")).toBeTruthy());
+    expect(screen.getByText("Map failed to load.")).toBeTruthy();
+  });
+
+  it("runs getLayerEntities and shows the fixture features", async () => {
+    installFake();
+    render(<App />);
+    await waitFor(() => expect(within(mapStatus()).getByText("ready")).toBeTruthy());
+    fireEvent.change(screen.getByPlaceholderText("1=1"), { target: { value: "1=1" } });
+    fireEvent.click(screen.getByRole("button", { name: "Run method" }));
+    await waitFor(() => expect(logText()).toMatch(/Playground: getLayerEntities executed/));
+    expect(screen.getByText(/Payload: .*layer_215978/)).toBeTruthy();
+    expect(screen.getByText(/GovMap calls: getLayerEntities/)).toBeTruthy();
+  });
+
+  it("shows the error when the runtime fails the call", async () => {
+    installFake();
+    render(<App />);
+    await waitFor(() => expect(within(mapStatus()).getByText("ready")).toBeTruthy());
+    window.govmap = createFakeGovmapRuntime({ latencyMs: 0, jitterMs: 0, failureRate: 1 });
+    fireEvent.click(screen.getByRole("button", { name: "Run method" }));
+    await waitFor(() => expect(logText()).toMatch(/Playground failed \(getLayerEntities\)/));
+    expect(document.querySelector("p.error")?.textContent).toMatch(
+      /Simulated getLayerEntities failure/,
+    );
+  });
+
+  it("keeps street-deals runs in history and diffs their deals by id", async () => {
+    installFake();
+    const answers = [
+      {
+        data: [
+          { dealId: "a", price: 1 },
+          { dealId: "b", price: 2 },
+        ],
+      },
+      {
+        data: [
+          { dealId: "b", price: 3 },
+          { dealId: "a", price: 1 },
+        ],
+      },
+    ];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(JSON.stringify(answers.shift()), { status: 200 })),
+    );
+    render(<App />);
+    fireEvent.click(screen.getAllByLabelText("Bypass response cache")[0]);
+    fireEvent.change(screen.getByLabelText("Lot"), { target: { value: "6638" } });
+    fireEvent.change(screen.getByLabelText("Parcel"), { target: { value: "108" } });
+    const submit = screen.getByRole("button", { name: "Fetch street deals" });
+    fireEvent.click(submit);
+    await waitFor(() => expect(logText()).toMatch(/Street deals fetched for 6638-108/));
+    fireEvent.click(submit);
+    await waitFor(() => expect(screen.getAllByTitle("Compare")).toHaveLength(2));
+    screen.getAllByTitle("Compare").forEach((box) => fireEvent.click(box));
+    expect(screen.getByText("1 result difference")).toBeTruthy();
+    expect(screen.getByText(/data\[dealId="b"\]\.price: 2 → 3/)).toBeTruthy();
+  });
+});
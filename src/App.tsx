@@ -7,13 +7,123 @@ import {
   useRef,
   useState,
 } from "react";
+import BulkDealLookup from "./BulkDealLookup";
+import CallMetrics from "./CallMetrics";
+import DbfPreview from "./DbfPreview";
+import DealStats from "./DealStats";
+import PlaygroundForm from "./PlaygroundForm";
+import PlaygroundHistory from "./PlaygroundHistory";
+import RequestCollections from "./RequestCollections";
+import { fakeGovmapSettings } from "./govmap/fakeSettings";
+import {
+  GovmapCallMetric,
+  GovmapMapOptions,
+  GovmapRuntime,
+  byteSize,
+  createGovmapClient,
+  loadGovmapScript,
+} from "./govmap/govmapClient";
+import type { BulkLookupOptions } from "./govmap/bulkDeals";
+import { dealRow, normalizeDeal } from "./govmap/deals";
+import { formatBytes } from "./govmap/metrics";
+import {
+  GOVMAP_ORIGIN,
+  StreetDealsQuery,
+  StreetDealsResult,
+  StreetDealsStop,
+  collectStreetDeals,
+  dealsOf,
+  fetchStreetDeals,
+  streetDealsPath,
+  streetDealsResourceId,
+} from "./govmap/streetDeals";
+import {
+  GovmapSession,
+  GovmapSessionCall,
+  ReplayOutcome,
+  createReplayRuntime,
+  createSessionRecorder,
+  parseSession,
+  replaySession,
+  serializeSession,
+  snapshot,
+} from "./govmap/session";
 import "./index.css";
-import { convertDbfToCsv } from "./utils/dbf";
+import { PLAYGROUND_METHODS, findPlaygroundMethod } from "./playground/methods";
+import {
+  ParamError,
+  ParamValidationError,
+  convertCoordinateParams,
+  coordinateKeys,
+  defaultParams,
+  hasCoordinateParams,
+  prepareMethodCall,
+} from "./playground/registry";
+import { DBF_ENCODINGS, DbfEncoding } from "./utils/codepages";
+import {
+  PlaygroundRequest,
+  RequestCollection,
+  SavedRequest,
+  StreetDealsRequest,
+  clashingNames,
+  mergeCollections,
+  parseCollections,
+  serializeCollections,
+} from "./utils/collections";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportSource,
+  exportTable,
+  getExportFormat,
+} from "./utils/exporters";
+import { DbfSummary, summarizeDbf, summarizeLayer } from "./utils/dbfSummary";
+import { DbfValidationReport, validateDbf } from "./utils/dbfValidate";
+import { buildColorScale, planFeatureDisplay } from "./utils/featureDisplay";
+import {
+  geometryArea,
+  geometryLength,
+  geometryPerimeter,
+  parseGeometry,
+  toWkt,
+  validateGeometry,
+} from "./utils/geometry";
+import {
+  extractResultFeatures,
+  objectsToTable,
+  resultFeaturesToTable,
+} from "./utils/featureResults";
+import { geometryBbox } from "./utils/geojson";
+import { formatDifference } from "./utils/jsonDiff";
+import { memoFormatFromFileName } from "./utils/memo";
+import { CacheStatus, createResponseCache, describeCacheStatus, formatAge } from "./utils/responseCache";
+import { HistoryEntry, createRunHistory } from "./utils/runHistory";
+import {
+  COORDINATE_SYSTEMS,
+  GOVMAP_SRID,
+  Srid,
+  getCoordinateSystem,
+  isSupportedSrid,
+  transformGeometry,
+  transformPosition,
+  transformWkt,
+} from "./utils/projection";
+import { ShapefileLayer, collectShapefileSources, readShapefile } from "./utils/shapefile";
+import type { TableViewState } from "./utils/tableView";
+import {
+  DbfWorkerJob,
+  DbfWorkerJobRequest,
+  DbfWorkerProgress,
+  startDbfWorkerJob,
+} from "./workers/dbfConvertClient";
 
 
 declare global {
   interface Window {
-    govmap?: any
+    showSaveFilePicker?: (options?: {
+      suggestedName?: string;
+      types?: { description?: string; accept: Record<string, string[]> }[];
+    }) => Promise<FileSystemFileHandle>;
   }
 }
 
@@ -21,49 +131,8 @@ type MapConfig = any
 
 type MapStatus = "idle" | "initializing" | "ready" | "error";
 
-type StreetDealsResult = {
-  upstreamUrl: string;
-  status: number;
-  ok: boolean;
-  data: unknown;
-};
-
-type DbfSummary = {
-  fileName: string;
-  declaredRecords: number;
-  parsedRecords: number;
-  fields: number;
-  headerLength: number;
-  recordLength: number;
-};
-
-type PlaygroundMethodId =
-  | "getLayerEntities"
-  | "getEntities"
-  | "identify"
-  | "zoomToGeometry"
-  | "getLayerExtent"
-  | "custom";
-
-type PlaygroundFieldType = "text" | "number" | "textarea";
-
-type PlaygroundField = {
-  key: string;
-  label: string;
-  type: PlaygroundFieldType;
-  placeholder?: string;
-  helper?: string;
-};
-
-type PlaygroundMethod = {
-  id: PlaygroundMethodId;
-  label: string;
-  description: string;
-  fields: PlaygroundField[];
-};
-
 type PlaygroundRun = {
-  methodId: PlaygroundMethodId;
+  methodId: string;
   methodName: string;
   payload: unknown;
   result: unknown;
@@ -71,25 +140,49 @@ type PlaygroundRun = {
   startedAt: number;
   endedAt: number;
   note?: string;
+  /** Raw GovMap calls the run made, with every progress chunk. */
+  calls?: GovmapSessionCall[];
+  timing?: PlaygroundTiming;
+  cache?: CacheStatus | null;
 };
 
-type PlaygroundHistoryItem = {
-  id: string;
-  methodId: PlaygroundMethodId;
-  methodName: string;
-  payloadPreview: string;
-  success: boolean;
-  timestamp: number;
+type PlaygroundTiming = {
+  durationMs: number;
+  /** Until GovMap's first progress update, for methods that report progress. */
+  firstChunkMs?: number;
+  requestBytes: number;
+  responseBytes: number;
 };
 
-const GOVMAP_SCRIPT_URL = "https://www.govmap.gov.il/govmap/api/govmap.api.js";
+const STREET_DEALS_STOPS: Record<StreetDealsStop, string> = {
+  exhausted: "all pages fetched",
+  "max-pages": "stopped at the page limit",
+  "no-new-deals": "stopped when a page brought no new deals",
+  cancelled: "cancelled",
+};
+/** Page cap per pair in a bulk lookup, so one busy parcel cannot stall the list. */
+const BULK_MAX_PAGES = 5;
+
 const MAP_ELEMENT_ID = "govmap-stage";
+/** Rows a streamed DBF conversion sends back for the preview unless every row is asked for. */
+const DBF_PREVIEW_ROWS = 1000;
 const MAX_LOGS = 40;
 const PLAYGROUND_STORAGE_KEY = "govmap-playground";
-const METHOD_HISTORY_MAX = 10;
+const COLLECTIONS_STORAGE_KEY = "govmap-playground-collections";
+const PLAYGROUND_HISTORY_MAX = 500;
 const DEFAULT_ACTIVE_LAYER = "layer_215978";
 const ENV_GOVMAP_TOKEN = import.meta.env.VITE_GOVMAP_TOKEN ?? "";
+const FAKE_GOVMAP = fakeGovmapSettings();
 const PLAYGROUND_TIMEOUT_MS = 8000;
+const METRICS_MAX = 2000;
+/** GovMap methods the playground calls, listed in the metrics panel before their first call. */
+const METRIC_METHODS = [
+  "getLayerEntities",
+  "getEntities",
+  "identifyByXYAndLayer",
+  "displayGeometries",
+  "getLayerData",
+];
 const DEFAULT_LAYERS = ["SUB_GUSH_ALL", "PARCEL_ALL", "layer_215978", "nadlan"];
 
 const defaultConfig: MapConfig = {
@@ -128,13 +221,18 @@ function summarizePayload(payload: unknown, limit = 220) {
   return raw.length > limit ? `${raw.slice(0, limit)}...` : raw;
 }
 
-function withTimeout<T>(promise: Promise<T>, label: string, ms = PLAYGROUND_TIMEOUT_MS) {
-  return Promise.race<T>([
-    promise,
-    new Promise<T>((_, reject) =>
-      setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms. Check token/auth.`)), ms),
-    ),
-  ]);
+function formatPosition([x, y]: number[], srid: Srid) {
+  const { axes, precision } = getCoordinateSystem(srid);
+  return `${axes[0]} ${x.toFixed(precision)}, ${axes[1]} ${y.toFixed(precision)}`;
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
 }
 
 function App() {
@@ -157,31 +255,97 @@ function App() {
   const [streetDealsError, setStreetDealsError] = useState<string | null>(null);
   const [streetDealsData, setStreetDealsData] =
     useState<StreetDealsResult | null>(null);
-  const [dbfFile, setDbfFile] = useState<File | null>(null);
-  const [dbfCsvUrl, setDbfCsvUrl] = useState<string | null>(null);
+  const [streetDealsCache, setStreetDealsCache] = useState<CacheStatus | null>(null);
+  const [streetDealsFetchAll, setStreetDealsFetchAll] = useState(false);
+  const [streetDealsMaxPages, setStreetDealsMaxPages] = useState("20");
+  const [streetDealsProgress, setStreetDealsProgress] = useState<string | null>(null);
+  const [streetDealsView, setStreetDealsView] = useState<"deals" | "json">("deals");
+  const streetDealsAbortRef = useRef<AbortController | null>(null);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [dbfFiles, setDbfFiles] = useState<File[]>([]);
+  const [dbfEncoding, setDbfEncoding] = useState<DbfEncoding | "auto">("auto");
+  const [dbfOutputEncoding, setDbfOutputEncoding] = useState<DbfEncoding | "source">("source");
+  const [dbfFormat, setDbfFormat] = useState<Exclude<ExportFormat, "geojson">>("csv");
+  const [dbfExportUrl, setDbfExportUrl] = useState<string | null>(null);
+  const [dbfGeoJsonUrl, setDbfGeoJsonUrl] = useState<string | null>(null);
   const [dbfSummary, setDbfSummary] = useState<DbfSummary | null>(null);
   const [dbfError, setDbfError] = useState<string | null>(null);
   const [dbfBusy, setDbfBusy] = useState(false);
+  const [dbfLayer, setDbfLayer] = useState<ShapefileLayer | null>(null);
+  const [dbfTable, setDbfTable] = useState<ExportSource | null>(null);
+  const [dbfValidation, setDbfValidation] = useState<
+    (DbfValidationReport & { fileName: string }) | null
+  >(null);
+  const [dbfColorField, setDbfColorField] = useState("");
+  const [dbfLabelField, setDbfLabelField] = useState("");
+  const [dbfMapProgress, setDbfMapProgress] = useState<string | null>(null);
+  const [dbfProgress, setDbfProgress] = useState<DbfWorkerProgress | null>(null);
+  const [dbfSaveToDisk, setDbfSaveToDisk] = useState(false);
+  const [dbfKeepAllRows, setDbfKeepAllRows] = useState(false);
+  const dbfJobRef = useRef<DbfWorkerJob | null>(null);
+  /** What the last streamed conversion read, so "export view" can read it again. */
+  const dbfStreamSourceRef = useRef<Pick<DbfWorkerJobRequest, "file" | "cpg" | "memo" | "encoding"> | null>(null);
   const [activeLayerName, setActiveLayerName] = useState(DEFAULT_ACTIVE_LAYER);
-  const [selectedMethod, setSelectedMethod] = useState<PlaygroundMethodId>("getLayerEntities");
-  const [methodParams, setMethodParams] = useState<Record<PlaygroundMethodId, Record<string, unknown>>>({
-    getLayerEntities: { layerName: DEFAULT_ACTIVE_LAYER, where: "" },
-    getEntities: { layerName: DEFAULT_ACTIVE_LAYER, objectIds: "" },
-    identify: { x: 200000, y: 630000, level: 12 },
-    zoomToGeometry: {
-      wkt: "POLYGON((199900 630000,199950 630050,199900 630100,199850 630050,199900 630000))",
-      srid: 2039,
-      color: "#de3b8a",
-      name: "wkt-geometry",
-    },
-    getLayerExtent: { layerName: DEFAULT_ACTIVE_LAYER },
-    custom: { methodName: "getLayerEntities", rawPayload: '{ "layerName": "nadlan" }' },
-  });
+  const [selectedMethod, setSelectedMethod] = useState(PLAYGROUND_METHODS[0].id);
+  const [coordinateSrid, setCoordinateSrid] = useState<Srid>(GOVMAP_SRID);
+  const [methodParams, setMethodParams] = useState<Record<string, Record<string, unknown>>>(() =>
+    Object.fromEntries(PLAYGROUND_METHODS.map((method) => [method.id, defaultParams(method)])),
+  );
+  const [paramErrors, setParamErrors] = useState<ParamError[]>([]);
   const [playgroundResult, setPlaygroundResult] = useState<PlaygroundRun | null>(null);
   const [playgroundError, setPlaygroundError] = useState<string | null>(null);
   const [playgroundBusy, setPlaygroundBusy] = useState(false);
-  const [playgroundHistory, setPlaygroundHistory] = useState<PlaygroundHistoryItem[]>([]);
+  const [resultView, setResultView] = useState<"table" | "json">("table");
+  const [resultSelectedRow, setResultSelectedRow] = useState<number | null>(null);
+  const [playgroundHistory, setPlaygroundHistory] = useState<HistoryEntry[]>([]);
+  const [callMetrics, setCallMetrics] = useState<GovmapCallMetric[]>([]);
+  const [methodTimeouts, setMethodTimeouts] = useState<Record<string, number>>({});
+  const [collections, setCollections] = useState<RequestCollection[]>(() => {
+    try {
+      const stored = localStorage.getItem(COLLECTIONS_STORAGE_KEY);
+      return stored ? parseCollections(stored, { keepIds: true }) : [];
+    } catch (error) {
+      console.warn("Failed to restore request collections", error);
+      return [];
+    }
+  });
+  const [sessionRecording, setSessionRecording] = useState(false);
+  const [sessionCallCount, setSessionCallCount] = useState(0);
+  const [loadedSession, setLoadedSession] = useState<GovmapSession | null>(null);
+  const [sessionAnswering, setSessionAnswering] = useState(false);
+  const [replayOutcomes, setReplayOutcomes] = useState<ReplayOutcome[]>([]);
+  const [replayBusy, setReplayBusy] = useState(false);
+  const [sessionError, setSessionError] = useState<string | null>(null);
   const isFirstRender = useRef(true);
+  const runHistory = useMemo(() => createRunHistory({ maxEntries: PLAYGROUND_HISTORY_MAX }), []);
+  // Fake-runtime answers must never be served in place of live ones, so they get their own store.
+  const responseCache = useMemo(
+    () => createResponseCache({ dbName: `govmap-playground-cache${FAKE_GOVMAP ? "-fake" : ""}` }),
+    [],
+  );
+  const replayRuntime = useRef<GovmapRuntime | null>(null);
+  const methodTimeoutsRef = useRef(methodTimeouts);
+  methodTimeoutsRef.current = methodTimeouts;
+  /** Metrics of the playground run in flight, if any. */
+  const runMetrics = useRef<GovmapCallMetric[] | null>(null);
+  const sessionRecorder = useMemo(
+    () => createSessionRecorder(() => window.govmap, { source: FAKE_GOVMAP ? "fake" : "live" }),
+    [],
+  );
+  const govmap = useMemo(
+    () =>
+      createGovmapClient({
+        target: MAP_ELEMENT_ID,
+        timeoutMs: PLAYGROUND_TIMEOUT_MS,
+        timeoutFor: (method) => methodTimeoutsRef.current[method],
+        onMetric: (metric) => {
+          runMetrics.current?.push(metric);
+          setCallMetrics((prev) => [...prev, metric].slice(-METRICS_MAX));
+        },
+        runtime: () => replayRuntime.current ?? sessionRecorder.runtime(),
+      }),
+    [sessionRecorder],
+  );
 
   useEffect(() => {
     try {
@@ -189,16 +353,22 @@ function App() {
       if (!stored) return;
       const parsed = JSON.parse(stored) as {
         activeLayer?: string;
-        selectedMethod?: PlaygroundMethodId;
-        methodParams?: Record<PlaygroundMethodId, Record<string, unknown>>;
-        history?: PlaygroundHistoryItem[];
+        selectedMethod?: string;
+        methodParams?: Record<string, Record<string, unknown>>;
+        coordinateSrid?: number;
+        timeouts?: Record<string, number>;
       };
       if (parsed.activeLayer) setActiveLayerName(parsed.activeLayer);
-      if (parsed.selectedMethod) setSelectedMethod(parsed.selectedMethod);
+      if (parsed.selectedMethod && findPlaygroundMethod(parsed.selectedMethod)) {
+        setSelectedMethod(parsed.selectedMethod);
+      }
+      if (parsed.coordinateSrid && isSupportedSrid(parsed.coordinateSrid)) {
+        setCoordinateSrid(parsed.coordinateSrid);
+      }
       if (parsed.methodParams) {
         setMethodParams((prev) => ({ ...prev, ...parsed.methodParams }));
       }
-      if (parsed.history) setPlaygroundHistory(parsed.history);
+      if (parsed.timeouts) setMethodTimeouts(parsed.timeouts);
     } catch (error) {
       console.warn("Failed to restore playground state", error);
     }
@@ -210,13 +380,35 @@ function App() {
         activeLayer: activeLayerName,
         selectedMethod,
         methodParams,
-        history: playgroundHistory,
+        coordinateSrid,
+        timeouts: methodTimeouts,
       };
       localStorage.setItem(PLAYGROUND_STORAGE_KEY, JSON.stringify(payload));
     } catch (error) {
       console.warn("Failed to persist playground state", error);
     }
-  }, [activeLayerName, methodParams, playgroundHistory, selectedMethod]);
+  }, [activeLayerName, coordinateSrid, methodParams, methodTimeouts, selectedMethod]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(COLLECTIONS_STORAGE_KEY, serializeCollections(collections));
+    } catch (error) {
+      console.warn("Failed to persist request collections", error);
+    }
+  }, [collections]);
+
+  useEffect(() => {
+    runHistory
+      .list()
+      .then((stored) =>
+        // Runs made while the store was opening are already in state; keep them first.
+        setPlaygroundHistory((prev) => [
+          ...prev,
+          ...stored.filter((entry) => !prev.some((item) => item.id === entry.id)),
+        ]),
+      )
+      .catch((error) => console.warn("Failed to restore playground history", error));
+  }, [runHistory]);
 
   const appendLog = useCallback((message: string) => {
     setLogs((prev) => {
@@ -228,43 +420,20 @@ function App() {
   const ensureScript = useCallback(() => {
     if (typeof window === "undefined" || scriptStatus !== "idle") return;
     setScriptStatus("loading");
-
-    const existing = document.querySelector<HTMLScriptElement>(
-      `script[src="${GOVMAP_SCRIPT_URL}"]`,
-    );
-
-    const markReady = () => {
-      setScriptStatus("ready");
-      appendLog("GovMap API script loaded.");
-    };
-
-    if (existing) {
-      if (window.govmap) {
-        markReady();
-      } else {
-        existing.addEventListener("load", markReady, { once: true });
-        existing.addEventListener(
-          "error",
-          () => {
-            setScriptStatus("error");
-            appendLog("Failed to load existing GovMap script tag.");
-          },
-          { once: true },
+    loadGovmapScript().then(
+      () => {
+        setScriptStatus("ready");
+        appendLog(
+          FAKE_GOVMAP
+            ? `Fake GovMap runtime installed (latency ${FAKE_GOVMAP.latencyMs}ms, failure rate ${FAKE_GOVMAP.failureRate}).`
+            : "GovMap API script loaded.",
         );
-      }
-      return;
-    }
-
-    const script = document.createElement("script");
-    script.src = GOVMAP_SCRIPT_URL;
-    script.async = true;
-    script.defer = true;
-    script.onload = markReady;
-    script.onerror = () => {
-      setScriptStatus("error");
-      appendLog("Failed to download GovMap API script.");
-    };
-    document.body.appendChild(script);
+      },
+      (error) => {
+        setScriptStatus("error");
+        appendLog(error instanceof Error ? error.message : "Failed to download GovMap API script.");
+      },
+    );
   }, [appendLog, scriptStatus]);
 
   useEffect(() => {
@@ -273,15 +442,15 @@ function App() {
 
   const teardownMap = useCallback(() => {
     try {
-      window.govmap?.dispose?.(MAP_ELEMENT_ID);
+      govmap.dispose();
     } catch (error) {
       console.error("Failed to dispose GovMap instance", error);
     }
-  }, []);
+  }, [govmap]);
 
   const rebuildMap = useCallback(
     async (config?: MapConfig, overrideLayers?: string[]) => {
-      if (!window.govmap) {
+      if (!govmap.isLoaded()) {
         appendLog("GovMap global is not ready yet.");
         return;
       }
@@ -292,7 +461,7 @@ function App() {
       const nextConfig = config ?? appliedConfig;
       const nextLayers = overrideLayers ?? layers;
 
-      const payload: Record<string, unknown> = {
+      const payload: GovmapMapOptions = {
         token: nextConfig.token || undefined,
         // visibleLayers:nextLayers,
         layers: nextLayers,
@@ -308,7 +477,7 @@ function App() {
       console.log("payload", payload);
       
       try {
-        await window.govmap.createMap(MAP_ELEMENT_ID, payload);
+        await govmap.createMap(payload);
         setMapStatus("ready");
         appendLog(
           `Map revived (layers: ${nextLayers.join(", ") || "none"}, level ${
@@ -321,7 +490,7 @@ function App() {
         appendLog("Failed to create GovMap iframe. Check console for details.");
       }
     },
-    [appliedConfig, appendLog, layers, teardownMap],
+    [appliedConfig, appendLog, govmap, layers, teardownMap],
   );
 
   useEffect(() => {
@@ -376,191 +545,513 @@ function App() {
     }
   }, [streetDealsData]);
 
-  const playgroundMethods = useMemo<PlaygroundMethod[]>(
-    () => [
-      {
-        id: "getLayerEntities",
-        label: "getLayerEntities",
-        description: "Fetch all entities for a layer (supports where/paging).",
-        fields: [
-          { key: "layerName", label: "Layer name", type: "text", placeholder: "nadlan" },
-          { key: "where", label: "Where clause", type: "text", placeholder: "1=1" },
-          { key: "pageNumber", label: "Page number", type: "number", placeholder: "1" },
-          { key: "pageSize", label: "Page size", type: "number", placeholder: "500" },
-        ],
-      },
-      {
-        id: "getEntities",
-        label: "getEntities",
-        description: "Try govmap.getEntities if available; falls back to getLayerEntities.",
-        fields: [
-          { key: "layerName", label: "Layer name", type: "text", placeholder: "nadlan" },
-          {
-            key: "objectIds",
-            label: "Object IDs (comma separated)",
-            type: "text",
-            placeholder: "12345,12346",
-          },
-        ],
-      },
-      {
-        id: "identify",
-        label: "identifyByXYAndLayer",
-        description: "Run identify for X/Y against a layer at the current zoom level.",
-        fields: [
-          { key: "x", label: "X (TM Grid)", type: "number", placeholder: "200000" },
-          { key: "y", label: "Y (TM Grid)", type: "number", placeholder: "630000" },
-          { key: "level", label: "Zoom level", type: "number", placeholder: "12" },
-          { key: "layerName", label: "Layer name", type: "text", placeholder: "nadlan" },
-        ],
-      },
-      {
-        id: "zoomToGeometry",
-        label: "zoomToGeometry (displayGeometries)",
-        description: "Display WKT on the map (uses displayGeometries under the hood).",
-        fields: [
-          {
-            key: "wkt",
-            label: "WKT geometry",
-            type: "textarea",
-            placeholder: "POLYGON((...))",
-          },
-          { key: "srid", label: "SRID", type: "number", placeholder: "2039" },
-          { key: "color", label: "Color", type: "text", placeholder: "#de3b8a" },
-          { key: "name", label: "Name", type: "text", placeholder: "test-geometry" },
-        ],
-      },
-      {
-        id: "getLayerExtent",
-        label: "getLayerExtent (via getLayerData)",
-        description: "Fetch layer metadata/extent using getLayerData.",
-        fields: [{ key: "layerName", label: "Layer name", type: "text", placeholder: "nadlan" }],
-      },
-      {
-        id: "custom",
-        label: "Custom method",
-        description: "Call any window.govmap method with raw JSON payload.",
-        fields: [
-          { key: "methodName", label: "Method name", type: "text", placeholder: "getLayerEntities" },
+  const dbfDownloadBase = useMemo(() => {
+    if (!dbfSummary) return "dbf-export";
+    return dbfSummary.fileName.replace(/\.dbf$/i, "") || "dbf-export";
+  }, [dbfSummary]);
+  const dbfDownloadName = `${dbfDownloadBase}.${getExportFormat(dbfSummary?.format ?? "csv").extension}`;
+
+  const currentMethod = findPlaygroundMethod(selectedMethod) ?? PLAYGROUND_METHODS[0];
+
+  const handleCoordinateSridChange = useCallback(
+    (nextSrid: Srid) => {
+      setMethodParams((prev) => {
+        const next = { ...prev };
+        for (const method of PLAYGROUND_METHODS) {
+          if (!hasCoordinateParams(method) || !prev[method.id]) continue;
+          next[method.id] = convertCoordinateParams(method, prev[method.id], coordinateSrid, nextSrid);
+        }
+        return next;
+      });
+      setCoordinateSrid(nextSrid);
+    },
+    [coordinateSrid],
+  );
+
+  const mapCenter = [Number(appliedConfig.centerX), Number(appliedConfig.centerY)];
+
+  /** The current X/Y in every other system, so values can be cross-checked or shared. */
+  const coordinateReadout = useMemo(() => {
+    const params = methodParams[currentMethod.id] ?? {};
+    const keys = coordinateKeys(currentMethod);
+    if (!keys || params[keys.x] === "" || params[keys.y] === "") return null;
+    const position = [Number(params[keys.x]), Number(params[keys.y])];
+    if (!position.every(Number.isFinite)) return null;
+    try {
+      const [lon, lat] = transformPosition(position, coordinateSrid, 4326);
+      return {
+        conversions: COORDINATE_SYSTEMS.filter((system) => system.srid !== coordinateSrid).map((system) => ({
+          label: system.label,
+          text: formatPosition(transformPosition(position, coordinateSrid, system.srid), system.srid),
+        })),
+        googleMapsUrl: `https://www.google.com/maps/search/?api=1&query=${lat.toFixed(7)},${lon.toFixed(7)}`,
+      };
+    } catch (error) {
+      return null;
+    }
+  }, [coordinateSrid, currentMethod, methodParams]);
+
+  /** Parses and measures the current WKT field so typos show up before GovMap swallows them. */
+  const geometryReadout = useMemo(() => {
+    const key = Object.keys(currentMethod.params).find((name) => currentMethod.params[name].kind === "wkt");
+    const text = key ? String((methodParams[currentMethod.id] ?? {})[key] ?? "").trim() : "";
+    if (!text) return null;
+    try {
+      const parsed = parseGeometry(text);
+      const inputSrid = parsed.srid ?? coordinateSrid;
+      const issues = [...parsed.warnings, ...validateGeometry(parsed.geometry, { srid: inputSrid })];
+      let metric = parsed.geometry;
+      if (inputSrid !== GOVMAP_SRID && isSupportedSrid(inputSrid)) {
+        metric = parseGeometry(transformWkt(toWkt(parsed.geometry), inputSrid, GOVMAP_SRID)).geometry;
+      }
+      const measures = [
+        ["area", geometryArea(metric), "m²"],
+        ["perimeter", geometryPerimeter(metric), "m"],
+        ["length", geometryLength(metric), "m"],
+      ] as const;
+      return {
+        summary: [
+          parsed.geometry.type,
+          ...measures
+            .filter(([, value]) => value > 0)
+            .map(
+              ([label, value, unit]) =>
+                `${label} ${value.toLocaleString(undefined, { maximumFractionDigits: 1 })} ${unit}`,
+            ),
+        ].join(" · "),
+        issues,
+      };
+    } catch (error) {
+      return {
+        summary: null,
+        issues: [
           {
-            key: "rawPayload",
-            label: "Raw payload (JSON)",
-            type: "textarea",
-            placeholder: '{ "layerName": "nadlan" }',
-            helper: "Leave empty to send undefined.",
+            severity: "error" as const,
+            where: "",
+            message: error instanceof Error ? error.message : String(error),
           },
         ],
-      },
-    ],
-    [],
-  );
-
-  const dbfDownloadName = useMemo(() => {
-    if (!dbfSummary) return "dbf-export.csv";
-    const base = dbfSummary.fileName.replace(/\.dbf$/i, "") || "dbf-export";
-    return `${base}.csv`;
-  }, [dbfSummary]);
+      };
+    }
+  }, [coordinateSrid, currentMethod, methodParams]);
 
-  const currentMethod = useMemo(
-    () => playgroundMethods.find((item) => item.id === selectedMethod) ?? playgroundMethods[0],
-    [playgroundMethods, selectedMethod],
+  useEffect(
+    () => () => {
+      if (dbfExportUrl) {
+        URL.revokeObjectURL(dbfExportUrl);
+      }
+    },
+    [dbfExportUrl],
   );
 
   useEffect(
     () => () => {
-      if (dbfCsvUrl) {
-        URL.revokeObjectURL(dbfCsvUrl);
+      if (dbfGeoJsonUrl) {
+        URL.revokeObjectURL(dbfGeoJsonUrl);
       }
     },
-    [dbfCsvUrl],
+    [dbfGeoJsonUrl],
   );
 
-  const handleStreetDealsCall = useCallback(
-    async (event: FormEvent<HTMLFormElement>) => {
-      event.preventDefault();
-      const { lot, parcel, limit, offset } = streetDealsForm;
+  /** One street-deals page through the response cache; pages share entries with single fetches. */
+  const fetchStreetDealsCached = useCallback(
+    (
+      query: StreetDealsQuery,
+      options: {
+        signal?: AbortSignal;
+        onRevalidate?: (fresh: StreetDealsResult, status: CacheStatus) => void;
+        /** False when pages are paced by a rate limiter the background refresh would skip. */
+        revalidate?: boolean;
+      } = {},
+    ) =>
+      responseCache.fetch(
+        "street-deals",
+        {
+          resourceId: streetDealsResourceId(query),
+          limit: query.limit?.toString(),
+          offset: query.offset?.toString(),
+        },
+        () => fetchStreetDeals(query, { bypassCache, signal: options.signal }),
+        { bypass: bypassCache, onRevalidate: options.onRevalidate, revalidate: options.revalidate },
+      ),
+    [bypassCache, responseCache],
+  );
+
+  const recordRun = useCallback(
+    (entry: HistoryEntry) => {
+      setPlaygroundHistory((prev) => [entry, ...prev].slice(0, PLAYGROUND_HISTORY_MAX));
+      runHistory.add(entry).catch((error) => console.warn("Failed to store playground run", error));
+    },
+    [runHistory],
+  );
+
+  /**
+   * Deals for one bulk-list pair, up to BULK_MAX_PAGES pages, flagged when that cap cut
+   * them short. A cancelled run throws rather than keep partial pages.
+   */
+  const lookupParcelDeals = useCallback<BulkLookupOptions["lookup"]>(
+    async (row, signal, throttle) => {
+      const collection = await collectStreetDeals(row.gush, row.helka, {
+        maxPages: BULK_MAX_PAGES,
+        signal,
+        throttle,
+        // Stale pages are served as they are: refreshing them behind the run
+        // would send requests the shared throttle never sees.
+        fetchPage: async (query, pageSignal) =>
+          (await fetchStreetDealsCached(query, { signal: pageSignal, revalidate: false })).value,
+      });
+      signal?.throwIfAborted();
+      return { deals: collection.deals, truncated: collection.stop === "max-pages" };
+    },
+    [fetchStreetDealsCached],
+  );
+
+  const runStreetDeals = useCallback(
+    async (request: StreetDealsRequest) => {
+      const { lot, parcel, limit, offset } = request;
       if (!lot.trim() || !parcel.trim()) {
         setStreetDealsError("Lot and parcel are required.");
         return;
       }
+      const numbers = [limit, offset, streetDealsMaxPages].map((value) =>
+        value.trim() ? Number(value) : undefined,
+      );
+      if (numbers.some((value) => value !== undefined && !(Number.isInteger(value) && value >= 0))) {
+        setStreetDealsError("Limit, offset and max pages must be whole numbers.");
+        return;
+      }
+      const [limitValue, offsetValue, maxPages] = numbers;
+      const resourceId = streetDealsResourceId({ lot, parcel });
+      const payload = {
+        lot,
+        parcel,
+        limit: limitValue,
+        offset: offsetValue,
+        ...(streetDealsFetchAll ? { fetchAll: true, maxPages } : {}),
+      };
+      const methodName = streetDealsFetchAll ? "street deals (all pages)" : "street deals";
+      const startedAt = Date.now();
 
       setStreetDealsLoading(true);
       setStreetDealsError(null);
       setStreetDealsData(null);
-
-      const search = new URLSearchParams();
-      if (limit.trim()) search.set("limit", limit.trim());
-      if (offset.trim()) search.set("offset", offset.trim());
-      const queryString = search.toString();
-      const resourceId = `${lot.trim()}-${parcel.trim()}`;
-      const url = `/api/govmap/api/real-estate/street-deals/${resourceId}${
-        queryString ? `?${queryString}` : ""
-      }`;
+      setStreetDealsCache(null);
+      setStreetDealsProgress(null);
 
       try {
-        const response = await fetch(url, { cache: "no-store" });
-        const payload = await response.json();
-        if (!response.ok) {
-          throw new Error(payload?.error || "GovMap upstream error.");
+        if (streetDealsFetchAll) {
+          const controller = new AbortController();
+          streetDealsAbortRef.current = controller;
+          const collection = await collectStreetDeals(lot.trim(), parcel.trim(), {
+            pageSize: limitValue || undefined,
+            offset: offsetValue,
+            maxPages: maxPages || undefined,
+            signal: controller.signal,
+            fetchPage: async (query, signal) =>
+              (await fetchStreetDealsCached(query, { signal, revalidate: false })).value,
+            onPage: (page, deals) =>
+              setStreetDealsProgress(
+                `Page ${page.page} (offset ${page.offset}) · ${deals.length} deals so far`,
+              ),
+          });
+          const summary = `${collection.deals.length} deals from ${collection.pages} page${
+            collection.pages === 1 ? "" : "s"
+          }, ${collection.duplicates} duplicate${collection.duplicates === 1 ? "" : "s"} dropped · ${
+            STREET_DEALS_STOPS[collection.stop]
+          }`;
+          setStreetDealsProgress(summary);
+          const combined = collection.last && {
+            ...collection.last,
+            upstreamUrl: `${GOVMAP_ORIGIN}${streetDealsPath({ lot, parcel })}`,
+            data: collection.deals,
+          };
+          if (combined) setStreetDealsData(combined);
+          recordRun({
+            id: `${startedAt}-streetDeals`,
+            request,
+            methodName,
+            payload,
+            result: snapshot(combined ?? { data: collection.deals }),
+            success: true,
+            note: summary,
+            startedAt,
+            endedAt: Date.now(),
+          });
+          appendLog(`Street deals for ${resourceId}: ${summary}.`);
+          return;
         }
-        setStreetDealsData(payload as StreetDealsResult);
-        appendLog(`Street deals fetched for ${resourceId}.`);
+
+        const { value, status } = await fetchStreetDealsCached(
+          { lot, parcel, limit: limitValue, offset: offsetValue },
+          {
+            onRevalidate: (fresh, freshStatus) => {
+              setStreetDealsData((prev) => (prev?.upstreamUrl === fresh.upstreamUrl ? fresh : prev));
+              setStreetDealsCache(freshStatus);
+            },
+          },
+        );
+        setStreetDealsData(value);
+        setStreetDealsCache(status);
+        recordRun({
+          id: `${startedAt}-streetDeals`,
+          request,
+          methodName,
+          payload,
+          result: snapshot(value),
+          success: true,
+          note: status ? describeCacheStatus(status) : undefined,
+          startedAt,
+          endedAt: Date.now(),
+        });
+        appendLog(
+          `Street deals fetched for ${resourceId}${status ? ` (${describeCacheStatus(status)})` : ""}.`,
+        );
       } catch (error) {
         const message = error instanceof Error ? error.message : "Unknown error";
         setStreetDealsError(message);
+        recordRun({
+          id: `${startedAt}-streetDeals-error`,
+          request,
+          methodName,
+          payload,
+          result: undefined,
+          success: false,
+          error: message,
+          startedAt,
+          endedAt: Date.now(),
+        });
         appendLog(`Street deals request failed: ${message}`);
       } finally {
+        streetDealsAbortRef.current = null;
         setStreetDealsLoading(false);
       }
     },
+    [appendLog, fetchStreetDealsCached, recordRun, streetDealsFetchAll, streetDealsMaxPages],
+  );
+
+  const handleStreetDealsCall = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      void runStreetDeals({ kind: "streetDeals", ...streetDealsForm });
+    },
+    [runStreetDeals, streetDealsForm],
+  );
+
+  const cancelStreetDeals = useCallback(() => streetDealsAbortRef.current?.abort(), []);
+
+  const streetDeals = useMemo(() => {
+    const deals = streetDealsData ? dealsOf(streetDealsData.data) : null;
+    return deals?.length ? deals.map(normalizeDeal) : null;
+  }, [streetDealsData]);
+
+  const streetDealsTable = useMemo(
+    () => (streetDeals ? objectsToTable(streetDeals.map(dealRow), "Street deals") : null),
+    [streetDeals],
+  );
+
+  const handleStreetDealsExport = useCallback(
+    async (format: ExportFormat, view: ExportSource) => {
+      try {
+        const blob = await exportTable(format, view);
+        const resourceId = streetDealsResourceId(streetDealsForm);
+        downloadBlob(blob, `street-deals-${resourceId}.${getExportFormat(format).extension}`);
+        appendLog(`Exported ${view.records.length} street deals as ${getExportFormat(format).label}.`);
+      } catch (error) {
+        appendLog(`Street deals export failed: ${error instanceof Error ? error.message : error}`);
+      }
+    },
     [appendLog, streetDealsForm],
   );
 
   const handleDbfFileChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
-    const nextFile = event.target.files?.[0] ?? null;
-    setDbfFile(nextFile);
+    setDbfFiles(Array.from(event.target.files ?? []));
+    dbfStreamSourceRef.current = null;
     setDbfSummary(null);
+    setDbfLayer(null);
+    setDbfTable(null);
+    setDbfValidation(null);
+    setDbfMapProgress(null);
     setDbfError(null);
-    setDbfCsvUrl((prev) => {
+    setDbfExportUrl((prev) => {
+      if (prev) URL.revokeObjectURL(prev);
+      return null;
+    });
+    setDbfGeoJsonUrl((prev) => {
       if (prev) URL.revokeObjectURL(prev);
       return null;
     });
   }, []);
 
+  // Plain DBF tables can be hundreds of MB, so they are streamed through a
+  // worker instead of being loaded and converted on the main thread.
+  const convertDbfStreaming = useCallback(
+    async (file: File) => {
+      const cpgFile = dbfFiles.find((item) => /\.cpg$/i.test(item.name));
+      const memoFile = dbfFiles.find((item) => memoFormatFromFileName(item.name) !== null);
+      const memoFormat = memoFile ? memoFormatFromFileName(memoFile.name) : null;
+      const baseName = file.name.replace(/\.dbf$/i, "") || "dbf-export";
+      const format = getExportFormat(dbfFormat);
+
+      let output: FileSystemFileHandle | undefined;
+      if (dbfSaveToDisk && window.showSaveFilePicker) {
+        output = await window.showSaveFilePicker({
+          suggestedName: `${baseName}.${format.extension}`,
+          types: [
+            {
+              description: format.label,
+              accept: { [format.mimeType.split(";")[0]]: [`.${format.extension}`] },
+            },
+          ],
+        });
+      }
+
+      setDbfProgress({ bytesRead: 0, totalBytes: file.size, records: 0 });
+      const source = {
+        file,
+        cpg: cpgFile ? await cpgFile.text() : undefined,
+        memo:
+          memoFile && memoFormat
+            ? { buffer: await memoFile.arrayBuffer(), format: memoFormat }
+            : undefined,
+        encoding: dbfEncoding === "auto" ? undefined : dbfEncoding,
+      };
+      const job = startDbfWorkerJob(
+        {
+          ...source,
+          format: dbfFormat,
+          outputEncoding: dbfOutputEncoding === "source" ? undefined : dbfOutputEncoding,
+          previewRows: dbfKeepAllRows ? Infinity : DBF_PREVIEW_ROWS,
+          output,
+        },
+        setDbfProgress,
+      );
+      dbfJobRef.current = job;
+
+      try {
+        const { summary, validation, output: blob, rows } = await job.promise;
+        setDbfValidation({ fileName: file.name, ...validation });
+        if (!validation.valid) {
+          appendLog(`Validation found problems in "${file.name}"; see the report in the DBF card.`);
+        }
+        if (blob) {
+          setDbfExportUrl(URL.createObjectURL(blob));
+        }
+        dbfStreamSourceRef.current = source;
+        setDbfTable({
+          fields: summary.fields,
+          records: rows,
+          name: baseName,
+          encoding: summary.encoding,
+          totalRecords: summary.parsedRecords,
+        });
+        setDbfSummary(summarizeDbf(file.name, summary, dbfFormat));
+        appendLog(
+          `Converted DBF "${file.name}" (${summary.parsedRecords} row${
+            summary.parsedRecords === 1 ? "" : "s"
+          }, ${summary.encoding}, ${format.label}${blob ? "" : ", saved to disk"}).`,
+        );
+      } finally {
+        dbfJobRef.current = null;
+      }
+    },
+    [appendLog, dbfEncoding, dbfFiles, dbfFormat, dbfKeepAllRows, dbfOutputEncoding, dbfSaveToDisk],
+  );
+
+  const handleDbfCancel = useCallback(() => {
+    dbfJobRef.current?.cancel();
+  }, []);
+
+  useEffect(() => () => dbfJobRef.current?.cancel(), []);
+
   const handleDbfConvert = useCallback(
     async (event: FormEvent<HTMLFormElement>) => {
       event.preventDefault();
-      if (!dbfFile) {
-        setDbfError("Select a DBF file first.");
+      if (!dbfFiles.length) {
+        setDbfError("Select a DBF file, shapefile parts or a zipped shapefile first.");
         return;
       }
 
       setDbfBusy(true);
       setDbfError(null);
       setDbfSummary(null);
-      setDbfCsvUrl((prev) => {
+      setDbfLayer(null);
+      setDbfTable(null);
+      dbfStreamSourceRef.current = null;
+      setDbfValidation(null);
+      setDbfMapProgress(null);
+      setDbfProgress(null);
+      setDbfExportUrl((prev) => {
+        if (prev) URL.revokeObjectURL(prev);
+        return null;
+      });
+      setDbfGeoJsonUrl((prev) => {
         if (prev) URL.revokeObjectURL(prev);
         return null;
       });
 
       try {
-        const buffer = await dbfFile.arrayBuffer();
-        const result = convertDbfToCsv(buffer);
-        const blob = new Blob([result.csv], { type: "text/csv;charset=utf-8" });
-        const objectUrl = URL.createObjectURL(blob);
-        setDbfCsvUrl(objectUrl);
-        setDbfSummary({
-          fileName: dbfFile.name,
-          declaredRecords: result.recordCount,
-          parsedRecords: result.parsedRecords,
-          fields: result.fields.length,
-          headerLength: result.headerLength,
-          recordLength: result.recordLength,
+        const dbfOnly = dbfFiles.filter((file) => /\.dbf$/i.test(file.name));
+        const hasGeometry = dbfFiles.some((file) => /\.(shp|zip)$/i.test(file.name));
+        if (dbfOnly.length === 1 && !hasGeometry) {
+          await convertDbfStreaming(dbfOnly[0]);
+          return;
+        }
+
+        const entries = await Promise.all(
+          dbfFiles.map(async (file) => ({ name: file.name, data: await file.arrayBuffer() })),
+        );
+        const [sources, ...otherLayers] = await collectShapefileSources(entries);
+        if (!sources) {
+          throw new Error("No .dbf or .shp found in the selected files.");
+        }
+        if (otherLayers.length) {
+          appendLog(
+            `Found ${otherLayers.length + 1} layers; converting "${sources.name}" only.`,
+          );
+        }
+
+        if (sources.dbf) {
+          const validation = validateDbf(sources.dbf, {
+            encoding: dbfEncoding === "auto" ? undefined : dbfEncoding,
+            cpg: sources.cpg,
+          });
+          setDbfValidation({ fileName: `${sources.name}.dbf`, ...validation });
+          if (!validation.valid) {
+            appendLog(`Validation found problems in "${sources.name}.dbf"; see the report in the DBF card.`);
+          }
+        }
+        const layer = readShapefile(sources, {
+          encoding: dbfEncoding === "auto" ? undefined : dbfEncoding,
         });
+        const { table } = layer;
+        const source = {
+          fields: table?.fields ?? [],
+          records: table?.records ?? [],
+          features: layer.features,
+          name: sources.name,
+          encoding: table?.encoding,
+        };
+        if (table) {
+          setDbfExportUrl(
+            URL.createObjectURL(
+              await exportTable(dbfFormat, source, {
+                dbfEncoding: dbfOutputEncoding === "source" ? undefined : dbfOutputEncoding,
+              }),
+            ),
+          );
+          setDbfTable(source);
+        }
+        if (layer.shapeType) {
+          setDbfGeoJsonUrl(URL.createObjectURL(await exportTable("geojson", source)));
+        }
+        setDbfLayer(layer);
+        setDbfColorField((prev) => (table?.fields.some((field) => field.name === prev) ? prev : ""));
+        setDbfLabelField((prev) => (table?.fields.some((field) => field.name === prev) ? prev : ""));
+        setDbfSummary(summarizeLayer(layer, dbfFormat));
         appendLog(
-          `Converted DBF "${dbfFile.name}" (${result.parsedRecords} row${
-            result.parsedRecords === 1 ? "" : "s"
-          }).`,
+          `Converted "${sources.name}" (${layer.features.length} row${
+            layer.features.length === 1 ? "" : "s"
+          }${table ? `, ${table.encoding}` : ""}${layer.shapeType ? `, ${layer.shapeType}` : ""}).`,
         );
       } catch (error) {
         const message = error instanceof Error ? error.message : "Failed to parse DBF file.";
@@ -570,11 +1061,12 @@ function App() {
         setDbfBusy(false);
       }
     },
-    [appendLog, dbfFile],
+    [appendLog, convertDbfStreaming, dbfEncoding, dbfFiles, dbfFormat, dbfOutputEncoding],
   );
 
   const updateMethodParam = useCallback(
-    (methodId: PlaygroundMethodId, key: string, value: unknown) => {
+    (methodId: string, key: string, value: unknown) => {
+      setParamErrors((prev) => prev.filter((error) => error.key !== key));
       setMethodParams((prev) => ({
         ...prev,
         [methodId]: {
@@ -586,30 +1078,145 @@ function App() {
     [],
   );
 
-  const resolveProgressResult = useCallback(async (output: unknown) => {
-    if (
-      output &&
-      typeof output === "object" &&
-      "progress" in output &&
-      typeof (output as { progress?: unknown }).progress === "function"
-    ) {
-      return new Promise<unknown>((resolve) => {
-        let lastChunk: unknown = null;
-        // @ts-expect-error GovMap progress API
-        output.progress((data: unknown) => {
-          lastChunk = data;
-          if ((data as { isCompleted?: boolean })?.isCompleted) {
-            resolve(data);
+  const handleDbfExportView = useCallback(
+    async (format: ExportFormat, view: ExportSource, state: TableViewState) => {
+      setDbfBusy(true);
+      setDbfError(null);
+      const outputEncoding = dbfOutputEncoding === "source" ? undefined : dbfOutputEncoding;
+      const streamed = dbfStreamSourceRef.current;
+      // The grid holds only a sample of a streamed table, so the worker reads
+      // the whole file again and applies the same view to every row.
+      const sampled = dbfTable?.totalRecords !== undefined && dbfTable.totalRecords > dbfTable.records.length;
+      try {
+        let blob: Blob;
+        let rows = view.records.length;
+        if (sampled && streamed && format !== "geojson") {
+          setDbfProgress({ bytesRead: 0, totalBytes: streamed.file.size, records: 0 });
+          const job = startDbfWorkerJob({ ...streamed, format, outputEncoding, view: state }, setDbfProgress);
+          dbfJobRef.current = job;
+          try {
+            const result = await job.promise;
+            blob = result.output!;
+            rows = result.exportedRecords;
+          } finally {
+            dbfJobRef.current = null;
           }
+        } else {
+          blob = await exportTable(format, view, { dbfEncoding: outputEncoding });
+        }
+        downloadBlob(blob, `${dbfDownloadBase}-view.${getExportFormat(format).extension}`);
+        appendLog(
+          `Exported ${rows} row${rows === 1 ? "" : "s"} × ${view.fields.length} column${
+            view.fields.length === 1 ? "" : "s"
+          } as ${getExportFormat(format).label}.`,
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Failed to export the table.";
+        setDbfError(message);
+        appendLog(`DBF export failed: ${message}`);
+      } finally {
+        setDbfBusy(false);
+      }
+    },
+    [appendLog, dbfDownloadBase, dbfOutputEncoding, dbfTable],
+  );
+
+  const handleDbfDownloadReport = useCallback(() => {
+    if (!dbfValidation) return;
+    const blob = new Blob([safeStringify(dbfValidation)], { type: "application/json" });
+    downloadBlob(blob, `${dbfValidation.fileName.replace(/\.dbf$/i, "")}-validation.json`);
+  }, [dbfValidation]);
+
+  const handleDbfShowOnMap = useCallback(async () => {
+    if (!dbfLayer) return;
+    if (!govmap.isLoaded() || mapStatus !== "ready") {
+      setDbfError("Map is not ready yet. Wait for status 'ready'.");
+      return;
+    }
+    if (!govmap.has("displayGeometries")) {
+      setDbfError("govmap.displayGeometries is not available in this build.");
+      return;
+    }
+    let features = dbfLayer.features;
+    if (dbfLayer.srid && dbfLayer.srid !== GOVMAP_SRID) {
+      const layerSrid = dbfLayer.srid;
+      if (isSupportedSrid(layerSrid)) {
+        features = features.map((feature) =>
+          feature.geometry
+            ? { ...feature, geometry: transformGeometry(feature.geometry, layerSrid, GOVMAP_SRID) }
+            : feature,
+        );
+        appendLog(`Reprojected "${dbfLayer.name}" from EPSG:${layerSrid} to ITM for display.`);
+      } else {
+        appendLog(
+          `"${dbfLayer.name}" is in EPSG:${layerSrid}; GovMap expects ITM (EPSG:${GOVMAP_SRID}).`,
+        );
+      }
+    }
+
+    const plan = planFeatureDisplay(features, {
+      colorField: dbfColorField || undefined,
+      labelField: dbfLabelField || undefined,
+    });
+    if (!plan.batches.length) {
+      setDbfError("The converted file has no geometries to draw.");
+      return;
+    }
+
+    setDbfBusy(true);
+    setDbfError(null);
+    try {
+      let drawn = 0;
+      for (const [index, batch] of plan.batches.entries()) {
+        setDbfMapProgress(
+          `Drawing batch ${index + 1}/${plan.batches.length} (${drawn} features so far)…`,
+        );
+        await govmap.displayGeometries({
+          wkts: batch.wkts,
+          names: batch.names,
+          geometryType: govmap.drawType(batch.kind),
+          defaultSymbol: batch.symbols[0],
+          symbols: batch.symbols,
+          clearExisting: index === 0,
+          data: { tooltips: batch.tooltips },
         });
-        setTimeout(() => resolve(lastChunk ?? { message: "Request dispatched; no completion event yet." }), 1500);
-      });
+        drawn += batch.wkts.length;
+        // Give the iframe a frame to render before sending the next batch.
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+
+      if (plan.bbox) {
+        const [xmin, ymin, xmax, ymax] = plan.bbox;
+        if (govmap.has("zoomToExtent") || govmap.has("zoomToXY")) {
+          await govmap.zoomToExtent({ xmin, ymin, xmax, ymax });
+        }
+      }
+      setDbfMapProgress(
+        `Drew ${drawn} feature${drawn === 1 ? "" : "s"} in ${plan.batches.length} batch${
+          plan.batches.length === 1 ? "" : "es"
+        }${plan.skipped ? `; ${plan.skipped} without geometry skipped` : ""}.`,
+      );
+      appendLog(`Displayed ${drawn} features from "${dbfLayer.name}" on the map.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to draw features.";
+      setDbfError(message);
+      setDbfMapProgress(null);
+      appendLog(`Show on map failed: ${message}`);
+    } finally {
+      setDbfBusy(false);
     }
-    return output;
-  }, []);
+  }, [appendLog, dbfColorField, dbfLabelField, dbfLayer, govmap, mapStatus]);
+
+  const dbfLegend = useMemo(
+    () =>
+      dbfLayer && dbfColorField
+        ? buildColorScale(dbfLayer.features.map((feature) => feature.properties[dbfColorField])).legend.slice(0, 12)
+        : [],
+    [dbfColorField, dbfLayer],
+  );
 
-  const handlePlaygroundRun = useCallback(async () => {
-    if (!window.govmap) {
+  const handlePlaygroundRun = useCallback(async (rerun?: PlaygroundRequest) => {
+    if (!govmap.isLoaded()) {
       setPlaygroundError("GovMap global is not ready yet.");
       appendLog("GovMap playground: govmap is undefined.");
       return;
@@ -620,230 +1227,232 @@ function App() {
       return;
     }
 
-    const method = playgroundMethods.find((item) => item.id === selectedMethod);
+    const request: PlaygroundRequest = rerun ?? {
+      kind: "playground",
+      methodId: selectedMethod,
+      params: methodParams[selectedMethod] ?? {},
+      activeLayer: activeLayerName,
+      coordinateSrid,
+    };
+    const method = findPlaygroundMethod(request.methodId);
     if (!method) return;
 
-    const params = methodParams[selectedMethod] ?? {};
-    const resolveLayerName = () => {
-      const candidate = String(
-        (params as { layerName?: string }).layerName ||
-          activeLayerName ||
-          layers[0] ||
-          DEFAULT_ACTIVE_LAYER,
-      ).trim();
-      if (candidate.toLowerCase() === "undefined" || candidate.toLowerCase() === "null") {
-        return DEFAULT_ACTIVE_LAYER;
-      }
-      return candidate || DEFAULT_ACTIVE_LAYER;
-    };
-    let payload: Record<string, unknown> | undefined;
+    const requestSrid =
+      request.coordinateSrid !== undefined && isSupportedSrid(request.coordinateSrid)
+        ? request.coordinateSrid
+        : GOVMAP_SRID;
+    let payload: unknown;
     let callResult: unknown;
     let methodName = method.label;
+    let note: string | undefined;
+    let cache: CacheStatus | null = null;
+    const calls: GovmapSessionCall[] = [];
+    const unsubscribe = sessionRecorder.subscribe((call) => calls.push(call));
+    const startedAt = Date.now();
+    const started = performance.now();
+    const metrics: GovmapCallMetric[] = [];
+    runMetrics.current = metrics;
 
     setPlaygroundBusy(true);
     setPlaygroundError(null);
+    setParamErrors([]);
 
     try {
-      switch (selectedMethod) {
-        case "getLayerEntities": {
-          const layerName = resolveLayerName();
-          if (!layerName) {
-            throw new Error("Missing layerName. Set Active layer or provide Layer name.");
-          }
-          const where = String(params.where || "").trim();
-          const pageNumber = Number(params.pageNumber || "") || undefined;
-          const pageSize = Number(params.pageSize || "") || undefined;
-          payload = {
-            layerName,
-            where: where || undefined,
-            pageNumber,
-            pageSize,
-          };
-          if (typeof window.govmap.getLayerEntities !== "function") {
-            throw new Error("govmap.getLayerEntities is not available in this build.");
-          }
-          callResult = await withTimeout(
-            window.govmap.getLayerEntities(payload, MAP_ELEMENT_ID),
-            "getLayerEntities",
-          );
-          break;
-        }
-        case "getEntities": {
-          const layerName = resolveLayerName();
-          if (!layerName) {
-            throw new Error("Missing layerName. Set Active layer or provide Layer name.");
-          }
-          const objectIdsRaw = String(params.objectIds || "").trim();
-          const objectIds = objectIdsRaw
-            ? objectIdsRaw
-                .split(",")
-                .map((id) => id.trim())
-                .filter(Boolean)
-            : [];
-          payload = {
-            layerName,
-            objectIds,
-          };
-          if (typeof window.govmap.getEntities === "function") {
-            callResult = await withTimeout(
-              window.govmap.getEntities(payload, MAP_ELEMENT_ID),
-              "getEntities",
-            );
-          } else if (typeof window.govmap.getLayerEntities === "function") {
-            methodName = "getLayerEntities (fallback)";
-            callResult = await withTimeout(
-              window.govmap.getLayerEntities(payload, MAP_ELEMENT_ID),
-              "getLayerEntities",
-            );
-          } else {
-            throw new Error("Neither govmap.getEntities nor govmap.getLayerEntities are available.");
-          }
-          break;
-        }
-        case "identify": {
-          const x = Number(params.x ?? 0);
-          const y = Number(params.y ?? 0);
-          const level = Number(params.level ?? 0) || undefined;
-          const layerName = resolveLayerName();
-          if (!layerName) {
-            throw new Error("Missing layerName. Set Active layer or provide Layer name.");
-          }
-          payload = {
-            x,
-            y,
-            level,
-            layers: [layerName],
-          };
-          if (typeof window.govmap.identifyByXYAndLayer !== "function") {
-            throw new Error("govmap.identifyByXYAndLayer is not available in this build.");
-          }
-          callResult = await withTimeout(
-            window.govmap.identifyByXYAndLayer(x, y, [layerName], MAP_ELEMENT_ID),
-            "identifyByXYAndLayer",
-          );
-          break;
-        }
-        case "zoomToGeometry": {
-          const wkt = String(params.wkt || "").trim();
-          const srid = Number(params.srid ?? 2039) || 2039;
-          const color = String(params.color || "#de3b8a");
-          const name = String(params.name || "geometry");
-          payload = {
-            wkt,
-            srid,
-            color,
-            name,
-          };
-          if (typeof window.govmap.displayGeometries !== "function") {
-            throw new Error("govmap.displayGeometries is not available in this build.");
-          }
-          callResult = await withTimeout(
-            resolveProgressResult(window.govmap.displayGeometries(payload, MAP_ELEMENT_ID)),
-            "displayGeometries",
-          );
-          break;
-        }
-        case "getLayerExtent": {
-          const layerName = resolveLayerName();
-          if (!layerName) {
-            throw new Error("Missing layerName. Set Active layer or provide Layer name.");
-          }
-          payload = { layerName };
-          if (typeof window.govmap.getLayerData !== "function") {
-            throw new Error("govmap.getLayerData is not available in this build.");
-          }
-          callResult = await withTimeout(
-            window.govmap.getLayerData(payload, MAP_ELEMENT_ID),
-            "getLayerData",
-          );
-          break;
-        }
-        case "custom": {
-          const methodNameInput = String(params.methodName || "").trim();
-          methodName = methodNameInput || "custom";
-          const rawPayload = String(params.rawPayload || "").trim();
-          let parsedPayload: unknown;
-          if (rawPayload) {
-            try {
-              parsedPayload = JSON.parse(rawPayload);
-            } catch (error) {
-              throw new Error("Failed to parse JSON payload for custom method.");
-            }
-          }
-          const fn = methodNameInput ? (window.govmap as Record<string, unknown>)[methodNameInput] : null;
-          if (typeof fn !== "function") {
-            throw new Error(`govmap.${methodNameInput || "?"} is not a function.`);
-          }
-          payload = (parsedPayload ?? undefined) as Record<string, unknown>;
-          callResult = await resolveProgressResult(
-            fn.length > 1 ? fn(parsedPayload, MAP_ELEMENT_ID) : fn(parsedPayload),
-          );
-          break;
-        }
-        default:
-          throw new Error("Unsupported method selection.");
-      }
+      const call = await prepareMethodCall(
+        method,
+        request.params,
+        {
+          srid: requestSrid,
+          activeLayer: request.activeLayer,
+          fallbackLayers: [...layers, DEFAULT_ACTIVE_LAYER],
+        },
+        { govmap, log: appendLog },
+      );
+      payload = call.payload;
+      methodName = call.methodName ?? method.label;
+      note = call.note;
+      // A recorded session has to answer for itself, so it never reads the cache.
+      ({ value: callResult, status: cache } = await responseCache.fetch(
+        method.id,
+        call.payload,
+        call.send,
+        {
+          bypass: bypassCache || sessionAnswering,
+          onRevalidate: (fresh, freshStatus) =>
+            setPlaygroundResult((prev) =>
+              prev?.startedAt === startedAt ? { ...prev, result: fresh, cache: freshStatus } : prev,
+            ),
+        },
+      ));
 
-      const finalizedResult = await resolveProgressResult(callResult);
-      const now = Date.now();
       const run: PlaygroundRun = {
-        methodId: selectedMethod,
+        methodId: method.id,
         methodName,
         payload,
-        result: finalizedResult,
+        result: callResult,
         success: true,
-        startedAt: now,
-        endedAt: now,
+        startedAt,
+        endedAt: Date.now(),
+        note,
+        calls,
+        timing: {
+          durationMs: Math.round(performance.now() - started),
+          firstChunkMs: metrics.find((metric) => metric.firstChunkMs !== undefined)?.firstChunkMs,
+          requestBytes: byteSize(payload),
+          responseBytes: byteSize(callResult),
+        },
+        cache,
       };
       setPlaygroundResult(run);
-      setPlaygroundHistory((prev) => {
-        const next: PlaygroundHistoryItem[] = [
-          {
-            id: `${now}-${selectedMethod}`,
-            methodId: selectedMethod,
-            methodName,
-            payloadPreview: summarizePayload(payload),
-            success: true,
-            timestamp: now,
-          },
-          ...prev,
-        ].slice(0, METHOD_HISTORY_MAX);
-        return next;
+      setResultSelectedRow(null);
+      recordRun({
+        id: `${startedAt}-${method.id}`,
+        request,
+        methodName,
+        payload: snapshot(payload),
+        result: snapshot(callResult),
+        success: true,
+        note,
+        startedAt,
+        endedAt: run.endedAt,
       });
       appendLog(`Playground: ${methodName} executed.`);
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown playground error.";
       setPlaygroundError(message);
-      const now = Date.now();
-      setPlaygroundHistory((prev) => {
-        const next: PlaygroundHistoryItem[] = [
-          {
-            id: `${now}-${selectedMethod}-error`,
-            methodId: selectedMethod,
-            methodName,
-            payloadPreview: summarizePayload(payload),
-            success: false,
-            timestamp: now,
-          },
-          ...prev,
-        ].slice(0, METHOD_HISTORY_MAX);
-        return next;
+      if (error instanceof ParamValidationError && !rerun) setParamErrors(error.errors);
+      recordRun({
+        id: `${startedAt}-${method.id}-error`,
+        request,
+        methodName,
+        payload: snapshot(payload),
+        result: undefined,
+        success: false,
+        error: message,
+        note,
+        startedAt,
+        endedAt: Date.now(),
       });
       appendLog(`Playground failed (${methodName}): ${message}`);
     } finally {
+      unsubscribe();
+      if (runMetrics.current === metrics) runMetrics.current = null;
       setPlaygroundBusy(false);
     }
   }, [
     activeLayerName,
     appendLog,
+    bypassCache,
+    coordinateSrid,
+    govmap,
+    layers,
     mapStatus,
     methodParams,
-    playgroundMethods,
-    resolveProgressResult,
+    recordRun,
+    responseCache,
     selectedMethod,
+    sessionAnswering,
+    sessionRecorder,
   ]);
 
-  const clearPlaygroundHistory = useCallback(() => setPlaygroundHistory([]), []);
+  const resultTable = useMemo(() => {
+    if (!playgroundResult) return null;
+    const features = extractResultFeatures(playgroundResult.result);
+    return features ? resultFeaturesToTable(features, playgroundResult.methodName) : null;
+  }, [playgroundResult]);
+
+  const handleResultRowSelect = useCallback(
+    async (row: number) => {
+      setResultSelectedRow(row);
+      const feature = resultTable?.features?.[row];
+      if (!feature?.geometry) {
+        appendLog(`Result row ${row + 1} has no geometry to show.`);
+        return;
+      }
+      const [batch] = planFeatureDisplay([feature]).batches;
+      const bbox = geometryBbox(feature.geometry);
+      try {
+        await govmap.displayGeometries({
+          wkts: batch.wkts,
+          names: batch.names,
+          geometryType: govmap.drawType(batch.kind),
+          defaultSymbol: batch.symbols[0],
+          symbols: batch.symbols,
+          clearExisting: true,
+          data: { tooltips: batch.tooltips },
+        });
+        if (bbox && (govmap.has("zoomToExtent") || govmap.has("zoomToXY"))) {
+          // Pad so points and small parcels are not zoomed to street level.
+          const [xmin, ymin, xmax, ymax] = bbox;
+          const pad = Math.max(50, (xmax - xmin) * 0.2, (ymax - ymin) * 0.2);
+          await govmap.zoomToExtent({
+            xmin: xmin - pad,
+            ymin: ymin - pad,
+            xmax: xmax + pad,
+            ymax: ymax + pad,
+          });
+        }
+      } catch (error) {
+        appendLog(
+          `Could not highlight result row ${row + 1}: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    },
+    [appendLog, govmap, resultTable],
+  );
+
+  const handleResultExport = useCallback(
+    async (format: ExportFormat, view: ExportSource) => {
+      if (!playgroundResult) return;
+      try {
+        const blob = await exportTable(format, view);
+        downloadBlob(blob, `${playgroundResult.methodId}-result.${getExportFormat(format).extension}`);
+        appendLog(
+          `Exported ${view.records.length} result row${view.records.length === 1 ? "" : "s"} as ${
+            getExportFormat(format).label
+          }.`,
+        );
+      } catch (error) {
+        appendLog(`Result export failed: ${error instanceof Error ? error.message : error}`);
+      }
+    },
+    [appendLog, playgroundResult],
+  );
+
+  const handleMethodTimeoutChange = useCallback((method: string, timeoutMs: number | undefined) => {
+    setMethodTimeouts((prev) => {
+      const { [method]: _previous, ...rest } = prev;
+      return timeoutMs === undefined || Number.isNaN(timeoutMs) ? rest : { ...rest, [method]: timeoutMs };
+    });
+  }, []);
+
+  const clearPlaygroundHistory = useCallback(() => {
+    setPlaygroundHistory([]);
+    runHistory.clear().catch((error) => console.warn("Failed to clear playground history", error));
+  }, [runHistory]);
+
+  const clearResponseCache = useCallback(() => {
+    responseCache
+      .clear()
+      .then(() => appendLog("Response cache cleared."))
+      .catch((error) => console.warn("Failed to clear the response cache", error));
+  }, [appendLog, responseCache]);
+
+  const cacheControls = (
+    <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", flexWrap: "wrap" }}>
+      <label className="toggle">
+        <input
+          type="checkbox"
+          checked={bypassCache}
+          onChange={(event) => setBypassCache(event.target.checked)}
+        />
+        Bypass response cache
+      </label>
+      <button type="button" onClick={clearResponseCache}>
+        Clear cache
+      </button>
+    </div>
+  );
 
   const logResultToConsole = useCallback(() => {
     if (!playgroundResult) return;
@@ -852,6 +1461,211 @@ function App() {
     appendLog("Playground result dumped to console.");
   }, [appendLog, playgroundResult]);
 
+  const captureRequest = useCallback(
+    (kind: SavedRequest["request"]["kind"]): SavedRequest["request"] =>
+      kind === "streetDeals"
+        ? { kind, ...streetDealsForm }
+        : {
+            kind,
+            methodId: selectedMethod,
+            params: methodParams[selectedMethod] ?? {},
+            activeLayer: activeLayerName,
+            coordinateSrid,
+          },
+    [activeLayerName, coordinateSrid, methodParams, selectedMethod, streetDealsForm],
+  );
+
+  /** Puts a stored request back into the playground form; returns its method, if still known. */
+  const loadPlaygroundRequest = useCallback(
+    (request: PlaygroundRequest, name: string) => {
+      const method = findPlaygroundMethod(request.methodId);
+      if (!method) {
+        setPlaygroundError(`"${name}" uses unknown method "${request.methodId}".`);
+        return null;
+      }
+      // Params are stored in the system they were typed in, so restore that system rather than converting.
+      const srid = request.coordinateSrid ?? GOVMAP_SRID;
+      setCoordinateSrid(isSupportedSrid(srid) ? srid : GOVMAP_SRID);
+      setSelectedMethod(method.id);
+      setMethodParams((prev) => ({ ...prev, [method.id]: request.params }));
+      if (request.activeLayer) setActiveLayerName(request.activeLayer);
+      setPlaygroundError(null);
+      setParamErrors([]);
+      return method;
+    },
+    [],
+  );
+
+  const handleOpenSavedRequest = useCallback(
+    ({ name, request }: SavedRequest) => {
+      if (request.kind === "streetDeals") {
+        const { lot, parcel, limit, offset } = request;
+        setStreetDealsForm({ lot, parcel, limit, offset });
+        appendLog(`Loaded saved street-deals request "${name}".`);
+        return;
+      }
+      const method = loadPlaygroundRequest(request, `Saved request "${name}"`);
+      if (method) appendLog(`Loaded saved request "${name}" (${method.label}).`);
+    },
+    [appendLog, loadPlaygroundRequest],
+  );
+
+  const handleOpenHistoryEntry = useCallback(
+    (entry: HistoryEntry) => {
+      const started = new Date(entry.startedAt).toLocaleString();
+      if (entry.request.kind === "streetDeals") {
+        const { lot, parcel, limit, offset } = entry.request;
+        setStreetDealsForm({ lot, parcel, limit, offset });
+        appendLog(`Loaded street-deals run from ${started}.`);
+        return true;
+      }
+      const method = loadPlaygroundRequest(entry.request, `The run from ${started}`);
+      if (method) appendLog(`Loaded ${method.label} run from ${started}.`);
+      return Boolean(method);
+    },
+    [appendLog, loadPlaygroundRequest],
+  );
+
+  const handleRerunHistoryEntry = useCallback(
+    (entry: HistoryEntry) => {
+      if (!handleOpenHistoryEntry(entry)) return;
+      if (entry.request.kind === "streetDeals") void runStreetDeals(entry.request);
+      else void handlePlaygroundRun(entry.request);
+    },
+    [handleOpenHistoryEntry, handlePlaygroundRun, runStreetDeals],
+  );
+
+  const handleDeleteHistoryEntry = useCallback(
+    (id: string) => {
+      setPlaygroundHistory((prev) => prev.filter((entry) => entry.id !== id));
+      runHistory.remove(id).catch((error) => console.warn("Failed to delete playground run", error));
+    },
+    [runHistory],
+  );
+
+  const handleCollectionsImport = useCallback(
+    async (file: File) => {
+      try {
+        const imported = parseCollections(await file.text());
+        const clashes = clashingNames(collections, imported);
+        const replace =
+          clashes.length > 0 &&
+          window.confirm(
+            `You already have ${clashes.map((name) => `"${name}"`).join(", ")}. Replace ${
+              clashes.length === 1 ? "it" : "them"
+            } with the imported version? Cancel keeps both and imports under a new name.`,
+          );
+        const merged = mergeCollections(collections, imported, { replace });
+        setCollections(merged.collections);
+        appendLog(
+          `Imported ${file.name}: ${merged.added} new collection${merged.added === 1 ? "" : "s"}${
+            merged.renamed ? ` (${merged.renamed} renamed to avoid a clash)` : ""
+          }, ${merged.replaced} replaced.`,
+        );
+      } catch (error) {
+        appendLog(`Collection import failed: ${error instanceof Error ? error.message : error}`);
+      }
+    },
+    [appendLog, collections],
+  );
+
+  const handleCollectionsExport = useCallback(() => {
+    const blob = new Blob([serializeCollections(collections)], { type: "application/json" });
+    downloadBlob(blob, "govmap-collections.json");
+  }, [collections]);
+
+  useEffect(
+    () =>
+      sessionRecorder.subscribe(() => {
+        if (sessionRecorder.isRecording()) setSessionCallCount(sessionRecorder.session().calls.length);
+      }),
+    [sessionRecorder],
+  );
+
+  const handleSessionRecordToggle = useCallback(() => {
+    setSessionError(null);
+    if (sessionRecorder.isRecording()) {
+      const session = sessionRecorder.stop();
+      setSessionRecording(false);
+      replayRuntime.current = null;
+      setSessionAnswering(false);
+      setLoadedSession(session);
+      setReplayOutcomes([]);
+      appendLog(`Session recording stopped (${session.calls.length} calls).`);
+      return;
+    }
+    sessionRecorder.start();
+    setSessionRecording(true);
+    setSessionCallCount(0);
+    appendLog("Session recording started; GovMap calls are being captured.");
+  }, [appendLog, sessionRecorder]);
+
+  const handleSessionDownload = useCallback(() => {
+    if (!loadedSession) return;
+    const blob = new Blob([serializeSession(loadedSession)], { type: "application/json" });
+    const slug = loadedSession.name.replace(/[^\w-]+/g, "-").replace(/^-|-$/g, "") || "govmap";
+    downloadBlob(blob, `${slug}.govmap-session.json`);
+  }, [loadedSession]);
+
+  const handleSessionFileChange = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+      setSessionError(null);
+      try {
+        const session = parseSession(await file.text());
+        replayRuntime.current = null;
+        setSessionAnswering(false);
+        setLoadedSession(session);
+        setReplayOutcomes([]);
+        appendLog(`Loaded session "${session.name}" (${session.calls.length} calls).`);
+      } catch (error) {
+        setSessionError(error instanceof Error ? error.message : "Failed to read the session file.");
+      }
+    },
+    [appendLog],
+  );
+
+  const handleSessionAnsweringToggle = useCallback(() => {
+    if (!loadedSession) return;
+    const next = !sessionAnswering;
+    replayRuntime.current = next ? createReplayRuntime(loadedSession, { timing: "recorded" }) : null;
+    setSessionAnswering(next);
+    appendLog(
+      next
+        ? `Playground now answers from the recorded session "${loadedSession.name}".`
+        : "Playground is back on the GovMap API.",
+    );
+  }, [appendLog, loadedSession, sessionAnswering]);
+
+  const handleSessionReplay = useCallback(async () => {
+    if (!loadedSession) return;
+    if (!window.govmap) {
+      setSessionError("GovMap global is not ready yet.");
+      return;
+    }
+    setReplayBusy(true);
+    setSessionError(null);
+    setReplayOutcomes([]);
+    try {
+      const { outcomes } = await replaySession(loadedSession, () => window.govmap, {
+        timeoutMs: PLAYGROUND_TIMEOUT_MS,
+        onOutcome: (outcome) => setReplayOutcomes((prev) => [...prev, outcome]),
+      });
+      const changed = outcomes.filter(
+        (outcome) => outcome.status === "changed" || outcome.status === "failed",
+      ).length;
+      appendLog(
+        `Replayed "${loadedSession.name}": ${changed} of ${outcomes.length} calls differ from the recording.`,
+      );
+    } catch (error) {
+      setSessionError(error instanceof Error ? error.message : "Replay failed.");
+    } finally {
+      setReplayBusy(false);
+    }
+  }, [appendLog, loadedSession]);
+
   return (
     <main className="page">
       <header className="hero">
@@ -883,7 +1697,7 @@ function App() {
                 <h2>GovMap instance</h2>
               </div>
               <p className="script-state" data-state={scriptStatus}>
-                Script {scriptStatus}
+                {FAKE_GOVMAP ? "Fake runtime" : "Script"} {scriptStatus}
               </p>
             </header>
             <div className="map-shell">
@@ -925,45 +1739,74 @@ function App() {
                 <span>Method</span>
                 <select
                   value={selectedMethod}
-                  onChange={(event) => setSelectedMethod(event.target.value as PlaygroundMethodId)}
+                  onChange={(event) => {
+                    setSelectedMethod(event.target.value);
+                    setParamErrors([]);
+                  }}
                   style={{ padding: "0.6rem 0.8rem", borderRadius: "0.65rem", border: "1px solid #cbd5f5" }}
                 >
-                  {playgroundMethods.map((method) => (
+                  {PLAYGROUND_METHODS.map((method) => (
                     <option key={method.id} value={method.id}>
                       {method.label}
                     </option>
                   ))}
                 </select>
-                <span className="hint">{currentMethod?.description}</span>
+                <span className="hint">{currentMethod.description}</span>
               </label>
-              {currentMethod?.fields.map((field) => (
-                <label key={field.key}>
-                  <span>{field.label}</span>
-                  {field.type === "textarea" ? (
-                    <textarea
-                      value={String((methodParams[selectedMethod] ?? {})[field.key] ?? "")}
-                      onChange={(event) => updateMethodParam(selectedMethod, field.key, event.target.value)}
-                      placeholder={field.placeholder}
-                      rows={3}
-                    />
-                  ) : (
-                    <input
-                      type={field.type === "number" ? "number" : "text"}
-                      value={String((methodParams[selectedMethod] ?? {})[field.key] ?? "")}
-                      onChange={(event) =>
-                        updateMethodParam(
-                          selectedMethod,
-                          field.key,
-                          field.type === "number" ? Number(event.target.value) : event.target.value,
-                        )
-                      }
-                      placeholder={field.placeholder}
-                    />
-                  )}
-                  {field.helper && <span className="hint">{field.helper}</span>}
+              {hasCoordinateParams(currentMethod) && (
+                <label>
+                  <span>Coordinate system</span>
+                  <select
+                    value={coordinateSrid}
+                    onChange={(event) => handleCoordinateSridChange(Number(event.target.value) as Srid)}
+                    style={{ padding: "0.6rem 0.8rem", borderRadius: "0.65rem", border: "1px solid #cbd5f5" }}
+                  >
+                    {COORDINATE_SYSTEMS.map((system) => (
+                      <option key={system.srid} value={system.srid}>
+                        {system.label} (EPSG:{system.srid})
+                      </option>
+                    ))}
+                  </select>
+                  <span className="hint">Switching converts the values below; GovMap always receives ITM.</span>
                 </label>
-              ))}
-              <button type="button" className="primary" onClick={handlePlaygroundRun} disabled={playgroundBusy}>
+              )}
+              <PlaygroundForm
+                method={currentMethod}
+                values={methodParams[currentMethod.id] ?? {}}
+                srid={coordinateSrid}
+                activeLayer={activeLayerName}
+                errors={paramErrors}
+                onChange={(key, value) => updateMethodParam(currentMethod.id, key, value)}
+              />
+              {geometryReadout && (
+                <div className="dbf-summary">
+                  {geometryReadout.summary && <span>{geometryReadout.summary}</span>}
+                  {geometryReadout.issues.length > 0 && (
+                    <ul className="validation-issues">
+                      {geometryReadout.issues.map((issue, index) => (
+                        <li key={index} className={`issue-${issue.severity}`}>
+                          <strong>{issue.severity}</strong> {issue.where ? `${issue.where}: ` : ""}
+                          {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+              {coordinateReadout && (
+                <div className="dbf-summary">
+                  {coordinateReadout.conversions.map((item) => (
+                    <span key={item.label}>
+                      <strong>{item.label}:</strong> {item.text}
+                    </span>
+                  ))}
+                  <a href={coordinateReadout.googleMapsUrl} target="_blank" rel="noreferrer">
+                    Open in Google Maps
+                  </a>
+                </div>
+              )}
+              {cacheControls}
+              <button type="button" className="primary" onClick={() => handlePlaygroundRun()} disabled={playgroundBusy}>
                 {playgroundBusy ? "Running..." : "Run method"}
               </button>
               {playgroundError && <p className="error">{playgroundError}</p>}
@@ -971,11 +1814,39 @@ function App() {
             <div className="response-box">
               <div className="response-meta">
                 <span>Last run</span>
-                <span>{playgroundResult ? formatTimestamp(new Date(playgroundResult.endedAt)) : "n/a"}</span>
+                <span>
+                  {playgroundResult ? formatTimestamp(new Date(playgroundResult.endedAt)) : "n/a"}
+                  {playgroundResult?.cache && ` · ${describeCacheStatus(playgroundResult.cache)}`}
+                </span>
               </div>
               {playgroundResult ? (
                 <>
                   <p className="hint">Payload: {summarizePayload(playgroundResult.payload)}</p>
+                  {playgroundResult.timing && (
+                    <p className="hint">
+                      Took {playgroundResult.timing.durationMs} ms
+                      {playgroundResult.timing.firstChunkMs !== undefined &&
+                        ` · first progress after ${playgroundResult.timing.firstChunkMs} ms`}
+                      {` · ${formatBytes(playgroundResult.timing.requestBytes)} sent, ${formatBytes(
+                        playgroundResult.timing.responseBytes,
+                      )} received`}
+                    </p>
+                  )}
+                  {playgroundResult.note && <p className="hint">{playgroundResult.note}</p>}
+                  {playgroundResult.calls && playgroundResult.calls.length > 0 && (
+                    <p className="hint">
+                      GovMap calls:{" "}
+                      {playgroundResult.calls
+                        .map((call) =>
+                          call.kind === "progress"
+                            ? `${call.method} (${call.chunks.length} progress chunk${
+                                call.chunks.length === 1 ? "" : "s"
+                              })`
+                            : call.method,
+                        )
+                        .join(", ")}
+                    </p>
+                  )}
                   <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap", margin: "0.3rem 0" }}>
                     <button type="button" onClick={logResultToConsole}>
                       Log to console
@@ -992,29 +1863,171 @@ function App() {
                     >
                       Copy JSON
                     </button>
+                    {resultTable && (
+                      <button
+                        type="button"
+                        onClick={() => setResultView((prev) => (prev === "table" ? "json" : "table"))}
+                      >
+                        {resultView === "table"
+                          ? "Show raw JSON"
+                          : `Show table (${resultTable.records.length} rows)`}
+                      </button>
+                    )}
                   </div>
-                  <pre>{safeStringify(playgroundResult.result)}</pre>
+                  {resultTable && resultView === "table" ? (
+                    <>
+                      <p className="hint">Click a row to highlight and zoom to its feature on the map.</p>
+                      <DbfPreview
+                        source={resultTable}
+                        format="csv"
+                        onExport={handleResultExport}
+                        selectedRow={resultSelectedRow}
+                        onSelectRow={handleResultRowSelect}
+                      />
+                    </>
+                  ) : (
+                    <pre>{safeStringify(playgroundResult.result)}</pre>
+                  )}
                 </>
               ) : (
                 <p className="empty">Run a method to see the response here (full payload is also in console).</p>
               )}
             </div>
-            <div className="response-box">
-              <div className="response-meta">
-                <strong>History</strong>
-                <span>{playgroundHistory.length} saved</span>
+            <PlaygroundHistory
+              entries={playgroundHistory}
+              onOpen={handleOpenHistoryEntry}
+              onRerun={handleRerunHistoryEntry}
+              onDelete={handleDeleteHistoryEntry}
+              busy={playgroundBusy}
+            />
+          </article>
+
+          <article className="card">
+            <header>
+              <div>
+                <p className="eyebrow">Metrics</p>
+                <h2>GovMap latency</h2>
+                <p className="subtitle">
+                  Per-method timings this session; timeouts and auth failures usually mean throttling or a bad token.
+                </p>
               </div>
-              {playgroundHistory.length === 0 ? (
-                <p className="empty">No runs yet.</p>
-              ) : (
-                playgroundHistory.map((entry) => (
-                  <p key={entry.id} className="log-entry">
-                    {formatTimestamp(new Date(entry.timestamp))} | {entry.methodName} |{" "}
-                    {entry.success ? "ok" : "error"} | {entry.payloadPreview}
-                  </p>
-                ))
+            </header>
+            <CallMetrics
+              metrics={callMetrics}
+              methods={METRIC_METHODS}
+              timeouts={methodTimeouts}
+              defaultTimeoutMs={PLAYGROUND_TIMEOUT_MS}
+              onTimeoutChange={handleMethodTimeoutChange}
+              onClear={() => setCallMetrics([])}
+            />
+          </article>
+
+          <article className="card">
+            <header>
+              <div>
+                <p className="eyebrow">Collections</p>
+                <h2>Saved requests</h2>
+                <p className="subtitle">
+                  Keep named playground and street-deals requests in folders; export them to share.
+                </p>
+              </div>
+            </header>
+            <RequestCollections
+              collections={collections}
+              onChange={setCollections}
+              onOpen={handleOpenSavedRequest}
+              captureRequest={captureRequest}
+              onImport={handleCollectionsImport}
+              onExport={handleCollectionsExport}
+            />
+          </article>
+
+          <article className="card">
+            <header>
+              <div>
+                <p className="eyebrow">Sessions</p>
+                <h2>Record &amp; replay</h2>
+                <p className="subtitle">
+                  Capture every GovMap call and response, then replay the file to spot upstream changes.
+                </p>
+              </div>
+              <button type="button" onClick={handleSessionRecordToggle}>
+                {sessionRecording ? `Stop (${sessionCallCount} calls)` : "Start recording"}
+              </button>
+            </header>
+            <div className="form">
+              <label>
+                <span>Load session</span>
+                <input type="file" accept=".json,application/json" onChange={handleSessionFileChange} />
+              </label>
+              {loadedSession && (
+                <div className="dbf-summary">
+                  <span>
+                    <strong>Session:</strong> {loadedSession.name}
+                  </span>
+                  <span>
+                    <strong>Recorded:</strong> {new Date(loadedSession.recordedAt).toLocaleString()} (
+                    {loadedSession.source})
+                  </span>
+                  <span>
+                    <strong>Calls:</strong> {loadedSession.calls.length}
+                  </span>
+                </div>
               )}
+              <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+                <button type="button" onClick={handleSessionDownload} disabled={!loadedSession}>
+                  Download session
+                </button>
+                <button
+                  type="button"
+                  className="primary"
+                  onClick={handleSessionReplay}
+                  disabled={!loadedSession || replayBusy || sessionRecording}
+                >
+                  {replayBusy ? "Replaying..." : "Replay against GovMap"}
+                </button>
+                <button type="button" onClick={handleSessionAnsweringToggle} disabled={!loadedSession}>
+                  {sessionAnswering ? "Use live responses" : "Answer from recording"}
+                </button>
+              </div>
+              {sessionAnswering && (
+                <p className="hint">Playground runs are answered from the loaded session, not GovMap.</p>
+              )}
+              {sessionError && <p className="error">{sessionError}</p>}
             </div>
+            {replayOutcomes.length > 0 && (
+              <div className="response-box">
+                <div className="response-meta">
+                  <strong>Replay</strong>
+                  <span>
+                    {replayOutcomes.filter((outcome) => outcome.status === "same").length} same,{" "}
+                    {replayOutcomes.filter((outcome) => outcome.status === "changed").length} changed,{" "}
+                    {replayOutcomes.filter((outcome) => outcome.status === "failed").length} failed
+                  </span>
+                </div>
+                <ul className="validation-issues">
+                  {replayOutcomes.map((outcome) => (
+                    <li
+                      key={outcome.index}
+                      className={
+                        outcome.status === "failed"
+                          ? "issue-error"
+                          : outcome.status === "changed"
+                            ? "issue-warning"
+                            : "issue-info"
+                      }
+                    >
+                      <strong>{outcome.status}</strong> #{outcome.index} {outcome.method}
+                      {outcome.durationMs !== undefined ? ` (${outcome.durationMs}ms)` : ""}
+                      {outcome.error ? `: ${outcome.error}` : ""}
+                      {outcome.differences.length > 0 && (
+                        <pre>{outcome.differences.slice(0, 8).map(formatDifference).join("\n")}</pre>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </article>
 
           <article className="card">
@@ -1062,6 +2075,10 @@ function App() {
                 <span>
                   <strong>Layers:</strong> {layers.join(", ")}
                 </span>
+                <span>
+                  <strong>Center:</strong> {formatPosition(mapCenter, GOVMAP_SRID)} (
+                  {formatPosition(transformPosition(mapCenter, GOVMAP_SRID, 4326), 4326)})
+                </span>
                 <span>
                   <strong>Background:</strong> {appliedConfig.background}
                 </span>
@@ -1084,8 +2101,8 @@ function App() {
                 <p className="eyebrow">REST explorer</p>
                 <h2>Street deals (layer 16)</h2>
                 <p className="subtitle">
-                  Uses the Vite dev proxy (`/api/govmap`) to reach the upstream
-                  endpoint without CORS.
+                  Goes through the `/api/govmap` proxy (Vite dev server, or `npm start`
+                  after `npm run build:server`) to reach the upstream endpoint without CORS.
                 </p>
               </div>
             </header>
@@ -1142,9 +2159,46 @@ function App() {
                   />
                 </label>
               </div>
-              <button type="submit" className="primary" disabled={streetDealsLoading}>
-                {streetDealsLoading ? "Fetching…" : "Fetch street deals"}
-              </button>
+              <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", flexWrap: "wrap" }}>
+                <label className="toggle">
+                  <input
+                    type="checkbox"
+                    checked={streetDealsFetchAll}
+                    onChange={(event) => setStreetDealsFetchAll(event.target.checked)}
+                  />
+                  Fetch all pages
+                </label>
+                {streetDealsFetchAll && (
+                  <label className="toggle">
+                    Max pages
+                    <input
+                      type="number"
+                      min={1}
+                      value={streetDealsMaxPages}
+                      onChange={(event) => setStreetDealsMaxPages(event.target.value)}
+                      style={{ width: "5rem" }}
+                    />
+                  </label>
+                )}
+              </div>
+              {streetDealsFetchAll && (
+                <span className="hint">
+                  Limit is the page size (default 50) and offset the first page; pages are fetched
+                  at most two a second and merged without duplicates.
+                </span>
+              )}
+              {cacheControls}
+              <div style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
+                <button type="submit" className="primary" disabled={streetDealsLoading}>
+                  {streetDealsLoading ? "Fetching…" : "Fetch street deals"}
+                </button>
+                {streetDealsLoading && streetDealsFetchAll && (
+                  <button type="button" onClick={cancelStreetDeals}>
+                    Cancel
+                  </button>
+                )}
+              </div>
+              {streetDealsProgress && <p className="hint">{streetDealsProgress}</p>}
               {streetDealsError && <p className="error">{streetDealsError}</p>}
             </form>
             <div className="response-box">
@@ -1153,12 +2207,42 @@ function App() {
                   <div className="response-meta">
                     <span>
                       Status: {streetDealsData.status} {streetDealsData.ok ? "✅" : "⚠️"}
+                      {streetDealsCache && ` · ${describeCacheStatus(streetDealsCache)}`}
+                      {streetDealsData.proxyCache &&
+                        ` · proxy ${streetDealsData.proxyCache.result.toLowerCase()} (${formatAge(
+                          streetDealsData.proxyCache.ageS * 1000,
+                        )} old)`}
                     </span>
                     <a href={streetDealsData.upstreamUrl} target="_blank" rel="noreferrer">
                       Open upstream URL
                     </a>
                   </div>
-                  <pre>{prettyStreetDealsJson}</pre>
+                  {streetDealsTable && (
+                    <div>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setStreetDealsView((prev) => (prev === "deals" ? "json" : "deals"))
+                        }
+                      >
+                        {streetDealsView === "deals"
+                          ? "Show raw JSON"
+                          : `Show deals (${streetDealsTable.records.length})`}
+                      </button>
+                    </div>
+                  )}
+                  {streetDeals && streetDealsTable && streetDealsView === "deals" ? (
+                    <>
+                      <DbfPreview
+                        source={streetDealsTable}
+                        format="csv"
+                        onExport={handleStreetDealsExport}
+                      />
+                      <DealStats deals={streetDeals} />
+                    </>
+                  ) : (
+                    <pre>{prettyStreetDealsJson}</pre>
+                  )}
                 </>
               ) : (
                 <p className="empty">
@@ -1169,26 +2253,141 @@ function App() {
             </div>
           </article>
 
+          <article className="card">
+            <header>
+              <div>
+                <p className="eyebrow">REST explorer</p>
+                <h2>Bulk street deals</h2>
+                <p className="subtitle">
+                  Runs the street-deals query for every gush/helka pair in a CSV or the converted
+                  DBF below and downloads the deals with each source row attached.
+                </p>
+              </div>
+            </header>
+            <BulkDealLookup
+              dbfTable={dbfTable}
+              dbfName={dbfSummary?.fileName}
+              lookup={lookupParcelDeals}
+              onDownload={downloadBlob}
+              onLog={appendLog}
+            />
+          </article>
+
           <article className="card">
             <header>
               <div>
                 <p className="eyebrow">Utilities</p>
-                <h2>DBF → CSV converter</h2>
+                <h2>DBF / shapefile converter</h2>
                 <p className="subtitle">Runs entirely in your browser; nothing gets uploaded.</p>
               </div>
             </header>
             <form className="form" onSubmit={handleDbfConvert}>
               <label>
-                <span>DBF file</span>
+                <span>DBF / shapefile</span>
                 <input
                   type="file"
-                  accept=".dbf,application/dbase"
+                  accept=".dbf,.cpg,.dbt,.fpt,.shp,.shx,.prj,.zip,application/dbase,application/zip"
+                  multiple
                   onChange={handleDbfFileChange}
                 />
+                <span className="hint">
+                  Pick a .dbf with its .cpg (code page) and .dbt/.fpt (memos), add .shp/.shx/.prj
+                  for geometry, or select a zipped shapefile.
+                  {dbfFiles.length ? ` Selected: ${dbfFiles.map((file) => file.name).join(", ")}.` : ""}
+                </span>
+              </label>
+              <label>
+                <span>Encoding</span>
+                <select
+                  value={dbfEncoding}
+                  onChange={(event) => setDbfEncoding(event.target.value as DbfEncoding | "auto")}
+                  style={{ padding: "0.6rem 0.8rem", borderRadius: "0.65rem", border: "1px solid #cbd5f5" }}
+                >
+                  <option value="auto">Auto (.cpg, header, then detect)</option>
+                  {DBF_ENCODINGS.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <span>Export as</span>
+                <select
+                  value={dbfFormat}
+                  onChange={(event) =>
+                    setDbfFormat(event.target.value as Exclude<ExportFormat, "geojson">)
+                  }
+                  style={{ padding: "0.6rem 0.8rem", borderRadius: "0.65rem", border: "1px solid #cbd5f5" }}
+                >
+                  {EXPORT_FORMATS.filter((item) => !item.needsGeometry).map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.label}
+                    </option>
+                  ))}
+                </select>
+                <span className="hint">
+                  Shapefiles with geometry also get a GeoJSON download.
+                </span>
+              </label>
+              {dbfFormat === "dbf" && (
+                <label>
+                  <span>DBF output code page</span>
+                  <select
+                    value={dbfOutputEncoding}
+                    onChange={(event) => setDbfOutputEncoding(event.target.value as DbfEncoding | "source")}
+                    style={{ padding: "0.6rem 0.8rem", borderRadius: "0.65rem", border: "1px solid #cbd5f5" }}
+                  >
+                    <option value="source">Same as the input</option>
+                    {DBF_ENCODINGS.map((item) => (
+                      <option key={item.id} value={item.id}>
+                        {item.label}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="hint">
+                    UTF-8 and CP862 have no dBase language driver ID; keep a .cpg reading UTF-8 or 862 next to the
+                    file so other tools pick the right code page.
+                  </span>
+                </label>
+              )}
+              {typeof window !== "undefined" && window.showSaveFilePicker && (
+                <label className="toggle">
+                  <input
+                    type="checkbox"
+                    checked={dbfSaveToDisk}
+                    onChange={(event) => setDbfSaveToDisk(event.target.checked)}
+                  />
+                  Save large DBF conversions straight to disk
+                </label>
+              )}
+              <label className="toggle">
+                <input
+                  type="checkbox"
+                  checked={dbfKeepAllRows}
+                  onChange={(event) => setDbfKeepAllRows(event.target.checked)}
+                />
+                Load every DBF row into the preview (needs memory for the whole table)
               </label>
               <button type="submit" className="primary" disabled={dbfBusy}>
-                {dbfBusy ? "Converting…" : "Convert to CSV"}
+                {dbfBusy ? "Converting…" : "Convert"}
               </button>
+              {dbfBusy && dbfProgress && (
+                <div className="response-meta">
+                  <progress
+                    value={dbfProgress.bytesRead}
+                    max={dbfProgress.totalBytes || 1}
+                    style={{ flex: 1 }}
+                  />
+                  <span>
+                    {Math.round((dbfProgress.bytesRead / (dbfProgress.totalBytes || 1)) * 100)}% ·{" "}
+                    {dbfProgress.records.toLocaleString()} rows
+                  </span>
+                  <button type="button" onClick={handleDbfCancel}>
+                    Cancel
+                  </button>
+                </div>
+              )}
               {dbfError && <p className="error">{dbfError}</p>}
             </form>
             {dbfSummary ? (
@@ -1209,15 +2408,136 @@ function App() {
                   <span>
                     <strong>Header length:</strong> {dbfSummary.headerLength} bytes
                   </span>
+                  {dbfSummary.encoding && (
+                    <span>
+                      <strong>Encoding:</strong> {dbfSummary.encoding} ({dbfSummary.encodingSource})
+                    </span>
+                  )}
+                  {dbfSummary.shapeType && (
+                    <span>
+                      <strong>Geometry:</strong> {dbfSummary.geometries} {dbfSummary.shapeType}
+                      {dbfSummary.srid ? ` (EPSG:${dbfSummary.srid})` : " (unknown CRS)"}
+                    </span>
+                  )}
                 </div>
-                {dbfCsvUrl && (
-                  <a className="download-link" href={dbfCsvUrl} download={dbfDownloadName}>
+                {dbfExportUrl && (
+                  <a className="download-link" href={dbfExportUrl} download={dbfDownloadName}>
                     Download {dbfDownloadName}
                   </a>
                 )}
+                {dbfGeoJsonUrl && (
+                  <a
+                    className="download-link"
+                    href={dbfGeoJsonUrl}
+                    download={`${dbfDownloadBase}.geojson`}
+                    style={{ marginLeft: "1rem" }}
+                  >
+                    Download {dbfDownloadBase}.geojson
+                  </a>
+                )}
+                {dbfTable && dbfTable.fields.length > 0 && (
+                  <DbfPreview
+                    source={dbfTable}
+                    format={dbfFormat}
+                    busy={dbfBusy}
+                    onExport={handleDbfExportView}
+                  />
+                )}
+                {dbfLayer?.shapeType && (
+                  <div className="form" style={{ marginTop: "0.8rem" }}>
+                    <div className="grid">
+                      <label>
+                        <span>Colour by</span>
+                        <select
+                          value={dbfColorField}
+                          onChange={(event) => setDbfColorField(event.target.value)}
+                          style={{ padding: "0.6rem 0.8rem", borderRadius: "0.65rem", border: "1px solid #cbd5f5" }}
+                        >
+                          <option value="">Single colour</option>
+                          {dbfLayer.table?.fields.map((field) => (
+                            <option key={field.name} value={field.name}>
+                              {field.name}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label>
+                        <span>Label</span>
+                        <select
+                          value={dbfLabelField}
+                          onChange={(event) => setDbfLabelField(event.target.value)}
+                          style={{ padding: "0.6rem 0.8rem", borderRadius: "0.65rem", border: "1px solid #cbd5f5" }}
+                        >
+                          <option value="">No labels</option>
+                          {dbfLayer.table?.fields.map((field) => (
+                            <option key={field.name} value={field.name}>
+                              {field.name}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                    {dbfLegend.length > 0 && (
+                      <div className="chips">
+                        {dbfLegend.map((item) => (
+                          <span key={item.label} className="chip">
+                            <span
+                              style={{
+                                width: "0.7rem",
+                                height: "0.7rem",
+                                borderRadius: "999px",
+                                background: item.color,
+                              }}
+                            />
+                            {item.label}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <button
+                      type="button"
+                      className="primary"
+                      onClick={handleDbfShowOnMap}
+                      disabled={dbfBusy || mapStatus !== "ready"}
+                    >
+                      Show on map
+                    </button>
+                    {dbfMapProgress && <p className="hint">{dbfMapProgress}</p>}
+                  </div>
+                )}
               </div>
             ) : (
-              <p className="hint">Select a DBF export to convert it locally.</p>
+              <p className="hint">Select a DBF or shapefile export to convert it locally.</p>
+            )}
+            {dbfValidation && (
+              <div className="response-box">
+                <div className="response-meta">
+                  <strong>
+                    Validation {dbfValidation.valid ? "passed" : "failed"} ·{" "}
+                    {dbfValidation.actualRecords.toLocaleString()} of{" "}
+                    {dbfValidation.declaredRecords.toLocaleString()} declared records present
+                  </strong>
+                  <button type="button" onClick={handleDbfDownloadReport}>
+                    Download report (JSON)
+                  </button>
+                </div>
+                {dbfValidation.issues.length ? (
+                  <ul className="validation-issues">
+                    {dbfValidation.issues.map((issue, index) => (
+                      <li key={`${issue.code}-${index}`} className={`issue-${issue.severity}`}>
+                        <strong>{issue.severity}</strong> {issue.message}
+                        {issue.samples?.length
+                          ? ` e.g. ${issue.samples
+                              .map((sample) => `#${sample.record} "${sample.value}"`)
+                              .join(", ")}`
+                          : ""}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="hint">No problems found.</p>
+                )}
+              </div>
             )}
           </article>
         </div>
@@ -0,0 +1,320 @@
+import { ChangeEvent, useCallback, useMemo, useRef, useState } from "react";
+import {
+  BulkLookupOptions,
+  BulkRowStatus,
+  BulkSourceRow,
+  bulkResultsToJson,
+  bulkResultsToTable,
+  bulkRowsFromObjects,
+  findParcelColumns,
+  objectsFromTable,
+  runBulkLookup,
+} from "./govmap/bulkDeals";
+import { parseCsv } from "./utils/csv";
+import { ExportSource, exportTable } from "./utils/exporters";
+
+type BulkDealLookupProps = {
+  /** The DBF converter's current table, offered as a source when it is loaded. */
+  dbfTable: ExportSource | null;
+  dbfName?: string;
+  lookup: BulkLookupOptions["lookup"];
+  onDownload: (blob: Blob, fileName: string) => void;
+  onLog: (message: string) => void;
+};
+
+type Source = "csv" | "dbf";
+
+const selectStyle = {
+  padding: "0.6rem 0.8rem",
+  borderRadius: "0.65rem",
+  border: "1px solid #cbd5f5",
+};
+const rowStyle = {
+  display: "flex",
+  gap: "0.5rem",
+  alignItems: "center",
+  flexWrap: "wrap" as const,
+};
+/** Status rows rendered at most; the export always has every row. */
+const MAX_STATUS_ROWS = 500;
+
+const STATE_CLASS: Partial<Record<BulkRowStatus["state"], string>> = {
+  failed: "issue-error",
+  retrying: "issue-warning",
+  truncated: "issue-warning",
+  skipped: "issue-warning",
+};
+
+/** Street deals for a pasted, uploaded or converted list of gush/helka pairs. */
+function BulkDealLookup({ dbfTable, dbfName, lookup, onDownload, onLog }: BulkDealLookupProps) {
+  const [source, setSource] = useState<Source>("csv");
+  const [csvText, setCsvText] = useState("");
+  const [columns, setColumns] = useState<{ gush: string; helka: string } | null>(null);
+  const [concurrency, setConcurrency] = useState(4);
+  const [statuses, setStatuses] = useState<Record<number, BulkRowStatus>>({});
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const table = useMemo((): { headers: string[]; objects: BulkSourceRow[] } => {
+    if (source === "dbf") {
+      return dbfTable
+        ? {
+            headers: dbfTable.fields.map((field) => field.name),
+            objects: objectsFromTable(dbfTable),
+          }
+        : { headers: [], objects: [] };
+    }
+    const parsed = parseCsv(csvText);
+    return { headers: parsed.headers, objects: parsed.rows };
+  }, [csvText, dbfTable, source]);
+
+  const detected = useMemo(() => findParcelColumns(table.headers), [table.headers]);
+  const gushColumn =
+    columns && table.headers.includes(columns.gush) ? columns.gush : (detected.gush ?? "");
+  const helkaColumn =
+    columns && table.headers.includes(columns.helka) ? columns.helka : (detected.helka ?? "");
+  const rows = useMemo(
+    () =>
+      gushColumn && helkaColumn
+        ? bulkRowsFromObjects(table.objects, { gush: gushColumn, helka: helkaColumn })
+        : [],
+    [gushColumn, helkaColumn, table.objects],
+  );
+
+  const counts = useMemo(() => {
+    const tally: Record<string, number> = {};
+    for (const item of rows) {
+      const state = statuses[item.row]?.state ?? "pending";
+      tally[state] = (tally[state] ?? 0) + 1;
+    }
+    return tally;
+  }, [rows, statuses]);
+  const dealCount = Object.values(statuses).reduce(
+    (sum, status) => sum + (status.deals?.length ?? 0),
+    0,
+  );
+
+  const handleFile = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setCsvText(await file.text());
+    setSource("csv");
+    setStatuses({});
+  }, []);
+
+  const handleRun = useCallback(async () => {
+    if (!rows.length) {
+      setError("Pick the gush and helka columns of a list with at least one row.");
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setError(null);
+    setStatuses({});
+    const started = Date.now();
+    try {
+      await runBulkLookup(rows, {
+        concurrency,
+        signal: controller.signal,
+        lookup,
+        onStatus: (row, status) => setStatuses((prev) => ({ ...prev, [row]: status })),
+      });
+      onLog(
+        `Bulk street deals: ${rows.length} pairs ${
+          controller.signal.aborted ? "cancelled" : "finished"
+        } in ${Math.round((Date.now() - started) / 1000)}s.`,
+      );
+    } catch (runError) {
+      setError(runError instanceof Error ? runError.message : String(runError));
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+    }
+  }, [concurrency, lookup, onLog, rows]);
+
+  const handleExport = useCallback(
+    async (format: "csv" | "json") => {
+      try {
+        const blob =
+          format === "csv"
+            ? await exportTable("csv", bulkResultsToTable(rows, statuses))
+            : new Blob([JSON.stringify(bulkResultsToJson(rows, statuses), null, 2)], {
+                type: "application/json",
+              });
+        onDownload(blob, `bulk-street-deals.${format}`);
+      } catch (exportError) {
+        setError(exportError instanceof Error ? exportError.message : String(exportError));
+      }
+    },
+    [onDownload, rows, statuses],
+  );
+
+  const columnSelect = (value: string, onChange: (value: string) => void) => (
+    <select value={value} onChange={(event) => onChange(event.target.value)} style={selectStyle}>
+      <option value="">–</option>
+      {table.headers.map((header) => (
+        <option key={header} value={header}>
+          {header}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="form">
+      <label>
+        <span>List</span>
+        <select
+          value={source}
+          onChange={(event) => {
+            setSource(event.target.value as Source);
+            setColumns(null);
+            setStatuses({});
+          }}
+          style={selectStyle}
+          disabled={running}
+        >
+          <option value="csv">Pasted or uploaded CSV</option>
+          <option value="dbf" disabled={!dbfTable}>
+            Converted DBF{dbfName ? ` (${dbfName})` : ""}
+            {dbfTable?.totalRecords !== undefined && dbfTable.totalRecords > dbfTable.records.length
+              ? `, first ${dbfTable.records.length} rows`
+              : ""}
+          </option>
+        </select>
+      </label>
+      {source === "csv" && (
+        <>
+          <label>
+            <span>CSV with a header row</span>
+            <textarea
+              value={csvText}
+              onChange={(event) => {
+                setCsvText(event.target.value);
+                setStatuses({});
+              }}
+              placeholder={"gush,helka,client\n6638,96,A-17"}
+              rows={5}
+              disabled={running}
+            />
+          </label>
+          <input type="file" accept=".csv,.txt,text/csv" onChange={handleFile} disabled={running} />
+        </>
+      )}
+      {table.headers.length > 0 && (
+        <div className="grid">
+          <label>
+            <span>Gush column</span>
+            {columnSelect(gushColumn, (gush) => setColumns({ gush, helka: helkaColumn }))}
+          </label>
+          <label>
+            <span>Helka column</span>
+            {columnSelect(helkaColumn, (helka) => setColumns({ gush: gushColumn, helka }))}
+          </label>
+          <label>
+            <span>Parallel lookups</span>
+            <input
+              type="number"
+              min={1}
+              max={8}
+              value={concurrency}
+              onChange={(event) =>
+                setConcurrency(Math.min(8, Math.max(1, Number(event.target.value) || 1)))
+              }
+            />
+          </label>
+        </div>
+      )}
+      <div style={rowStyle}>
+        <button
+          type="button"
+          className="primary"
+          onClick={handleRun}
+          disabled={running || !rows.length}
+        >
+          {running ? "Looking up…" : `Look up ${rows.length} pair${rows.length === 1 ? "" : "s"}`}
+        </button>
+        {running && (
+          <button type="button" onClick={() => abortRef.current?.abort()}>
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => handleExport("csv")}
+          disabled={running || !Object.keys(statuses).length}
+        >
+          Download CSV
+        </button>
+        <button
+          type="button"
+          onClick={() => handleExport("json")}
+          disabled={running || !Object.keys(statuses).length}
+        >
+          Download JSON
+        </button>
+      </div>
+      <span className="hint">
+        Failed lookups are retried up to three times with backoff; rows whose gush or helka is not a
+        number are skipped. Pairs with more deals than the page cap fetches show as truncated.
+      </span>
+      {error && <p className="error">{error}</p>}
+      {Object.keys(statuses).length > 0 && (
+        <>
+          <div className="dbf-summary">
+            {Object.entries(counts).map(([state, count]) => (
+              <span key={state}>
+                <strong>{count}</strong> {state}
+              </span>
+            ))}
+            <span>
+              <strong>{dealCount}</strong> deals
+            </span>
+          </div>
+          <div className="preview-grid">
+            <table>
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  <th>Gush</th>
+                  <th>Helka</th>
+                  <th>Status</th>
+                  <th>Deals</th>
+                  <th>Attempts</th>
+                  <th>Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, MAX_STATUS_ROWS).map((item) => {
+                  const status = statuses[item.row];
+                  return (
+                    <tr key={item.row} className={status ? STATE_CLASS[status.state] : undefined}>
+                      <td className="numeric">{item.row}</td>
+                      <td>{item.gush}</td>
+                      <td>{item.helka}</td>
+                      <td>
+                        <strong>{status?.state ?? "pending"}</strong>
+                      </td>
+                      <td className="numeric">{status?.deals?.length ?? ""}</td>
+                      <td className="numeric">{status?.attempts ?? 0}</td>
+                      <td>{status?.error ?? ""}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {rows.length > MAX_STATUS_ROWS && (
+            <p className="hint">
+              Showing the first {MAX_STATUS_ROWS} of {rows.length} rows; downloads include all.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default BulkDealLookup;
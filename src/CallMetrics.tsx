@@ -0,0 +1,111 @@
+import { useMemo } from "react";
+import type { GovmapCallMetric } from "./govmap/govmapClient";
+import { formatBytes, summarizeMetrics } from "./govmap/metrics";
+
+type CallMetricsProps = {
+  metrics: GovmapCallMetric[];
+  /** Methods that get a timeout row even before their first call. */
+  methods: string[];
+  timeouts: Record<string, number>;
+  defaultTimeoutMs: number;
+  onTimeoutChange: (method: string, timeoutMs: number | undefined) => void;
+  onClear: () => void;
+};
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+/** p50/p95 latency, failure rate and timeout per GovMap method over this session's calls. */
+function CallMetrics({
+  metrics,
+  methods,
+  timeouts,
+  defaultTimeoutMs,
+  onTimeoutChange,
+  onClear,
+}: CallMetricsProps) {
+  const stats = useMemo(() => summarizeMetrics(metrics), [metrics]);
+  const idle = methods.filter((method) => !stats.some((item) => item.method === method));
+
+  const timeoutInput = (method: string) => (
+    <input
+      type="number"
+      min={0}
+      step={500}
+      value={timeouts[method] ?? ""}
+      placeholder={String(defaultTimeoutMs)}
+      title="Timeout in ms; 0 waits forever, blank uses the default."
+      onChange={(event) =>
+        onTimeoutChange(
+          method,
+          event.target.value === "" ? undefined : Math.max(0, Number(event.target.value)),
+        )
+      }
+      style={{ width: "6rem" }}
+    />
+  );
+
+  return (
+    <div className="form">
+      <div className="preview-grid">
+        <table>
+          <thead>
+            <tr>
+              <th>Method</th>
+              <th>Calls</th>
+              <th>p50</th>
+              <th>p95</th>
+              <th>Max</th>
+              <th title="Median time to the first progress update">1st chunk</th>
+              <th>Response</th>
+              <th title="Timeouts and auth rejections are included">Failed</th>
+              <th>Timeout (ms)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map((item) => (
+              <tr key={item.method}>
+                <td>{item.method}</td>
+                <td className="numeric">{item.count}</td>
+                <td className="numeric">{item.p50Ms} ms</td>
+                <td className="numeric">{item.p95Ms} ms</td>
+                <td className="numeric">{item.maxMs} ms</td>
+                <td className="numeric">
+                  {item.p50FirstChunkMs === undefined ? "–" : `${item.p50FirstChunkMs} ms`}
+                </td>
+                <td className="numeric">{formatBytes(item.p50ResponseBytes)}</td>
+                <td
+                  className="numeric"
+                  title={`${item.timeouts} timed out, ${item.authFailures} rejected by auth`}
+                >
+                  {percent(item.failureRate)}
+                  {item.timeouts + item.authFailures > 0 &&
+                    ` (${item.timeouts} t/o, ${item.authFailures} auth)`}
+                </td>
+                <td>{timeoutInput(item.method)}</td>
+              </tr>
+            ))}
+            {idle.map((method) => (
+              <tr key={method}>
+                <td>{method}</td>
+                <td className="numeric">0</td>
+                <td colSpan={6} />
+                <td>{timeoutInput(method)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", flexWrap: "wrap" }}>
+        <span className="hint">
+          {metrics.length} call{metrics.length === 1 ? "" : "s"} measured. Response sizes are
+          medians of the JSON the API returned.
+        </span>
+        <button type="button" onClick={onClear} disabled={!metrics.length}>
+          Reset metrics
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default CallMetrics;
@@ -0,0 +1,229 @@
+import { UIEvent, useCallback, useDeferredValue, useMemo, useState } from "react";
+import { formatDbfValue } from "./utils/dbf";
+import { ExportFormat, ExportSource, getExportFormat } from "./utils/exporters";
+import {
+  ColumnFilter,
+  EMPTY_TABLE_VIEW,
+  TableViewState,
+  applyTableView,
+  filterKindFor,
+  isFilterActive,
+  projectTable,
+  visibleColumns,
+} from "./utils/tableView";
+
+const ROW_HEIGHT = 30;
+const VIEWPORT_HEIGHT = 360;
+const OVERSCAN = 8;
+
+type DbfPreviewProps = {
+  source: ExportSource;
+  /** Format used by the "export view" button; GeoJSON is offered too when there is geometry. */
+  format: ExportFormat;
+  busy?: boolean;
+  /** Gets the projected rows along with the view that produced them. */
+  onExport: (format: ExportFormat, view: ExportSource, state: TableViewState) => void;
+  /** Index into `source.records` of the highlighted row. */
+  selectedRow?: number | null;
+  /** Makes rows clickable, e.g. to show the row's feature on the map. */
+  onSelectRow?: (row: number) => void;
+};
+
+function columnWidth(length: number, name: string) {
+  return `${Math.min(Math.max(length, name.length, 6) + 2, 32)}ch`;
+}
+
+/**
+ * Virtualized preview of a parsed DBF table. Only the rows in view are
+ * rendered, so multi-million row files stay responsive.
+ */
+function DbfPreview({ source, format, busy, onExport, selectedRow, onSelectRow }: DbfPreviewProps) {
+  const { fields, records } = source;
+  const [view, setView] = useState<TableViewState>(EMPTY_TABLE_VIEW);
+  const [scrollTop, setScrollTop] = useState(0);
+  // Filtering millions of rows on every keystroke would block typing.
+  const deferredView = useDeferredValue(view);
+
+  const rowIndexes = useMemo(
+    () => applyTableView(fields, records, deferredView),
+    [deferredView, fields, records],
+  );
+  const columns = useMemo(() => visibleColumns(fields, view), [fields, view]);
+  const hasGeometry = useMemo(
+    () => Boolean(source.features?.some((feature) => feature.geometry)),
+    [source.features],
+  );
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rowIndexes.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  const setFilter = useCallback((column: number, filter: ColumnFilter) => {
+    setView((prev) => ({ ...prev, filters: { ...prev.filters, [column]: filter } }));
+  }, []);
+
+  const toggleSort = useCallback((column: number) => {
+    setView((prev) => {
+      if (prev.sort?.column !== column) return { ...prev, sort: { column, direction: "asc" } };
+      if (prev.sort.direction === "asc") return { ...prev, sort: { column, direction: "desc" } };
+      return { ...prev, sort: null };
+    });
+  }, []);
+
+  const toggleColumn = useCallback((column: number) => {
+    setView((prev) => ({
+      ...prev,
+      hidden: prev.hidden.includes(column)
+        ? prev.hidden.filter((item) => item !== column)
+        : [...prev.hidden, column],
+    }));
+  }, []);
+
+  const handleScroll = useCallback((event: UIEvent<HTMLDivElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  const exportView = (target: ExportFormat) => {
+    onExport(target, projectTable(source, applyTableView(fields, records, view), columns), view);
+  };
+
+  const activeFilters = Object.values(view.filters).filter(isFilterActive).length;
+  const sampled = source.totalRecords !== undefined && source.totalRecords > records.length;
+  const stale = deferredView !== view;
+
+  return (
+    <div className="form" style={{ marginTop: "0.8rem" }}>
+      <div className="chips">
+        {fields.map((field, index) => (
+          <label key={`${field.name}-${index}`} className="toggle">
+            <input
+              type="checkbox"
+              checked={!view.hidden.includes(index)}
+              onChange={() => toggleColumn(index)}
+            />
+            {field.name}
+          </label>
+        ))}
+      </div>
+      <div className="preview-grid" style={{ height: VIEWPORT_HEIGHT }} onScroll={handleScroll}>
+        <table style={{ opacity: stale ? 0.6 : 1 }}>
+          <colgroup>
+            {columns.map((column) => (
+              <col key={column} style={{ width: columnWidth(fields[column].length, fields[column].name) }} />
+            ))}
+          </colgroup>
+          <thead>
+            <tr>
+              {columns.map((column) => {
+                const field = fields[column];
+                const sorted = view.sort?.column === column ? view.sort.direction : null;
+                return (
+                  <th key={column} title={`${field.type}(${field.length}${field.decimalCount ? `,${field.decimalCount}` : ""})`}>
+                    <button type="button" onClick={() => toggleSort(column)}>
+                      {field.name}
+                      {sorted === "asc" ? " ▲" : sorted === "desc" ? " ▼" : ""}
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+            <tr>
+              {columns.map((column) => {
+                const filter = view.filters[column];
+                if (filterKindFor(fields[column]) === "range") {
+                  const range = filter?.kind === "range" ? filter : { kind: "range" as const, min: "", max: "" };
+                  return (
+                    <th key={column}>
+                      <div className="range-filter">
+                        <input
+                          type="number"
+                          placeholder="min"
+                          value={range.min}
+                          onChange={(event) => setFilter(column, { ...range, min: event.target.value })}
+                        />
+                        <input
+                          type="number"
+                          placeholder="max"
+                          value={range.max}
+                          onChange={(event) => setFilter(column, { ...range, max: event.target.value })}
+                        />
+                      </div>
+                    </th>
+                  );
+                }
+                return (
+                  <th key={column}>
+                    <input
+                      type="search"
+                      placeholder="contains…"
+                      value={filter?.kind === "text" ? filter.query : ""}
+                      onChange={(event) => setFilter(column, { kind: "text", query: event.target.value })}
+                    />
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {first > 0 && <tr style={{ height: first * ROW_HEIGHT }} />}
+            {rowIndexes.slice(first, last).map((row) => (
+              <tr
+                key={row}
+                style={{ height: ROW_HEIGHT }}
+                className={
+                  onSelectRow ? `selectable${row === selectedRow ? " selected" : ""}` : undefined
+                }
+                onClick={onSelectRow && (() => onSelectRow(row))}
+              >
+                {columns.map((column) => {
+                  const value = records[row][column] ?? null;
+                  return (
+                    <td key={column} className={typeof value === "number" ? "numeric" : undefined}>
+                      {formatDbfValue(value, fields[column])}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {last < rowIndexes.length && <tr style={{ height: (rowIndexes.length - last) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+      </div>
+      <div className="response-meta">
+        <span>
+          {rowIndexes.length.toLocaleString()} of {records.length.toLocaleString()} rows ·{" "}
+          {columns.length} of {fields.length} columns
+          {activeFilters ? ` · ${activeFilters} filter${activeFilters === 1 ? "" : "s"}` : ""}
+        </span>
+        <span>
+          <button type="button" onClick={() => setView(EMPTY_TABLE_VIEW)} disabled={view === EMPTY_TABLE_VIEW}>
+            Reset view
+          </button>
+        </span>
+      </div>
+      {sampled && (
+        <p className="hint">
+          Showing the first {records.length.toLocaleString()} of{" "}
+          {source.totalRecords!.toLocaleString()} rows; sorting and filters in the grid only see
+          those, but "export view" reads the whole file again with the same view.
+        </p>
+      )}
+      <div className="hero-actions">
+        <button
+          type="button"
+          className="primary"
+          onClick={() => exportView(format)}
+          disabled={busy || !columns.length}
+        >
+          Export view as {getExportFormat(format).label}
+        </button>
+        {hasGeometry && format !== "geojson" && (
+          <button type="button" onClick={() => exportView("geojson")} disabled={busy}>
+            Export view as GeoJSON
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default DbfPreview;
@@ -0,0 +1,219 @@
+import { useMemo, useState } from "react";
+import { Deal, Distribution, summarizeDeals } from "./govmap/deals";
+
+type DealStatsProps = {
+  deals: Deal[];
+};
+
+type Metric = "pricePerSqm" | "price";
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PAD = { top: 12, right: 16, bottom: 28, left: 64 };
+
+const selectStyle = {
+  padding: "0.6rem 0.8rem",
+  borderRadius: "0.65rem",
+  border: "1px solid #cbd5f5",
+};
+
+const shekels = (value: number) => `₪${Math.round(value).toLocaleString()}`;
+const squareMetres = (value: number) => `${Math.round(value).toLocaleString()} m²`;
+
+/** Fractional year of an ISO date, for placing deals along the time axis. */
+function yearFraction(date: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  return year + ((month - 1) * 30.44 + (day - 1)) / 365.25;
+}
+
+function DistributionRow({
+  label,
+  stats,
+  format,
+}: {
+  label: string;
+  stats: Distribution | null;
+  format: (value: number) => string;
+}) {
+  if (!stats) return null;
+  return (
+    <tr>
+      <td>{label}</td>
+      <td className="numeric">{stats.count}</td>
+      {[stats.median, stats.mean, stats.p10, stats.p25, stats.p75, stats.p90].map(
+        (value, index) => (
+          <td key={index} className="numeric">
+            {format(value)}
+          </td>
+        ),
+      )}
+    </tr>
+  );
+}
+
+/** Price statistics, deals per year and a price trend over the normalized deals. */
+function DealStats({ deals }: DealStatsProps) {
+  const [metric, setMetric] = useState<Metric>("pricePerSqm");
+  const stats = useMemo(() => summarizeDeals(deals), [deals]);
+  const format = metric === "price" ? shekels : (value: number) => `${shekels(value)}/m²`;
+
+  const chart = useMemo(() => {
+    const points = deals.flatMap((deal) =>
+      deal.date && deal[metric] !== null ? [{ x: yearFraction(deal.date), y: deal[metric]! }] : [],
+    );
+    if (points.length < 2) return null;
+    const medians = stats.years.flatMap((year) => {
+      const value = metric === "price" ? year.medianPrice : year.medianPricePerSqm;
+      return value === null ? [] : [{ x: year.year + 0.5, y: value }];
+    });
+    const xs = points.map((point) => point.x);
+    const ys = points.map((point) => point.y);
+    const xMin = Math.floor(Math.min(...xs));
+    const xMax = Math.max(Math.ceil(Math.max(...xs)), xMin + 1);
+    const yMax = Math.max(...ys) * 1.05;
+    const sx = (x: number) =>
+      PAD.left + ((x - xMin) / (xMax - xMin)) * (WIDTH - PAD.left - PAD.right);
+    const sy = (y: number) => HEIGHT - PAD.bottom - (y / yMax) * (HEIGHT - PAD.top - PAD.bottom);
+    const yearStep = Math.max(1, Math.ceil((xMax - xMin) / 10));
+    return {
+      points: points.map((point) => ({ cx: sx(point.x), cy: sy(point.y) })),
+      line: medians.map((point) => `${sx(point.x)},${sy(point.y)}`).join(" "),
+      xTicks: Array.from({ length: Math.floor((xMax - xMin) / yearStep) + 1 }, (_, index) => {
+        const year = xMin + index * yearStep;
+        return { year, x: sx(year) };
+      }),
+      yTicks: [0, 0.25, 0.5, 0.75, 1].map((share) => ({
+        value: yMax * share,
+        y: sy(yMax * share),
+      })),
+    };
+  }, [deals, metric, stats.years]);
+
+  if (!deals.length) return null;
+
+  return (
+    <div className="form">
+      <div className="dbf-summary">
+        <span>
+          <strong>{stats.count}</strong> deals
+        </span>
+        <span>{stats.price?.count ?? 0} with a price</span>
+        <span>{stats.pricePerSqm?.count ?? 0} with price per m²</span>
+        {stats.undated > 0 && <span>{stats.undated} undated</span>}
+      </div>
+      <div className="preview-grid">
+        <table>
+          <thead>
+            <tr>
+              <th />
+              <th>Deals</th>
+              <th>Median</th>
+              <th>Mean</th>
+              <th>P10</th>
+              <th>P25</th>
+              <th>P75</th>
+              <th>P90</th>
+            </tr>
+          </thead>
+          <tbody>
+            <DistributionRow label="Price" stats={stats.price} format={shekels} />
+            <DistributionRow
+              label="Price per m²"
+              stats={stats.pricePerSqm}
+              format={(value) => `${shekels(value)}/m²`}
+            />
+            <DistributionRow label="Area" stats={stats.area} format={squareMetres} />
+          </tbody>
+        </table>
+      </div>
+      {stats.years.length > 0 && (
+        <div className="preview-grid">
+          <table>
+            <thead>
+              <tr>
+                <th>Year</th>
+                <th>Deals</th>
+                <th>Median price</th>
+                <th>Median per m²</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.years.map((year) => (
+                <tr key={year.year}>
+                  <td>{year.year}</td>
+                  <td className="numeric">{year.count}</td>
+                  <td className="numeric">
+                    {year.medianPrice === null ? "–" : shekels(year.medianPrice)}
+                  </td>
+                  <td className="numeric">
+                    {year.medianPricePerSqm === null
+                      ? "–"
+                      : `${shekels(year.medianPricePerSqm)}/m²`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {chart && (
+        <>
+          <label>
+            <span>Trend</span>
+            <select
+              value={metric}
+              onChange={(event) => setMetric(event.target.value as Metric)}
+              style={selectStyle}
+            >
+              <option value="pricePerSqm">Price per m²</option>
+              <option value="price">Price</option>
+            </select>
+            <span className="hint">Dots are deals; the line joins each year's median.</span>
+          </label>
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            width="100%"
+            role="img"
+            aria-label={`${metric === "price" ? "Price" : "Price per m²"} by deal date`}
+            style={{ fontSize: 10 }}
+          >
+            {chart.yTicks.map((tick) => (
+              <g key={tick.value}>
+                <line
+                  x1={PAD.left}
+                  x2={WIDTH - PAD.right}
+                  y1={tick.y}
+                  y2={tick.y}
+                  stroke="#e2e8f0"
+                />
+                <text x={PAD.left - 6} y={tick.y + 3} textAnchor="end" fill="#64748b">
+                  {format(tick.value)}
+                </text>
+              </g>
+            ))}
+            {chart.xTicks.map((tick) => (
+              <text key={tick.year} x={tick.x} y={HEIGHT - 10} textAnchor="middle" fill="#64748b">
+                {tick.year}
+              </text>
+            ))}
+            {chart.points.map((point, index) => (
+              <circle
+                key={index}
+                cx={point.cx}
+                cy={point.cy}
+                r={2.5}
+                fill="#de3b8a"
+                opacity={0.45}
+              />
+            ))}
+            {chart.line && (
+              <polyline points={chart.line} fill="none" stroke="#0f172a" strokeWidth={2} />
+            )}
+          </svg>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default DealStats;
@@ -0,0 +1,103 @@
+import type { ParamError, ParamSpec, PlaygroundMethod } from "./playground/registry";
+import { Srid, getCoordinateSystem } from "./utils/projection";
+
+type PlaygroundFormProps = {
+  method: PlaygroundMethod;
+  values: Record<string, unknown>;
+  /** System x/y params are typed in; their labels follow its axis names. */
+  srid: Srid;
+  /** Shown as the placeholder of blank layer params, which fall back to it. */
+  activeLayer: string;
+  errors: ParamError[];
+  onChange: (key: string, value: unknown) => void;
+};
+
+const selectStyle = {
+  padding: "0.6rem 0.8rem",
+  borderRadius: "0.65rem",
+  border: "1px solid #cbd5f5",
+};
+
+const TEXTAREA_KINDS: ParamSpec["kind"][] = ["textarea", "json", "wkt"];
+
+/** The param inputs of a playground method, generated from its schema. */
+function PlaygroundForm({
+  method,
+  values,
+  srid,
+  activeLayer,
+  errors,
+  onChange,
+}: PlaygroundFormProps) {
+  const { axes } = getCoordinateSystem(srid);
+
+  const input = (key: string, spec: ParamSpec) => {
+    const value = values[key];
+    const text = value === undefined || value === null ? "" : String(value);
+    if (spec.kind === "enum") {
+      return (
+        <select
+          value={text || spec.default || spec.options[0]?.value}
+          onChange={(event) => onChange(key, event.target.value)}
+          style={selectStyle}
+        >
+          {spec.options.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label ?? option.value}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    if (spec.kind === "boolean") {
+      return (
+        <input
+          type="checkbox"
+          checked={value === true || value === "true"}
+          onChange={(event) => onChange(key, event.target.checked)}
+        />
+      );
+    }
+    if (TEXTAREA_KINDS.includes(spec.kind)) {
+      return (
+        <textarea
+          value={text}
+          onChange={(event) => onChange(key, event.target.value)}
+          placeholder={spec.placeholder}
+          rows={3}
+        />
+      );
+    }
+    const numeric = spec.kind === "number" || spec.kind === "x" || spec.kind === "y";
+    return (
+      <input
+        type={numeric ? "number" : "text"}
+        min={spec.kind === "number" ? spec.min : undefined}
+        max={spec.kind === "number" ? spec.max : undefined}
+        step={spec.kind === "number" && spec.integer ? 1 : "any"}
+        value={text}
+        onChange={(event) => onChange(key, event.target.value)}
+        placeholder={spec.kind === "layer" ? activeLayer || spec.placeholder : spec.placeholder}
+      />
+    );
+  };
+
+  return (
+    <>
+      {Object.entries(method.params).map(([key, spec]) => {
+        const error = errors.find((item) => item.key === key);
+        const label = spec.kind === "x" ? axes[0] : spec.kind === "y" ? axes[1] : spec.label;
+        return (
+          <label key={key}>
+            <span>{label}</span>
+            {input(key, spec)}
+            {spec.helper && <span className="hint">{spec.helper}</span>}
+            {error && <span className="error">{error.message}</span>}
+          </label>
+        );
+      })}
+    </>
+  );
+}
+
+export default PlaygroundForm;
@@ -0,0 +1,182 @@
+import { useMemo, useState } from "react";
+import { describeRequest } from "./utils/collections";
+import { diffJson, formatDifference } from "./utils/jsonDiff";
+import type { HistoryEntry } from "./utils/runHistory";
+
+type PlaygroundHistoryProps = {
+  entries: HistoryEntry[];
+  /** Loads the run's request back into the playground form. */
+  onOpen: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  busy?: boolean;
+};
+
+const selectStyle = {
+  padding: "0.6rem 0.8rem",
+  borderRadius: "0.65rem",
+  border: "1px solid #cbd5f5",
+};
+const rowStyle = {
+  display: "flex",
+  gap: "0.4rem",
+  alignItems: "center",
+  flexWrap: "wrap" as const,
+};
+
+const outcomeOf = (entry: HistoryEntry) =>
+  entry.success ? { result: entry.result } : { error: entry.error };
+
+/** What a run called: its playground method, or the street-deals endpoint. */
+const methodOf = ({ request }: HistoryEntry) =>
+  request.kind === "streetDeals" ? "street deals" : request.methodId;
+
+function formatRunTime(timestamp: number) {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+/** Stored runs: reopen or re-run one, or diff the results of two runs of a method. */
+function PlaygroundHistory({ entries, onOpen, onRerun, onDelete, busy }: PlaygroundHistoryProps) {
+  const [methodFilter, setMethodFilter] = useState("");
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const methods = useMemo(() => [...new Set(entries.map(methodOf))].sort(), [entries]);
+  const visible = methodFilter
+    ? entries.filter((entry) => methodOf(entry) === methodFilter)
+    : entries;
+  const compared = useMemo(
+    () =>
+      compareIds
+        .map((id) => entries.find((entry) => entry.id === id))
+        .filter((entry): entry is HistoryEntry => Boolean(entry))
+        .sort((a, b) => a.startedAt - b.startedAt),
+    [compareIds, entries],
+  );
+  const compareMethod = compared[0] && methodOf(compared[0]);
+
+  const differences = useMemo(() => {
+    if (compared.length !== 2) return null;
+    const [older, newer] = compared;
+    return {
+      older,
+      newer,
+      payload: diffJson(older.payload, newer.payload),
+      outcome: diffJson(outcomeOf(older), outcomeOf(newer)),
+    };
+  }, [compared]);
+
+  const toggleCompare = (id: string) =>
+    setCompareIds((prev) =>
+      prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id].slice(-2),
+    );
+
+  return (
+    <div className="response-box">
+      <div className="response-meta">
+        <strong>History</strong>
+        <span>
+          {entries.length} saved
+          {compared.length > 0 && ` · comparing ${compared.length}/2`}
+        </span>
+      </div>
+      {entries.length === 0 ? (
+        <p className="empty">No runs yet.</p>
+      ) : (
+        <>
+          <div style={rowStyle}>
+            <select
+              value={methodFilter}
+              onChange={(event) => setMethodFilter(event.target.value)}
+              style={selectStyle}
+            >
+              <option value="">All methods</option>
+              {methods.map((method) => (
+                <option key={method} value={method}>
+                  {method}
+                </option>
+              ))}
+            </select>
+            <span className="hint">Tick two runs of the same method to diff their results.</span>
+          </div>
+          {visible.map((entry) => (
+            <div key={entry.id} className="log-entry" style={rowStyle}>
+              <input
+                type="checkbox"
+                title="Compare"
+                checked={compareIds.includes(entry.id)}
+                disabled={
+                  !compareIds.includes(entry.id) &&
+                  compareMethod !== undefined &&
+                  compareMethod !== methodOf(entry)
+                }
+                onChange={() => toggleCompare(entry.id)}
+              />
+              <span style={{ flex: 1, minWidth: "12rem" }}>
+                {formatRunTime(entry.startedAt)} | {entry.methodName} |{" "}
+                {entry.success ? "ok" : "error"} |{" "}
+                <span className="hint">{describeRequest(entry.request)}</span>
+              </span>
+              <button type="button" onClick={() => onOpen(entry)}>
+                Open
+              </button>
+              <button type="button" onClick={() => onRerun(entry)} disabled={busy}>
+                Re-run
+              </button>
+              <button type="button" onClick={() => onDelete(entry.id)}>
+                Delete
+              </button>
+            </div>
+          ))}
+        </>
+      )}
+      {differences && (
+        <>
+          <div className="response-meta">
+            <strong>
+              {formatRunTime(differences.older.startedAt)} →{" "}
+              {formatRunTime(differences.newer.startedAt)}
+            </strong>
+            <span>
+              {differences.outcome.differences.length
+                ? `${differences.outcome.truncated ? "First " : ""}${
+                    differences.outcome.differences.length
+                  } result difference${differences.outcome.differences.length === 1 ? "" : "s"}`
+                : "Results identical"}
+            </span>
+          </div>
+          {differences.payload.differences.length > 0 && (
+            <p className="hint">
+              Payloads differ too:{" "}
+              {differences.payload.differences.map((item) => item.path).join(", ")}
+              {differences.payload.truncated && ", …"}
+            </p>
+          )}
+          {differences.outcome.truncated && (
+            <p className="hint">
+              The diff stopped after {differences.outcome.differences.length} differences; the
+              results differ in more places than listed.
+            </p>
+          )}
+          <ul className="validation-issues">
+            {differences.outcome.differences.map((difference) => (
+              <li
+                key={difference.path}
+                className={difference.kind === "changed" ? "issue-warning" : "issue-info"}
+              >
+                <strong>{difference.kind}</strong> {formatDifference(difference)}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default PlaygroundHistory;
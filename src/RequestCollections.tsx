@@ -0,0 +1,240 @@
+import { ChangeEvent, KeyboardEvent, useMemo, useState } from "react";
+import {
+  CollectionItem,
+  RequestCollection,
+  SavedRequest,
+  addNode,
+  createCollection,
+  createFolder,
+  createSavedRequest,
+  deleteNode,
+  describeRequest,
+  duplicateNode,
+  listFolders,
+  renameNode,
+} from "./utils/collections";
+
+type RequestKind = SavedRequest["request"]["kind"];
+
+type RequestCollectionsProps = {
+  collections: RequestCollection[];
+  onChange: (collections: RequestCollection[]) => void;
+  /** Loads a saved request back into its form. */
+  onOpen: (request: SavedRequest) => void;
+  /** What the playground or street-deals form holds right now. */
+  captureRequest: (kind: RequestKind) => SavedRequest["request"];
+  onImport: (file: File) => void;
+  onExport: () => void;
+};
+
+const selectStyle = {
+  padding: "0.6rem 0.8rem",
+  borderRadius: "0.65rem",
+  border: "1px solid #cbd5f5",
+};
+const rowStyle = {
+  display: "flex",
+  gap: "0.4rem",
+  alignItems: "center",
+  flexWrap: "wrap" as const,
+};
+
+/** Postman-style saved requests: collections, folders, rename/duplicate/delete and import/export. */
+function RequestCollections({
+  collections,
+  onChange,
+  onOpen,
+  captureRequest,
+  onImport,
+  onExport,
+}: RequestCollectionsProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; value: string } | null>(null);
+
+  const selected =
+    collections.find((collection) => collection.id === selectedId) ?? collections[0] ?? null;
+  const folders = useMemo(() => (selected ? listFolders(selected) : []), [selected]);
+  const target =
+    selected && folders.some((folder) => folder.id === targetId)
+      ? targetId
+      : (selected?.id ?? null);
+
+  const ensureCollection = () => {
+    if (selected) return { collections, parentId: target ?? selected.id };
+    const collection = createCollection("My requests");
+    setSelectedId(collection.id);
+    return { collections: [collection], parentId: collection.id };
+  };
+
+  const save = (kind: RequestKind) => {
+    const request = captureRequest(kind);
+    const { collections: base, parentId } = ensureCollection();
+    onChange(
+      addNode(base, parentId, createSavedRequest(name.trim() || describeRequest(request), request)),
+    );
+    setName("");
+  };
+
+  const addFolder = () => {
+    const { collections: base, parentId } = ensureCollection();
+    const folder = createFolder(name.trim() || "New folder");
+    onChange(addNode(base, parentId, folder));
+    setTargetId(folder.id);
+    setName("");
+  };
+
+  const addCollection = () => {
+    const collection = createCollection(name.trim() || `Collection ${collections.length + 1}`);
+    onChange([...collections, collection]);
+    setSelectedId(collection.id);
+    setName("");
+  };
+
+  const commitRename = () => {
+    const value = renaming?.value.trim();
+    if (renaming && value) onChange(renameNode(collections, renaming.id, value));
+    setRenaming(null);
+  };
+
+  const renameKeys = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") commitRename();
+    if (event.key === "Escape") setRenaming(null);
+  };
+
+  const nodeActions = (id: string, label: string) =>
+    renaming?.id === id ? (
+      <input
+        autoFocus
+        value={renaming.value}
+        onChange={(event) => setRenaming({ id, value: event.target.value })}
+        onBlur={commitRename}
+        onKeyDown={renameKeys}
+      />
+    ) : (
+      <>
+        <button type="button" onClick={() => setRenaming({ id, value: label })}>
+          Rename
+        </button>
+        <button type="button" onClick={() => onChange(duplicateNode(collections, id))}>
+          Duplicate
+        </button>
+        <button type="button" onClick={() => onChange(deleteNode(collections, id))}>
+          Delete
+        </button>
+      </>
+    );
+
+  const renderItems = (items: CollectionItem[], depth: number) =>
+    items.map((item) => (
+      <div key={item.id} style={{ marginInlineStart: `${depth * 1.1}rem` }}>
+        <div className="log-entry" style={rowStyle}>
+          {item.type === "folder" ? (
+            <strong>📁 {item.name}</strong>
+          ) : (
+            <>
+              <button type="button" className="primary" onClick={() => onOpen(item)}>
+                Open
+              </button>
+              <span>
+                <strong>{item.name}</strong>{" "}
+                <span className="hint">{describeRequest(item.request)}</span>
+              </span>
+            </>
+          )}
+          {nodeActions(item.id, item.name)}
+        </div>
+        {item.type === "folder" && renderItems(item.items, depth + 1)}
+      </div>
+    ));
+
+  return (
+    <div className="form">
+      <div style={rowStyle}>
+        <select
+          value={selected?.id ?? ""}
+          onChange={(event) => setSelectedId(event.target.value)}
+          style={selectStyle}
+          disabled={!collections.length}
+        >
+          {collections.length === 0 && <option value="">No collections yet</option>}
+          {collections.map((collection) => (
+            <option key={collection.id} value={collection.id}>
+              {collection.name}
+            </option>
+          ))}
+        </select>
+        {selected && nodeActions(selected.id, selected.name)}
+      </div>
+      <label>
+        <span>Name</span>
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="identify Tel Aviv block 6912"
+        />
+        <span className="hint">
+          Used by the save and new buttons below; blank names describe the request.
+        </span>
+      </label>
+      {selected && (
+        <label>
+          <span>Save into</span>
+          <select
+            value={target ?? ""}
+            onChange={(event) => setTargetId(event.target.value)}
+            style={selectStyle}
+          >
+            <option value={selected.id}>{selected.name} (top level)</option>
+            {folders.map((folder) => (
+              <option key={folder.id} value={folder.id}>
+                {folder.path}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      <div style={rowStyle}>
+        <button type="button" className="primary" onClick={() => save("playground")}>
+          Save playground request
+        </button>
+        <button type="button" onClick={() => save("streetDeals")}>
+          Save street-deals request
+        </button>
+        <button type="button" onClick={addFolder}>
+          New folder
+        </button>
+        <button type="button" onClick={addCollection}>
+          New collection
+        </button>
+      </div>
+      <div style={rowStyle}>
+        <label>
+          <span>Import JSON</span>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(event: ChangeEvent<HTMLInputElement>) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) onImport(file);
+            }}
+          />
+        </label>
+        <button type="button" onClick={onExport} disabled={!collections.length}>
+          Export all
+        </button>
+      </div>
+      <div className="response-box">
+        {selected && selected.items.length > 0 ? (
+          renderItems(selected.items, 0)
+        ) : (
+          <p className="empty">Nothing saved yet. Fill in a request and save it here.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RequestCollections;
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { BulkRow, BulkRowStatus, bulkResultsToTable, runBulkLookup } from "./bulkDeals";
+import { collectStreetDeals } from "./streetDeals";
+
+const rows: BulkRow[] = [1, 2, 3, 4].map((row) => ({
+  row,
+  gush: "6638",
+  helka: String(100 + row),
+  source: { GUSH: 6638, HELKA: 100 + row },
+}));
+
+describe("runBulkLookup", () => {
+  it("paces every request of the run through one limiter", async () => {
+    const starts: number[] = [];
+    await runBulkLookup(rows, {
+      concurrency: 4,
+      minIntervalMs: 30,
+      lookup: async (_row, signal, throttle) => {
+        for (let page = 0; page < 2; page += 1) {
+          await throttle(signal);
+          starts.push(Date.now());
+        }
+        return { deals: [], truncated: false };
+      },
+      onStatus: () => {},
+    });
+    expect(starts).toHaveLength(8);
+    const gaps = starts.slice(1).map((start, index) => start - starts[index]);
+    expect(Math.min(...gaps)).toBeGreaterThanOrEqual(25);
+  });
+
+  it("marks a pair cut short by the page cap as truncated", async () => {
+    const statuses: Record<number, BulkRowStatus> = {};
+    await runBulkLookup(rows.slice(0, 2), {
+      minIntervalMs: 0,
+      lookup: async (row, signal, throttle) => {
+        const collection = await collectStreetDeals(row.gush, row.helka, {
+          maxPages: 2,
+          pageSize: 1,
+          signal,
+          throttle,
+          fetchPage: async ({ offset = 0 }) => ({
+            upstreamUrl: "",
+            status: 200,
+            ok: true,
+            data: {
+              data: offset < 3 ? [{ dealId: `${row.helka}-${offset}` }] : [],
+              total: row.row === 1 ? 3 : 2,
+            },
+          }),
+        });
+        return { deals: collection.deals, truncated: collection.stop === "max-pages" };
+      },
+      onStatus: (row, status) => {
+        statuses[row] = status;
+      },
+    });
+    expect(statuses[1]).toMatchObject({ state: "truncated", deals: [{}, {}] });
+    expect(statuses[2]).toMatchObject({ state: "done", deals: [{}, {}] });
+
+    const table = bulkResultsToTable(rows.slice(0, 2), statuses);
+    const status = table.fields.findIndex((field) => field.name === "lookup_status");
+    expect(table.records.map((record) => record[status])).toEqual([
+      "truncated",
+      "truncated",
+      "done",
+      "done",
+    ]);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Street-deals lookups for a whole list of gush/helka pairs: finds the pair
+ * columns in a CSV or DBF table, runs the lookups with bounded concurrency and
+ * retry with backoff, and flattens the outcome into one table with each
+ * source row attached.
+ */
+import type { DbfValue } from "../utils/dbf";
+import type { ExportSource } from "../utils/exporters";
+import { objectsToTable } from "../utils/featureResults";
+import { dealRow, normalizeDeal } from "./deals";
+import {
+  RateLimiter,
+  StreetDeal,
+  StreetDealsError,
+  abortableDelay,
+  createRateLimiter,
+} from "./streetDeals";
+
+export type BulkSourceRow = Record<string, DbfValue>;
+
+export type BulkRow = {
+  /** 1-based position in the uploaded list. */
+  row: number;
+  gush: string;
+  helka: string;
+  source: BulkSourceRow;
+};
+
+/** `truncated` is done, but the pair had more pages than a lookup fetches. */
+export type BulkRowState =
+  "pending" | "running" | "retrying" | "done" | "truncated" | "failed" | "skipped";
+
+export type BulkRowStatus = {
+  state: BulkRowState;
+  attempts: number;
+  deals?: StreetDeal[];
+  error?: string;
+};
+
+export type BulkLookupResult = {
+  deals: StreetDeal[];
+  /** The lookup stopped at its page cap with more deals left upstream. */
+  truncated: boolean;
+};
+
+export type BulkLookupOptions = {
+  /** Lookups in flight at once (default 4). */
+  concurrency?: number;
+  /** Extra attempts after a retryable failure (default 3). */
+  retries?: number;
+  /** First backoff; doubles per attempt, with jitter (default 1000 ms). */
+  baseDelayMs?: number;
+  /** Minimum gap between the starts of any two requests in the run (default 500 ms). */
+  minIntervalMs?: number;
+  signal?: AbortSignal;
+  /** Runs one pair; every request it makes should wait on `throttle`, shared by the whole run. */
+  lookup: (
+    row: BulkRow,
+    signal: AbortSignal | undefined,
+    throttle: RateLimiter,
+  ) => Promise<BulkLookupResult>;
+  onStatus: (row: number, status: BulkRowStatus) => void;
+};
+
+const GUSH_NAMES = ["gush", "lot", "block", "gushnum", "גוש"];
+const HELKA_NAMES = ["helka", "parcel", "helkanum", "parcelnum", "חלקה"];
+
+const columnKey = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+/** The gush and helka columns among `headers`, matched loosely (GUSH, Gush_Num, גוש…). */
+export function findParcelColumns(headers: string[]) {
+  const find = (names: string[]) =>
+    headers.find((header) => names.includes(columnKey(header))) ??
+    headers.find((header) => names.some((name) => columnKey(header).startsWith(name)));
+  return { gush: find(GUSH_NAMES) ?? null, helka: find(HELKA_NAMES) ?? null };
+}
+
+export function bulkRowsFromObjects(
+  objects: BulkSourceRow[],
+  columns: { gush: string; helka: string },
+): BulkRow[] {
+  const text = (value: DbfValue | undefined) =>
+    value === null || value === undefined ? "" : String(value).trim();
+  return objects.map((source, index) => ({
+    row: index + 1,
+    gush: text(source[columns.gush]),
+    helka: text(source[columns.helka]),
+    source,
+  }));
+}
+
+export function objectsFromTable({ fields, records }: ExportSource): BulkSourceRow[] {
+  return records.map((record) =>
+    Object.fromEntries(fields.map((field, index) => [field.name, record[index]])),
+  );
+}
+
+/** Network failures, throttling and upstream 5xx are worth another try; other 4xx are not. */
+export function isRetryable(error: unknown) {
+  if (error instanceof StreetDealsError) return error.status === 429 || error.status >= 500;
+  return error instanceof TypeError;
+}
+
+const isPositiveInteger = (value: string) => /^\d+$/.test(value) && Number(value) > 0;
+
+/**
+ * Looks up every row, `concurrency` at a time, reporting each state change.
+ * One rate limit covers the whole run, however many lookups are in flight.
+ * Rows without a numeric gush and helka are skipped. Resolves once every row
+ * has settled or, after `signal` aborts, once the lookups in flight stop;
+ * rows never started stay pending.
+ */
+export async function runBulkLookup(rows: BulkRow[], options: BulkLookupOptions) {
+  const { concurrency = 4, retries = 3, baseDelayMs = 1000, signal, lookup, onStatus } = options;
+  const throttle = createRateLimiter(options.minIntervalMs ?? 500);
+  let next = 0;
+
+  const runRow = async (item: BulkRow) => {
+    if (!isPositiveInteger(item.gush) || !isPositiveInteger(item.helka)) {
+      onStatus(item.row, {
+        state: "skipped",
+        attempts: 0,
+        error: "Gush and helka must be whole numbers.",
+      });
+      return;
+    }
+    for (let attempt = 1; ; attempt += 1) {
+      onStatus(item.row, { state: attempt === 1 ? "running" : "retrying", attempts: attempt });
+      try {
+        const { deals, truncated } = await lookup(item, signal, throttle);
+        onStatus(item.row, { state: truncated ? "truncated" : "done", attempts: attempt, deals });
+        return;
+      } catch (error) {
+        if (signal?.aborted) {
+          onStatus(item.row, { state: "pending", attempts: attempt - 1 });
+          return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        if (attempt > retries || !isRetryable(error)) {
+          onStatus(item.row, { state: "failed", attempts: attempt, error: message });
+          return;
+        }
+        const backoff = baseDelayMs * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+        onStatus(item.row, { state: "retrying", attempts: attempt, error: message });
+        try {
+          await abortableDelay(backoff, signal);
+        } catch {
+          onStatus(item.row, { state: "pending", attempts: attempt });
+          return;
+        }
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (next < rows.length && !signal?.aborted) {
+      await runRow(rows[next++]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, rows.length)) }, worker),
+  );
+}
+
+const sourceColumns = (source: BulkSourceRow) =>
+  Object.fromEntries(Object.entries(source).map(([key, value]) => [`source_${key}`, value]));
+
+/**
+ * One line per deal, prefixed by the source row's columns (as `source_*`);
+ * rows with no deals, a failure or a skip get a single line saying so.
+ */
+export function bulkResultsToTable(
+  rows: BulkRow[],
+  statuses: Record<number, BulkRowStatus>,
+): ExportSource {
+  const lines = rows.flatMap((item) => {
+    const status = statuses[item.row];
+    const base = {
+      row: item.row,
+      ...sourceColumns(item.source),
+      lookup_status: status?.state ?? "pending",
+      lookup_error: status?.error ?? null,
+    };
+    const deals = status?.deals ?? [];
+    return deals.length
+      ? deals.map((deal) => ({ ...base, ...dealRow(normalizeDeal(deal)) }))
+      : [base];
+  });
+  return objectsToTable(lines, "Bulk street deals");
+}
+
+/** Nested JSON: each source row with its status and normalized plus raw deals. */
+export function bulkResultsToJson(rows: BulkRow[], statuses: Record<number, BulkRowStatus>) {
+  return rows.map((item) => {
+    const status = statuses[item.row];
+    return {
+      row: item.row,
+      gush: item.gush,
+      helka: item.helka,
+      source: item.source,
+      status: status?.state ?? "pending",
+      attempts: status?.attempts ?? 0,
+      error: status?.error,
+      deals: (status?.deals ?? []).map((deal) => {
+        const normalized = normalizeDeal(deal);
+        return { ...dealRow(normalized), raw: normalized.raw };
+      }),
+    };
+  });
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { distribution, normalizeDeal, parseDealDate } from "./deals";
+
+describe("distribution", () => {
+  it("interpolates like spreadsheet MEDIAN and PERCENTILE", () => {
+    expect(distribution([4_000_000, 1_000_000, 3_000_000, 2_000_000])).toEqual({
+      count: 4,
+      mean: 2_500_000,
+      median: 2_500_000,
+      p10: 1_300_000,
+      p25: 1_750_000,
+      p75: 3_250_000,
+      p90: 3_700_000,
+      min: 1_000_000,
+      max: 4_000_000,
+    });
+  });
+
+  it("gives the single value for every percentile of one deal", () => {
+    expect(distribution([1_800_000])).toMatchObject({ median: 1_800_000, p10: 1_800_000 });
+  });
+});
+
+describe("parseDealDate", () => {
+  it.each([
+    ["2020-05-10T00:00:00", "2020-05-10"],
+    ["2020-05", "2020-05-01"],
+    ["29/02/2020", "2020-02-29"],
+    ["1.3.2021", "2021-03-01"],
+    ["/Date(1589068800000)/", "2020-05-10"],
+  ])("reads %s", (value, expected) => {
+    expect(parseDealDate(value)).toBe(expected);
+  });
+
+  it.each(["2020-13-45", "2021-02-29", "31/02/2020", "00/01/2020", "2020-00"])(
+    "rejects the impossible %s",
+    (value) => {
+      expect(parseDealDate(value)).toBeNull();
+    },
+  );
+});
+
+describe("normalizeDeal", () => {
+  it.each([
+    [{ GUSH: "12420-1-0" }, { gush: 12420, helka: 1 }],
+    [{ gush: "6638/96" }, { gush: 6638, helka: 96 }],
+    [
+      { gush: "6638 / 96", helka: 97 },
+      { gush: 6638, helka: 97 },
+    ],
+    [
+      { gush: 6638, gushHelka: "6638-96-0" },
+      { gush: 6638, helka: 96 },
+    ],
+    [{ gush: "6638" }, { gush: 6638, helka: null }],
+  ])("splits the parcel out of %j", (deal, parcel) => {
+    expect(normalizeDeal(deal)).toMatchObject(parcel);
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Street deals mapped onto one typed model, whatever the upstream calls its
+ * fields this month, and the price statistics appraisers work from.
+ * Field names are matched case-insensitively with separators ignored, so
+ * `DEAL_AMOUNT`, `dealAmount` and `deal amount` all land on `price`.
+ */
+import type { StreetDeal } from "./streetDeals";
+
+export type Deal = {
+  /** ISO date (YYYY-MM-DD). */
+  date: string | null;
+  year: number | null;
+  price: number | null;
+  /** Square metres. */
+  area: number | null;
+  pricePerSqm: number | null;
+  rooms: number | null;
+  /** Numeric floor; ground floor is 0. */
+  floor: number | null;
+  /** The floor as given, for values like "3 מתוך 8". */
+  floorLabel: string | null;
+  address: string | null;
+  gush: number | null;
+  helka: number | null;
+  raw: StreetDeal;
+};
+
+/** Accepted spellings per field, compared after `fieldKey`. */
+const ALIASES = {
+  date: ["dealDate", "dealDatetime", "date", "saleDate", "transactionDate", "תאריך", "תאריךעסקה"],
+  price: [
+    "dealAmount",
+    "price",
+    "amount",
+    "salePrice",
+    "dealPrice",
+    "מחיר",
+    "סכוםעסקה",
+    "מחירעסקה",
+  ],
+  area: ["assetArea", "area", "dealArea", "size", "sqm", "buildingArea", "שטח", "שטחנכס", "מר"],
+  rooms: ["assetRoomNum", "rooms", "roomNum", "roomsNumber", "numRooms", "חדרים", "מספרחדרים"],
+  floor: ["floorNo", "floor", "floorNumber", "קומה"],
+  address: ["fullAddress", "address", "displayAddress", "כתובת"],
+  street: ["streetName", "street", "רחוב"],
+  houseNumber: ["houseNumber", "houseNum", "buildingNumber", "מספרבית"],
+  city: ["settlementName", "cityName", "city", "יישוב", "ישוב", "עיר"],
+  gush: ["gush", "lot", "block", "גוש"],
+  helka: ["helka", "parcel", "חלקה"],
+  gushHelka: ["gushHelka", "blockParcel", "lotParcel", "parcelNum", "גושחלקה"],
+} satisfies Record<string, string[]>;
+
+/** Hebrew ordinal floors GovMap sometimes spells out. */
+const FLOOR_WORDS: Record<string, number> = {
+  קרקע: 0,
+  מרתף: -1,
+  ראשונה: 1,
+  שניה: 2,
+  שנייה: 2,
+  שלישית: 3,
+  רביעית: 4,
+  חמישית: 5,
+  שישית: 6,
+  שביעית: 7,
+  שמינית: 8,
+  תשיעית: 9,
+  עשירית: 10,
+};
+
+const fieldKey = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+const ALIAS_KEYS = Object.fromEntries(
+  Object.entries(ALIASES).map(([field, names]) => [field, names.map(fieldKey)]),
+) as Record<keyof typeof ALIASES, string[]>;
+
+function pick(deal: StreetDeal, field: keyof typeof ALIASES): unknown {
+  const keys = new Map(Object.keys(deal).map((key) => [fieldKey(key), key]));
+  for (const alias of ALIAS_KEYS[field]) {
+    const key = keys.get(alias);
+    if (key !== undefined && deal[key] !== null && deal[key] !== "") return deal[key];
+  }
+  return undefined;
+}
+
+/** Numbers, or strings like "1,250,000 ₪" and "85.5 מ״ר". */
+export function parseNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const match = value.replace(/,/g, "").match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** `YYYY-MM-DD`, or null for a day the calendar does not have (month 13, 31 February). */
+function isoDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const valid =
+    date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  return valid ? `${year}-${pad(month)}-${pad(day)}` : null;
+}
+
+/**
+ * ISO strings, dd/mm/yyyy (Israeli order), epoch milliseconds and `/Date(…)/`.
+ * Impossible dates give null.
+ */
+export function parseDealDate(value: unknown): string | null {
+  let date: Date | null = null;
+  if (typeof value === "number") {
+    date = new Date(value);
+  } else if (typeof value === "string") {
+    const text = value.trim();
+    const dotNet = text.match(/^\/Date\((-?\d+)/);
+    const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/);
+    const yearFirst = text.match(/^(\d{4})-(\d{2})(?:-(\d{2}))?/);
+    if (dotNet) {
+      date = new Date(Number(dotNet[1]));
+    } else if (dayFirst) {
+      const [, day, month, year] = dayFirst.map(Number);
+      return isoDate(year, month, day);
+    } else if (yearFirst) {
+      const [, year, month, day = "1"] = yearFirst;
+      return isoDate(Number(year), Number(month), Number(day));
+    } else {
+      date = new Date(text);
+    }
+  }
+  if (!date || Number.isNaN(date.getTime())) return null;
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+function parseFloor(value: unknown) {
+  if (value === undefined) return { floor: null, floorLabel: null };
+  const label = String(value).trim();
+  const word = Object.keys(FLOOR_WORDS).find((key) => label.includes(key));
+  return { floor: word !== undefined ? FLOOR_WORDS[word] : parseNumber(label), floorLabel: label };
+}
+
+function parseAddress(deal: StreetDeal) {
+  const full = pick(deal, "address");
+  if (typeof full === "string" && full.trim()) return full.trim();
+  const parts = [pick(deal, "street"), pick(deal, "houseNumber")]
+    .filter((part) => part !== undefined)
+    .join(" ");
+  const city = pick(deal, "city");
+  const address = [parts, city].filter((part) => part !== undefined && part !== "").join(", ");
+  return address || null;
+}
+
+const PARCEL_SEPARATOR = /[-/\s]+/;
+
+function splitParcel(value: string) {
+  const [gush, helka] = value.trim().split(PARCEL_SEPARATOR).map(parseNumber);
+  return { gush: gush ?? null, helka: helka ?? null };
+}
+
+/**
+ * Gush and helka from their own fields, or split from a combined "6638-96" /
+ * "6638/96/0", whether that sits in a combined field or in the gush field itself.
+ */
+function parseParcel(deal: StreetDeal) {
+  const gushValue = pick(deal, "gush");
+  const fromGush =
+    typeof gushValue === "string" && PARCEL_SEPARATOR.test(gushValue.trim())
+      ? splitParcel(gushValue)
+      : null;
+  let gush = fromGush ? fromGush.gush : parseNumber(gushValue);
+  let helka = parseNumber(pick(deal, "helka")) ?? fromGush?.helka ?? null;
+  const combined = pick(deal, "gushHelka");
+  if ((gush === null || helka === null) && typeof combined === "string") {
+    const split = splitParcel(combined);
+    gush ??= split.gush;
+    helka ??= split.helka;
+  }
+  return { gush, helka };
+}
+
+export function normalizeDeal(deal: StreetDeal): Deal {
+  const date = parseDealDate(pick(deal, "date"));
+  const price = parseNumber(pick(deal, "price"));
+  const area = parseNumber(pick(deal, "area"));
+  return {
+    date,
+    year: date ? Number(date.slice(0, 4)) : null,
+    price,
+    area,
+    pricePerSqm: price !== null && area ? Math.round(price / area) : null,
+    rooms: parseNumber(pick(deal, "rooms")),
+    ...parseFloor(pick(deal, "floor")),
+    address: parseAddress(deal),
+    ...parseParcel(deal),
+    raw: deal,
+  };
+}
+
+/** Flat row for the table and exports; `raw` is left out. */
+export function dealRow({ raw, ...deal }: Deal): Record<string, unknown> {
+  return deal;
+}
+
+export type Distribution = {
+  count: number;
+  mean: number;
+  median: number;
+  p10: number;
+  p25: number;
+  p75: number;
+  p90: number;
+  min: number;
+  max: number;
+};
+
+export type YearStats = {
+  year: number;
+  count: number;
+  medianPrice: number | null;
+  medianPricePerSqm: number | null;
+};
+
+export type DealStats = {
+  count: number;
+  price: Distribution | null;
+  pricePerSqm: Distribution | null;
+  area: Distribution | null;
+  /** Oldest year first. */
+  years: YearStats[];
+  /** Deals without a usable date, left out of `years`. */
+  undated: number;
+};
+
+/**
+ * The value at `p` percent of a sorted list, interpolating between neighbours
+ * as spreadsheet PERCENTILE and MEDIAN do: the median of 1, 2, 3, 4 is 2.5.
+ */
+function percentile(sorted: number[], p: number) {
+  const rank = (p / 100) * (sorted.length - 1);
+  const below = Math.floor(rank);
+  const above = Math.min(sorted.length - 1, below + 1);
+  return sorted[below] + (rank - below) * (sorted[above] - sorted[below]);
+}
+
+export function distribution(values: number[]): Distribution | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    median: percentile(sorted, 50),
+    p10: percentile(sorted, 10),
+    p25: percentile(sorted, 25),
+    p75: percentile(sorted, 75),
+    p90: percentile(sorted, 90),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+const present = (values: (number | null)[]) =>
+  values.filter((value): value is number => value !== null);
+
+export function summarizeDeals(deals: Deal[]): DealStats {
+  const byYear = new Map<number, Deal[]>();
+  for (const deal of deals) {
+    if (deal.year === null) continue;
+    byYear.set(deal.year, [...(byYear.get(deal.year) ?? []), deal]);
+  }
+  return {
+    count: deals.length,
+    price: distribution(present(deals.map((deal) => deal.price))),
+    pricePerSqm: distribution(present(deals.map((deal) => deal.pricePerSqm))),
+    area: distribution(present(deals.map((deal) => deal.area))),
+    years: [...byYear.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([year, items]) => ({
+        year,
+        count: items.length,
+        medianPrice: distribution(present(items.map((deal) => deal.price)))?.median ?? null,
+        medianPricePerSqm:
+          distribution(present(items.map((deal) => deal.pricePerSqm)))?.median ?? null,
+      })),
+    undated: deals.filter((deal) => deal.year === null).length,
+  };
+}
@@ -0,0 +1,49 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createFakeGovmapRuntime, seededRandom } from "./fakeRuntime";
+import { createGovmapClient } from "./govmapClient";
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+async function fakeMap() {
+  document.body.innerHTML = '<div id="map"></div>';
+  const runtime = createFakeGovmapRuntime({ latencyMs: 0, jitterMs: 0, random: seededRandom(1) });
+  const client = createGovmapClient({ target: "map", runtime: () => runtime });
+  await client.createMap({});
+  const click = () => document.getElementById("map")?.click();
+  return { runtime, client, click };
+}
+
+describe("fake getXY", () => {
+  it("drops the click listener once the operation is aborted", async () => {
+    const { runtime, client, click } = await fakeMap();
+    const heard = vi.fn();
+    const getXY = runtime.getXY as () => { progress: (callback: () => void) => unknown };
+    runtime.getXY = () => {
+      const handle = getXY();
+      handle.progress(heard);
+      return handle;
+    };
+    const controller = new AbortController();
+    const clicks = client.getXY({ signal: controller.signal });
+    click();
+    await clicks;
+    expect(heard).toHaveBeenCalledTimes(1);
+
+    controller.abort();
+    click();
+    expect(heard).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps listening for other callers", async () => {
+    const { client, click } = await fakeMap();
+    const first = new AbortController();
+    client.getXY({ signal: first.signal });
+    const second = client.getXY();
+    first.abort();
+    click();
+    await expect(second).resolves.toMatchObject({ mapPoint: { x: expect.any(Number) } });
+  });
+});
@@ -0,0 +1,554 @@
+/**
+ * An offline stand-in for `window.govmap`. Layers come from the GeoJSON files
+ * in ./fixtures (ITM), responses arrive after a simulated latency, and calls
+ * can be made to fail, hang or be refused as unauthorised.
+ */
+import {
+  AnyGeometry,
+  BBox,
+  Feature,
+  FeatureCollection,
+  geometryBbox,
+  mergeBbox,
+} from "../utils/geojson";
+import { geometriesIntersect, parseWkt, toWkt } from "../utils/geometry";
+import type {
+  GovmapEntitiesParams,
+  GovmapExtent,
+  GovmapGeometryBatchParams,
+  GovmapGeometryParams,
+  GovmapIntersectParams,
+  GovmapLayerEntitiesParams,
+  GovmapMapOptions,
+  GovmapPoint,
+  GovmapRuntime,
+} from "./govmapClient";
+import { DEFAULT_FAKE_SETTINGS, FakeGovmapSettings } from "./fakeSettings";
+import gushFixture from "./fixtures/SUB_GUSH_ALL.geojson?raw";
+import parcelFixture from "./fixtures/PARCEL_ALL.geojson?raw";
+import nadlanFixture from "./fixtures/nadlan.geojson?raw";
+import planFixture from "./fixtures/layer_215978.geojson?raw";
+
+export type FakeGovmapOptions = Partial<FakeGovmapSettings> & {
+  /** Extra or replacement layers, keyed by layer name. */
+  layers?: Record<string, FeatureCollection>;
+  /** Source of randomness for jitter and failures; pass a seeded one for repeatable runs. */
+  random?: () => number;
+};
+
+export const FAKE_DRAW_TYPE = { Point: 0, Polyline: 1, Polygon: 2, Circle: 3, Rectangle: 4 };
+
+/** A small deterministic generator (mulberry32) to pass as `random`. */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let mixed = Math.imul(state ^ (state >>> 15), state | 1);
+    mixed ^= mixed + Math.imul(mixed ^ (mixed >>> 7), mixed | 61);
+    return ((mixed ^ (mixed >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const LAYER_ALIASES: Record<string, string> = {
+  layer_nadlan: "nadlan",
+  "govmap:layer_nadlan": "nadlan",
+};
+const LAYER_COLORS: Record<string, string> = {
+  SUB_GUSH_ALL: "#475569",
+  PARCEL_ALL: "#94a3b8",
+  nadlan: "#f97316",
+  layer_215978: "#16a34a",
+};
+const IDENTIFY_TOLERANCE_PX = 6;
+const DEFAULT_SIZE = { width: 800, height: 600 };
+
+function readFixture(text: string) {
+  return JSON.parse(text) as FeatureCollection;
+}
+
+function fixtureLayers(): Record<string, FeatureCollection> {
+  return {
+    SUB_GUSH_ALL: readFixture(gushFixture),
+    PARCEL_ALL: readFixture(parcelFixture),
+    nadlan: readFixture(nadlanFixture),
+    layer_215978: readFixture(planFixture),
+  };
+}
+
+// --- where clauses ---
+
+type Condition = (properties: Record<string, unknown>) => boolean;
+
+const CONDITION =
+  /^(\w+)\s*(=|<>|!=|>=|<=|>|<|\bNOT\s+LIKE\b|\bLIKE\b|\bNOT\s+IN\b|\bIN\b)\s*(.+)$/i;
+
+function literal(token: string): string | number {
+  const text = token.trim();
+  if (/^'.*'$/.test(text)) return text.slice(1, -1).replace(/''/g, "'");
+  const number = Number(text);
+  if (text && Number.isFinite(number)) return number;
+  throw new Error(`Cannot read the value ${text} in the where clause.`);
+}
+
+function compare(left: unknown, right: string | number) {
+  if (typeof right === "number") return Number(left) - right;
+  return String(left ?? "").localeCompare(right);
+}
+
+function likePattern(pattern: string) {
+  const source = pattern
+    .split("")
+    .map((char) =>
+      char === "%" ? ".*" : char === "_" ? "." : char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+    )
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function parseCondition(text: string): Condition {
+  const match = CONDITION.exec(text.trim());
+  if (!match) throw new Error(`Unsupported where condition "${text.trim()}".`);
+  const [, field, rawOperator, rawValue] = match;
+  const operator = rawOperator.toUpperCase().replace(/\s+/g, " ");
+  const read = (properties: Record<string, unknown>) => {
+    const key = Object.keys(properties).find((name) => name.toLowerCase() === field.toLowerCase());
+    return key === undefined ? undefined : properties[key];
+  };
+
+  if (operator === "IN" || operator === "NOT IN") {
+    const list = /^\((.*)\)$/.exec(rawValue.trim());
+    if (!list) throw new Error(`IN needs a parenthesised list in "${text.trim()}".`);
+    const values = list[1].split(",").map(literal);
+    const negate = operator === "NOT IN";
+    return (properties) =>
+      values.some((value) => compare(read(properties), value) === 0) !== negate;
+  }
+  const value = literal(rawValue);
+  if (operator === "LIKE" || operator === "NOT LIKE") {
+    const pattern = likePattern(String(value));
+    const negate = operator === "NOT LIKE";
+    return (properties) => pattern.test(String(read(properties) ?? "")) !== negate;
+  }
+  return (properties) => {
+    const actual = read(properties);
+    if (actual === undefined || actual === null) return false;
+    const order = compare(actual, value);
+    switch (operator) {
+      case "=":
+        return order === 0;
+      case "<>":
+      case "!=":
+        return order !== 0;
+      case ">":
+        return order > 0;
+      case ">=":
+        return order >= 0;
+      case "<":
+        return order < 0;
+      default:
+        return order <= 0;
+    }
+  };
+}
+
+/** Reads `A = 1 AND B LIKE 'x%' OR C IN (1, 2)`; AND binds tighter and parentheses are not supported. */
+export function parseWhere(where: string): Condition {
+  // Blank out quoted text so keywords inside values don't split the clause.
+  const masked = where.replace(/'(?:[^']|'')*'/g, (quoted) => "_".repeat(quoted.length));
+  const split = (text: string, masks: string, keyword: RegExp) => {
+    const parts: [string, string][] = [];
+    let start = 0;
+    for (const match of masks.matchAll(keyword)) {
+      parts.push([text.slice(start, match.index), masks.slice(start, match.index)]);
+      start = (match.index ?? 0) + match[0].length;
+    }
+    parts.push([text.slice(start), masks.slice(start)]);
+    return parts;
+  };
+  const alternatives = split(where, masked, /\s+OR\s+/gi).map(([text, masks]) =>
+    split(text, masks, /\s+AND\s+/gi).map(([condition]) => parseCondition(condition)),
+  );
+  return (properties) =>
+    alternatives.some((conditions) => conditions.every((test) => test(properties)));
+}
+
+// --- the runtime ---
+
+type Deferred<T> = {
+  progress: (callback: (data: T) => void) => Deferred<T>;
+  emit: (data: T) => void;
+  /** Called by the client once nobody is listening any more. */
+  cancel: () => void;
+};
+
+function deferred<T>(onCancel?: () => void): Deferred<T> {
+  const listeners: ((data: T) => void)[] = [];
+  const handle: Deferred<T> = {
+    progress(callback) {
+      listeners.push(callback);
+      return handle;
+    },
+    emit(data) {
+      listeners.forEach((listener) => listener(data));
+    },
+    cancel() {
+      listeners.length = 0;
+      onCancel?.();
+    },
+  };
+  return handle;
+}
+
+type Drawn = { geometry: AnyGeometry; stroke: string; fill: string; name?: string };
+
+type MapState = {
+  element: HTMLElement | null;
+  options: GovmapMapOptions;
+  center: GovmapPoint;
+  level: number;
+  drawn: Drawn[];
+};
+
+/** Metres per pixel at a zoom level; level 7 shows a few kilometres across. */
+const resolutionAt = (level: number) => 2 ** (10 - level);
+
+function rgba(color: number[] | undefined, fallback: string) {
+  if (!color || color.length < 3) return fallback;
+  const [red, green, blue, alpha = 1] = color;
+  return `rgba(${red}, ${green}, ${blue}, ${alpha})`;
+}
+
+function escapeXml(text: string) {
+  return text.replace(/[<>&"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function entityOf(feature: Feature, index: number) {
+  return {
+    objectId: feature.id ?? feature.properties.OBJECTID ?? index + 1,
+    fields: feature.properties,
+    wkt: feature.geometry ? toWkt(feature.geometry) : null,
+  };
+}
+
+export function createFakeGovmapRuntime(options: FakeGovmapOptions = {}): GovmapRuntime {
+  const settings: FakeGovmapSettings = { ...DEFAULT_FAKE_SETTINGS, ...options };
+  const random = options.random ?? Math.random;
+  const layers: Record<string, FeatureCollection> = { ...fixtureLayers(), ...options.layers };
+  const maps = new Map<string, MapState>();
+  const clickListeners = new Set<(event: { mapPoint: GovmapPoint }) => void>();
+  let current: string | null = null;
+
+  const layerOf = (name: string) => {
+    const key = LAYER_ALIASES[name] ?? name;
+    const layer = layers[key];
+    if (!layer)
+      throw { status: 404, error: `Layer "${name}" does not exist in the fake GovMap fixtures.` };
+    return layer;
+  };
+
+  const stateOf = (target?: string) => {
+    const state = maps.get(target ?? current ?? "");
+    if (!state) throw new Error(`No fake map has been created${target ? ` in #${target}` : ""}.`);
+    return state;
+  };
+
+  const sizeOf = (state: MapState) => ({
+    width: state.element?.clientWidth || DEFAULT_SIZE.width,
+    height: state.element?.clientHeight || DEFAULT_SIZE.height,
+  });
+
+  const extentOf = (state: MapState): GovmapExtent => {
+    const { width, height } = sizeOf(state);
+    const resolution = resolutionAt(state.level);
+    return {
+      xmin: state.center.x - (width / 2) * resolution,
+      ymin: state.center.y - (height / 2) * resolution,
+      xmax: state.center.x + (width / 2) * resolution,
+      ymax: state.center.y + (height / 2) * resolution,
+    };
+  };
+
+  /** Resolves after the simulated latency, or fails, hangs or refuses as configured. */
+  const respond = <T>(method: string, produce: () => T) =>
+    new Promise<T>((resolve, reject) => {
+      const delay = settings.latencyMs + random() * settings.jitterMs;
+      if (settings.authFailure) {
+        setTimeout(
+          () => reject({ status: 401, error: "Invalid or missing GovMap token (fake runtime)." }),
+          delay,
+        );
+        return;
+      }
+      const roll = random();
+      if (roll < settings.hangRate) return;
+      if (roll < settings.hangRate + settings.failureRate) {
+        setTimeout(() => reject({ status: 500, error: `Simulated ${method} failure.` }), delay);
+        return;
+      }
+      setTimeout(() => {
+        try {
+          resolve(produce());
+        } catch (error) {
+          reject(error);
+        }
+      }, delay);
+    });
+
+  const render = (state: MapState) => {
+    const element = state.element;
+    if (!element) return;
+    const { width, height } = sizeOf(state);
+    const extent = extentOf(state);
+    const resolution = resolutionAt(state.level);
+    const px = ([x, y]: number[]) =>
+      `${((x - extent.xmin) / resolution).toFixed(1)},${((extent.ymax - y) / resolution).toFixed(1)}`;
+    const shape = (geometry: AnyGeometry, stroke: string, fill: string, title?: string): string => {
+      const label = title ? `<title>${escapeXml(title)}</title>` : "";
+      const path = (rings: number[][][], close: boolean) =>
+        rings.map((ring) => `M${ring.map(px).join("L")}${close ? "Z" : ""}`).join("");
+      switch (geometry.type) {
+        case "Point": {
+          const [cx, cy] = px(geometry.coordinates).split(",");
+          return `<circle cx="${cx}" cy="${cy}" r="4" fill="${fill}" stroke="${stroke}">${label}</circle>`;
+        }
+        case "MultiPoint":
+          return geometry.coordinates
+            .map((coordinates) => shape({ type: "Point", coordinates }, stroke, fill, title))
+            .join("");
+        case "LineString":
+          return `<path d="${path([geometry.coordinates], false)}" fill="none" stroke="${stroke}" stroke-width="2">${label}</path>`;
+        case "MultiLineString":
+          return `<path d="${path(geometry.coordinates, false)}" fill="none" stroke="${stroke}" stroke-width="2">${label}</path>`;
+        case "Polygon":
+          return `<path d="${path(geometry.coordinates, true)}" fill="${fill}" fill-rule="evenodd" stroke="${stroke}">${label}</path>`;
+        case "MultiPolygon":
+          return `<path d="${path(geometry.coordinates.flat(), true)}" fill="${fill}" fill-rule="evenodd" stroke="${stroke}">${label}</path>`;
+        default:
+          return geometry.geometries.map((part) => shape(part, stroke, fill, title)).join("");
+      }
+    };
+
+    const visible = (state.options.layers ?? []).filter(
+      (name) => layers[LAYER_ALIASES[name] ?? name],
+    );
+    const layerShapes = visible.flatMap((name) => {
+      const color = LAYER_COLORS[LAYER_ALIASES[name] ?? name] ?? "#64748b";
+      return layerOf(name).features.map((feature) =>
+        feature.geometry
+          ? shape(feature.geometry, color, `${color}33`, JSON.stringify(feature.properties))
+          : "",
+      );
+    });
+    const drawnShapes = state.drawn.map((item) =>
+      shape(item.geometry, item.stroke, item.fill, item.name),
+    );
+    element.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="100%" height="100%" viewBox="0 0 ${width} ${height}" style="display:block;background:#f8fafc;cursor:crosshair">${layerShapes.join(
+      "",
+    )}${drawnShapes.join(
+      "",
+    )}<text x="8" y="${height - 8}" font-size="12" fill="#334155">Fake GovMap · level ${state.level} · ${Math.round(
+      state.center.x,
+    )}, ${Math.round(state.center.y)}</text></svg>`;
+  };
+
+  const zoomTo = (state: MapState, center: GovmapPoint, level = state.level) => {
+    state.center = center;
+    state.level = level;
+    render(state);
+  };
+
+  const runtime: GovmapRuntime = {
+    drawType: FAKE_DRAW_TYPE,
+
+    createMap: (target: string, mapOptions: GovmapMapOptions) => {
+      const element = typeof document === "undefined" ? null : document.getElementById(target);
+      const extent = Object.values(layers)
+        .flatMap((layer) => layer.features)
+        .reduce<BBox | null>(
+          (box, feature) => mergeBbox(box, geometryBbox(feature.geometry)),
+          null,
+        );
+      const state: MapState = {
+        element,
+        options: mapOptions,
+        center:
+          mapOptions.centerX !== undefined && mapOptions.centerY !== undefined
+            ? { x: mapOptions.centerX, y: mapOptions.centerY }
+            : extent
+              ? { x: (extent[0] + extent[2]) / 2, y: (extent[1] + extent[3]) / 2 }
+              : { x: 200000, y: 630000 },
+        level: mapOptions.level ?? 9,
+        drawn: [],
+      };
+      maps.set(target, state);
+      current = target;
+      if (element) {
+        element.onclick = (event) => {
+          const bounds = element.getBoundingClientRect();
+          const view = extentOf(state);
+          const resolution = resolutionAt(state.level);
+          const mapPoint = {
+            x: view.xmin + (event.clientX - bounds.left) * resolution,
+            y: view.ymax - (event.clientY - bounds.top) * resolution,
+          };
+          clickListeners.forEach((listener) => listener({ mapPoint }));
+        };
+      }
+      return respond("createMap", () => {
+        render(state);
+        return { target };
+      });
+    },
+
+    getLayerEntities: ({
+      layerName,
+      where,
+      pageNumber = 1,
+      pageSize = 50,
+    }: GovmapLayerEntitiesParams) =>
+      respond("getLayerEntities", () => {
+        const test = where ? parseWhere(where) : () => true;
+        const matches = layerOf(layerName).features.filter((feature) => test(feature.properties));
+        const start = (Math.max(1, pageNumber) - 1) * pageSize;
+        return {
+          layerName,
+          totalCount: matches.length,
+          pageNumber,
+          pageSize,
+          data: matches.slice(start, start + pageSize).map(entityOf),
+        };
+      }),
+
+    getEntities: ({ layerName, objectIds }: GovmapEntitiesParams) =>
+      respond("getEntities", () => {
+        const wanted = new Set(objectIds.map(String));
+        return {
+          layerName,
+          data: layerOf(layerName)
+            .features.map(entityOf)
+            .filter((entity) => wanted.has(String(entity.objectId))),
+        };
+      }),
+
+    identifyByXYAndLayer: (x: number, y: number, layerNames: string[], target?: string) =>
+      respond("identifyByXYAndLayer", () => {
+        const level = maps.get(target ?? current ?? "")?.level ?? 9;
+        const tolerance = IDENTIFY_TOLERANCE_PX * resolutionAt(level);
+        const point: AnyGeometry = { type: "Point", coordinates: [x, y] };
+        return {
+          data: layerNames.map((layerName) => ({
+            layerName,
+            entities: layerOf(layerName)
+              .features.filter(
+                (feature) =>
+                  feature.geometry && geometriesIntersect(point, feature.geometry, tolerance),
+              )
+              .map(entityOf),
+          })),
+        };
+      }),
+
+    displayGeometries: (
+      params: GovmapGeometryParams | GovmapGeometryBatchParams,
+      target?: string,
+    ) => {
+      const handle = deferred<Record<string, unknown>>();
+      respond("displayGeometries", () => {
+        const state = stateOf(target);
+        const wkts = "wkts" in params ? params.wkts : [params.wkt];
+        const drawn = wkts.map((wkt, index): Drawn => {
+          const symbol =
+            "wkts" in params ? (params.symbols?.[index] ?? params.defaultSymbol) : undefined;
+          const color = "wkt" in params ? params.color : undefined;
+          return {
+            geometry: parseWkt(wkt).geometry,
+            stroke: color ?? rgba(symbol?.outlineColor, "#de3b8a"),
+            fill: color ? `${color}59` : rgba(symbol?.fillColor, "rgba(222, 59, 138, 0.35)"),
+            name:
+              "wkts" in params
+                ? (params.data?.tooltips?.[index] ?? params.names?.[index])
+                : params.name,
+          };
+        });
+        const clear = "wkts" in params ? params.clearExisting !== false : false;
+        state.drawn = clear ? drawn : [...state.drawn, ...drawn];
+        render(state);
+        return drawn.length;
+      }).then(
+        (count) => handle.emit({ isCompleted: true, count }),
+        (error) => handle.emit({ isCompleted: true, success: false, error }),
+      );
+      return handle;
+    },
+
+    getLayerData: ({ layerName }: { layerName: string }) =>
+      respond("getLayerData", () => {
+        const { features } = layerOf(layerName);
+        const box = features.reduce<BBox | null>(
+          (extent, feature) => mergeBbox(extent, geometryBbox(feature.geometry)),
+          null,
+        );
+        const sample = features[0]?.properties ?? {};
+        return {
+          layerName,
+          count: features.length,
+          fields: Object.entries(sample).map(([name, value]) => ({
+            name,
+            type: typeof value === "number" ? "esriFieldTypeDouble" : "esriFieldTypeString",
+          })),
+          extent: box ? { xmin: box[0], ymin: box[1], xmax: box[2], ymax: box[3] } : null,
+        };
+      }),
+
+    intersectFeatures: ({ layerName, geometry, maxResults = 1000 }: GovmapIntersectParams) =>
+      respond("intersectFeatures", () => {
+        const shape = parseWkt(geometry).geometry;
+        const matches = layerOf(layerName).features.filter(
+          (feature) => feature.geometry && geometriesIntersect(shape, feature.geometry),
+        );
+        return {
+          layerName,
+          exceededTransferLimit: matches.length > maxResults,
+          data: matches.slice(0, maxResults).map(entityOf),
+        };
+      }),
+
+    getXY: () => {
+      const handle = deferred<{ mapPoint: GovmapPoint }>(() => clickListeners.delete(handle.emit));
+      clickListeners.add(handle.emit);
+      return handle;
+    },
+
+    getView: () =>
+      respond("getView", () => {
+        const state = stateOf();
+        return { extent: extentOf(state), level: state.level, center: state.center };
+      }),
+
+    zoomToExtent: ({ xmin, ymin, xmax, ymax }: GovmapExtent, target?: string) =>
+      respond("zoomToExtent", () => {
+        const state = stateOf(target);
+        const { width, height } = sizeOf(state);
+        const needed = Math.max((xmax - xmin) / width, (ymax - ymin) / height, 0.25);
+        const level = Math.min(12, Math.max(0, Math.floor(10 - Math.log2(needed))));
+        zoomTo(state, { x: (xmin + xmax) / 2, y: (ymin + ymax) / 2 }, level);
+      }),
+
+    zoomToXY: ({ x, y, level }: GovmapPoint & { level?: number }) =>
+      respond("zoomToXY", () => zoomTo(stateOf(), { x, y }, level)),
+
+    dispose: (target?: string) => {
+      const key = target ?? current ?? "";
+      const state = maps.get(key);
+      if (!state) return;
+      if (state.element) {
+        state.element.onclick = null;
+        state.element.innerHTML = "";
+      }
+      maps.delete(key);
+      clickListeners.clear();
+      if (current === key) current = null;
+    },
+  };
+  return runtime;
+}
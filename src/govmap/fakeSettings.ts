@@ -0,0 +1,69 @@
+/**
+ * Decides whether the playground talks to the offline GovMap runtime. Turn it
+ * on with `?govmap=fake` or `VITE_GOVMAP_FAKE=1`; both also take settings such
+ * as `?govmap=fake&latency=400&fail=0.2&hang=0.1&auth=fail`. Kept apart from
+ * fakeRuntime.ts so the fixtures only load when the fake is used.
+ */
+
+export type FakeGovmapSettings = {
+  /** Base delay before every response. */
+  latencyMs: number;
+  /** Extra random delay on top of `latencyMs`. */
+  jitterMs: number;
+  /** Share of calls (0–1) that reject with a simulated server error. */
+  failureRate: number;
+  /** Share of calls (0–1) that never answer, to exercise timeouts. */
+  hangRate: number;
+  /** Reject every call as if the token were refused. */
+  authFailure: boolean;
+};
+
+export const DEFAULT_FAKE_SETTINGS: FakeGovmapSettings = {
+  latencyMs: 150,
+  jitterMs: 100,
+  failureRate: 0,
+  hangRate: 0,
+  authFailure: false,
+};
+
+function readRate(value: string | null, fallback: number) {
+  if (value === null || value === "") return fallback;
+  const rate = Number(value);
+  return Number.isFinite(rate) ? Math.min(1, Math.max(0, rate)) : fallback;
+}
+
+function readMs(value: string | null, fallback: number) {
+  if (value === null || value === "") return fallback;
+  const ms = Number(value);
+  return Number.isFinite(ms) && ms >= 0 ? ms : fallback;
+}
+
+/**
+ * Settings for the fake runtime, or null when the live script should load.
+ * The query string wins over the env var; `?govmap=live` forces the real API.
+ */
+export function fakeGovmapSettings(
+  search = typeof window === "undefined" ? "" : window.location.search,
+  env = import.meta.env.VITE_GOVMAP_FAKE,
+): FakeGovmapSettings | null {
+  const query = new URLSearchParams(search);
+  const mode = query.get("govmap");
+  if (mode === "live") return null;
+
+  let params: URLSearchParams;
+  if (mode === "fake") {
+    params = query;
+  } else if (env && !/^(0|false|off)$/i.test(env)) {
+    params = new URLSearchParams(/^(1|true|on)$/i.test(env) ? "" : env);
+  } else {
+    return null;
+  }
+
+  return {
+    latencyMs: readMs(params.get("latency"), DEFAULT_FAKE_SETTINGS.latencyMs),
+    jitterMs: readMs(params.get("jitter"), DEFAULT_FAKE_SETTINGS.jitterMs),
+    failureRate: readRate(params.get("fail"), DEFAULT_FAKE_SETTINGS.failureRate),
+    hangRate: readRate(params.get("hang"), DEFAULT_FAKE_SETTINGS.hangRate),
+    authFailure: params.get("auth") === "fail",
+  };
+}
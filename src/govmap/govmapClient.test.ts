@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  GovmapAuthError,
+  GovmapCallMetric,
+  GovmapError,
+  GovmapTimeoutError,
+  createGovmapClient,
+} from "./govmapClient";
+
+function clientFailingWith(failure: unknown) {
+  const metrics: GovmapCallMetric[] = [];
+  const client = createGovmapClient({
+    target: "map",
+    runtime: () => ({ getLayerData: () => Promise.reject(failure) }),
+    onMetric: (metric) => metrics.push(metric),
+  });
+  return { call: () => client.getLayerData({ layerName: "PARCEL_ALL" }), metrics };
+}
+
+describe("GovMap auth detection", () => {
+  it.each([
+    new Error("Unexpected token < in JSON at position 0"),
+    new Error("Unexpected token < in JSON at position 401"),
+    "Request failed: tokenizer error",
+    { error: "Layer PARCEL_ALL has 403 features over the limit" },
+  ])("leaves %j as an ordinary failure", async (failure) => {
+    const { call, metrics } = clientFailingWith(failure);
+    const error = await call().catch((caught) => caught);
+    expect(error).not.toBeInstanceOf(GovmapAuthError);
+    expect(metrics[0].outcome).toBe("call-failed");
+  });
+
+  it.each([
+    new Error("Request failed with status code 401"),
+    new Error("HTTP 403"),
+    "Unauthorized",
+    new Error("Invalid token"),
+    { message: "Invalid token" },
+    { error: "The API key is expired" },
+    { status: 403 },
+  ])("reports %j as an auth failure", async (failure) => {
+    const { call, metrics } = clientFailingWith(failure);
+    await expect(call()).rejects.toBeInstanceOf(GovmapAuthError);
+    expect(metrics[0].outcome).toBe("auth");
+  });
+});
+
+describe("GovMap completion updates", () => {
+  function clientCompletingWith(update: unknown) {
+    const metrics: GovmapCallMetric[] = [];
+    const client = createGovmapClient({
+      target: "map",
+      runtime: () => ({
+        displayGeometries: () => ({
+          progress: (callback: (data: unknown) => void) => setTimeout(() => callback(update)),
+        }),
+      }),
+      onMetric: (metric) => metrics.push(metric),
+    });
+    const call = () => client.displayGeometries({ wkt: "POINT (200000 600000)" });
+    return { call, metrics };
+  }
+
+  it("rejects a completed update that reports a refused token", async () => {
+    const { call, metrics } = clientCompletingWith({
+      isCompleted: true,
+      success: false,
+      error: { status: 401 },
+    });
+    await expect(call()).rejects.toBeInstanceOf(GovmapAuthError);
+    expect(metrics[0].outcome).toBe("auth");
+  });
+
+  it("rejects a completed update that reports failure", async () => {
+    const { call, metrics } = clientCompletingWith({ isCompleted: true, success: false });
+    const error = await call().catch((caught) => caught);
+    expect(error).toBeInstanceOf(GovmapError);
+    expect(error).not.toBeInstanceOf(GovmapAuthError);
+    expect(metrics[0].outcome).toBe("call-failed");
+  });
+
+  it("resolves with a successful completed update", async () => {
+    const { call, metrics } = clientCompletingWith({ isCompleted: true, count: 2 });
+    await expect(call()).resolves.toEqual({ isCompleted: true, count: 2 });
+    expect(metrics[0].outcome).toBe("ok");
+  });
+});
+
+describe("GovMap timeouts", () => {
+  it("does not blame the token", async () => {
+    const client = createGovmapClient({
+      target: "map",
+      timeoutMs: 10,
+      runtime: () => ({ getLayerData: () => new Promise(() => undefined) }),
+    });
+    const error = await client.getLayerData({ layerName: "PARCEL_ALL" }).catch((caught) => caught);
+    expect(error).toBeInstanceOf(GovmapTimeoutError);
+    expect(error.message).toBe("getLayerData timed out after 10ms.");
+  });
+});
@@ -0,0 +1,701 @@
+/**
+ * Typed access to the `window.govmap` API that govmap.api.js installs. Every
+ * call checks that the method exists, honours a timeout and an AbortSignal,
+ * and turns GovMap's `.progress()` deferreds into promises and async iterators.
+ */
+
+import { fakeGovmapSettings } from "./fakeSettings";
+
+export const GOVMAP_SCRIPT_URL = "https://www.govmap.gov.il/govmap/api/govmap.api.js";
+
+export type GovmapExtent = { xmin: number; ymin: number; xmax: number; ymax: number };
+
+export type GovmapPoint = { x: number; y: number };
+
+export type GovmapMapOptions = {
+  token?: string;
+  layers?: string[];
+  visibleLayers?: string[];
+  background?: string | number;
+  layersMode?: number;
+  isEmbeddedToggle?: boolean;
+  identifyOnClick?: boolean;
+  showXY?: boolean;
+  zoomButtons?: boolean;
+  bgButton?: boolean;
+  language?: string;
+  centerX?: number;
+  centerY?: number;
+  level?: number;
+};
+
+export type GovmapLayerEntitiesParams = {
+  layerName: string;
+  where?: string;
+  pageNumber?: number;
+  pageSize?: number;
+};
+
+export type GovmapEntitiesParams = { layerName: string; objectIds: (string | number)[] };
+
+export type GovmapSymbol = { outlineColor: number[]; outlineWidth: number; fillColor: number[] };
+
+/** A single WKT, as the playground sends it. */
+export type GovmapGeometryParams = { wkt: string; srid?: number; color?: string; name?: string };
+
+/** Many WKTs of one kind in a call, as the DBF card sends them. */
+export type GovmapGeometryBatchParams = {
+  wkts: string[];
+  names?: string[];
+  geometryType: unknown;
+  defaultSymbol?: GovmapSymbol;
+  symbols?: GovmapSymbol[];
+  clearExisting?: boolean;
+  data?: { tooltips?: string[] };
+};
+
+export type GovmapIntersectParams = {
+  layerName: string;
+  /** WKT in ITM. */
+  geometry: string;
+  geometryType?: string;
+  fields?: string[];
+  maxResults?: number;
+};
+
+/** GovMap responses are loosely shaped; callers narrow what they need. */
+export type GovmapResponse = Record<string, unknown>;
+
+export type GovmapDisplayProgress = GovmapResponse & { isCompleted?: boolean };
+
+export type GovmapXYEvent = GovmapResponse & { mapPoint?: GovmapPoint };
+
+export type GovmapView = GovmapResponse & { extent?: GovmapExtent; level?: number };
+
+/** The surface govmap.api.js puts on `window.govmap`; every member may be missing in a given build. */
+export type GovmapRuntime = {
+  createMap?: (target: string, options: GovmapMapOptions) => unknown;
+  getLayerEntities?: (params: GovmapLayerEntitiesParams, target?: string) => unknown;
+  getEntities?: (params: GovmapEntitiesParams, target?: string) => unknown;
+  identifyByXYAndLayer?: (x: number, y: number, layers: string[], target?: string) => unknown;
+  displayGeometries?: (
+    params: GovmapGeometryParams | GovmapGeometryBatchParams,
+    target?: string,
+  ) => unknown;
+  getLayerData?: (params: { layerName: string }, target?: string) => unknown;
+  intersectFeatures?: (params: GovmapIntersectParams) => unknown;
+  getXY?: () => unknown;
+  getView?: () => unknown;
+  zoomToExtent?: (extent: GovmapExtent, target?: string) => unknown;
+  zoomToXY?: (params: GovmapPoint & { level?: number }) => unknown;
+  dispose?: (target?: string) => unknown;
+  drawType?: Record<string, unknown>;
+  [method: string]: unknown;
+};
+
+export type GovmapErrorCode = "method-missing" | "timeout" | "auth" | "call-failed";
+
+export class GovmapError extends Error {
+  readonly code: GovmapErrorCode;
+  readonly method: string;
+
+  constructor(
+    code: GovmapErrorCode,
+    method: string,
+    message: string,
+    options?: { cause?: unknown },
+  ) {
+    super(message, options);
+    this.name = "GovmapError";
+    this.code = code;
+    this.method = method;
+  }
+}
+
+export class GovmapMethodMissingError extends GovmapError {
+  constructor(method: string, loaded: boolean) {
+    super(
+      "method-missing",
+      method,
+      loaded
+        ? `govmap.${method} is not available in this build.`
+        : `GovMap API is not loaded yet, so govmap.${method} cannot be called.`,
+    );
+    this.name = "GovmapMethodMissingError";
+  }
+}
+
+export class GovmapTimeoutError extends GovmapError {
+  readonly timeoutMs: number;
+
+  constructor(method: string, timeoutMs: number) {
+    super("timeout", method, `${method} timed out after ${timeoutMs}ms.`);
+    this.name = "GovmapTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class GovmapAuthError extends GovmapError {
+  constructor(method: string, cause: unknown) {
+    super(
+      "auth",
+      method,
+      `${method} was rejected: the GovMap token is missing, invalid or not allowed here.`,
+      {
+        cause,
+      },
+    );
+    this.name = "GovmapAuthError";
+  }
+}
+
+export type GovmapCallOptions = {
+  signal?: AbortSignal;
+  /** Overrides the client default; 0 waits forever. */
+  timeoutMs?: number;
+};
+
+/**
+ * A call that reports through `.progress()`. Await it for the final value, or
+ * iterate it to see every update as it arrives.
+ */
+export type GovmapOperation<T> = Promise<T> & AsyncIterable<T>;
+
+/** Timing and size of one finished call, reported through `onMetric`. */
+export type GovmapCallMetric = {
+  method: string;
+  /** Epoch milliseconds. */
+  startedAt: number;
+  durationMs: number;
+  /** Until the first `.progress` update, for calls that report progress. */
+  firstChunkMs?: number;
+  /** Serialized size of the arguments and of the response. */
+  requestBytes: number;
+  responseBytes: number;
+  outcome: "ok" | "aborted" | GovmapErrorCode;
+  timeoutMs: number;
+};
+
+export type GovmapClientOptions = {
+  /** Id of the element the map lives in. */
+  target: string;
+  timeoutMs?: number;
+  /** Per-method default, consulted on every call; falls back to `timeoutMs`. */
+  timeoutFor?: (method: string) => number | undefined;
+  /** Called as each call settles. `getXY` waits on the user, so it is not measured. */
+  onMetric?: (metric: GovmapCallMetric) => void;
+  /** How long a progress call may stay quiet before its last update counts as the result. */
+  settleMs?: number;
+  /** Where the API comes from; defaults to `window.govmap`. */
+  runtime?: () => GovmapRuntime | undefined;
+};
+
+export type GovmapClient = {
+  readonly target: string;
+  isLoaded: () => boolean;
+  has: (method: string) => boolean;
+  createMap: (options: GovmapMapOptions, call?: GovmapCallOptions) => Promise<void>;
+  getLayerEntities: (
+    params: GovmapLayerEntitiesParams,
+    call?: GovmapCallOptions,
+  ) => Promise<GovmapResponse>;
+  getEntities: (params: GovmapEntitiesParams, call?: GovmapCallOptions) => Promise<GovmapResponse>;
+  identifyByXYAndLayer: (
+    point: GovmapPoint,
+    layers: string[],
+    call?: GovmapCallOptions,
+  ) => Promise<GovmapResponse>;
+  displayGeometries: (
+    params: GovmapGeometryParams | GovmapGeometryBatchParams,
+    call?: GovmapCallOptions,
+  ) => GovmapOperation<GovmapDisplayProgress>;
+  getLayerData: (
+    params: { layerName: string },
+    call?: GovmapCallOptions,
+  ) => Promise<GovmapResponse>;
+  intersectFeatures: (
+    params: GovmapIntersectParams,
+    call?: GovmapCallOptions,
+  ) => Promise<GovmapResponse>;
+  /** Resolves with the next map click; iterate it to keep receiving clicks until aborted. */
+  getXY: (call?: GovmapCallOptions) => GovmapOperation<GovmapXYEvent>;
+  getView: (call?: GovmapCallOptions) => Promise<GovmapView>;
+  /** Zooms to an extent, falling back to centring with `zoomToXY` on builds without `zoomToExtent`. */
+  zoomToExtent: (extent: GovmapExtent, call?: GovmapCallOptions) => Promise<void>;
+  /** GovMap's constant for a draw kind, or the kind itself when the build has no `drawType` table. */
+  drawType: (kind: string) => unknown;
+  /** A value from one of GovMap's enum tables (`geocodeType`, `locateType`, ...), or `key` itself. */
+  constant: (table: string, key: string) => unknown;
+  /** Calls any method with a raw payload, passing the map target when the method takes two arguments. */
+  call: (method: string, payload: unknown, call?: GovmapCallOptions) => Promise<unknown>;
+  /** Calls any method with exactly these arguments, as session replays do. */
+  apply: (method: string, args: unknown[], call?: GovmapCallOptions) => Promise<unknown>;
+  dispose: () => void;
+};
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_SETTLE_MS = 1500;
+// A 401/403 named as a status, or an explicit rejection phrase. Bare "401" or
+// "token" would also match parse errors such as "Unexpected token < in JSON".
+const AUTH_PATTERN = new RegExp(
+  [
+    String.raw`\b(?:status(?: code)?|http)\s*:?\s*(?:401|403)\b`,
+    String.raw`\b(?:unauthori[sz]ed|forbidden|access denied)\b`,
+    String.raw`\b(?:invalid|expired|missing|bad)\s+(?:api\s?)?(?:token|key)\b`,
+    String.raw`\b(?:token|api\s?key)\s+(?:is\s+|was\s+|has\s+)?(?:invalid|expired|missing|required|rejected|revoked)\b`,
+  ].join("|"),
+  "i",
+);
+
+/** UTF-8 length of a value's JSON, or 0 when it does not serialize. */
+export function byteSize(value: unknown) {
+  try {
+    const text = JSON.stringify(value);
+    return text === undefined ? 0 : new TextEncoder().encode(text).length;
+  } catch {
+    return 0;
+  }
+}
+
+function metricOutcome(error: unknown): GovmapCallMetric["outcome"] {
+  if (error instanceof GovmapError) return error.code;
+  if (error instanceof DOMException && error.name === "AbortError") return "aborted";
+  return "call-failed";
+}
+
+function abortReason(signal: AbortSignal) {
+  return signal.reason ?? new DOMException("The GovMap call was aborted.", "AbortError");
+}
+
+/** Whether a GovMap call answered with a `.progress()` deferred. */
+export function hasProgress(
+  value: unknown,
+): value is { progress: (callback: (data: unknown) => void) => unknown } {
+  return Boolean(
+    value &&
+    typeof value === "object" &&
+    typeof (value as { progress?: unknown }).progress === "function",
+  );
+}
+
+export function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return Boolean(value && typeof (value as { then?: unknown }).then === "function");
+}
+
+function looksLikeAuthFailure(value: unknown): boolean {
+  if (!value) return false;
+  if (value instanceof Error) return AUTH_PATTERN.test(value.message);
+  if (typeof value === "string") return AUTH_PATTERN.test(value);
+  if (typeof value !== "object") return false;
+  const { status, error, message } = value as {
+    status?: unknown;
+    error?: unknown;
+    message?: unknown;
+  };
+  if (status === 401 || status === 403) return true;
+  return [error, message].some((item) => typeof item === "string" && AUTH_PATTERN.test(item));
+}
+
+function classify(method: string, error: unknown) {
+  if (
+    error instanceof GovmapError ||
+    (error instanceof DOMException && error.name === "AbortError")
+  )
+    return error;
+  if (looksLikeAuthFailure(error)) return new GovmapAuthError(method, error);
+  const reported = (error as { error?: unknown; message?: unknown } | null) ?? {};
+  const detail =
+    error instanceof Error
+      ? error.message
+      : typeof error === "string"
+        ? error
+        : typeof reported.error === "string"
+          ? reported.error
+          : typeof reported.message === "string"
+            ? reported.message
+            : JSON.stringify(error);
+  return new GovmapError("call-failed", method, `${method} failed: ${detail}`, { cause: error });
+}
+
+/** Rejects with a timeout, abort or auth error, whichever comes first. */
+function guard<T>(
+  method: string,
+  promise: Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(
+            () => finish(() => reject(new GovmapTimeoutError(method, timeoutMs))),
+            timeoutMs,
+          )
+        : null;
+    const onAbort = () => finish(() => reject(abortReason(signal as AbortSignal)));
+    signal?.addEventListener("abort", onAbort, { once: true });
+    let done = false;
+    function finish(settle: () => void) {
+      if (done) return;
+      done = true;
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      settle();
+    }
+    promise.then(
+      (value) =>
+        finish(() => {
+          const status = (value as { status?: unknown } | null)?.status;
+          if (status === 401 || status === 403) reject(new GovmapAuthError(method, value));
+          else resolve(value);
+        }),
+      (error) => finish(() => reject(classify(method, error))),
+    );
+  });
+}
+
+type OperationRules<T> = {
+  /** Whether an update is the result the promise resolves with. */
+  resolvesWith: (update: T) => boolean;
+  /** Whether an update is the last one, ending iteration. */
+  endsWith: (update: T) => boolean;
+  /** The failure an update reports, which rejects the operation; undefined otherwise. */
+  failsWith?: (update: T) => unknown;
+  /** Quiet period after which the latest update resolves the promise; 0 disables it. */
+  settleMs: number;
+  /** Sees every update as it arrives. */
+  onUpdate?: (update: T) => void;
+};
+
+function operation<T>(
+  method: string,
+  start: () => unknown,
+  rules: OperationRules<T>,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): GovmapOperation<T> {
+  type Listener = { push: (update: T) => void; end: (error?: unknown) => void };
+  const listeners = new Set<Listener>();
+  const history: T[] = [];
+  let ended: { error?: unknown } | null = null;
+  let latest: T | undefined;
+  let settleTimer: ReturnType<typeof setTimeout> | null = null;
+  let cancel: () => void = () => {};
+  let resolveResult: (value: T) => void = () => {};
+  let rejectResult: (error: unknown) => void = () => {};
+
+  const result = new Promise<T>((resolve, reject) => {
+    resolveResult = resolve;
+    rejectResult = reject;
+  });
+  // Iteration-only callers (getXY loops) never await the promise itself.
+  result.catch(() => {});
+
+  const end = (error?: unknown) => {
+    if (ended) return;
+    ended = { error };
+    if (settleTimer) clearTimeout(settleTimer);
+    if (error !== undefined) rejectResult(error);
+    else resolveResult(latest as T);
+    listeners.forEach((listener) => listener.end(error));
+    listeners.clear();
+    cancel();
+  };
+  const armSettle = () => {
+    if (!rules.settleMs) return;
+    if (settleTimer) clearTimeout(settleTimer);
+    settleTimer = setTimeout(() => {
+      resolveResult((latest ?? { message: "Request dispatched; no completion event yet." }) as T);
+    }, rules.settleMs);
+  };
+  const update = (value: T) => {
+    if (ended) return;
+    latest = value;
+    history.push(value);
+    rules.onUpdate?.(value);
+    listeners.forEach((listener) => listener.push(value));
+    const failure = rules.failsWith?.(value);
+    if (failure !== undefined) {
+      end(classify(method, failure));
+      return;
+    }
+    if (rules.resolvesWith(value)) resolveResult(value);
+    if (rules.endsWith(value)) end();
+    else armSettle();
+  };
+
+  try {
+    const raw = start();
+    if (hasProgress(raw)) {
+      raw.progress((data) => update(data as T));
+      // Handles that can drop their callbacks (the fake runtime's) are told
+      // when the operation ends, so open-ended calls like getXY do not leak.
+      const handle = raw as { cancel?: unknown };
+      if (typeof handle.cancel === "function") cancel = () => (handle.cancel as () => void)();
+      if (ended) cancel();
+      armSettle();
+    } else if (isThenable(raw)) {
+      Promise.resolve(raw).then(
+        (value) => {
+          update(value as T);
+          end();
+        },
+        (error) => end(classify(method, error)),
+      );
+    } else {
+      update(raw as T);
+      end();
+    }
+  } catch (error) {
+    end(classify(method, error));
+  }
+
+  guard(method, result, timeoutMs, signal).catch((error) => end(error));
+  if (signal && !ended) {
+    signal.addEventListener("abort", () => end(abortReason(signal)), { once: true });
+  }
+
+  const iterate = (): AsyncIterator<T> => {
+    const queue = [...history];
+    let waiting: {
+      resolve: (result: IteratorResult<T>) => void;
+      reject: (error: unknown) => void;
+    } | null = null;
+    let finished: { error?: unknown } | null = ended;
+    const listener: Listener = {
+      push(value) {
+        if (waiting) {
+          waiting.resolve({ value, done: false });
+          waiting = null;
+        } else {
+          queue.push(value);
+        }
+      },
+      end(error) {
+        finished = { error };
+        if (!waiting) return;
+        if (error !== undefined) waiting.reject(error);
+        else waiting.resolve({ value: undefined, done: true });
+        waiting = null;
+      },
+    };
+    if (!finished) listeners.add(listener);
+    return {
+      next() {
+        if (queue.length) return Promise.resolve({ value: queue.shift() as T, done: false });
+        if (finished) {
+          return finished.error !== undefined
+            ? Promise.reject(finished.error)
+            : Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve, reject) => {
+          waiting = { resolve, reject };
+        });
+      },
+      return() {
+        listeners.delete(listener);
+        finished = finished ?? {};
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  };
+
+  return Object.assign(result, { [Symbol.asyncIterator]: iterate });
+}
+
+export function createGovmapClient(options: GovmapClientOptions): GovmapClient {
+  const { target, onMetric } = options;
+  const settleMs = options.settleMs ?? DEFAULT_SETTLE_MS;
+  const timeoutOf = (name: string, call: GovmapCallOptions = {}) =>
+    call.timeoutMs ?? options.timeoutFor?.(name) ?? options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const runtime =
+    options.runtime ?? (() => (typeof window === "undefined" ? undefined : window.govmap));
+
+  const method = (name: string) => {
+    const api = runtime();
+    const fn = api?.[name];
+    if (typeof fn !== "function") throw new GovmapMethodMissingError(name, Boolean(api));
+    return (...args: unknown[]) => (fn as (...input: unknown[]) => unknown).apply(api, args);
+  };
+
+  /** Runs a call, reporting its timing to `onMetric` once it settles. */
+  const measure = <P extends Promise<unknown>>(
+    name: string,
+    args: unknown[],
+    timeoutMs: number,
+    run: (onUpdate: () => void) => P,
+  ): P => {
+    if (!onMetric) return run(() => {});
+    const startedAt = Date.now();
+    const started = performance.now();
+    let firstChunkMs: number | undefined;
+    const report = (outcome: GovmapCallMetric["outcome"], response?: unknown) =>
+      onMetric({
+        method: name,
+        startedAt,
+        durationMs: Math.round(performance.now() - started),
+        firstChunkMs,
+        requestBytes: byteSize(args.filter((arg) => arg !== target)),
+        responseBytes: byteSize(response),
+        outcome,
+        timeoutMs,
+      });
+    const pending = run(() => {
+      firstChunkMs ??= Math.round(performance.now() - started);
+    });
+    pending.then(
+      (value) => report("ok", value),
+      (error) => report(metricOutcome(error)),
+    );
+    return pending;
+  };
+
+  const invoke = <T>(name: string, args: unknown[], call: GovmapCallOptions = {}): Promise<T> => {
+    const timeoutMs = timeoutOf(name, call);
+    return measure(name, args, timeoutMs, (onUpdate) => {
+      let raw: unknown;
+      try {
+        raw = method(name)(...args);
+      } catch (error) {
+        return Promise.reject(classify(name, error));
+      }
+      // Some builds answer with a progress deferred even for one-shot calls.
+      const settled = hasProgress(raw)
+        ? operation<T>(
+            name,
+            () => raw,
+            { ...completionRules<T>(settleMs), onUpdate },
+            0,
+            call.signal,
+          )
+        : Promise.resolve(raw as T);
+      return guard(name, settled, timeoutMs, call.signal);
+    });
+  };
+
+  return {
+    target,
+    isLoaded: () => Boolean(runtime()),
+    has: (name) => typeof runtime()?.[name] === "function",
+    createMap: (mapOptions, call) =>
+      invoke<unknown>("createMap", [target, mapOptions], { timeoutMs: 0, ...call }).then(
+        () => undefined,
+      ),
+    getLayerEntities: (params, call) => invoke("getLayerEntities", [params, target], call),
+    getEntities: (params, call) => invoke("getEntities", [params, target], call),
+    identifyByXYAndLayer: ({ x, y }, layers, call) =>
+      invoke("identifyByXYAndLayer", [x, y, layers, target], call),
+    displayGeometries: (params, call = {}) => {
+      const timeoutMs = timeoutOf("displayGeometries", call);
+      return measure("displayGeometries", [params], timeoutMs, (onUpdate) =>
+        operation<GovmapDisplayProgress>(
+          "displayGeometries",
+          () => method("displayGeometries")(params, target),
+          { ...completionRules(settleMs), onUpdate },
+          timeoutMs,
+          call.signal,
+        ),
+      );
+    },
+    getLayerData: (params, call) => invoke("getLayerData", [params, target], call),
+    intersectFeatures: (params, call) => invoke("intersectFeatures", [params], call),
+    getXY: (call = {}) =>
+      operation<GovmapXYEvent>(
+        "getXY",
+        () => method("getXY")(),
+        { resolvesWith: () => true, endsWith: () => false, settleMs: 0 },
+        call.timeoutMs ?? 0,
+        call.signal,
+      ),
+    getView: (call) => invoke("getView", [], call),
+    zoomToExtent: async (extent, call) => {
+      if (typeof runtime()?.zoomToExtent === "function") {
+        await invoke("zoomToExtent", [extent, target], call);
+        return;
+      }
+      const { xmin, ymin, xmax, ymax } = extent;
+      await invoke("zoomToXY", [{ x: (xmin + xmax) / 2, y: (ymin + ymax) / 2, level: 8 }], call);
+    },
+    drawType: (kind) => runtime()?.drawType?.[kind] ?? kind,
+    constant: (table, key) => {
+      const values = runtime()?.[table];
+      return (values && typeof values === "object" ? (values as Record<string, unknown>)[key] : undefined) ?? key;
+    },
+    call: (name, payload, call) => {
+      const fn = runtime()?.[name];
+      const takesTarget = typeof fn === "function" && fn.length > 1;
+      return invoke(name, takesTarget ? [payload, target] : [payload], call);
+    },
+    apply: (name, args, call) => invoke(name, args, call),
+    dispose: () => {
+      const api = runtime();
+      if (typeof api?.dispose === "function") api.dispose(target);
+    },
+  };
+}
+
+function completionRules<T>(settleMs: number): OperationRules<T> {
+  const completed = (update: T) =>
+    Boolean((update as { isCompleted?: boolean } | null)?.isCompleted);
+  // A completed update can still report failure, e.g. a refused token.
+  const failsWith = (update: T) => {
+    if (!completed(update)) return undefined;
+    const { success, error } = update as { success?: unknown; error?: unknown };
+    if (error) return error;
+    return success === false ? update : undefined;
+  };
+  return { resolvesWith: completed, endsWith: completed, failsWith, settleMs };
+}
+
+let scriptPromise: Promise<GovmapRuntime> | null = null;
+
+/**
+ * Adds govmap.api.js to the page once and resolves when `window.govmap` is
+ * usable. When the fake runtime is selected it is installed instead.
+ */
+export function loadGovmapScript(url = GOVMAP_SCRIPT_URL): Promise<GovmapRuntime> {
+  if (window.govmap) return Promise.resolve(window.govmap);
+  if (scriptPromise) return scriptPromise;
+  const fake = fakeGovmapSettings();
+  if (fake) {
+    scriptPromise = import("./fakeRuntime").then(({ createFakeGovmapRuntime }) => {
+      window.govmap = createFakeGovmapRuntime(fake);
+      return window.govmap;
+    });
+    return scriptPromise;
+  }
+  scriptPromise = new Promise<GovmapRuntime>((resolve, reject) => {
+    const onLoad = () =>
+      window.govmap
+        ? resolve(window.govmap)
+        : reject(new Error("GovMap script loaded but window.govmap is missing."));
+    const onError = () => {
+      scriptPromise = null;
+      reject(new Error("Failed to download GovMap API script."));
+    };
+    const existing = document.querySelector<HTMLScriptElement>(`script[src="${url}"]`);
+    if (existing) {
+      existing.addEventListener("load", onLoad, { once: true });
+      existing.addEventListener("error", onError, { once: true });
+      return;
+    }
+    const script = document.createElement("script");
+    script.src = url;
+    script.async = true;
+    script.defer = true;
+    script.onload = onLoad;
+    script.onerror = onError;
+    document.body.appendChild(script);
+  });
+  return scriptPromise;
+}
+
+declare global {
+  interface Window {
+    govmap?: GovmapRuntime;
+  }
+}
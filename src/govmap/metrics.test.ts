@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { GovmapCallMetric } from "./govmapClient";
+import { formatBytes, percentile, summarizeMetrics } from "./metrics";
+
+function metric(
+  method: string,
+  durationMs: number,
+  overrides: Partial<GovmapCallMetric> = {},
+): GovmapCallMetric {
+  return {
+    method,
+    startedAt: 0,
+    durationMs,
+    requestBytes: 10,
+    responseBytes: 100,
+    outcome: "ok",
+    timeoutMs: 1000,
+    ...overrides,
+  };
+}
+
+describe("percentile", () => {
+  const values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+  it("takes the nearest rank", () => {
+    expect(percentile(values, 50)).toBe(5);
+    expect(percentile(values, 95)).toBe(10);
+    expect(percentile(values, 91)).toBe(10);
+    expect(percentile(values, 90)).toBe(9);
+  });
+
+  it("clamps to the first and last values", () => {
+    expect(percentile(values, 0)).toBe(1);
+    expect(percentile(values, 100)).toBe(10);
+    expect(percentile(values, 150)).toBe(10);
+    expect(percentile([42], 95)).toBe(42);
+  });
+
+  it("is 0 without values", () => {
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe("summarizeMetrics", () => {
+  it("groups calls by method, busiest first and then by name", () => {
+    const stats = summarizeMetrics([
+      metric("getView", 5),
+      metric("getLayerData", 30),
+      metric("identifyByXYAndLayer", 7),
+      metric("getLayerData", 10),
+    ]);
+    expect(stats.map((item) => [item.method, item.count])).toEqual([
+      ["getLayerData", 2],
+      ["getView", 1],
+      ["identifyByXYAndLayer", 1],
+    ]);
+  });
+
+  it("counts timeouts and auth rejections as failures of their own kind", () => {
+    const [stats] = summarizeMetrics([
+      metric("getLayerData", 40),
+      metric("getLayerData", 1000, { outcome: "timeout" }),
+      metric("getLayerData", 20, { outcome: "auth" }),
+      metric("getLayerData", 25, { outcome: "call-failed" }),
+    ]);
+    expect(stats).toMatchObject({
+      count: 4,
+      failures: 3,
+      failureRate: 0.75,
+      timeouts: 1,
+      authFailures: 1,
+    });
+  });
+
+  it("takes latency, first-chunk and size percentiles from sorted values", () => {
+    const [stats] = summarizeMetrics([
+      metric("displayGeometries", 300, { firstChunkMs: 40, responseBytes: 900 }),
+      metric("displayGeometries", 100, { firstChunkMs: 20, responseBytes: 100 }),
+      metric("displayGeometries", 200, { responseBytes: 500 }),
+    ]);
+    expect(stats).toMatchObject({
+      p50Ms: 200,
+      p95Ms: 300,
+      maxMs: 300,
+      p50FirstChunkMs: 20,
+      p50ResponseBytes: 500,
+    });
+  });
+
+  it("leaves out aborted calls and methods without progress updates", () => {
+    const stats = summarizeMetrics([
+      metric("getLayerData", 50),
+      metric("getLayerData", 5, { outcome: "aborted" }),
+      metric("getView", 5, { outcome: "aborted" }),
+    ]);
+    expect(stats).toHaveLength(1);
+    expect(stats[0]).toMatchObject({ count: 1, failures: 0, maxMs: 50 });
+    expect(stats[0].p50FirstChunkMs).toBeUndefined();
+  });
+});
+
+describe("formatBytes", () => {
+  it("picks a unit", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(1536)).toBe("1.5 kB");
+    expect(formatBytes(3 * 1024 * 1024)).toBe("3.0 MB");
+  });
+});
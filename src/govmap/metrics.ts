@@ -0,0 +1,72 @@
+/**
+ * Per-method latency and failure statistics over the calls a client reported
+ * through `onMetric`. Timeouts and auth rejections are counted apart from
+ * other failures: a run of them points at throttling or the token rather than
+ * a slow upstream.
+ */
+import type { GovmapCallMetric } from "./govmapClient";
+
+export type MethodStats = {
+  method: string;
+  count: number;
+  failures: number;
+  failureRate: number;
+  timeouts: number;
+  authFailures: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+  /** Median time to the first progress update, when the method reports progress. */
+  p50FirstChunkMs?: number;
+  /** Median response size. */
+  p50ResponseBytes: number;
+};
+
+/** Nearest-rank percentile of ascending `sorted` values; 0 when empty. */
+export function percentile(sorted: number[], p: number) {
+  if (!sorted.length) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+const ascending = (values: number[]) => [...values].sort((a, b) => a - b);
+
+/** Stats per method, busiest first. Aborted calls are left out. */
+export function summarizeMetrics(metrics: GovmapCallMetric[]): MethodStats[] {
+  const byMethod = new Map<string, GovmapCallMetric[]>();
+  for (const metric of metrics) {
+    if (metric.outcome === "aborted") continue;
+    const list = byMethod.get(metric.method) ?? [];
+    list.push(metric);
+    byMethod.set(metric.method, list);
+  }
+
+  return [...byMethod.entries()]
+    .map(([method, calls]) => {
+      const durations = ascending(calls.map((call) => call.durationMs));
+      const chunks = ascending(
+        calls.flatMap((call) => (call.firstChunkMs === undefined ? [] : [call.firstChunkMs])),
+      );
+      const failures = calls.filter((call) => call.outcome !== "ok").length;
+      return {
+        method,
+        count: calls.length,
+        failures,
+        failureRate: failures / calls.length,
+        timeouts: calls.filter((call) => call.outcome === "timeout").length,
+        authFailures: calls.filter((call) => call.outcome === "auth").length,
+        p50Ms: percentile(durations, 50),
+        p95Ms: percentile(durations, 95),
+        maxMs: durations[durations.length - 1],
+        p50FirstChunkMs: chunks.length ? percentile(chunks, 50) : undefined,
+        p50ResponseBytes: percentile(ascending(calls.map((call) => call.responseBytes)), 50),
+      };
+    })
+    .sort((a, b) => b.count - a.count || a.method.localeCompare(b.method));
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} kB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from "vitest";
+import { GovmapRuntime, createGovmapClient } from "./govmapClient";
+import {
+  createReplayRuntime,
+  createSessionRecorder,
+  parseSession,
+  replaySession,
+  serializeSession,
+  snapshot,
+} from "./session";
+
+/** A runtime with one method of each kind: promise, progress deferred and failing promise. */
+function stubRuntime(area = 512) {
+  const cancel = vi.fn();
+  const runtime: GovmapRuntime = {
+    getLayerData: ({ layerName }: { layerName: string }) =>
+      Promise.resolve({ layerName, features: [{ id: 1, area }] }),
+    displayGeometries: () => {
+      const callbacks: ((data: unknown) => void)[] = [];
+      setTimeout(() => {
+        callbacks.forEach((callback) => callback({ isCompleted: false, count: 0 }));
+        callbacks.forEach((callback) => callback({ isCompleted: true, count: 1 }));
+      });
+      const handle = {
+        progress(callback: (data: unknown) => void) {
+          callbacks.push(callback);
+          return handle;
+        },
+        cancel,
+      };
+      return handle;
+    },
+    getView: () => Promise.reject({ error: "No map is open." }),
+  };
+  return { runtime, cancel };
+}
+
+async function recordSession(runtime: GovmapRuntime) {
+  const recorder = createSessionRecorder(() => runtime, { source: "fake" });
+  const client = createGovmapClient({ target: "map", runtime: recorder.runtime });
+  recorder.start("round trip");
+  await client.getLayerData({ layerName: "PARCEL_ALL" });
+  await client.displayGeometries({ wkt: "POINT (200000 600000)" });
+  await client.getView().catch(() => undefined);
+  return recorder.stop();
+}
+
+describe("snapshot", () => {
+  it("copies an object shared by two fields both times", () => {
+    const symbol = { fillColor: [222, 59, 138, 0.35] };
+    const payload = { wkts: ["POINT(1 2)"], symbols: [symbol], defaultSymbol: symbol };
+    expect(snapshot(payload)).toEqual({
+      wkts: ["POINT(1 2)"],
+      symbols: [{ fillColor: [222, 59, 138, 0.35] }],
+      defaultSymbol: { fillColor: [222, 59, 138, 0.35] },
+    });
+  });
+
+  it("copies repeated array items", () => {
+    const entity = { objectId: 1 };
+    expect(snapshot([entity, entity])).toEqual([{ objectId: 1 }, { objectId: 1 }]);
+  });
+
+  it("marks only real cycles", () => {
+    const parent: Record<string, unknown> = { name: "parent" };
+    const child = { name: "child", parent, sibling: { parent } };
+    parent.child = child;
+    expect(snapshot(parent)).toEqual({
+      name: "parent",
+      child: { name: "child", parent: "[Circular]", sibling: { parent: "[Circular]" } },
+    });
+  });
+
+  it("keeps errors readable and drops functions", () => {
+    expect(
+      snapshot({ error: new TypeError("bad layer"), retry: () => undefined, at: new Date(0) }),
+    ).toEqual({
+      error: { name: "TypeError", message: "bad layer" },
+      at: "1970-01-01T00:00:00.000Z",
+    });
+  });
+});
+
+describe("session round trip", () => {
+  it("passes the runtime's cancel through the recorded deferred", async () => {
+    const { runtime, cancel } = stubRuntime();
+    await recordSession(runtime);
+    expect(cancel).toHaveBeenCalledTimes(1);
+  });
+
+  it("parses what it serializes", async () => {
+    const session = await recordSession(stubRuntime().runtime);
+    expect(session.calls.map((call) => [call.method, call.kind])).toEqual([
+      ["getLayerData", "promise"],
+      ["displayGeometries", "progress"],
+      ["getView", "promise"],
+    ]);
+    expect(session.calls[1].chunks).toEqual([
+      { isCompleted: false, count: 0 },
+      { isCompleted: true, count: 1 },
+    ]);
+    expect(parseSession(serializeSession(session))).toEqual(session);
+  });
+
+  it("replays the same responses against the runtime", async () => {
+    const session = parseSession(serializeSession(await recordSession(stubRuntime().runtime)));
+    const { runtime } = stubRuntime();
+    const { outcomes } = await replaySession(session, () => runtime);
+    expect(outcomes.map((outcome) => outcome.status)).toEqual(["same", "same", "same"]);
+  });
+
+  it("reports a response that changed upstream", async () => {
+    const session = parseSession(serializeSession(await recordSession(stubRuntime().runtime)));
+    const { runtime } = stubRuntime(640);
+    const { outcomes } = await replaySession(session, () => runtime);
+    expect(outcomes[0]).toMatchObject({ status: "changed" });
+    expect(outcomes[0].differences).toHaveLength(1);
+    expect(outcomes.slice(1).map((outcome) => outcome.status)).toEqual(["same", "same"]);
+  });
+
+  it("replays against a runtime answering from the recording", async () => {
+    const session = parseSession(serializeSession(await recordSession(stubRuntime().runtime)));
+    const replay = createReplayRuntime(session);
+    const { outcomes, session: replayed } = await replaySession(session, () => replay);
+    expect(outcomes.map((outcome) => outcome.status)).toEqual(["same", "same", "same"]);
+    expect(replayed.calls.map((call) => call.chunks)).toEqual(
+      session.calls.map((call) => call.chunks),
+    );
+  });
+});
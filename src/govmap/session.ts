@@ -0,0 +1,391 @@
+/**
+ * Records every `window.govmap` call (arguments, result, each `.progress`
+ * chunk) into a session file, and plays sessions back: either answering from
+ * the recording, or re-running the calls against a runtime and diffing the
+ * responses to spot upstream changes.
+ */
+import { JsonDifference, diffJson } from "../utils/jsonDiff";
+import { GovmapRuntime, createGovmapClient, hasProgress, isThenable } from "./govmapClient";
+
+export const SESSION_FORMAT = "govmap-session";
+export const SESSION_VERSION = 1;
+
+/** Methods a replay skips by default: they rebuild the map or wait for the user. */
+export const REPLAY_SKIPPED = ["createMap", "dispose", "getXY"];
+
+export type GovmapSessionCall = {
+  index: number;
+  method: string;
+  args: unknown[];
+  kind: "promise" | "progress" | "value";
+  /** Milliseconds since the session started. */
+  startedAt: number;
+  /** When the result, the completing chunk or the error arrived; null while pending. */
+  endedAt: number | null;
+  /** Every `.progress` chunk, with its arrival time in `chunkTimes`. */
+  chunks: unknown[];
+  chunkTimes: number[];
+  result?: unknown;
+  error?: unknown;
+};
+
+export type GovmapSession = {
+  format: typeof SESSION_FORMAT;
+  version: typeof SESSION_VERSION;
+  name: string;
+  /** ISO timestamp. */
+  recordedAt: string;
+  /** "live", "fake" or "replay". */
+  source: string;
+  drawType?: unknown;
+  calls: GovmapSessionCall[];
+};
+
+export type SessionRecorder = {
+  /** The wrapped runtime; hand this to `createGovmapClient`. */
+  runtime: () => GovmapRuntime | undefined;
+  start: (name?: string) => void;
+  stop: () => GovmapSession;
+  isRecording: () => boolean;
+  session: () => GovmapSession;
+  /** Called as each call starts, recording or not; the entry fills in as results arrive. */
+  subscribe: (listener: (call: GovmapSessionCall) => void) => () => void;
+};
+
+export type ReplayOutcome = {
+  index: number;
+  method: string;
+  status: "same" | "changed" | "failed" | "skipped";
+  differences: JsonDifference[];
+  error?: string;
+  durationMs?: number;
+};
+
+export type ReplayOptions = {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  skip?: string[];
+  /** Keys left out of the comparison, such as server timestamps. */
+  ignoreKeys?: string[];
+  onOutcome?: (outcome: ReplayOutcome) => void;
+};
+
+/**
+ * JSON-safe copy: functions are dropped, cycles and errors made readable. Only
+ * a value that contains itself is a cycle; one shared by two fields is copied twice.
+ */
+export function snapshot(value: unknown): unknown {
+  if (value === undefined) return undefined;
+  // The objects from the root down to the one being written.
+  const ancestors: object[] = [];
+  try {
+    const text = JSON.stringify(value, function (this: unknown, _key, item: unknown) {
+      const copy = item instanceof Error ? { name: item.name, message: item.message } : item;
+      if (typeof copy !== "object" || copy === null) return copy;
+      while (ancestors.length && ancestors[ancestors.length - 1] !== this) ancestors.pop();
+      if (ancestors.includes(copy)) return "[Circular]";
+      ancestors.push(copy);
+      return copy;
+    });
+    return text === undefined ? undefined : JSON.parse(text);
+  } catch {
+    return String(value);
+  }
+}
+
+function emptySession(name: string, source: string): GovmapSession {
+  return {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    name,
+    recordedAt: new Date().toISOString(),
+    source,
+    calls: [],
+  };
+}
+
+export function createSessionRecorder(
+  source: () => GovmapRuntime | undefined,
+  options: { source?: string } = {},
+): SessionRecorder {
+  const label = options.source ?? "live";
+  const listeners = new Set<(call: GovmapSessionCall) => void>();
+  const proxies = new WeakMap<GovmapRuntime, GovmapRuntime>();
+  let session = emptySession("GovMap session", label);
+  let startedAt = performance.now();
+  let recording = false;
+
+  const elapsed = () => Math.round(performance.now() - startedAt);
+
+  const begin = (method: string, args: unknown[], kind: GovmapSessionCall["kind"]) => {
+    const call: GovmapSessionCall = {
+      index: session.calls.length,
+      method,
+      args: snapshot(args) as unknown[],
+      kind,
+      startedAt: elapsed(),
+      endedAt: null,
+      chunks: [],
+      chunkTimes: [],
+    };
+    if (recording) session.calls.push(call);
+    listeners.forEach((listener) => listener(call));
+    return call;
+  };
+
+  const record = (method: string, fn: (...args: unknown[]) => unknown, api: GovmapRuntime) => {
+    const wrapper = (...args: unknown[]) => {
+      if (!recording && !listeners.size) return fn.apply(api, args);
+      let raw: unknown;
+      try {
+        raw = fn.apply(api, args);
+      } catch (error) {
+        const call = begin(method, args, "value");
+        call.error = snapshot(error);
+        call.endedAt = call.startedAt;
+        throw error;
+      }
+
+      if (hasProgress(raw)) {
+        const call = begin(method, args, "progress");
+        const callbacks: ((data: unknown) => void)[] = [];
+        raw.progress((data) => {
+          const at = elapsed();
+          call.chunks.push(snapshot(data));
+          call.chunkTimes.push(at);
+          call.result = snapshot(data);
+          if ((data as { isCompleted?: boolean } | null)?.isCompleted) call.endedAt = at;
+          callbacks.forEach((callback) => callback(data));
+        });
+        const deferred: Record<string, unknown> = {
+          progress(callback: (data: unknown) => void) {
+            callbacks.push(callback);
+            return deferred;
+          },
+        };
+        if (isThenable(raw)) deferred.then = raw.then.bind(raw);
+        // The client cancels handles it no longer listens to; see `operation`.
+        const handle = raw as { cancel?: unknown };
+        if (typeof handle.cancel === "function") deferred.cancel = handle.cancel.bind(raw);
+        return deferred;
+      }
+      if (isThenable(raw)) {
+        const call = begin(method, args, "promise");
+        raw.then(
+          (value) => {
+            call.result = snapshot(value);
+            call.endedAt = elapsed();
+          },
+          (error) => {
+            call.error = snapshot(error) ?? null;
+            call.endedAt = elapsed();
+          },
+        );
+        return raw;
+      }
+      const call = begin(method, args, "value");
+      call.result = snapshot(raw);
+      call.endedAt = call.startedAt;
+      return raw;
+    };
+    // The client passes the map target only to methods that declare a second parameter.
+    Object.defineProperty(wrapper, "length", { value: fn.length });
+    return wrapper;
+  };
+
+  const wrap = (api: GovmapRuntime) => {
+    const cached = proxies.get(api);
+    if (cached) return cached;
+    const wrappers = new Map<string, unknown>();
+    const proxy = new Proxy(api, {
+      get(target, key, receiver) {
+        const value = Reflect.get(target, key, receiver);
+        if (typeof key !== "string" || typeof value !== "function") return value;
+        if (!wrappers.has(key)) {
+          wrappers.set(key, record(key, value as (...args: unknown[]) => unknown, target));
+        }
+        return wrappers.get(key);
+      },
+    });
+    proxies.set(api, proxy);
+    return proxy;
+  };
+
+  return {
+    runtime: () => {
+      const api = source();
+      return api ? wrap(api) : undefined;
+    },
+    start: (name = `GovMap session ${new Date().toLocaleString()}`) => {
+      session = emptySession(name, label);
+      session.drawType = snapshot(source()?.drawType);
+      startedAt = performance.now();
+      recording = true;
+    },
+    stop: () => {
+      recording = false;
+      return session;
+    },
+    isRecording: () => recording,
+    session: () => session,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export function serializeSession(session: GovmapSession) {
+  return `${JSON.stringify(session, null, 2)}\n`;
+}
+
+export function parseSession(text: string): GovmapSession {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error("The session file is not valid JSON.");
+  }
+  const session = value as Partial<GovmapSession> | null;
+  if (session?.format !== SESSION_FORMAT || !Array.isArray(session.calls)) {
+    throw new Error("Not a GovMap session file.");
+  }
+  if (session.version !== SESSION_VERSION) {
+    throw new Error(`Unsupported session version ${session.version}; expected ${SESSION_VERSION}.`);
+  }
+  return session as GovmapSession;
+}
+
+const sameArgs = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * A runtime that answers from a recording. Each call takes the first unused
+ * recorded call of that method with the same arguments, then with the same
+ * first argument (the map target may differ), then the next unused one. With `timing: "recorded"` responses and
+ * progress chunks arrive as late as they did originally.
+ */
+export function createReplayRuntime(
+  session: GovmapSession,
+  options: { timing?: "instant" | "recorded" } = {},
+): GovmapRuntime {
+  const used = new Set<number>();
+  const methods = new Set(session.calls.map((call) => call.method));
+  const later = (ms: number, run: () => void) =>
+    setTimeout(run, options.timing === "recorded" ? Math.max(0, ms) : 0);
+
+  const take = (method: string, args: unknown[]) => {
+    const candidates = session.calls.filter(
+      (call) => call.method === method && !used.has(call.index),
+    );
+    const wanted = snapshot(args) as unknown[];
+    const call =
+      candidates.find((item) => sameArgs(item.args, wanted)) ??
+      candidates.find((item) => sameArgs(item.args[0], wanted[0])) ??
+      candidates[0];
+    if (!call) throw new Error(`The session has no more recorded ${method} calls.`);
+    used.add(call.index);
+    return call;
+  };
+
+  const respond = (method: string, args: unknown[]) => {
+    const call = take(method, args);
+    const duration = (call.endedAt ?? call.startedAt) - call.startedAt;
+    if (call.kind === "progress") {
+      const callbacks: ((data: unknown) => void)[] = [];
+      call.chunks.forEach((chunk, index) =>
+        later((call.chunkTimes[index] ?? call.startedAt) - call.startedAt, () =>
+          callbacks.forEach((callback) => callback(chunk)),
+        ),
+      );
+      const deferred = {
+        progress(callback: (data: unknown) => void) {
+          callbacks.push(callback);
+          return deferred;
+        },
+      };
+      return deferred;
+    }
+    if (call.kind === "promise") {
+      return new Promise((resolve, reject) =>
+        later(duration, () => ("error" in call ? reject(call.error) : resolve(call.result))),
+      );
+    }
+    if ("error" in call) throw call.error;
+    return call.result;
+  };
+
+  return new Proxy({} as GovmapRuntime, {
+    get(_target, key) {
+      if (key === "drawType") return session.drawType;
+      if (typeof key !== "string" || !methods.has(key)) return undefined;
+      return (...args: unknown[]) => respond(key, args);
+    },
+  });
+}
+
+const outcomeOf = (call: GovmapSessionCall) =>
+  "error" in call ? { error: call.error } : { result: call.result };
+
+/**
+ * Runs a session's calls in order against `runtime` and compares each
+ * response with the recorded one. Resolves with the outcomes and the replay's
+ * own recording, which can be saved as a new session.
+ */
+export async function replaySession(
+  session: GovmapSession,
+  runtime: () => GovmapRuntime | undefined,
+  options: ReplayOptions = {},
+): Promise<{ outcomes: ReplayOutcome[]; session: GovmapSession }> {
+  const skip = new Set(options.skip ?? REPLAY_SKIPPED);
+  const recorder = createSessionRecorder(runtime, { source: "replay" });
+  const client = createGovmapClient({ target: "", runtime: recorder.runtime });
+  const outcomes: ReplayOutcome[] = [];
+  recorder.start(`${session.name} (replay)`);
+
+  for (const call of session.calls) {
+    options.signal?.throwIfAborted();
+    if (skip.has(call.method)) {
+      const outcome: ReplayOutcome = {
+        index: call.index,
+        method: call.method,
+        status: "skipped",
+        differences: [],
+      };
+      outcomes.push(outcome);
+      options.onOutcome?.(outcome);
+      continue;
+    }
+
+    const started = performance.now();
+    const before = recorder.session().calls.length;
+    let failure: string | undefined;
+    try {
+      await client.apply(call.method, call.args, {
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+      });
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      failure = error instanceof Error ? error.message : String(error);
+    }
+    const replayed = recorder.session().calls[before] as GovmapSessionCall | undefined;
+    const differences = replayed
+      ? diffJson(outcomeOf(call), outcomeOf(replayed), { ignoreKeys: options.ignoreKeys })
+          .differences
+      : [];
+    const outcome: ReplayOutcome = {
+      index: call.index,
+      method: call.method,
+      status: failure && !("error" in call) ? "failed" : differences.length ? "changed" : "same",
+      differences,
+      error: failure,
+      durationMs: Math.round(performance.now() - started),
+    };
+    outcomes.push(outcome);
+    options.onOutcome?.(outcome);
+  }
+
+  return { outcomes, session: recorder.stop() };
+}
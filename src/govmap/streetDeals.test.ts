@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from "vitest";
+import { StreetDealsQuery, abortableDelay, collectStreetDeals } from "./streetDeals";
+
+/** An upstream holding `count` deals that never returns more than `cap` per request. */
+function cappedUpstream(count: number, cap: number, withTotal: boolean) {
+  const deals = Array.from({ length: count }, (_, index) => ({ dealId: index + 1 }));
+  return vi.fn(async ({ limit = 50, offset = 0 }: StreetDealsQuery) => {
+    const data = deals.slice(offset, offset + Math.min(limit, cap));
+    return {
+      upstreamUrl: "",
+      status: 200,
+      ok: true,
+      data: withTotal ? { data, total: count } : { data },
+    };
+  });
+}
+
+describe("collectStreetDeals", () => {
+  it("keeps paging past short pages until the advertised total", async () => {
+    const fetchPage = cappedUpstream(45, 20, true);
+    const collection = await collectStreetDeals("6638", "108", { fetchPage, minIntervalMs: 0 });
+    expect(collection).toMatchObject({ pages: 3, stop: "exhausted" });
+    expect(collection.deals).toHaveLength(45);
+    expect(fetchPage.mock.calls.map(([query]) => query.offset)).toEqual([0, 20, 40]);
+  });
+
+  it("treats a short page as the end when no total is given", async () => {
+    const fetchPage = cappedUpstream(45, 20, false);
+    const collection = await collectStreetDeals("6638", "108", { fetchPage, minIntervalMs: 0 });
+    expect(collection).toMatchObject({ pages: 1, stop: "exhausted" });
+    expect(collection.deals).toHaveLength(20);
+  });
+
+  it("stops when a page adds nothing even though the total is not reached", async () => {
+    const fetchPage = cappedUpstream(45, 20, true);
+    fetchPage.mockImplementation(async () => ({
+      upstreamUrl: "",
+      status: 200,
+      ok: true,
+      data: { data: [{ dealId: 1 }], total: 45 },
+    }));
+    const collection = await collectStreetDeals("6638", "108", { fetchPage, minIntervalMs: 0 });
+    expect(collection).toMatchObject({ pages: 2, stop: "no-new-deals" });
+  });
+});
+
+describe("abortableDelay", () => {
+  it("removes its abort listener once the wait is over", async () => {
+    const controller = new AbortController();
+    const remove = vi.spyOn(controller.signal, "removeEventListener");
+    await abortableDelay(1, controller.signal);
+    expect(remove).toHaveBeenCalledWith("abort", expect.any(Function));
+  });
+
+  it("rejects with the abort reason", async () => {
+    const controller = new AbortController();
+    const waiting = abortableDelay(10_000, controller.signal);
+    controller.abort(new Error("stop"));
+    await expect(waiting).rejects.toThrow("stop");
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Client for GovMap's real-estate street-deals REST resource
+ * (`/api/real-estate/street-deals/{lot}-{parcel}`), reached through the
+ * /api/govmap proxy, and a pager that follows offsets until every deal for a
+ * parcel is in.
+ */
+
+export type StreetDealsQuery = {
+  lot: string;
+  parcel: string;
+  limit?: number;
+  offset?: number;
+};
+
+export type StreetDealsResult = {
+  upstreamUrl: string;
+  status: number;
+  ok: boolean;
+  data: unknown;
+  /** The proxy's own cache verdict (`x-cache`/`age`), when it runs one. */
+  proxyCache?: { result: string; ageS: number };
+};
+
+export type StreetDeal = Record<string, unknown>;
+
+export type FetchStreetDealsOptions = {
+  /** Asks the proxy to skip its cache. */
+  bypassCache?: boolean;
+  signal?: AbortSignal;
+};
+
+/** A non-2xx answer from the street-deals resource or the proxy in front of it. */
+export class StreetDealsError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "StreetDealsError";
+    this.status = status;
+  }
+}
+
+export const GOVMAP_ORIGIN = "https://www.govmap.gov.il";
+const PROXY_PREFIX = "/api/govmap";
+/** Keys a response may nest its deal list under. */
+const LIST_KEYS = ["data", "deals", "items", "results", "records"];
+const TOTAL_KEYS = ["total", "totalCount", "count", "totalResults"];
+const ID_KEYS = ["dealId", "DEALID", "deal_id", "id", "objectId", "OBJECTID"];
+
+export function streetDealsResourceId({ lot, parcel }: Pick<StreetDealsQuery, "lot" | "parcel">) {
+  return `${lot.trim()}-${parcel.trim()}`;
+}
+
+export function streetDealsPath(query: StreetDealsQuery) {
+  const search = new URLSearchParams();
+  if (query.limit !== undefined) search.set("limit", String(query.limit));
+  if (query.offset !== undefined) search.set("offset", String(query.offset));
+  const queryString = search.toString();
+  return `/api/real-estate/street-deals/${streetDealsResourceId(query)}${
+    queryString ? `?${queryString}` : ""
+  }`;
+}
+
+/** One request; throws a `StreetDealsError` with the upstream's message on a non-2xx answer. */
+export async function fetchStreetDeals(
+  query: StreetDealsQuery,
+  { bypassCache, signal }: FetchStreetDealsOptions = {},
+): Promise<StreetDealsResult> {
+  const path = streetDealsPath(query);
+  const response = await fetch(`${PROXY_PREFIX}${path}`, {
+    cache: "no-store",
+    headers: bypassCache ? { "cache-control": "no-cache" } : undefined,
+    signal,
+  });
+  const payload = await response.json().catch(() => undefined);
+  if (!response.ok) {
+    throw new StreetDealsError(payload?.error || "GovMap upstream error.", response.status);
+  }
+  if (payload === undefined) {
+    throw new StreetDealsError("GovMap answered with something other than JSON.", response.status);
+  }
+  const proxyCache = response.headers.get("x-cache");
+  return {
+    upstreamUrl: `${GOVMAP_ORIGIN}${path}`,
+    status: response.status,
+    ok: response.ok,
+    data: payload,
+    proxyCache: proxyCache
+      ? { result: proxyCache, ageS: Number(response.headers.get("age")) || 0 }
+      : undefined,
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** The deal list in a response, whether bare or nested a level or two down; null when absent. */
+export function dealsOf(payload: unknown, depth = 0): StreetDeal[] | null {
+  if (Array.isArray(payload)) return payload.every(isRecord) ? payload : null;
+  if (!isRecord(payload) || depth > 1) return null;
+  for (const key of LIST_KEYS) {
+    const deals = dealsOf(payload[key], depth + 1);
+    if (deals) return deals;
+  }
+  return null;
+}
+
+/** The total deal count a response advertises, if any. */
+export function totalOf(payload: unknown): number | undefined {
+  if (!isRecord(payload)) return undefined;
+  for (const key of TOTAL_KEYS) {
+    if (typeof payload[key] === "number") return payload[key];
+  }
+  return isRecord(payload.data) ? totalOf(payload.data) : undefined;
+}
+
+/** Identity of a deal: its id when it has one, otherwise its full content. */
+export function dealKey(deal: StreetDeal) {
+  const idKey = ID_KEYS.find((key) => deal[key] !== undefined && deal[key] !== null);
+  if (idKey) return `${idKey}:${deal[idKey]}`;
+  return JSON.stringify(
+    Object.keys(deal)
+      .sort()
+      .map((key) => [key, deal[key]]),
+  );
+}
+
+export type StreetDealsStop = "exhausted" | "max-pages" | "no-new-deals" | "cancelled";
+
+export type StreetDealsPage = {
+  page: number;
+  offset: number;
+  result: StreetDealsResult;
+  /** Deals on this page not seen on an earlier one. */
+  added: StreetDeal[];
+  duplicates: number;
+  /** Set on the final page. */
+  stop: StreetDealsStop | null;
+};
+
+export type PageStreetDealsOptions = {
+  /** Deals asked for per request (default 50). */
+  pageSize?: number;
+  /** Offset of the first page (default 0). */
+  offset?: number;
+  /** Hard stop, so a misbehaving upstream cannot page forever (default 20). */
+  maxPages?: number;
+  /** Minimum gap between the starts of consecutive requests (default 500 ms). */
+  minIntervalMs?: number;
+  /** Paces requests instead of `minIntervalMs`; share one to keep several pagings to one rate. */
+  throttle?: RateLimiter;
+  signal?: AbortSignal;
+  /** Fetches one page; defaults to `fetchStreetDeals`, swap in a cached variant. */
+  fetchPage?: (query: StreetDealsQuery, signal?: AbortSignal) => Promise<StreetDealsResult>;
+};
+
+/** Waits `ms`, rejecting early with the abort reason; no listener outlives the wait. */
+export function abortableDelay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Resolves when the caller may start its next request. */
+export type RateLimiter = (signal?: AbortSignal) => Promise<void>;
+
+/** Spaces request starts at least `minIntervalMs` apart, however many callers share it. */
+export function createRateLimiter(minIntervalMs: number): RateLimiter {
+  let nextStart = -Infinity;
+  return (signal) => {
+    const now = Date.now();
+    const start = Math.max(now, nextStart);
+    nextStart = start + minIntervalMs;
+    return abortableDelay(start - now, signal);
+  };
+}
+
+/**
+ * Follows `offset` one page at a time. Stops once the advertised total is
+ * reached or, when the upstream gives no total, when a page comes back short;
+ * also when a page brings nothing new (an upstream that ignores `offset`) or
+ * after `maxPages`. With a total, a short page only means the upstream caps
+ * its page size, so paging goes on.
+ */
+export async function* pageStreetDeals(
+  lot: string,
+  parcel: string,
+  options: PageStreetDealsOptions = {},
+): AsyncGenerator<StreetDealsPage> {
+  const {
+    pageSize = 50,
+    maxPages = 20,
+    minIntervalMs = 500,
+    signal,
+    fetchPage = (query, pageSignal) => fetchStreetDeals(query, { signal: pageSignal }),
+  } = options;
+  const throttle = options.throttle ?? createRateLimiter(minIntervalMs);
+  const seen = new Set<string>();
+  let offset = options.offset ?? 0;
+
+  for (let page = 1; ; page += 1) {
+    await throttle(signal);
+    const result = await fetchPage({ lot, parcel, limit: pageSize, offset }, signal);
+    const deals = dealsOf(result.data) ?? [];
+    const added = deals.filter((deal) => {
+      const key = dealKey(deal);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    const total = totalOf(result.data);
+    const exhausted = total !== undefined ? seen.size >= total : deals.length < pageSize;
+    const stop: StreetDealsStop | null = exhausted
+      ? "exhausted"
+      : !added.length
+        ? "no-new-deals"
+        : page >= maxPages
+          ? "max-pages"
+          : null;
+    yield { page, offset, result, added, duplicates: deals.length - added.length, stop };
+    if (stop) return;
+    offset += deals.length;
+  }
+}
+
+export type StreetDealsCollection = {
+  deals: StreetDeal[];
+  pages: number;
+  duplicates: number;
+  stop: StreetDealsStop;
+  /** The last page's response, for its status and cache details. */
+  last: StreetDealsResult | null;
+};
+
+/**
+ * Every deal for a parcel, merged and de-duplicated. Cancelling through
+ * `signal` resolves with what arrived so far rather than throwing.
+ */
+export async function collectStreetDeals(
+  lot: string,
+  parcel: string,
+  options: PageStreetDealsOptions & {
+    onPage?: (page: StreetDealsPage, deals: StreetDeal[]) => void;
+  } = {},
+): Promise<StreetDealsCollection> {
+  const collection: StreetDealsCollection = {
+    deals: [],
+    pages: 0,
+    duplicates: 0,
+    stop: "exhausted",
+    last: null,
+  };
+  try {
+    for await (const page of pageStreetDeals(lot, parcel, options)) {
+      collection.deals.push(...page.added);
+      collection.pages = page.page;
+      collection.duplicates += page.duplicates;
+      collection.last = page.result;
+      if (page.stop) collection.stop = page.stop;
+      options.onPage?.(page, collection.deals);
+    }
+  } catch (error) {
+    if (!options.signal?.aborted) throw error;
+    collection.stop = "cancelled";
+  }
+  return collection;
+}
@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import MapStandalone from "./map";
+import { createFakeGovmapRuntime, seededRandom } from "./govmap/fakeRuntime";
+
+const logged = (label: string) =>
+  vi.mocked(console.log).mock.calls.filter(([first]) => first === label);
+
+beforeEach(() => {
+  window.govmap = createFakeGovmapRuntime({ latencyMs: 0, jitterMs: 5, random: seededRandom(7) });
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  delete window.govmap;
+  vi.restoreAllMocks();
+});
+
+async function renderMap() {
+  render(<MapStandalone />);
+  await waitFor(() => expect(document.querySelector("#map-standalone svg")).not.toBeNull());
+  return document.getElementById("map-standalone") as HTMLElement;
+}
+
+describe("MapStandalone buttons", () => {
+  it.each(["govmap:layer_nadlan", "layer_nadlan"])("fetches %s", async (layerName) => {
+    await renderMap();
+    fireEvent.click(screen.getByRole("button", { name: `Fetch "${layerName}"` }));
+    await waitFor(() => expect(logged(`Manual getLayerEntities ${layerName}:`)).toHaveLength(1));
+    const [[, response]] = logged(`Manual getLayerEntities ${layerName}:`);
+    expect(response).toMatchObject({ layerName, totalCount: expect.any(Number) });
+    expect(response.data.length).toBeGreaterThan(0);
+  });
+
+  it("intersects the current view with the deals layer", async () => {
+    await renderMap();
+    fireEvent.click(screen.getByRole("button", { name: "Fetch Nadlan Features (BBox)" }));
+    await waitFor(() => expect(logged("Intersect result:")).toHaveLength(1));
+    const [[, result]] = logged("Intersect result:");
+    expect(result).toMatchObject({ layerName: "layer_nadlan", exceededTransferLimit: false });
+  });
+
+  it("identifies clicks, keeping one listener however often it is armed", async () => {
+    const element = await renderMap();
+    const arm = screen.getByRole("button", { name: "Click on map → fetch Nadlan features" });
+    fireEvent.click(arm);
+    fireEvent.click(arm);
+    fireEvent.click(element, { clientX: 400, clientY: 300 });
+    await waitFor(() => expect(logged("intersectFeatures result:")).toHaveLength(1));
+    expect(logged("Clicked map point:")).toHaveLength(1);
+    const [[, click]] = logged("Clicked map point:");
+    expect(click.mapPoint).toEqual({ x: expect.any(Number), y: expect.any(Number) });
+  });
+});
@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useRef, useState } from "react";
+import { GovmapMapOptions, createGovmapClient, loadGovmapScript } from "./govmap/govmapClient";
+import { assertValidGeometry, bboxToPolygon, toWkt } from "./utils/geometry";
 
-const GOVMAP_SCRIPT_URL = "https://www.govmap.gov.il/govmap/api/govmap.api.js";
 const MAP_ELEMENT_ID = "map-standalone";
 const DEFAULT_LAYERS = ["SUB_GUSH_ALL", "PARCEL_ALL", "layer_215978", "nadlan"];
 const ENV_GOVMAP_TOKEN = import.meta.env.VITE_GOVMAP_TOKEN ?? "";
@@ -11,27 +12,10 @@ function useGovmapScript() {
   useEffect(() => {
     if (typeof window === "undefined" || status !== "idle") return;
     setStatus("loading");
-    const existing = document.querySelector<HTMLScriptElement>(`script[src="${GOVMAP_SCRIPT_URL}"]`);
-    const markReady = () => setStatus("ready");
-    if (existing) {
-      if (window.govmap) markReady();
-      else {
-        existing.addEventListener("load", markReady, { once: true });
-        existing.addEventListener(
-          "error",
-          () => setStatus("error"),
-          { once: true },
-        );
-      }
-      return;
-    }
-    const script = document.createElement("script");
-    script.src = GOVMAP_SCRIPT_URL;
-    script.async = true;
-    script.defer = true;
-    script.onload = markReady;
-    script.onerror = () => setStatus("error");
-    document.body.appendChild(script);
+    loadGovmapScript().then(
+      () => setStatus("ready"),
+      () => setStatus("error"),
+    );
   }, [status]);
 
   return status;
@@ -40,7 +24,9 @@ function useGovmapScript() {
 function MapStandalone() {
   const scriptStatus = useGovmapScript();
   const mounted = useRef(false);
-  const payload = useMemo(
+  const clickListener = useRef<AbortController | null>(null);
+  const govmap = useMemo(() => createGovmapClient({ target: MAP_ELEMENT_ID }), []);
+  const payload = useMemo<GovmapMapOptions>(
     () => ({
       token: ENV_GOVMAP_TOKEN,
       layers: DEFAULT_LAYERS,
@@ -61,20 +47,21 @@ function MapStandalone() {
     mounted.current = true;
     const mount = async () => {
       try {
-        await window.govmap?.createMap(MAP_ELEMENT_ID, payload);
+        await govmap.createMap(payload);
       } catch (error) {
         console.error("Standalone map failed to init", error);
       }
     };
     mount();
     return () => {
+      clickListener.current?.abort();
       try {
-        window.govmap?.dispose?.(MAP_ELEMENT_ID);
+        govmap.dispose();
       } catch (error) {
         console.warn("Failed to dispose standalone map", error);
       }
     };
-  }, [payload, scriptStatus]);
+  }, [govmap, payload, scriptStatus]);
 
   return (
     <div style={{ padding: "1rem", maxWidth: "100%" }}>
@@ -107,19 +94,14 @@ function MapStandalone() {
             key={item.layerName}
             type="button"
             onClick={() => {
-              if (typeof window.govmap?.getLayerEntities !== "function") {
-                // eslint-disable-next-line no-console
-                console.warn("govmap.getLayerEntities is not available yet.");
-                return;
-              }
               const params = { layerName: item.layerName };
-              window.govmap
+              govmap
                 .getLayerEntities(params)
-                .then((response: any) => {
+                .then((response) => {
                   // eslint-disable-next-line no-console
                   console.log(`Manual getLayerEntities ${item.layerName}:`, response);
                 })
-                .catch((err: any) => {
+                .catch((err) => {
                   // eslint-disable-next-line no-console
                   console.error(`Failed to fetch layer entities (${item.layerName}):`, err);
                 });
@@ -140,28 +122,13 @@ function MapStandalone() {
       <button
         type="button"
         onClick={() => {
-          if (typeof window.govmap?.intersectFeatures !== "function") {
-            // eslint-disable-next-line no-console
-            console.warn("govmap.intersectFeatures is not ready yet.");
-            return;
-          }
-          if (typeof window.govmap?.getView !== "function") {
-            // eslint-disable-next-line no-console
-            console.warn("govmap.getView is not available.");
-            return;
-          }
-
-          window.govmap
+          govmap
             .getView()
-            .then((view: any) => {
+            .then((view) => {
               const { xmin, ymin, xmax, ymax } = view?.extent ?? {};
-              const wktBox = `POLYGON((
-        ${xmin} ${ymin},
-        ${xmax} ${ymin},
-        ${xmax} ${ymax},
-        ${xmin} ${ymax},
-        ${xmin} ${ymin}
-      ))`;
+              const box = bboxToPolygon([xmin, ymin, xmax, ymax].map(Number) as [number, number, number, number]);
+              assertValidGeometry(box, { srid: 2039 });
+              const wktBox = toWkt(box);
               const params = {
                 layerName: "layer_nadlan",
                 geometry: wktBox,
@@ -169,13 +136,13 @@ function MapStandalone() {
                 fields: ["*"],
                 maxResults: 5000,
               };
-              return window.govmap.intersectFeatures(params);
+              return govmap.intersectFeatures(params);
             })
-            .then((res: any) => {
+            .then((res) => {
               // eslint-disable-next-line no-console
               console.log("Intersect result:", res);
             })
-            .catch((err: any) => {
+            .catch((err) => {
               // eslint-disable-next-line no-console
               console.error("Intersect error:", err);
             });
@@ -195,37 +162,51 @@ function MapStandalone() {
       <button
         type="button"
         onClick={() => {
-          if (typeof window.govmap?.getXY !== "function") {
-            // eslint-disable-next-line no-console
-            console.warn("govmap.getXY is not available yet.");
-            return;
-          }
-          if (typeof window.govmap?.intersectFeatures !== "function") {
+          if (!govmap.has("intersectFeatures")) {
             // eslint-disable-next-line no-console
             console.warn("govmap.intersectFeatures is not available yet.");
             return;
           }
-          window.govmap.getXY().progress((resp: any) => {
-            const { x, y } = resp.mapPoint ?? {};
-            // eslint-disable-next-line no-console
-            console.log("Clicked map point:", resp);
-            const params = {
-              geometry: `POINT(${x} ${y})`,
-              layerName: "layer_nadlan",
-              fields: ["*"],
-            };
-            // eslint-disable-next-line no-console
-            console.log("intersectFeatures params:", params);
-            window.govmap
-              .intersectFeatures(params)
-              .then((res: any) => {
-                // eslint-disable-next-line no-console
-                console.log("intersectFeatures result:", res);
-              })
-              .catch((err: any) => {
+          // One listener at a time: a second click on the button replaces the first.
+          clickListener.current?.abort();
+          const controller = new AbortController();
+          clickListener.current = controller;
+          const listen = async () => {
+            for await (const resp of govmap.getXY({ signal: controller.signal })) {
+              const { x, y } = resp.mapPoint ?? {};
+              // eslint-disable-next-line no-console
+              console.log("Clicked map point:", resp);
+              const point = { type: "Point" as const, coordinates: [Number(x), Number(y)] };
+              try {
+                assertValidGeometry(point, { srid: 2039 });
+              } catch (error) {
                 // eslint-disable-next-line no-console
-                console.error("intersectFeatures error:", err);
-              });
+                console.error("Skipping intersectFeatures:", error);
+                continue;
+              }
+              const params = {
+                geometry: toWkt(point),
+                layerName: "layer_nadlan",
+                fields: ["*"],
+              };
+              // eslint-disable-next-line no-console
+              console.log("intersectFeatures params:", params);
+              govmap
+                .intersectFeatures(params)
+                .then((res) => {
+                  // eslint-disable-next-line no-console
+                  console.log("intersectFeatures result:", res);
+                })
+                .catch((err) => {
+                  // eslint-disable-next-line no-console
+                  console.error("intersectFeatures error:", err);
+                });
+            }
+          };
+          listen().catch((err) => {
+            if (controller.signal.aborted) return;
+            // eslint-disable-next-line no-console
+            console.error("getXY error:", err);
           });
         }}
         style={{
@@ -0,0 +1,31 @@
+import { defineMethod } from "../registry";
+
+export default defineMethod({
+  id: "custom",
+  label: "Custom method",
+  description: "Call any window.govmap method with raw JSON payload.",
+  params: {
+    methodName: {
+      kind: "text",
+      label: "Method name",
+      placeholder: "getLayerEntities",
+      default: "getLayerEntities",
+      required: true,
+    },
+    rawPayload: {
+      kind: "json",
+      label: "Raw payload (JSON)",
+      placeholder: '{ "layerName": "nadlan" }',
+      default: '{ "layerName": "nadlan" }',
+      helper: "Leave empty to send undefined.",
+    },
+  },
+  build: ({ methodName, rawPayload }, { govmap }) => {
+    if (!govmap.has(methodName)) throw new Error(`govmap.${methodName} is not a function.`);
+    return {
+      payload: rawPayload,
+      methodName,
+      send: () => govmap.call(methodName, rawPayload),
+    };
+  },
+});
@@ -0,0 +1,24 @@
+import { defineMethod } from "../registry";
+
+export default defineMethod({
+  id: "geocode",
+  label: "geocode",
+  description: "Resolve a free-text address or place name to coordinates.",
+  params: {
+    keyword: { kind: "text", label: "Address", placeholder: "הרצל 1 תל אביב", required: true },
+    type: {
+      kind: "enum",
+      label: "Result type",
+      options: [
+        { value: "FullResult", label: "Full result (every candidate)" },
+        { value: "AccuracyOnly", label: "Accuracy only (best match)" },
+      ],
+      default: "FullResult",
+      helper: "Sent as the matching govmap.geocodeType value.",
+    },
+  },
+  build: ({ keyword, type }, { govmap }) => ({
+    payload: { keyword, type },
+    send: () => govmap.call("geocode", { keyword, type: govmap.constant("geocodeType", type) }),
+  }),
+});
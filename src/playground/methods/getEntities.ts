@@ -0,0 +1,35 @@
+import { defineMethod } from "../registry";
+
+export default defineMethod({
+  id: "getEntities",
+  label: "getEntities",
+  description: "Try govmap.getEntities if available; falls back to getLayerEntities.",
+  params: {
+    layerName: { kind: "layer", label: "Layer name", placeholder: "nadlan" },
+    objectIds: { kind: "list", label: "Object IDs (comma separated)", placeholder: "12345,12346" },
+  },
+  build: ({ layerName, objectIds }, { govmap }) => {
+    const request = { layerName, objectIds };
+    if (govmap.has("getEntities")) {
+      return { payload: request, send: () => govmap.getEntities(request) };
+    }
+    if (govmap.has("getLayerEntities")) {
+      return {
+        payload: request,
+        methodName: "getLayerEntities (fallback)",
+        send: () => govmap.getLayerEntities(request),
+      };
+    }
+    throw new Error("Neither govmap.getEntities nor govmap.getLayerEntities are available.");
+  },
+  /** getLayerEntities ignores object ids, so the fallback filters its page down to them. */
+  postProcess: (result, { objectIds }, call) => {
+    const data = (result as { data?: unknown } | null)?.data;
+    if (!call.methodName || !objectIds.length || !Array.isArray(data)) return result;
+    const wanted = new Set(objectIds);
+    return {
+      ...(result as object),
+      data: data.filter((entity: { objectId?: unknown }) => wanted.has(String(entity?.objectId))),
+    };
+  },
+});
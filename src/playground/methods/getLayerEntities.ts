@@ -0,0 +1,22 @@
+import { defineMethod } from "../registry";
+
+export default defineMethod({
+  id: "getLayerEntities",
+  label: "getLayerEntities",
+  description: "Fetch all entities for a layer (supports where/paging).",
+  params: {
+    layerName: { kind: "layer", label: "Layer name", placeholder: "nadlan" },
+    where: { kind: "text", label: "Where clause", placeholder: "1=1" },
+    pageNumber: { kind: "number", label: "Page number", placeholder: "1", integer: true },
+    pageSize: { kind: "number", label: "Page size", placeholder: "500", integer: true },
+  },
+  build: ({ layerName, where, pageNumber, pageSize }, { govmap }) => {
+    const request = {
+      layerName,
+      where: where || undefined,
+      pageNumber: pageNumber || undefined,
+      pageSize: pageSize || undefined,
+    };
+    return { payload: request, send: () => govmap.getLayerEntities(request) };
+  },
+});
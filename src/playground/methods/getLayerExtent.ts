@@ -0,0 +1,14 @@
+import { defineMethod } from "../registry";
+
+export default defineMethod({
+  id: "getLayerExtent",
+  label: "getLayerExtent (via getLayerData)",
+  description: "Fetch layer metadata/extent using getLayerData.",
+  params: {
+    layerName: { kind: "layer", label: "Layer name", placeholder: "nadlan" },
+  },
+  build: ({ layerName }, { govmap }) => ({
+    payload: { layerName },
+    send: () => govmap.getLayerData({ layerName }),
+  }),
+});
@@ -0,0 +1,17 @@
+import { defineMethod } from "../registry";
+
+export default defineMethod({
+  id: "identify",
+  label: "identifyByXYAndLayer",
+  description: "Run identify for X/Y against a layer at the current zoom level.",
+  params: {
+    x: { kind: "x", label: "X", placeholder: "200000", default: 200000 },
+    y: { kind: "y", label: "Y", placeholder: "630000", default: 630000 },
+    level: { kind: "number", label: "Zoom level", placeholder: "12", default: 12, integer: true },
+    layerName: { kind: "layer", label: "Layer name", placeholder: "nadlan" },
+  },
+  build: ({ x, y, level, layerName }, { govmap }) => ({
+    payload: { x, y, level, layers: [layerName] },
+    send: () => govmap.identifyByXYAndLayer({ x, y }, [layerName]),
+  }),
+});
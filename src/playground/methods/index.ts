@@ -0,0 +1,27 @@
+import type { PlaygroundMethod } from "../registry";
+import custom from "./custom";
+import geocode from "./geocode";
+import getEntities from "./getEntities";
+import getLayerEntities from "./getLayerEntities";
+import getLayerExtent from "./getLayerExtent";
+import identify from "./identify";
+import searchAndLocate from "./searchAndLocate";
+import zoomToGeometry from "./zoomToGeometry";
+import zoomToXY from "./zoomToXY";
+
+/** Every playground method, in menu order. Add a module here to offer a new one. */
+export const PLAYGROUND_METHODS: PlaygroundMethod[] = [
+  getLayerEntities,
+  getEntities,
+  identify,
+  zoomToGeometry,
+  zoomToXY,
+  getLayerExtent,
+  geocode,
+  searchAndLocate,
+  custom,
+];
+
+export function findPlaygroundMethod(id: string) {
+  return PLAYGROUND_METHODS.find((method) => method.id === id);
+}
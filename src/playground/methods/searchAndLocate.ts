@@ -0,0 +1,36 @@
+import { defineMethod } from "../registry";
+
+export default defineMethod({
+  id: "searchAndLocate",
+  label: "searchAndLocate",
+  description: "Look up the gush/helka of an address, or the address of a gush/helka.",
+  params: {
+    type: {
+      kind: "enum",
+      label: "Search",
+      options: [
+        { value: "addressToLotParcel", label: "Address → gush/helka" },
+        { value: "lotParcelToAddress", label: "Gush/helka → address" },
+      ],
+      default: "addressToLotParcel",
+      helper: "Sent as the matching govmap.locateType value.",
+    },
+    address: { kind: "text", label: "Address", placeholder: "הרצל 1 תל אביב" },
+    lot: { kind: "number", label: "Gush (lot)", placeholder: "6638", integer: true, min: 1 },
+    parcel: { kind: "number", label: "Helka (parcel)", placeholder: "96", integer: true, min: 1 },
+  },
+  build: ({ type, address, lot, parcel }, { govmap }) => {
+    const payload = type === "addressToLotParcel" ? { type, address } : { type, lot, parcel };
+    if (type === "addressToLotParcel" && !address) {
+      throw new Error("Address is required to find its gush/helka.");
+    }
+    if (type === "lotParcelToAddress" && (lot === undefined || parcel === undefined)) {
+      throw new Error("Gush and helka are both required to find the address.");
+    }
+    return {
+      payload,
+      send: () =>
+        govmap.call("searchAndLocate", { ...payload, type: govmap.constant("locateType", type) }),
+    };
+  },
+});
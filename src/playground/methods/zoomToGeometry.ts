@@ -0,0 +1,56 @@
+import { toWkt } from "../../utils/geometry";
+import { isSupportedSrid, transformWkt } from "../../utils/projection";
+import { defineMethod } from "../registry";
+
+export default defineMethod({
+  id: "zoomToGeometry",
+  label: "zoomToGeometry (displayGeometries)",
+  description: "Display WKT on the map (uses displayGeometries under the hood).",
+  params: {
+    wkt: {
+      kind: "wkt",
+      label: "WKT geometry",
+      placeholder: "POLYGON((...))",
+      required: true,
+      default: "POLYGON((199900 630000,199950 630050,199900 630100,199850 630050,199900 630000))",
+    },
+    srid: {
+      kind: "number",
+      label: "SRID",
+      placeholder: "2039",
+      default: 2039,
+      integer: true,
+      helper:
+        "The WKT is reprojected from the coordinate system above into this SRID before sending.",
+    },
+    color: {
+      kind: "text",
+      label: "Color",
+      placeholder: "#de3b8a",
+      default: "#de3b8a",
+      pattern: /^#[0-9a-f]{3}([0-9a-f]{3})?$/i,
+    },
+    name: { kind: "text", label: "Name", placeholder: "test-geometry", default: "wkt-geometry" },
+  },
+  build: ({ wkt: shape, srid, color, name }, { govmap, log }) => {
+    if (shape.geometry.type === "GeometryCollection") {
+      throw new Error(
+        "displayGeometries draws one geometry type at a time; split the GEOMETRYCOLLECTION.",
+      );
+    }
+    let wkt = toWkt(shape.geometry, { flat: true });
+    let note: string | undefined;
+    if (shape.srid !== srid) {
+      if (!isSupportedSrid(srid) || !isSupportedSrid(shape.srid)) {
+        throw new Error(
+          `Cannot reproject from EPSG:${shape.srid} to EPSG:${srid}; switch the coordinate system to match the SRID.`,
+        );
+      }
+      wkt = transformWkt(wkt, shape.srid, srid);
+      note = `WKT converted from EPSG:${shape.srid} to EPSG:${srid}.`;
+    }
+    shape.warnings.forEach((issue) => log(`zoomToGeometry: ${issue.message}`));
+    const request = { wkt, srid, color: color || "#de3b8a", name: name || "geometry" };
+    return { payload: request, note, send: () => govmap.displayGeometries(request) };
+  },
+});
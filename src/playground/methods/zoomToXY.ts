@@ -0,0 +1,17 @@
+import { defineMethod } from "../registry";
+
+export default defineMethod({
+  id: "zoomToXY",
+  label: "zoomToXY",
+  description: "Centre the map on X/Y at a zoom level, optionally dropping a marker.",
+  params: {
+    x: { kind: "x", label: "X", placeholder: "200000", default: 200000 },
+    y: { kind: "y", label: "Y", placeholder: "630000", default: 630000 },
+    level: { kind: "number", label: "Zoom level", default: 8, integer: true, min: 0, max: 10 },
+    marker: { kind: "boolean", label: "Show marker", default: true },
+  },
+  build: ({ x, y, level, marker }, { govmap }) => {
+    const request = { x, y, level, marker };
+    return { payload: request, send: () => govmap.call("zoomToXY", request) };
+  },
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { ParamEnvironment, defineMethod, prepareMethodCall, validateParams } from "./registry";
+
+const itm: ParamEnvironment = { srid: 2039, activeLayer: "", fallbackLayers: ["PARCEL_ALL"] };
+
+const identify = defineMethod({
+  id: "identify",
+  label: "Identify",
+  description: "Identifies the features under a point.",
+  params: {
+    x: { kind: "x", label: "X" },
+    y: { kind: "y", label: "Y" },
+    layer: { kind: "layer", label: "Layer" },
+    name: { kind: "text", label: "Name", required: true, pattern: /^[A-Z_]+$/ },
+    level: { kind: "number", label: "Level", min: 0, max: 10, integer: true, default: 8 },
+    mode: { kind: "enum", label: "Mode", options: [{ value: "visible" }, { value: "all" }] },
+    layers: { kind: "list", label: "Layers" },
+    filter: { kind: "json", label: "Filter" },
+  },
+  build: (params) => ({ payload: params, send: async () => params }),
+});
+
+const valid = { x: "179557", y: "665854", name: "PARCEL_ALL" };
+
+describe("validateParams", () => {
+  it("parses each kind and fills defaults", () => {
+    const { values, errors, note } = validateParams(
+      identify,
+      { ...valid, layers: "A, B,,C", filter: '{"GUSH_NUM":6638}' },
+      itm,
+    );
+    expect(errors).toEqual([]);
+    expect(note).toBeUndefined();
+    expect(values).toEqual({
+      x: 179557,
+      y: 665854,
+      layer: "PARCEL_ALL",
+      name: "PARCEL_ALL",
+      level: 8,
+      mode: "visible",
+      layers: ["A", "B", "C"],
+      filter: { GUSH_NUM: 6638 },
+    });
+  });
+
+  it("reports blank required params as missing", () => {
+    const { errors } = validateParams(identify, { name: "  " }, itm);
+    expect(errors).toEqual([
+      { key: "x", missing: true, message: "X is required." },
+      { key: "y", missing: true, message: "Y is required." },
+      { key: "name", missing: true, message: "Name is required." },
+    ]);
+  });
+
+  it("rejects values outside an enum, a range or a pattern", () => {
+    const { errors } = validateParams(
+      identify,
+      { ...valid, name: "parcels", level: "11", mode: "some", filter: "{" },
+      itm,
+    );
+    expect(errors).toEqual([
+      { key: "name", missing: false, message: 'Name "parcels" is not in the expected form.' },
+      { key: "level", missing: false, message: "Level must be between 0 and 10." },
+      { key: "mode", missing: false, message: "Mode must be one of visible, all." },
+      { key: "filter", missing: false, message: "Filter is not valid JSON." },
+    ]);
+    expect(validateParams(identify, { ...valid, level: "2.5" }, itm).errors[0].message).toBe(
+      "Level must be a whole number.",
+    );
+    expect(validateParams(identify, { ...valid, x: "east" }, itm).errors[0].message).toBe(
+      "X must be a number.",
+    );
+  });
+
+  it("converts coordinates entered in WGS84 to ITM", () => {
+    const { values, errors, note } = validateParams(
+      identify,
+      { ...valid, x: "34.7818", y: "32.0853" },
+      { ...itm, srid: 4326 },
+    );
+    expect(errors).toEqual([]);
+    expect(values.x).toBeCloseTo(179557.039, 1);
+    expect(values.y).toBeCloseTo(665854.83, 1);
+    expect(note).toBe("X/Y converted from EPSG:4326 to ITM.");
+  });
+
+  it("prefers the active layer to the fallbacks", () => {
+    const env = { ...itm, activeLayer: "SUB_GUSH_ALL" };
+    const { values } = validateParams(identify, { ...valid, layer: "undefined" }, env);
+    expect(values.layer).toBe("SUB_GUSH_ALL");
+  });
+});
+
+describe("prepareMethodCall", () => {
+  it("throws every param error at once", async () => {
+    const context = { govmap: {} as never, log: () => {} };
+    await expect(prepareMethodCall(identify, { level: "-1" }, itm, context)).rejects.toThrow(
+      "Identify: X is required. Y is required. Name is required. Level must be between 0 and 10.",
+    );
+  });
+});
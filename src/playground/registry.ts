@@ -0,0 +1,344 @@
+/**
+ * Declarative playground methods. Each method module describes its params as
+ * a schema (kinds, defaults, validation) and how to turn the validated values
+ * into a GovMap call; the form, coordinate conversion and param checking are
+ * all driven from that schema, so adding a method never touches App.tsx.
+ */
+import type { GovmapClient } from "../govmap/govmapClient";
+import type { AnyGeometry } from "../utils/geojson";
+import { GeometryIssue, assertValidGeometry, parseGeometry } from "../utils/geometry";
+import {
+  GOVMAP_SRID,
+  Srid,
+  roundPosition,
+  transformPosition,
+  transformWkt,
+} from "../utils/projection";
+
+type ParamCommon = {
+  label: string;
+  placeholder?: string;
+  helper?: string;
+};
+
+export type EnumOption = { value: string; label?: string };
+
+export type ParamSpec = ParamCommon &
+  (
+    | { kind: "text" | "textarea"; default?: string; required?: boolean; pattern?: RegExp }
+    | {
+        kind: "number";
+        default?: number;
+        required?: boolean;
+        min?: number;
+        max?: number;
+        integer?: boolean;
+      }
+    | { kind: "enum"; options: readonly EnumOption[]; default?: string }
+    | { kind: "boolean"; default?: boolean }
+    /** Comma-separated values, sent as an array. */
+    | { kind: "list"; default?: string; required?: boolean }
+    /** A JSON document typed into a textarea. */
+    | { kind: "json"; default?: string; required?: boolean }
+    /** A layer name; blank means the playground's active layer. */
+    | { kind: "layer"; default?: string }
+    /** Coordinates typed in the playground's coordinate system and sent as ITM; always required. */
+    | { kind: "x" | "y"; default?: number; required?: boolean }
+    /** WKT or GeoJSON typed in the playground's coordinate system unless it names an SRID. */
+    | { kind: "wkt"; default?: string; required?: boolean }
+  );
+
+export type ParamKind = ParamSpec["kind"];
+
+export type ParamSchema = Record<string, ParamSpec>;
+
+/** A parsed and validated geometry param, still in the system it was entered in. */
+export type GeometryParam = {
+  geometry: AnyGeometry;
+  srid: number;
+  warnings: GeometryIssue[];
+};
+
+type ParamValue<P extends ParamSpec> = P extends { kind: "enum"; options: readonly (infer O)[] }
+  ? O extends { value: infer V }
+    ? V
+    : string
+  : P extends { kind: "number" }
+    ? P extends { required: true } | { default: number }
+      ? number
+      : number | undefined
+    : P extends { kind: "x" | "y" }
+      ? number
+      : P extends { kind: "boolean" }
+        ? boolean
+        : P extends { kind: "list" }
+          ? string[]
+          : P extends { kind: "json" }
+            ? unknown
+            : P extends { kind: "wkt" }
+              ? GeometryParam
+              : string;
+
+export type ParamValues<S extends ParamSchema> = { -readonly [K in keyof S]: ParamValue<S[K]> };
+
+export type MethodContext = {
+  govmap: GovmapClient;
+  log: (message: string) => void;
+};
+
+/** What a method's `build` returns: the payload to show and store, and how to send it. */
+export type PreparedCall = {
+  payload: unknown;
+  send: () => Promise<unknown>;
+  /** Shown as the run's method name when it differs from the label, e.g. a fallback. */
+  methodName?: string;
+  note?: string;
+};
+
+export type PlaygroundMethodDefinition<S extends ParamSchema> = {
+  id: string;
+  label: string;
+  description: string;
+  params: S;
+  /** Throws to reject the run; the message is shown as the playground error. */
+  build: (params: ParamValues<S>, context: MethodContext) => PreparedCall | Promise<PreparedCall>;
+  /** Reshapes GovMap's answer before it is shown, stored and diffed. */
+  postProcess?: (result: unknown, params: ParamValues<S>, call: PreparedCall) => unknown;
+};
+
+/** A method with its param types erased, as kept in the registry. */
+export type PlaygroundMethod = PlaygroundMethodDefinition<ParamSchema>;
+
+/** Declares a method; the schema's literal types flow into `build`'s params. */
+export function defineMethod<const S extends ParamSchema>(
+  definition: PlaygroundMethodDefinition<S>,
+): PlaygroundMethod {
+  return definition as unknown as PlaygroundMethod;
+}
+
+export type ParamError = {
+  key: string;
+  message: string;
+  /** A required param left blank, as opposed to one that does not parse. */
+  missing: boolean;
+};
+
+export class ParamValidationError extends Error {
+  readonly errors: ParamError[];
+
+  constructor(method: string, errors: ParamError[]) {
+    super(`${method}: ${errors.map((error) => error.message).join(" ")}`);
+    this.name = "ParamValidationError";
+    this.errors = errors;
+  }
+}
+
+export type ParamEnvironment = {
+  /** System coordinate and geometry params are entered in. */
+  srid: Srid;
+  activeLayer: string;
+  /** Tried in order when both the param and the active layer are blank. */
+  fallbackLayers: string[];
+};
+
+/** Form values for a method's schema defaults; blank where there is no default. */
+export function defaultParams(method: PlaygroundMethod): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(method.params).map(([key, spec]) => [
+      key,
+      spec.default ?? (spec.kind === "boolean" ? false : ""),
+    ]),
+  );
+}
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === "string" && !value.trim());
+
+/** Ignores the "undefined"/"null" strings stale forms and old saved requests can hold. */
+function layerName(value: unknown) {
+  const text = isBlank(value) ? "" : String(value).trim();
+  return ["undefined", "null"].includes(text.toLowerCase()) ? "" : text;
+}
+
+class ParamProblem extends Error {
+  constructor(
+    message: string,
+    readonly missing = false,
+  ) {
+    super(message);
+  }
+}
+
+function parseParam(spec: ParamSpec, raw: unknown, env: ParamEnvironment): unknown {
+  const label = spec.label;
+  const required = "required" in spec && spec.required;
+  if (isBlank(raw) && required) throw new ParamProblem(`${label} is required.`, true);
+
+  switch (spec.kind) {
+    case "text":
+    case "textarea": {
+      const text = isBlank(raw) ? "" : String(raw).trim();
+      if (text && spec.pattern && !spec.pattern.test(text)) {
+        throw new ParamProblem(`${label} "${text}" is not in the expected form.`);
+      }
+      return text;
+    }
+    case "number":
+    case "x":
+    case "y": {
+      if (isBlank(raw)) {
+        if (spec.kind === "number") return spec.default;
+        throw new ParamProblem(`${label} is required.`, true);
+      }
+      const number = Number(raw);
+      if (!Number.isFinite(number)) throw new ParamProblem(`${label} must be a number.`);
+      if (spec.kind !== "number") return number;
+      if (spec.integer && !Number.isInteger(number)) {
+        throw new ParamProblem(`${label} must be a whole number.`);
+      }
+      if (
+        (spec.min !== undefined && number < spec.min) ||
+        (spec.max !== undefined && number > spec.max)
+      ) {
+        throw new ParamProblem(
+          `${label} must be between ${spec.min ?? "-∞"} and ${spec.max ?? "∞"}.`,
+        );
+      }
+      return number;
+    }
+    case "enum": {
+      const value = isBlank(raw) ? (spec.default ?? spec.options[0]?.value) : String(raw);
+      if (!spec.options.some((option) => option.value === value)) {
+        throw new ParamProblem(
+          `${label} must be one of ${spec.options.map((o) => o.value).join(", ")}.`,
+        );
+      }
+      return value;
+    }
+    case "boolean":
+      return raw === true || raw === "true";
+    case "list":
+      return isBlank(raw)
+        ? []
+        : String(raw)
+            .split(",")
+            .map((item) => item.trim())
+            .filter(Boolean);
+    case "json": {
+      if (isBlank(raw)) return undefined;
+      try {
+        return JSON.parse(String(raw));
+      } catch {
+        throw new ParamProblem(`${label} is not valid JSON.`);
+      }
+    }
+    case "layer":
+      return [raw, env.activeLayer, ...env.fallbackLayers].map(layerName).find(Boolean) ?? "";
+    case "wkt": {
+      if (isBlank(raw)) return undefined;
+      try {
+        const parsed = parseGeometry(String(raw));
+        const srid = parsed.srid ?? env.srid;
+        const warnings = [...parsed.warnings, ...assertValidGeometry(parsed.geometry, { srid })];
+        return { geometry: parsed.geometry, srid, warnings } satisfies GeometryParam;
+      } catch (error) {
+        throw new ParamProblem(`${label}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+  return raw;
+}
+
+/**
+ * Checks raw form values against a method's schema. Coordinate params come
+ * back in ITM; `note` says when they were converted.
+ */
+export function validateParams(
+  method: PlaygroundMethod,
+  raw: Record<string, unknown>,
+  env: ParamEnvironment,
+): { values: Record<string, unknown>; errors: ParamError[]; note?: string } {
+  const values: Record<string, unknown> = {};
+  const errors: ParamError[] = [];
+  for (const [key, spec] of Object.entries(method.params)) {
+    try {
+      values[key] = parseParam(spec, raw[key], env);
+    } catch (error) {
+      if (!(error instanceof ParamProblem)) throw error;
+      errors.push({ key, missing: error.missing, message: error.message });
+    }
+  }
+
+  const keys = coordinateKeys(method);
+  if (!keys || errors.some((error) => error.key === keys.x || error.key === keys.y)) {
+    return { values, errors };
+  }
+  [values[keys.x], values[keys.y]] = roundPosition(
+    transformPosition([values[keys.x] as number, values[keys.y] as number], env.srid, GOVMAP_SRID),
+    GOVMAP_SRID,
+  );
+  return {
+    values,
+    errors,
+    note: env.srid !== GOVMAP_SRID ? `X/Y converted from EPSG:${env.srid} to ITM.` : undefined,
+  };
+}
+
+/** Validates the form, builds the call and wires in post-processing. Throws on invalid params. */
+export async function prepareMethodCall(
+  method: PlaygroundMethod,
+  raw: Record<string, unknown>,
+  env: ParamEnvironment,
+  context: MethodContext,
+): Promise<PreparedCall> {
+  const { values, errors, note } = validateParams(method, raw, env);
+  if (errors.length) throw new ParamValidationError(method.label, errors);
+  const call = await method.build(values as ParamValues<ParamSchema>, context);
+  const { postProcess } = method;
+  return {
+    ...call,
+    note: [note, call.note].filter(Boolean).join(" ") || undefined,
+    send: postProcess
+      ? async () => postProcess(await call.send(), values as ParamValues<ParamSchema>, call)
+      : call.send,
+  };
+}
+
+/** Re-expresses a method's coordinate and geometry form values in another system. */
+export function convertCoordinateParams(
+  method: PlaygroundMethod,
+  params: Record<string, unknown>,
+  from: Srid,
+  to: Srid,
+) {
+  const next = { ...params };
+  const keys = coordinateKeys(method);
+  if (keys && !isBlank(params[keys.x]) && !isBlank(params[keys.y])) {
+    const x = Number(params[keys.x]);
+    const y = Number(params[keys.y]);
+    if (Number.isFinite(x) && Number.isFinite(y)) {
+      [next[keys.x], next[keys.y]] = roundPosition(transformPosition([x, y], from, to), to);
+    }
+  }
+  for (const [key, spec] of Object.entries(method.params)) {
+    if (spec.kind !== "wkt" || typeof params[key] !== "string" || !params[key]) continue;
+    try {
+      next[key] = transformWkt(params[key] as string, from, to);
+    } catch (error) {
+      console.warn(`Left ${key} untouched; it could not be reprojected`, error);
+    }
+  }
+  return next;
+}
+
+/** Keys of the method's x/y params, when it has both. */
+export function coordinateKeys(method: PlaygroundMethod) {
+  const entries = Object.entries(method.params);
+  const x = entries.find(([, spec]) => spec.kind === "x")?.[0];
+  const y = entries.find(([, spec]) => spec.kind === "y")?.[0];
+  return x && y ? { x, y } : null;
+}
+
+export function hasCoordinateParams(method: PlaygroundMethod) {
+  return Object.values(method.params).some((spec) => ["x", "y", "wkt"].includes(spec.kind));
+}
@@ -0,0 +1,102 @@
+import { tableFromIPC } from "apache-arrow";
+import { describe, expect, it } from "vitest";
+import { writeArrowIpc } from "./arrow";
+import { DbfFieldMeta, DbfRow } from "./dbf";
+
+const fields: DbfFieldMeta[] = [
+  { name: "NAME", type: "C", length: 12, decimalCount: 0 },
+  { name: "COUNT", type: "N", length: 6, decimalCount: 0 },
+  { name: "AREA", type: "N", length: 10, decimalCount: 2 },
+  { name: "SERIAL", type: "I", length: 4, decimalCount: 0 },
+  { name: "DAY", type: "D", length: 8, decimalCount: 0 },
+  { name: "STAMP", type: "T", length: 8, decimalCount: 0 },
+  { name: "OK", type: "L", length: 1, decimalCount: 0 },
+  { name: "ID", type: "N", length: 19, decimalCount: 0 },
+];
+
+const records: DbfRow[] = [
+  ["חיפה", 12, 1234.5, 7, "2020-02-29", "2020-02-29T01:00:00.000Z", true, "1234567890123456789"],
+  [null, null, null, null, null, null, null, null],
+  ["", -3, 0.25, -1, "1999-12-31", null, false, "5"],
+];
+
+async function readBack(rows: DbfRow[], columns = fields) {
+  return tableFromIPC(new Uint8Array(await writeArrowIpc(columns, rows).arrayBuffer()));
+}
+
+describe("writeArrowIpc", () => {
+  it("writes a schema apache-arrow reads, with the dBase declaration as metadata", async () => {
+    const table = await readBack(records);
+    expect(table.schema.fields.map((field) => [field.name, String(field.type)])).toEqual([
+      ["NAME", "Utf8"],
+      ["COUNT", "Int64"],
+      ["AREA", "Float64"],
+      ["SERIAL", "Int32"],
+      ["DAY", "Date32<DAY>"],
+      ["STAMP", "Timestamp<MILLISECOND, UTC>"],
+      ["OK", "Bool"],
+      ["ID", "Utf8"],
+    ]);
+    expect(Object.fromEntries(table.schema.fields[2].metadata)).toEqual({
+      "dbf.type": "N",
+      "dbf.length": "10",
+      "dbf.decimals": "2",
+    });
+  });
+
+  it("round-trips values and marks nulls in the validity bitmap", async () => {
+    const table = await readBack(records);
+    expect(table.toArray().map((row) => row.toJSON())).toEqual([
+      {
+        NAME: "חיפה",
+        COUNT: 12n,
+        AREA: 1234.5,
+        SERIAL: 7,
+        DAY: Date.UTC(2020, 1, 29),
+        STAMP: Date.UTC(2020, 1, 29, 1),
+        OK: true,
+        ID: "1234567890123456789",
+      },
+      {
+        NAME: null,
+        COUNT: null,
+        AREA: null,
+        SERIAL: null,
+        DAY: null,
+        STAMP: null,
+        OK: null,
+        ID: null,
+      },
+      {
+        NAME: "",
+        COUNT: -3n,
+        AREA: 0.25,
+        SERIAL: -1,
+        DAY: Date.UTC(1999, 11, 31),
+        STAMP: null,
+        OK: false,
+        ID: "5",
+      },
+    ]);
+    expect(fields.map((field) => table.getChild(field.name)?.nullCount)).toEqual([
+      1, 1, 1, 1, 1, 2, 1, 1,
+    ]);
+  });
+
+  it("splits long tables into several record batches", async () => {
+    const count = 70_000;
+    const table = await readBack(
+      Array.from({ length: count }, (_, index) => [index]),
+      [fields[3]],
+    );
+    expect(table.batches).toHaveLength(2);
+    expect(table.numRows).toBe(count);
+    expect(table.getChild("SERIAL")?.get(count - 1)).toBe(count - 1);
+  });
+
+  it("writes an empty table as one empty batch", async () => {
+    const table = await readBack([]);
+    expect(table.numRows).toBe(0);
+    expect(table.schema.fields).toHaveLength(fields.length);
+  });
+});
@@ -0,0 +1,454 @@
+import { DbfFieldMeta, DbfRow, DbfValue, dbfColumnKind } from "./dbf";
+
+// A minimal FlatBuffers serializer, just enough to emit Arrow IPC metadata.
+// Tables are laid out front to back: vtable, table, then the objects the
+// table points at, so every uoffset points forward as the format requires.
+
+type FbScalar = { kind: "u8" | "bool" | "i16" | "i32" | "i64"; value: number };
+type FbString = { kind: "string"; value: string };
+type FbTable = { kind: "table"; fields: (FbScalar | FbRef | undefined)[] };
+type FbVector = { kind: "vector"; items: (FbTable | FbString)[] };
+type FbStructVector = { kind: "structs"; bytes: Uint8Array; count: number };
+type FbRef = FbString | FbTable | FbVector | FbStructVector;
+
+const SCALAR_SIZES: Record<FbScalar["kind"], number> = { u8: 1, bool: 1, i16: 2, i32: 4, i64: 8 };
+
+const table = (...fields: (FbScalar | FbRef | undefined)[]): FbTable => ({ kind: "table", fields });
+const str = (value: string): FbString => ({ kind: "string", value });
+const vec = (items: (FbTable | FbString)[]): FbVector => ({ kind: "vector", items });
+const u8 = (value: number): FbScalar => ({ kind: "u8", value });
+const bool = (value: boolean): FbScalar => ({ kind: "bool", value: value ? 1 : 0 });
+const i16 = (value: number): FbScalar => ({ kind: "i16", value });
+const i32 = (value: number): FbScalar => ({ kind: "i32", value });
+const i64 = (value: number): FbScalar => ({ kind: "i64", value });
+
+class FlatWriter {
+  private bytes = new Uint8Array(256);
+  private length = 0;
+  private readonly encoder = new TextEncoder();
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.bytes.byteLength) return;
+    let size = this.bytes.byteLength * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.bytes);
+    this.bytes = next;
+  }
+
+  private view() {
+    return new DataView(this.bytes.buffer);
+  }
+
+  private padTo(align: number, extra = 0) {
+    const padding = (align - ((this.length + extra) % align)) % align;
+    this.ensure(padding);
+    this.length += padding;
+  }
+
+  private reserve(size: number) {
+    this.ensure(size);
+    const at = this.length;
+    this.length += size;
+    return at;
+  }
+
+  private writeScalar(at: number, scalar: FbScalar) {
+    const view = this.view();
+    switch (scalar.kind) {
+      case "u8":
+      case "bool":
+        view.setUint8(at, scalar.value);
+        break;
+      case "i16":
+        view.setInt16(at, scalar.value, true);
+        break;
+      case "i32":
+        view.setInt32(at, scalar.value, true);
+        break;
+      case "i64":
+        view.setBigInt64(at, BigInt(scalar.value), true);
+        break;
+    }
+  }
+
+  private patchOffset(at: number, target: number) {
+    this.view().setUint32(at, target - at, true);
+  }
+
+  private writeRef(ref: FbRef): number {
+    switch (ref.kind) {
+      case "table":
+        return this.writeTable(ref);
+      case "string": {
+        const encoded = this.encoder.encode(ref.value);
+        this.padTo(4);
+        const at = this.reserve(4 + encoded.byteLength + 1);
+        this.view().setUint32(at, encoded.byteLength, true);
+        this.bytes.set(encoded, at + 4);
+        return at;
+      }
+      case "vector": {
+        this.padTo(4);
+        const at = this.reserve(4 + ref.items.length * 4);
+        this.view().setUint32(at, ref.items.length, true);
+        ref.items.forEach((item, index) => {
+          const slot = at + 4 + index * 4;
+          this.patchOffset(slot, this.writeRef(item));
+        });
+        return at;
+      }
+      case "structs": {
+        // Arrow's structs hold 64-bit members, so the elements must be 8-aligned.
+        this.padTo(8, 4);
+        const at = this.reserve(4 + ref.bytes.byteLength);
+        this.view().setUint32(at, ref.count, true);
+        this.bytes.set(ref.bytes, at + 4);
+        return at;
+      }
+    }
+  }
+
+  private writeTable(value: FbTable): number {
+    const entries = value.fields
+      .map((field, id) => ({ field, id }))
+      .filter((entry): entry is { field: FbScalar | FbRef; id: number } => entry.field !== undefined)
+      .map((entry) => ({
+        ...entry,
+        size: entry.field.kind in SCALAR_SIZES ? SCALAR_SIZES[entry.field.kind as FbScalar["kind"]] : 4,
+      }))
+      .sort((a, b) => b.size - a.size);
+
+    let inline = 4;
+    const offsets = new Map<number, number>();
+    for (const entry of entries) {
+      inline += (entry.size - (inline % entry.size)) % entry.size;
+      offsets.set(entry.id, inline);
+      inline += entry.size;
+    }
+    const maxAlign = Math.max(4, ...entries.map((entry) => entry.size));
+    const tableSize = inline + ((maxAlign - (inline % maxAlign)) % maxAlign);
+
+    this.padTo(2);
+    const vtable = this.reserve(4 + value.fields.length * 2);
+    const view = this.view();
+    view.setUint16(vtable, 4 + value.fields.length * 2, true);
+    view.setUint16(vtable + 2, tableSize, true);
+    value.fields.forEach((_, id) => view.setUint16(vtable + 4 + id * 2, offsets.get(id) ?? 0, true));
+
+    this.padTo(maxAlign);
+    const at = this.reserve(tableSize);
+    this.view().setInt32(at, at - vtable, true);
+    for (const entry of entries) {
+      if (entry.field.kind in SCALAR_SIZES) {
+        this.writeScalar(at + (offsets.get(entry.id) ?? 0), entry.field as FbScalar);
+      }
+    }
+    for (const entry of entries) {
+      if (!(entry.field.kind in SCALAR_SIZES)) {
+        const slot = at + (offsets.get(entry.id) ?? 0);
+        this.patchOffset(slot, this.writeRef(entry.field as FbRef));
+      }
+    }
+    return at;
+  }
+
+  finish(root: FbTable) {
+    const slot = this.reserve(4);
+    this.patchOffset(slot, this.writeTable(root));
+    this.padTo(8);
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+function serialize(root: FbTable) {
+  return new FlatWriter().finish(root);
+}
+
+// Arrow format enums (Schema.fbs / Message.fbs).
+const METADATA_V5 = 4;
+const HEADER_SCHEMA = 1;
+const HEADER_RECORD_BATCH = 3;
+const TYPE_INT = 2;
+const TYPE_FLOATING_POINT = 3;
+const TYPE_UTF8 = 5;
+const TYPE_BOOL = 6;
+const TYPE_DATE = 8;
+const TYPE_TIMESTAMP = 10;
+const PRECISION_DOUBLE = 2;
+const DATE_UNIT_DAY = 0;
+const TIME_UNIT_MILLISECOND = 1;
+
+const MAGIC = new TextEncoder().encode("ARROW1");
+const BATCH_ROWS = 65536;
+const MS_PER_DAY = 86400000;
+
+type ArrowColumnType = "int32" | "int64" | "float64" | "bool" | "date32" | "timestamp" | "utf8";
+
+function arrowTypeFor(field: DbfFieldMeta): ArrowColumnType {
+  switch (dbfColumnKind(field)) {
+    case "integer":
+      return field.type === "N" ? "int64" : "int32";
+    case "number":
+      return "float64";
+    case "boolean":
+      return "bool";
+    case "date":
+      return "date32";
+    case "datetime":
+      return "timestamp";
+    default:
+      return "utf8";
+  }
+}
+
+function typeTable(type: ArrowColumnType): [number, FbTable] {
+  switch (type) {
+    case "int32":
+      return [TYPE_INT, table(i32(32), bool(true))];
+    case "int64":
+      return [TYPE_INT, table(i32(64), bool(true))];
+    case "float64":
+      return [TYPE_FLOATING_POINT, table(i16(PRECISION_DOUBLE))];
+    case "bool":
+      return [TYPE_BOOL, table()];
+    case "date32":
+      return [TYPE_DATE, table(i16(DATE_UNIT_DAY))];
+    case "timestamp":
+      return [TYPE_TIMESTAMP, table(i16(TIME_UNIT_MILLISECOND), str("UTC"))];
+    case "utf8":
+      return [TYPE_UTF8, table()];
+  }
+}
+
+function schemaTable(fields: DbfFieldMeta[], types: ArrowColumnType[]) {
+  const fieldTables = fields.map((field, index) => {
+    const [typeId, typeValue] = typeTable(types[index]);
+    // The original dBase declaration rides along so decimals survive the trip.
+    const metadata = vec([
+      table(str("dbf.type"), str(field.type)),
+      table(str("dbf.length"), str(String(field.length))),
+      table(str("dbf.decimals"), str(String(field.decimalCount))),
+    ]);
+    return table(str(field.name), bool(true), u8(typeId), typeValue, undefined, vec([]), metadata);
+  });
+  return table(i16(0), vec(fieldTables));
+}
+
+function encapsulate(metadata: Uint8Array) {
+  // Continuation marker + length prefix, with the metadata padded so the body
+  // that follows starts on an 8-byte boundary.
+  const padded = metadata.byteLength + ((8 - ((metadata.byteLength + 8) % 8)) % 8);
+  const message = new Uint8Array(8 + padded);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, 0xffffffff, true);
+  view.setInt32(4, padded, true);
+  message.set(metadata, 8);
+  return message;
+}
+
+function padded(bytes: Uint8Array) {
+  const length = bytes.byteLength + ((8 - (bytes.byteLength % 8)) % 8);
+  if (length === bytes.byteLength) return bytes;
+  const out = new Uint8Array(length);
+  out.set(bytes);
+  return out;
+}
+
+function toDays(value: DbfValue) {
+  if (typeof value !== "string") return null;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(time) ? null : Math.floor(time / MS_PER_DAY);
+}
+
+function toMillis(value: DbfValue) {
+  if (typeof value !== "string") return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+function encodeColumn(type: ArrowColumnType, values: DbfValue[]) {
+  const count = values.length;
+  const validity = new Uint8Array(Math.ceil(count / 8));
+  let nullCount = 0;
+  const markValid = (index: number) => {
+    validity[index >> 3] |= 1 << (index & 7);
+  };
+
+  const buffers: Uint8Array[] = [];
+  switch (type) {
+    case "int32":
+    case "date32": {
+      const data = new Int32Array(count);
+      values.forEach((value, index) => {
+        const number = type === "date32" ? toDays(value) : typeof value === "number" ? value : null;
+        if (number === null) {
+          nullCount += 1;
+          return;
+        }
+        data[index] = number;
+        markValid(index);
+      });
+      buffers.push(new Uint8Array(data.buffer));
+      break;
+    }
+    case "int64":
+    case "timestamp": {
+      const data = new BigInt64Array(count);
+      values.forEach((value, index) => {
+        const number = type === "timestamp" ? toMillis(value) : typeof value === "number" ? value : null;
+        if (number === null || !Number.isFinite(number)) {
+          nullCount += 1;
+          return;
+        }
+        data[index] = BigInt(Math.trunc(number));
+        markValid(index);
+      });
+      buffers.push(new Uint8Array(data.buffer));
+      break;
+    }
+    case "float64": {
+      const data = new Float64Array(count);
+      values.forEach((value, index) => {
+        if (typeof value !== "number") {
+          nullCount += 1;
+          return;
+        }
+        data[index] = value;
+        markValid(index);
+      });
+      buffers.push(new Uint8Array(data.buffer));
+      break;
+    }
+    case "bool": {
+      const data = new Uint8Array(Math.ceil(count / 8));
+      values.forEach((value, index) => {
+        if (typeof value !== "boolean") {
+          nullCount += 1;
+          return;
+        }
+        if (value) data[index >> 3] |= 1 << (index & 7);
+        markValid(index);
+      });
+      buffers.push(data);
+      break;
+    }
+    case "utf8": {
+      const encoder = new TextEncoder();
+      const offsets = new Int32Array(count + 1);
+      const chunks: Uint8Array[] = [];
+      let total = 0;
+      values.forEach((value, index) => {
+        if (value === null) {
+          nullCount += 1;
+        } else {
+          const encoded = encoder.encode(String(value));
+          chunks.push(encoded);
+          total += encoded.byteLength;
+          markValid(index);
+        }
+        offsets[index + 1] = total;
+      });
+      const data = new Uint8Array(total);
+      let at = 0;
+      for (const chunk of chunks) {
+        data.set(chunk, at);
+        at += chunk.byteLength;
+      }
+      buffers.push(new Uint8Array(offsets.buffer), data);
+      break;
+    }
+  }
+
+  return { nullCount, buffers: [nullCount ? validity : new Uint8Array(0), ...buffers] };
+}
+
+function recordBatch(types: ArrowColumnType[], rows: DbfRow[]) {
+  const nodes = new DataView(new ArrayBuffer(types.length * 16));
+  const bodyParts: Uint8Array[] = [];
+  const bufferSpecs: { offset: number; length: number }[] = [];
+  let bodyLength = 0;
+
+  types.forEach((type, column) => {
+    const { nullCount, buffers } = encodeColumn(
+      type,
+      rows.map((row) => row[column] ?? null),
+    );
+    nodes.setBigInt64(column * 16, BigInt(rows.length), true);
+    nodes.setBigInt64(column * 16 + 8, BigInt(nullCount), true);
+    for (const buffer of buffers) {
+      const part = padded(buffer);
+      bufferSpecs.push({ offset: bodyLength, length: buffer.byteLength });
+      bodyParts.push(part);
+      bodyLength += part.byteLength;
+    }
+  });
+
+  const buffersView = new DataView(new ArrayBuffer(bufferSpecs.length * 16));
+  bufferSpecs.forEach((spec, index) => {
+    buffersView.setBigInt64(index * 16, BigInt(spec.offset), true);
+    buffersView.setBigInt64(index * 16 + 8, BigInt(spec.length), true);
+  });
+
+  const header = table(
+    i64(rows.length),
+    { kind: "structs", bytes: new Uint8Array(nodes.buffer), count: types.length },
+    { kind: "structs", bytes: new Uint8Array(buffersView.buffer), count: bufferSpecs.length },
+  );
+  const metadata = serialize(
+    table(i16(METADATA_V5), u8(HEADER_RECORD_BATCH), header, i64(bodyLength)),
+  );
+  return { metadata: encapsulate(metadata), body: bodyParts, bodyLength };
+}
+
+/**
+ * Writes the table as an Arrow IPC file (Feather v2), readable by pyarrow,
+ * pandas, DuckDB and Polars. Each column keeps its dBase type, length and
+ * decimals in the field metadata.
+ */
+export function writeArrowIpc(fields: DbfFieldMeta[], records: DbfRow[]): Blob {
+  const types = fields.map(arrowTypeFor);
+  const schema = schemaTable(fields, types);
+  const parts: Uint8Array[] = [];
+  const blocks: { offset: number; metaDataLength: number; bodyLength: number }[] = [];
+  let position = 0;
+  const push = (bytes: Uint8Array) => {
+    parts.push(bytes);
+    position += bytes.byteLength;
+  };
+
+  push(padded(MAGIC));
+  push(encapsulate(serialize(table(i16(METADATA_V5), u8(HEADER_SCHEMA), schema, i64(0)))));
+
+  for (let start = 0; start < records.length || start === 0; start += BATCH_ROWS) {
+    const batch = recordBatch(types, records.slice(start, start + BATCH_ROWS));
+    blocks.push({ offset: position, metaDataLength: batch.metadata.byteLength, bodyLength: batch.bodyLength });
+    push(batch.metadata);
+    batch.body.forEach(push);
+  }
+
+  const endOfStream = new Uint8Array(8);
+  new DataView(endOfStream.buffer).setUint32(0, 0xffffffff, true);
+  push(endOfStream);
+
+  const blockView = new DataView(new ArrayBuffer(blocks.length * 24));
+  blocks.forEach((block, index) => {
+    blockView.setBigInt64(index * 24, BigInt(block.offset), true);
+    blockView.setInt32(index * 24 + 8, block.metaDataLength, true);
+    blockView.setBigInt64(index * 24 + 16, BigInt(block.bodyLength), true);
+  });
+  const footer = serialize(
+    table(i16(METADATA_V5), schema, undefined, {
+      kind: "structs",
+      bytes: new Uint8Array(blockView.buffer),
+      count: blocks.length,
+    }),
+  );
+  push(footer);
+  const trailer = new Uint8Array(4 + MAGIC.byteLength);
+  new DataView(trailer.buffer).setInt32(0, footer.byteLength, true);
+  trailer.set(MAGIC, 4);
+  push(trailer);
+
+  return new Blob(parts as Uint8Array<ArrayBuffer>[], { type: "application/vnd.apache.arrow.file" });
+}
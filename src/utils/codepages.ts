@@ -0,0 +1,166 @@
+export type DbfEncoding = "utf-8" | "windows-1255" | "cp862" | "windows-1252";
+
+export type DbfEncodingSource = "override" | "cpg" | "language-driver" | "detected";
+
+export const DBF_ENCODINGS: { id: DbfEncoding; label: string }[] = [
+  { id: "utf-8", label: "UTF-8" },
+  { id: "windows-1255", label: "Windows-1255 (Hebrew)" },
+  { id: "cp862", label: "CP862 (DOS Hebrew)" },
+  { id: "windows-1252", label: "Windows-1252 (Latin)" },
+];
+
+// CP862 is CP437 with the Hebrew alphabet in 0x80-0x9A. TextDecoder does not
+// ship it, so the upper half is mapped by hand.
+const CP862_HIGH =
+  "אבגדהוזחטיךכלםמןנסעףפץצקרשת¢£¥₧ƒ" +
+  "áíóúñÑªº¿⌐¬½¼¡«»" +
+  "░▒▓│┤╡╢╖╕╣║╗╝╜╛┐" +
+  "└┴┬├─┼╞╟╚╔╩╦╠═╬╧" +
+  "╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀" +
+  "αßΓπΣσµτΦΘΩδ∞φε∩" +
+  "≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0";
+
+// dBase language driver IDs (header byte 29) that identify a code page we
+// can decode. ESRI writes 0x57 ("ANSI") for the system code page, which tells
+// us nothing, so it is deliberately left out.
+const LANGUAGE_DRIVERS: Record<number, DbfEncoding> = {
+  0x03: "windows-1252",
+  0x58: "windows-1252",
+  0x59: "windows-1252",
+  0x7d: "windows-1255",
+};
+
+const decoders = new Map<DbfEncoding, (bytes: Uint8Array) => string>();
+
+function decodeCp862(bytes: Uint8Array) {
+  let output = "";
+  for (const byte of bytes) {
+    output += byte < 0x80 ? String.fromCharCode(byte) : CP862_HIGH[byte - 0x80];
+  }
+  return output;
+}
+
+export function getDecoder(encoding: DbfEncoding) {
+  const cached = decoders.get(encoding);
+  if (cached) return cached;
+
+  let decode: (bytes: Uint8Array) => string;
+  if (encoding === "cp862") {
+    decode = decodeCp862;
+  } else {
+    const decoder = new TextDecoder(encoding);
+    decode = (bytes) => decoder.decode(bytes);
+  }
+  decoders.set(encoding, decode);
+  return decode;
+}
+
+export function encodingFromLanguageDriver(driverId: number): DbfEncoding | null {
+  return LANGUAGE_DRIVERS[driverId] ?? null;
+}
+
+/** Maps the contents of a shapefile `.cpg` sidecar to a supported encoding. */
+export function encodingFromCpg(text: string): DbfEncoding | null {
+  const normalized = text.trim().toLowerCase().replace(/[\s_]/g, "");
+  if (!normalized) return null;
+  if (normalized === "utf8" || normalized === "utf-8" || normalized === "65001") return "utf-8";
+  if (/^(windows-?|cp|ansi)?1255$/.test(normalized) || normalized === "hebrew") {
+    return "windows-1255";
+  }
+  if (/^(oem|cp|ibm|dos)?-?862$/.test(normalized)) return "cp862";
+  if (/^(windows-?|cp|ansi)?1252$/.test(normalized) || normalized === "latin1") {
+    return "windows-1252";
+  }
+  return null;
+}
+
+/**
+ * Guesses the code page of raw DBF text. Valid UTF-8 wins; otherwise Hebrew
+ * letters land in 0x80-0x9A for CP862 and 0xE0-0xFA for Windows-1255.
+ */
+export function detectEncoding(bytes: Uint8Array): DbfEncoding {
+  let hasHighBytes = false;
+  for (const byte of bytes) {
+    if (byte >= 0x80) {
+      hasHighBytes = true;
+      break;
+    }
+  }
+  if (!hasHighBytes) return "utf-8";
+
+  try {
+    // `stream` keeps a sample that ends mid-sequence from counting as invalid.
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true });
+    return "utf-8";
+  } catch {
+    // Not UTF-8; fall through to the single-byte heuristics.
+  }
+
+  let dosHebrew = 0;
+  let windowsHebrew = 0;
+  for (const byte of bytes) {
+    if (byte >= 0x80 && byte <= 0x9a) dosHebrew += 1;
+    else if (byte >= 0xe0 && byte <= 0xfa) windowsHebrew += 1;
+  }
+  return dosHebrew > windowsHebrew ? "cp862" : "windows-1255";
+}
+
+const encoders = new Map<DbfEncoding, (text: string) => Uint8Array>();
+
+// Single-byte code pages are inverted from their decoders, so reading and
+// writing can never disagree about a character.
+function createSingleByteEncoder(decode: (bytes: Uint8Array) => string) {
+  const table = new Map<string, number>();
+  for (let byte = 0x80; byte <= 0xff; byte += 1) {
+    const char = decode(Uint8Array.of(byte));
+    if (char.length === 1 && char !== "\ufffd" && !table.has(char)) table.set(char, byte);
+  }
+  return (text: string) => {
+    const bytes = new Uint8Array(text.length);
+    let length = 0;
+    for (const char of text) {
+      const code = char.codePointAt(0) ?? 0x3f;
+      bytes[length] = code < 0x80 ? code : table.get(char) ?? 0x3f;
+      length += 1;
+    }
+    return bytes.subarray(0, length);
+  };
+}
+
+/** Encodes text for writing; characters the code page lacks become `?`. */
+export function getEncoder(encoding: DbfEncoding) {
+  const cached = encoders.get(encoding);
+  if (cached) return cached;
+
+  let encode: (text: string) => Uint8Array;
+  if (encoding === "utf-8") {
+    const encoder = new TextEncoder();
+    encode = (text) => encoder.encode(text);
+  } else {
+    encode = createSingleByteEncoder(getDecoder(encoding));
+  }
+  encoders.set(encoding, encode);
+  return encode;
+}
+
+/** The header byte 29 value to write for `encoding`, or 0 when dBase has none. */
+export function languageDriverFor(encoding: DbfEncoding) {
+  const entry = Object.entries(LANGUAGE_DRIVERS).find(([, value]) => value === encoding);
+  return entry ? Number(entry[0]) : 0;
+}
+
+const CPG_NAMES: Record<DbfEncoding, string> = {
+  "utf-8": "UTF-8",
+  "windows-1255": "1255",
+  cp862: "862",
+  "windows-1252": "1252",
+};
+
+/**
+ * The `.cpg` sidecar text for `encoding`, which `encodingFromCpg` reads back.
+ * It is the only way to label UTF-8 and CP862 output, which have no language
+ * driver ID.
+ */
+export function cpgFor(encoding: DbfEncoding) {
+  return CPG_NAMES[encoding];
+}
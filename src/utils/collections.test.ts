@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  RequestCollection,
+  clashingNames,
+  createCollection,
+  createFolder,
+  createSavedRequest,
+  mergeCollections,
+  parseCollections,
+  serializeCollections,
+} from "./collections";
+
+function sample(name: string): RequestCollection {
+  const folder = createFolder("Parcels");
+  folder.items.push(
+    createSavedRequest("Tel Aviv parcel", {
+      kind: "streetDeals",
+      lot: "6638",
+      parcel: "108",
+      limit: "",
+      offset: "",
+    }),
+  );
+  return { ...createCollection(name), items: [folder] };
+}
+
+const idsOf = (collections: RequestCollection[]) =>
+  JSON.stringify(collections).match(/"id":"[^"]+"/g);
+
+describe("parseCollections", () => {
+  it("keeps stored ids when reading the app's own state back", () => {
+    const stored = [sample("Team")];
+    const text = serializeCollections(stored);
+    expect(parseCollections(text, { keepIds: true })).toEqual(stored);
+    expect(idsOf(parseCollections(text, { keepIds: true }))).toEqual(idsOf(stored));
+  });
+
+  it("issues fresh ids for an imported file", () => {
+    const stored = [sample("Team")];
+    const imported = parseCollections(serializeCollections(stored));
+    expect(imported[0].name).toBe("Team");
+    expect(idsOf(imported)).not.toEqual(idsOf(stored));
+  });
+
+  it("replaces a missing or repeated id even when keeping ids", () => {
+    const text = JSON.stringify({
+      name: "Bare",
+      id: "same",
+      items: [
+        { type: "folder", id: "same", name: "A", items: [] },
+        { type: "folder", name: "B", items: [] },
+      ],
+    });
+    const [collection] = parseCollections(text, { keepIds: true });
+    expect(collection.id).toBe("same");
+    expect(collection.items.map((item) => item.id)).not.toContain("same");
+    expect(collection.items[1].id).toEqual(expect.any(String));
+  });
+});
+
+describe("mergeCollections", () => {
+  it("imports a same-named collection under a new name by default", () => {
+    const local = sample("Team");
+    const first = mergeCollections([local], [sample("Team")]);
+    expect(first.collections.map((collection) => collection.name)).toEqual([
+      "Team",
+      "Team (imported)",
+    ]);
+    expect(first.collections[0]).toBe(local);
+    expect(first).toMatchObject({ added: 1, replaced: 0, renamed: 1 });
+
+    const second = mergeCollections(first.collections, [sample("Team")]);
+    expect(second.collections.at(-1)?.name).toBe("Team (imported 2)");
+  });
+
+  it("replaces a same-named collection when asked to", () => {
+    const incoming = sample("Team");
+    const merged = mergeCollections([sample("Team"), sample("Other")], [incoming], {
+      replace: true,
+    });
+    expect(merged.collections[0]).toBe(incoming);
+    expect(merged).toMatchObject({ added: 0, replaced: 1, renamed: 0 });
+  });
+
+  it("lists the names that clash", () => {
+    expect(clashingNames([sample("Team")], [sample("Team"), sample("New")])).toEqual(["Team"]);
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Named, foldered collections of saved playground and street-deals requests,
+ * in the spirit of Postman collections. Every helper returns new arrays so the
+ * result can go straight into React state.
+ */
+
+export const COLLECTION_FORMAT = "govmap-playground-collections";
+export const COLLECTION_VERSION = 1;
+
+export type PlaygroundRequest = {
+  kind: "playground";
+  methodId: string;
+  params: Record<string, unknown>;
+  activeLayer: string;
+  /** System the coordinate params were entered in; ITM when absent. */
+  coordinateSrid?: number;
+};
+
+export type StreetDealsRequest = {
+  kind: "streetDeals";
+  lot: string;
+  parcel: string;
+  limit: string;
+  offset: string;
+};
+
+export type SavedRequest = {
+  type: "request";
+  id: string;
+  name: string;
+  request: PlaygroundRequest | StreetDealsRequest;
+};
+
+export type RequestFolder = {
+  type: "folder";
+  id: string;
+  name: string;
+  items: CollectionItem[];
+};
+
+export type CollectionItem = SavedRequest | RequestFolder;
+
+export type RequestCollection = {
+  id: string;
+  name: string;
+  items: CollectionItem[];
+};
+
+export type CollectionsFile = {
+  format: typeof COLLECTION_FORMAT;
+  version: typeof COLLECTION_VERSION;
+  exportedAt: string;
+  collections: RequestCollection[];
+};
+
+export function createId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createCollection(name: string): RequestCollection {
+  return { id: createId(), name, items: [] };
+}
+
+export function createFolder(name: string): RequestFolder {
+  return { type: "folder", id: createId(), name, items: [] };
+}
+
+export function createSavedRequest(name: string, request: SavedRequest["request"]): SavedRequest {
+  return { type: "request", id: createId(), name, request };
+}
+
+/** Deep copy with fresh ids throughout. */
+function cloneItem<T extends CollectionItem | RequestCollection>(item: T): T {
+  const copy = structuredClone(item);
+  const renew = (node: CollectionItem | RequestCollection) => {
+    node.id = createId();
+    if ("items" in node) node.items.forEach(renew);
+  };
+  renew(copy);
+  return copy;
+}
+
+/** Applies `edit` to the item list that directly holds `id`, searching folders recursively. */
+function editParentOf(
+  items: CollectionItem[],
+  id: string,
+  edit: (items: CollectionItem[], index: number) => CollectionItem[],
+): CollectionItem[] {
+  const index = items.findIndex((item) => item.id === id);
+  if (index >= 0) return edit(items, index);
+  let changed = false;
+  const next = items.map((item) => {
+    if (item.type !== "folder") return item;
+    const children = editParentOf(item.items, id, edit);
+    if (children === item.items) return item;
+    changed = true;
+    return { ...item, items: children };
+  });
+  return changed ? next : items;
+}
+
+function editCollections(
+  collections: RequestCollection[],
+  id: string,
+  edit: <T extends CollectionItem | RequestCollection>(items: T[], index: number) => T[],
+) {
+  const index = collections.findIndex((collection) => collection.id === id);
+  if (index >= 0) return edit(collections, index);
+  return collections.map((collection) => {
+    const items = editParentOf(collection.items, id, edit);
+    return items === collection.items ? collection : { ...collection, items };
+  });
+}
+
+export function renameNode(collections: RequestCollection[], id: string, name: string) {
+  return editCollections(collections, id, (items, index) =>
+    items.map((item, position) => (position === index ? { ...item, name } : item)),
+  );
+}
+
+/** Copies a collection, folder or request and places the copy right after it. */
+export function duplicateNode(collections: RequestCollection[], id: string) {
+  return editCollections(collections, id, (items, index) => {
+    const copy = cloneItem(items[index]);
+    copy.name = `${items[index].name} copy`;
+    return [...items.slice(0, index + 1), copy, ...items.slice(index + 1)];
+  });
+}
+
+export function deleteNode(collections: RequestCollection[], id: string) {
+  return editCollections(collections, id, (items, index) =>
+    items.filter((_item, position) => position !== index),
+  );
+}
+
+/** Adds an item to the collection or folder with id `parentId`. */
+export function addNode(collections: RequestCollection[], parentId: string, item: CollectionItem) {
+  const insert = (items: CollectionItem[]): CollectionItem[] =>
+    items.map((node) =>
+      node.type !== "folder"
+        ? node
+        : node.id === parentId
+          ? { ...node, items: [...node.items, item] }
+          : { ...node, items: insert(node.items) },
+    );
+  return collections.map((collection) =>
+    collection.id === parentId
+      ? { ...collection, items: [...collection.items, item] }
+      : { ...collection, items: insert(collection.items) },
+  );
+}
+
+/** Every folder of a collection with its path, for "save into" pickers. */
+export function listFolders(collection: RequestCollection) {
+  const folders: { id: string; path: string }[] = [];
+  const walk = (items: CollectionItem[], prefix: string) => {
+    for (const item of items) {
+      if (item.type !== "folder") continue;
+      const path = `${prefix}${item.name}`;
+      folders.push({ id: item.id, path });
+      walk(item.items, `${path} / `);
+    }
+  };
+  walk(collection.items, "");
+  return folders;
+}
+
+export function describeRequest(request: SavedRequest["request"]) {
+  if (request.kind === "streetDeals") {
+    return `street deals ${request.lot}-${request.parcel}${request.limit ? ` limit ${request.limit}` : ""}`;
+  }
+  const params = Object.entries(request.params)
+    .filter(([, value]) => value !== "" && value !== undefined && value !== null)
+    .map(([key, value]) => `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`)
+    .join(", ");
+  return `${request.methodId}${params ? ` · ${params}` : ""}`;
+}
+
+export function serializeCollections(collections: RequestCollection[]) {
+  const file: CollectionsFile = {
+    format: COLLECTION_FORMAT,
+    version: COLLECTION_VERSION,
+    exportedAt: new Date().toISOString(),
+    collections,
+  };
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+type Loose = Record<string, unknown>;
+
+const loose = (value: unknown): Loose =>
+  typeof value === "object" && value !== null ? (value as Loose) : {};
+
+function checkRequest(value: unknown, where: string): SavedRequest["request"] {
+  const request = loose(value);
+  if (request.kind === "playground") {
+    if (
+      typeof request.methodId !== "string" ||
+      typeof request.params !== "object" ||
+      !request.params
+    ) {
+      throw new Error(`${where}: a playground request needs methodId and params.`);
+    }
+    return {
+      kind: "playground",
+      methodId: request.methodId,
+      params: request.params as Loose,
+      activeLayer: String(request.activeLayer ?? ""),
+      ...(typeof request.coordinateSrid === "number"
+        ? { coordinateSrid: request.coordinateSrid }
+        : {}),
+    };
+  }
+  if (request.kind === "streetDeals") {
+    return {
+      kind: "streetDeals",
+      lot: String(request.lot ?? ""),
+      parcel: String(request.parcel ?? ""),
+      limit: String(request.limit ?? ""),
+      offset: String(request.offset ?? ""),
+    };
+  }
+  throw new Error(`${where}: unknown request kind ${JSON.stringify(request.kind)}.`);
+}
+
+export type ParseCollectionsOptions = {
+  /** Keep the ids in the file (the app's own storage) instead of issuing new ones. */
+  keepIds?: boolean;
+};
+
+function checkItems(
+  value: unknown,
+  where: string,
+  idOf: (value: unknown) => string,
+): CollectionItem[] {
+  if (!Array.isArray(value)) throw new Error(`${where}: items must be an array.`);
+  return value.map((raw, index): CollectionItem => {
+    const item = loose(raw);
+    const name = String(item.name ?? `Untitled ${index + 1}`);
+    const path = `${where} / ${name}`;
+    if (item.type === "folder") {
+      return { type: "folder", id: idOf(item.id), name, items: checkItems(item.items, path, idOf) };
+    }
+    if (item.type === "request") {
+      return {
+        type: "request",
+        id: idOf(item.id),
+        name,
+        request: checkRequest(item.request, path),
+      };
+    }
+    throw new Error(`${path}: items must be folders or requests.`);
+  });
+}
+
+/**
+ * Reads an exported collections file (or a single bare collection). Ids are
+ * regenerated so imports never clash with what is already stored, unless
+ * `keepIds` is set for reading the app's own saved state back.
+ */
+export function parseCollections(
+  text: string,
+  options: ParseCollectionsOptions = {},
+): RequestCollection[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error("The collections file is not valid JSON.");
+  }
+  const file = loose(value);
+  let collections: unknown[];
+  if (file.format === COLLECTION_FORMAT) {
+    if (file.version !== COLLECTION_VERSION) {
+      throw new Error(
+        `Unsupported collections version ${file.version}; expected ${COLLECTION_VERSION}.`,
+      );
+    }
+    if (!Array.isArray(file.collections)) throw new Error("The file lists no collections.");
+    collections = file.collections;
+  } else if (typeof file.name === "string" && Array.isArray(file.items)) {
+    collections = [file];
+  } else {
+    throw new Error("Not a playground collections file.");
+  }
+  const used = new Set<string>();
+  const idOf = (value: unknown) => {
+    const id =
+      options.keepIds && typeof value === "string" && value && !used.has(value)
+        ? value
+        : createId();
+    used.add(id);
+    return id;
+  };
+  return collections.map((raw) => {
+    const collection = loose(raw);
+    const name = String(collection.name ?? "Imported collection");
+    return { id: idOf(collection.id), name, items: checkItems(collection.items, name, idOf) };
+  });
+}
+
+/** Names of imported collections that an existing collection already uses. */
+export function clashingNames(existing: RequestCollection[], imported: RequestCollection[]) {
+  const names = new Set(existing.map((collection) => collection.name));
+  return imported.map((collection) => collection.name).filter((name) => names.has(name));
+}
+
+/**
+ * Adds imported collections. One whose name is taken replaces the stored one
+ * when `replace` is set (re-importing a shared team file after it changes) and
+ * is otherwise added as "Name (imported)".
+ */
+export function mergeCollections(
+  existing: RequestCollection[],
+  imported: RequestCollection[],
+  options: { replace?: boolean } = {},
+) {
+  let replaced = 0;
+  let renamed = 0;
+  const next = [...existing];
+  const taken = (name: string) => next.some((item) => item.name === name);
+  for (const collection of imported) {
+    const index = next.findIndex((item) => item.name === collection.name);
+    if (index < 0) {
+      next.push(collection);
+    } else if (options.replace) {
+      next[index] = collection;
+      replaced += 1;
+    } else {
+      let name = `${collection.name} (imported)`;
+      for (let copy = 2; taken(name); copy += 1) name = `${collection.name} (imported ${copy})`;
+      next.push({ ...collection, name });
+      renamed += 1;
+    }
+  }
+  return { collections: next, added: imported.length - replaced, replaced, renamed };
+}
@@ -0,0 +1,72 @@
+/**
+ * Minimal RFC 4180 reader for pasted or uploaded lists: quoted fields,
+ * doubled quotes, CRLF or LF line ends, and a comma, semicolon or tab
+ * delimiter picked from the header line (Excel in a Hebrew locale often
+ * writes semicolons).
+ */
+
+export type CsvTable = {
+  headers: string[];
+  rows: Record<string, string>[];
+};
+
+const DELIMITERS = [",", ";", "\t"];
+
+function detectDelimiter(text: string) {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  return DELIMITERS.reduce((best, delimiter) =>
+    header.split(delimiter).length > header.split(best).length ? delimiter : best,
+  );
+}
+
+export function parseCsvRows(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, "");
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && !field) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/** The first row names the columns; blank header cells become `column N`. */
+export function parseCsv(text: string): CsvTable {
+  const [header = [], ...body] = parseCsvRows(text);
+  const headers = header.map((name, index) => name.trim() || `column ${index + 1}`);
+  return {
+    headers,
+    rows: body.map((cells) =>
+      Object.fromEntries(headers.map((name, index) => [name, (cells[index] ?? "").trim()])),
+    ),
+  };
+}
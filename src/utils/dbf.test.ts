@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { convertDbfToCsv, dbfColumnKind, formatDbfValue, parseDbf } from "./dbf";
+
+type RawField = { name: string; type: string; length: number; decimals?: number };
+type RawValue = string | ((view: DataView, offset: number) => void);
+
+/** Lays out a dBase table byte by byte, so typed fields can be written raw. */
+function rawTable(fields: RawField[], rows: RawValue[][], version = 0x30) {
+  const headerLength = 32 + fields.length * 32 + 1;
+  const recordLength = 1 + fields.reduce((sum, field) => sum + field.length, 0);
+  const buffer = new ArrayBuffer(headerLength + rows.length * recordLength + 1);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const ascii = (text: string, at: number) =>
+    [...text].forEach((char, index) => (bytes[at + index] = char.charCodeAt(0)));
+
+  view.setUint8(0, version);
+  view.setUint32(4, rows.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+  fields.forEach((field, index) => {
+    const at = 32 + index * 32;
+    ascii(field.name, at);
+    ascii(field.type, at + 11);
+    view.setUint8(at + 16, field.length);
+    view.setUint8(at + 17, field.decimals ?? 0);
+  });
+  bytes[headerLength - 1] = 0x0d;
+
+  rows.forEach((row, rowIndex) => {
+    let offset = headerLength + rowIndex * recordLength;
+    bytes.fill(0x20, offset, offset + recordLength);
+    offset += 1;
+    fields.forEach((field, index) => {
+      const value = row[index];
+      if (typeof value === "function") value(view, offset);
+      else ascii(value.padStart(field.length, " "), offset);
+      offset += field.length;
+    });
+  });
+  bytes[bytes.length - 1] = 0x1a;
+  return buffer;
+}
+
+const int32 = (value: number) => (view: DataView, offset: number) =>
+  view.setInt32(offset, value, true);
+const double = (value: number) => (view: DataView, offset: number) =>
+  view.setFloat64(offset, value, true);
+const timestamp = (julianDay: number, ms: number) => (view: DataView, offset: number) => {
+  view.setInt32(offset, julianDay, true);
+  view.setInt32(offset + 4, ms, true);
+};
+
+describe("parseDbf typed fields", () => {
+  it("decodes dates, logicals and FoxPro binary types", () => {
+    const parsed = parseDbf(
+      rawTable(
+        [
+          { name: "DAY", type: "D", length: 8 },
+          { name: "FLAG", type: "L", length: 1 },
+          { name: "COUNT", type: "I", length: 4 },
+          { name: "SERIAL", type: "+", length: 4 },
+          { name: "RATIO", type: "B", length: 8 },
+          { name: "STAMP", type: "@", length: 8 },
+        ],
+        [
+          ["20200229", "Y", int32(-7), int32(1), double(0.5), timestamp(2458909, 3_600_000)],
+          ["20200230", "?", int32(0), int32(2), double(-1e300), timestamp(0, 0)],
+        ],
+      ),
+    );
+    expect(parsed.records).toEqual([
+      ["2020-02-29", true, -7, 1, 0.5, "2020-02-29T01:00:00.000Z"],
+      [null, null, 0, 2, -1e300, null],
+    ]);
+  });
+
+  it("keeps whole numbers wider than 15 digits as their exact text", () => {
+    const fields = [
+      { name: "ID", type: "N", length: 19 },
+      { name: "SMALL", type: "N", length: 10 },
+      { name: "X", type: "N", length: 19, decimals: 11 },
+    ];
+    const buffer = rawTable(fields, [
+      ["1234567890123456789", "42", "179557.03900000000"],
+      ["abc", "", ""],
+    ]);
+    const parsed = parseDbf(buffer);
+    expect(parsed.records).toEqual([
+      ["1234567890123456789", 42, 179557.039],
+      [null, null, null],
+    ]);
+    expect(parsed.fields.map(dbfColumnKind)).toEqual(["text", "integer", "number"]);
+    expect(convertDbfToCsv(buffer, { bom: false }).csv.split("\r\n")[1]).toBe(
+      "1234567890123456789,42,179557.03900000000",
+    );
+  });
+
+  it("reads dBase 7 integers, which are big-endian with the sign bit flipped", () => {
+    const dbase7 = new Uint8Array(68 + 48 + 1 + 5 + 1);
+    const view = new DataView(dbase7.buffer);
+    view.setUint8(0, 0x04);
+    view.setUint32(4, 1, true);
+    view.setUint16(8, 68 + 48 + 1, true);
+    view.setUint16(10, 5, true);
+    dbase7[68] = "N".charCodeAt(0);
+    dbase7[68 + 32] = "I".charCodeAt(0);
+    dbase7[68 + 33] = 4;
+    dbase7[68 + 48] = 0x0d;
+    dbase7[117] = 0x20;
+    view.setUint32(118, (-5 ^ 0x80000000) >>> 0, false);
+    expect(parseDbf(dbase7.buffer).records).toEqual([[-5]]);
+  });
+});
+
+describe("parseDbf memo fields", () => {
+  const fields = [{ name: "NOTE", type: "M", length: 10 }];
+  const rows = [["1"], ["2"], [""]];
+
+  it("resolves dBase III .dbt blocks up to the 0x1A terminator", () => {
+    const memo = new Uint8Array(512 * 3);
+    memo.set(new TextEncoder().encode("first\x1a"), 512);
+    memo.set(new TextEncoder().encode("second\x1a\x1a"), 1024);
+    const parsed = parseDbf(rawTable(fields, rows, 0x83), {
+      memo: { buffer: memo.buffer, format: "dbt" },
+      encoding: "utf-8",
+    });
+    expect(parsed.records).toEqual([["first"], ["second"], [null]]);
+  });
+
+  it("resolves FoxPro .fpt blocks by their length prefix", () => {
+    const blockSize = 64;
+    const memo = new Uint8Array(blockSize * 3);
+    const view = new DataView(memo.buffer);
+    view.setUint16(6, blockSize, false);
+    const store = (block: number, text: string) => {
+      const bytes = new TextEncoder().encode(text);
+      view.setUint32(block * blockSize, 1, false);
+      view.setUint32(block * blockSize + 4, bytes.byteLength, false);
+      memo.set(bytes, block * blockSize + 8);
+    };
+    store(1, "גוש 6638");
+    store(2, "line one\r\nline two");
+    const parsed = parseDbf(rawTable(fields, rows, 0xf5), {
+      memo: { buffer: memo.buffer, format: "fpt" },
+      encoding: "utf-8",
+    });
+    expect(parsed.records).toEqual([["גוש 6638"], ["line one\r\nline two"], [null]]);
+  });
+
+  it("leaves memo values empty when no memo file is supplied", () => {
+    expect(parseDbf(rawTable(fields, rows)).records).toEqual([[null], [null], [null]]);
+  });
+});
+
+describe("formatDbfValue", () => {
+  it("pads decimals without float noise", () => {
+    const field = { name: "X", type: "N", length: 19, decimalCount: 11 };
+    expect(formatDbfValue(179557.039, field)).toBe("179557.03900000000");
+    expect(formatDbfValue(-2, field)).toBe("-2.00000000000");
+    expect(formatDbfValue(1e-7, { ...field, decimalCount: 3 })).toBe("0.000");
+  });
+});
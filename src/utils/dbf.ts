@@ -1,3 +1,13 @@
+import {
+  DbfEncoding,
+  DbfEncodingSource,
+  detectEncoding,
+  encodingFromCpg,
+  encodingFromLanguageDriver,
+  getDecoder,
+} from "./codepages";
+import { DbfMemoFile, readMemoBlock } from "./memo";
+
 export type DbfFieldMeta = {
   name: string;
   type: string;
@@ -5,6 +15,31 @@ export type DbfFieldMeta = {
   decimalCount: number;
 };
 
+export type DbfValue = string | number | boolean | null;
+
+/** One value per entry in `fields`, in the same order. */
+export type DbfRow = DbfValue[];
+
+export type DbfHeader = {
+  version: number;
+  recordCount: number;
+  headerLength: number;
+  recordLength: number;
+  fields: DbfFieldMeta[];
+  languageDriver: number;
+  encoding: DbfEncoding;
+  encodingSource: DbfEncodingSource;
+  /** Descriptors with a blank name, which were given a `FIELD_n` placeholder. */
+  unnamedFields: number[];
+};
+
+export type DbfParseResult = DbfHeader & {
+  records: DbfRow[];
+  /** Position of each parsed row in the file; deleted rows leave gaps. */
+  recordIndexes: number[];
+  parsedRecords: number;
+};
+
 export type DbfCsvResult = {
   csv: string;
   recordCount: number;
@@ -12,15 +47,59 @@ export type DbfCsvResult = {
   headerLength: number;
   recordLength: number;
   fields: DbfFieldMeta[];
+  languageDriver: number;
+  encoding: DbfEncoding;
+  encodingSource: DbfEncodingSource;
+};
+
+export type DbfConvertOptions = {
+  /** Forces a code page, ignoring the header and any `.cpg` sidecar. */
+  encoding?: DbfEncoding;
+  /** Contents of the shapefile `.cpg` sidecar, if one was supplied. */
+  cpg?: string;
+  /** Accompanying `.dbt`/`.fpt` file used to resolve `M` fields. */
+  memo?: DbfMemoFile;
+  /** Prefix the CSV with a UTF-8 BOM so Excel does not fall back to ANSI. Defaults to true. */
+  bom?: boolean;
 };
 
-const asciiDecoder = new TextDecoder("ascii");
+type FieldDecoder = (view: DataView, offset: number) => DbfValue;
 
-function sanitizeText(bytes: Uint8Array) {
-  const decoded = asciiDecoder.decode(bytes);
+export const UTF8_BOM = "\ufeff";
+const DETECTION_SAMPLE_BYTES = 1024 * 1024;
+// Days between the Julian day epoch and 1970-01-01.
+const JULIAN_UNIX_EPOCH = 2440588;
+const MS_PER_DAY = 86400000;
+
+function sanitizeText(bytes: Uint8Array, decode: (bytes: Uint8Array) => string) {
+  const decoded = decode(bytes);
   return decoded.replace(/\u0000/g, "").trim();
 }
 
+function resolveEncoding(
+  buffer: ArrayBuffer,
+  headerLength: number,
+  languageDriver: number,
+  options: DbfConvertOptions,
+): { encoding: DbfEncoding; encodingSource: DbfEncodingSource } {
+  if (options.encoding) {
+    return { encoding: options.encoding, encodingSource: "override" };
+  }
+  const fromCpg = options.cpg ? encodingFromCpg(options.cpg) : null;
+  if (fromCpg) {
+    return { encoding: fromCpg, encodingSource: "cpg" };
+  }
+  const fromDriver = encodingFromLanguageDriver(languageDriver);
+  if (fromDriver) {
+    return { encoding: fromDriver, encodingSource: "language-driver" };
+  }
+  const sampleLength = Math.min(buffer.byteLength - headerLength, DETECTION_SAMPLE_BYTES);
+  return {
+    encoding: detectEncoding(new Uint8Array(buffer, headerLength, sampleLength)),
+    encodingSource: "detected",
+  };
+}
+
 function escapeCsv(value: string) {
   const needsWrapper =
     value.includes(",") || value.includes('"') || value.includes("\n") || value.includes("\r");
@@ -28,15 +107,129 @@ function escapeCsv(value: string) {
   return needsWrapper ? `"${escaped}"` : escaped;
 }
 
-export function convertDbfToCsv(buffer: ArrayBuffer): DbfCsvResult {
+function isDbase7(version: number) {
+  return (version & 0x07) === 0x04;
+}
+
+// dBase 7 stores integers big-endian with the sign bit inverted so they sort
+// bytewise; FoxPro uses plain little-endian.
+function readInt32(view: DataView, offset: number, version: number) {
+  if (isDbase7(version)) {
+    return (view.getUint32(offset, false) ^ 0x80000000) | 0;
+  }
+  return view.getInt32(offset, true);
+}
+
+function julianToIso(julianDay: number, milliseconds: number) {
+  if (!julianDay) return null;
+  const date = new Date((julianDay - JULIAN_UNIX_EPOCH) * MS_PER_DAY + milliseconds);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function parseDate(text: string) {
+  const match = /^(\d{4})(\d{2})(\d{2})$/.exec(text);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) {
+    return null;
+  }
+  return `${year}-${month}-${day}`;
+}
+
+function parseLogical(text: string) {
+  if (/^[TtYy]$/.test(text)) return true;
+  if (/^[FfNn]$/.test(text)) return false;
+  return null;
+}
+
+// dBase numbers are plain decimals with an optional sign; `Number` alone would
+// also take hex, binary and "Infinity". Floats (`F`) may carry an exponent, as
+// ArcGIS writes them.
+const DECIMAL_NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+const FLOAT_NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+// Doubles hold 15 significant digits exactly; wider whole-number fields (such
+// as N(19,0) ids) are kept as their text so no digit is lost.
+const MAX_EXACT_DIGITS = 15;
+
+function isWideInteger(field: DbfFieldMeta) {
+  return (
+    (field.type === "N" || field.type === "F") &&
+    field.decimalCount === 0 &&
+    field.length > MAX_EXACT_DIGITS
+  );
+}
+
+function parseNumber(text: string, type: string) {
+  if (!(type === "F" ? FLOAT_NUMBER : DECIMAL_NUMBER).test(text)) return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+}
+
+function createFieldDecoder(
+  field: DbfFieldMeta,
+  version: number,
+  decode: (bytes: Uint8Array) => string,
+  memo: DbfMemoFile | undefined,
+): FieldDecoder {
+  const text = (view: DataView, offset: number) =>
+    sanitizeText(new Uint8Array(view.buffer, view.byteOffset + offset, field.length), decode);
+
+  switch (field.type) {
+    case "N":
+    case "F":
+      if (isWideInteger(field)) {
+        return (view, offset) => {
+          const value = text(view, offset);
+          return parseNumber(value, field.type) === null ? null : value;
+        };
+      }
+      return (view, offset) => parseNumber(text(view, offset), field.type);
+    case "D":
+      return (view, offset) => parseDate(text(view, offset));
+    case "L":
+      return (view, offset) => parseLogical(text(view, offset));
+    case "I":
+    case "+":
+      if (field.length !== 4) break;
+      return (view, offset) => readInt32(view, offset, version);
+    case "@":
+    case "T":
+      if (field.length !== 8) break;
+      return (view, offset) =>
+        julianToIso(readInt32(view, offset, version), readInt32(view, offset + 4, version));
+    case "B":
+      // Visual FoxPro stores doubles here; dBase uses `B` for binary memos.
+      if (field.length === 8) {
+        return (view, offset) => view.getFloat64(offset, true);
+      }
+      return () => null;
+    case "M":
+      return (view, offset) => {
+        if (!memo) return null;
+        const block =
+          field.length === 4 ? view.getUint32(offset, true) : Number(text(view, offset) || 0);
+        const bytes = block ? readMemoBlock(memo, block) : null;
+        return bytes ? decode(bytes).replace(/\u0000/g, "").trimEnd() : null;
+      };
+    default:
+      break;
+  }
+  return (view, offset) => text(view, offset);
+}
+
+/** Reads the table header and field descriptors without touching the records. */
+export function readDbfHeader(buffer: ArrayBuffer, options: DbfConvertOptions = {}): DbfHeader {
   const view = new DataView(buffer);
   if (view.byteLength < 32) {
     throw new Error("Buffer is too small to be a valid DBF file.");
   }
 
+  const version = view.getUint8(0);
   const recordCount = view.getUint32(4, true);
   const headerLength = view.getUint16(8, true);
   const recordLength = view.getUint16(10, true);
+  const languageDriver = view.getUint8(29);
 
   if (headerLength === 0 || recordLength === 0) {
     throw new Error("Malformed DBF header.");
@@ -46,8 +239,16 @@ export function convertDbfToCsv(buffer: ArrayBuffer): DbfCsvResult {
     throw new Error("Header length is larger than the file itself.");
   }
 
+  const { encoding, encodingSource } = resolveEncoding(buffer, headerLength, languageDriver, options);
+  const decode = getDecoder(encoding);
+
+  // dBase 7 widens the header and each descriptor to make room for 32-byte names.
+  const layout = isDbase7(version)
+    ? { start: 68, size: 48, nameLength: 32, typeAt: 32, lengthAt: 33, decimalAt: 34 }
+    : { start: 32, size: 32, nameLength: 11, typeAt: 11, lengthAt: 16, decimalAt: 17 };
   const fields: DbfFieldMeta[] = [];
-  let descriptorOffset = 32;
+  const unnamedFields: number[] = [];
+  let descriptorOffset = layout.start;
 
   while (descriptorOffset < headerLength) {
     const marker = view.getUint8(descriptorOffset);
@@ -55,30 +256,107 @@ export function convertDbfToCsv(buffer: ArrayBuffer): DbfCsvResult {
       descriptorOffset += 1;
       break;
     }
+    if (descriptorOffset + layout.size > headerLength) {
+      break;
+    }
 
-    const nameBytes = new Uint8Array(buffer, descriptorOffset, 11);
-    const name = sanitizeText(nameBytes) || `FIELD_${fields.length + 1}`;
-    const type = String.fromCharCode(view.getUint8(descriptorOffset + 11));
-    const length = view.getUint8(descriptorOffset + 16);
-    const decimalCount = view.getUint8(descriptorOffset + 17);
+    const nameBytes = new Uint8Array(buffer, descriptorOffset, layout.nameLength);
+    let name = sanitizeText(nameBytes, decode);
+    if (!name) {
+      unnamedFields.push(fields.length);
+      name = `FIELD_${fields.length + 1}`;
+    }
+    const type = String.fromCharCode(view.getUint8(descriptorOffset + layout.typeAt));
+    const length = view.getUint8(descriptorOffset + layout.lengthAt);
+    const decimalCount = view.getUint8(descriptorOffset + layout.decimalAt);
 
     fields.push({ name, type, length, decimalCount });
-    descriptorOffset += 32;
+    descriptorOffset += layout.size;
   }
 
   if (!fields.length) {
     throw new Error("DBF file does not define any fields.");
   }
 
-  const rows: string[] = [];
-  rows.push(fields.map((field) => escapeCsv(field.name)).join(","));
+  return {
+    version,
+    recordCount,
+    headerLength,
+    recordLength,
+    fields,
+    languageDriver,
+    encoding,
+    encodingSource,
+    unnamedFields,
+  };
+}
+
+/**
+ * Whether the raw text of an `N`, `F`, `D` or `L` field holds a value of that
+ * type. Blank values count as valid; other field types always pass.
+ */
+export function isValidFieldText(field: DbfFieldMeta, text: string) {
+  const trimmed = text.replace(/\u0000/g, "").trim();
+  if (!trimmed) return true;
+  switch (field.type) {
+    case "N":
+    case "F":
+      return parseNumber(trimmed, field.type) !== null;
+    case "D":
+      return /^0+$/.test(trimmed) || parseDate(trimmed) !== null;
+    case "L":
+      return trimmed === "?" || parseLogical(trimmed) !== null;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Builds a decoder for single records laid out per `header`. It returns null
+ * for rows flagged as deleted.
+ */
+export function createRecordDecoder(header: DbfHeader, options: DbfConvertOptions = {}) {
+  const { fields } = header;
+  const decode = getDecoder(header.encoding);
+  const decoders = fields.map((field) =>
+    createFieldDecoder(field, header.version, decode, options.memo),
+  );
+
+  return (view: DataView, recordOffset: number): DbfRow | null => {
+    const deletionFlag = view.getUint8(recordOffset);
+    if (deletionFlag === 0x2a) {
+      return null;
+    }
+
+    let fieldOffset = recordOffset + 1;
+    const row: DbfRow = [];
+
+    for (let index = 0; index < fields.length; index += 1) {
+      const field = fields[index];
+      if (fieldOffset + field.length > view.byteLength) {
+        throw new Error("Encountered a record extending beyond the file size.");
+      }
+      row.push(decoders[index](view, fieldOffset));
+      fieldOffset += field.length;
+    }
+
+    return row;
+  };
+}
+
+export function parseDbf(buffer: ArrayBuffer, options: DbfConvertOptions = {}): DbfParseResult {
+  const header = readDbfHeader(buffer, options);
+  const { headerLength, recordLength, recordCount } = header;
+  const view = new DataView(buffer);
+  const decodeRecord = createRecordDecoder(header, options);
 
   const dataStart = headerLength;
   if (dataStart + recordLength > buffer.byteLength) {
     throw new Error("DBF payload is truncated.");
   }
 
-  let parsedRecords = 0;
+  const records: DbfRow[] = [];
+  const recordIndexes: number[] = [];
 
   for (let rowIndex = 0; rowIndex < recordCount; rowIndex += 1) {
     const recordOffset = dataStart + rowIndex * recordLength;
@@ -86,34 +364,126 @@ export function convertDbfToCsv(buffer: ArrayBuffer): DbfCsvResult {
       break;
     }
 
-    const deletionFlag = view.getUint8(recordOffset);
-    if (deletionFlag === 0x2a) {
+    const row = decodeRecord(view, recordOffset);
+    if (!row) {
       continue;
     }
 
-    let fieldOffset = recordOffset + 1;
-    const csvCells: string[] = [];
+    records.push(row);
+    recordIndexes.push(rowIndex);
+  }
 
-    for (const field of fields) {
-      if (fieldOffset + field.length > buffer.byteLength) {
-        throw new Error("Encountered a record extending beyond the file size.");
-      }
-      const slice = new Uint8Array(buffer, fieldOffset, field.length);
-      const value = sanitizeText(slice);
-      csvCells.push(escapeCsv(value));
-      fieldOffset += field.length;
+  return {
+    ...header,
+    records,
+    recordIndexes,
+    parsedRecords: records.length,
+  };
+}
+
+export type DbfColumnKind = "integer" | "number" | "date" | "datetime" | "boolean" | "text";
+
+/**
+ * The value type `parseDbf` produces for a field, for typed exports. Whole
+ * numbers wider than 15 digits come back as text.
+ */
+export function dbfColumnKind(field: DbfFieldMeta): DbfColumnKind {
+  if (isWideInteger(field)) return "text";
+  switch (field.type) {
+    case "N":
+      return field.decimalCount === 0 ? "integer" : "number";
+    case "F":
+      return "number";
+    case "I":
+    case "+":
+      return field.length === 4 ? "integer" : "text";
+    case "B":
+      return field.length === 8 ? "number" : "text";
+    case "D":
+      return "date";
+    case "@":
+    case "T":
+      return field.length === 8 ? "datetime" : "text";
+    case "L":
+      return "boolean";
+    default:
+      return "text";
+  }
+}
+
+/** Keys a row by field name; later duplicates of a name win. */
+export function recordToObject(fields: DbfFieldMeta[], row: DbfRow) {
+  const record: Record<string, DbfValue> = {};
+  fields.forEach((field, index) => {
+    record[field.name] = row[index] ?? null;
+  });
+  return record;
+}
+
+/**
+ * Pads the shortest text of `value` to `decimals` places, so 179557.039 in an
+ * N(19,11) field reads 179557.03900000000 rather than toFixed's
+ * 179557.03899999999.
+ */
+export function formatFixed(value: number, decimals: number) {
+  const shortest = String(value);
+  const match = /^-?\d+(?:\.(\d+))?$/.exec(shortest);
+  const places = match?.[1]?.length ?? 0;
+  if (!match || places > decimals) return value.toFixed(decimals);
+  if (!decimals) return shortest;
+  return `${shortest}${places ? "" : "."}${"0".repeat(decimals - places)}`;
+}
+
+/** Renders a typed value the way it should appear in text exports. */
+export function formatDbfValue(value: DbfValue, field: DbfFieldMeta) {
+  if (value === null) return "";
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if (typeof value === "number") {
+    if ((field.type === "N" || field.type === "F") && field.decimalCount > 0) {
+      return formatFixed(value, field.decimalCount);
     }
+    return String(value);
+  }
+  return value;
+}
+
+export function dbfCsvHeader(fields: DbfFieldMeta[]) {
+  return fields.map((field) => escapeCsv(field.name)).join(",");
+}
+
+export function dbfRowToCsv(fields: DbfFieldMeta[], row: DbfRow) {
+  return row.map((value, index) => escapeCsv(formatDbfValue(value, fields[index]))).join(",");
+}
 
-    rows.push(csvCells.join(","));
-    parsedRecords += 1;
+export function dbfRecordsToCsv(
+  fields: DbfFieldMeta[],
+  records: DbfRow[],
+  options: Pick<DbfConvertOptions, "bom"> = {},
+) {
+  const rows: string[] = [];
+  rows.push(dbfCsvHeader(fields));
+  for (const record of records) {
+    rows.push(dbfRowToCsv(fields, record));
   }
+  return (options.bom === false ? "" : UTF8_BOM) + rows.join("\r\n");
+}
+
+export function convertDbfToCsv(
+  buffer: ArrayBuffer,
+  options: DbfConvertOptions = {},
+): DbfCsvResult {
+  const parsed = parseDbf(buffer, options);
+  const { fields } = parsed;
 
   return {
-    csv: rows.join("\r\n"),
-    recordCount,
-    parsedRecords,
-    headerLength,
-    recordLength,
+    csv: dbfRecordsToCsv(fields, parsed.records, options),
+    recordCount: parsed.recordCount,
+    parsedRecords: parsed.parsedRecords,
+    headerLength: parsed.headerLength,
+    recordLength: parsed.recordLength,
     fields,
+    languageDriver: parsed.languageDriver,
+    encoding: parsed.encoding,
+    encodingSource: parsed.encodingSource,
   };
 }
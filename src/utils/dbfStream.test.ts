@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { DbfFieldMeta, DbfRow, parseDbf } from "./dbf";
+import { streamDbf } from "./dbfStream";
+import { writeDbf } from "./dbfWrite";
+
+const fields: DbfFieldMeta[] = [
+  { name: "NAME", type: "C", length: 16, decimalCount: 0 },
+  { name: "AREA", type: "N", length: 10, decimalCount: 2 },
+];
+const records: DbfRow[] = Array.from({ length: 50 }, (_, index) => [`חלקה ${index}`, index * 1.25]);
+
+/** Serves `buffer` in slices of `size` bytes, so records straddle chunks. */
+function chunked(buffer: ArrayBuffer, size: number) {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= buffer.byteLength) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(new Uint8Array(buffer.slice(offset, offset + size)));
+      offset += size;
+    },
+  });
+}
+
+async function collect(buffer: ArrayBuffer, size: number, signal?: AbortSignal) {
+  const rows: DbfRow[] = [];
+  const batches: number[] = [];
+  const summary = await streamDbf(
+    chunked(buffer, size),
+    {
+      onRows: (batch) => {
+        rows.push(...batch);
+        batches.push(batch.length);
+      },
+    },
+    { signal },
+  );
+  return { rows, batches, summary };
+}
+
+describe("streamDbf", () => {
+  it.each([1, 7, 37, 4096])("decodes the same rows as parseDbf in %i-byte chunks", async (size) => {
+    const buffer = writeDbf(fields, records, { encoding: "windows-1255", deleted: [3, 4] });
+    const { rows, summary } = await collect(buffer, size);
+    const parsed = parseDbf(buffer);
+    expect(rows).toEqual(parsed.records);
+    expect(summary).toMatchObject({
+      encoding: "windows-1255",
+      recordCount: 50,
+      parsedRecords: 48,
+      bytesRead: buffer.byteLength,
+    });
+  });
+
+  it("hands rows over as they arrive once the header prefetch is in", async () => {
+    // Past the 1 MB the header waits for, so later chunks become their own batches.
+    const wide = [{ name: "NOTE", type: "C", length: 100, decimalCount: 0 }];
+    const buffer = writeDbf(
+      wide,
+      Array.from({ length: 15_000 }, (_, index) => [String(index)]),
+    );
+    const { rows, batches } = await collect(buffer, 64 * 1024);
+    expect(rows).toHaveLength(15_000);
+    expect(rows[14_999]).toEqual(["14999"]);
+    expect(batches.length).toBeGreaterThan(5);
+  });
+
+  it("stops at the declared record count and ignores trailing bytes", async () => {
+    const buffer = writeDbf(fields, records.slice(0, 2));
+    const padded = new Uint8Array(buffer.byteLength + 100);
+    padded.set(new Uint8Array(buffer));
+    const { rows } = await collect(padded.buffer, 13);
+    expect(rows).toHaveLength(2);
+  });
+
+  it("rejects a header whose records are missing", async () => {
+    const buffer = writeDbf(fields, records);
+    const header = new DataView(buffer).getUint16(8, true);
+    await expect(collect(buffer.slice(0, header + 5), 64)).rejects.toThrow(/truncated/);
+  });
+
+  it("stops when the signal is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(collect(writeDbf(fields, records), 64, controller.signal)).rejects.toThrow(
+      "DBF conversion was cancelled.",
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  DbfConvertOptions,
+  DbfHeader,
+  DbfRow,
+  createRecordDecoder,
+  readDbfHeader,
+} from "./dbf";
+
+export type DbfStreamProgress = {
+  bytesRead: number;
+  records: number;
+};
+
+export type DbfStreamHandlers = {
+  onHeader?: (header: DbfHeader) => void | Promise<void>;
+  onRows: (rows: DbfRow[], progress: DbfStreamProgress) => void | Promise<void>;
+};
+
+export type DbfStreamOptions = DbfConvertOptions & {
+  signal?: AbortSignal;
+};
+
+export type DbfStreamSummary = DbfHeader & {
+  parsedRecords: number;
+  bytesRead: number;
+};
+
+// Enough record bytes for code page detection, matching what parseDbf samples.
+const HEADER_PREFETCH_BYTES = 1024 * 1024;
+
+function concat(a: Uint8Array, b: Uint8Array) {
+  if (!a.byteLength) return b;
+  const merged = new Uint8Array(a.byteLength + b.byteLength);
+  merged.set(a, 0);
+  merged.set(b, a.byteLength);
+  return merged;
+}
+
+/**
+ * Decodes a DBF from a byte stream without holding the whole file in memory.
+ * Rows are handed to `onRows` one chunk at a time; deleted rows are skipped
+ * just like in `parseDbf`.
+ */
+export async function streamDbf(
+  stream: ReadableStream<Uint8Array>,
+  handlers: DbfStreamHandlers,
+  options: DbfStreamOptions = {},
+): Promise<DbfStreamSummary> {
+  const reader = stream.getReader();
+  let pending: Uint8Array = new Uint8Array(0);
+  let bytesRead = 0;
+  let header: DbfHeader | null = null;
+  let decodeRecord: ReturnType<typeof createRecordDecoder> | null = null;
+  let recordIndex = 0;
+  let parsedRecords = 0;
+
+  try {
+    for (;;) {
+      if (options.signal?.aborted) {
+        throw new Error("DBF conversion was cancelled.");
+      }
+
+      const { value, done } = await reader.read();
+      if (value) {
+        pending = concat(pending, value);
+        bytesRead += value.byteLength;
+      }
+
+      if (!header) {
+        const headerLength =
+          pending.byteLength >= 32 ? new DataView(pending.buffer, pending.byteOffset).getUint16(8, true) : 0;
+        if (!done && (headerLength === 0 || pending.byteLength < headerLength + HEADER_PREFETCH_BYTES)) {
+          continue;
+        }
+        const prefix = pending.buffer.slice(pending.byteOffset, pending.byteOffset + pending.byteLength);
+        header = readDbfHeader(prefix as ArrayBuffer, options);
+        decodeRecord = createRecordDecoder(header, options);
+        pending = pending.subarray(header.headerLength);
+        if (header.recordCount > 0 && pending.byteLength < header.recordLength && done) {
+          throw new Error("DBF payload is truncated.");
+        }
+        await handlers.onHeader?.(header);
+      }
+
+      const available = Math.min(
+        Math.floor(pending.byteLength / header.recordLength),
+        header.recordCount - recordIndex,
+      );
+      if (available > 0 && decodeRecord) {
+        const view = new DataView(pending.buffer, pending.byteOffset, available * header.recordLength);
+        const rows: DbfRow[] = [];
+        for (let index = 0; index < available; index += 1) {
+          const row = decodeRecord(view, index * header.recordLength);
+          if (row) rows.push(row);
+        }
+        recordIndex += available;
+        parsedRecords += rows.length;
+        pending = pending.subarray(available * header.recordLength);
+        await handlers.onRows(rows, { bytesRead, records: parsedRecords });
+      }
+
+      if (done || recordIndex >= header.recordCount) {
+        break;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+
+  return {
+    ...(header as DbfHeader),
+    parsedRecords,
+    bytesRead,
+  };
+}
@@ -0,0 +1,59 @@
+import type { DbfEncoding, DbfEncodingSource } from "./codepages";
+import type { DbfHeader } from "./dbf";
+import type { ExportFormat } from "./exporters";
+import type { ShapefileLayer } from "./shapefile";
+
+/** What the DBF card shows after a conversion, and what the CLI writes per file. */
+export type DbfSummary = {
+  fileName: string;
+  declaredRecords: number;
+  parsedRecords: number;
+  fields: number;
+  headerLength: number;
+  recordLength: number;
+  encoding: DbfEncoding | null;
+  encodingSource: DbfEncodingSource | null;
+  format: ExportFormat;
+  shapeType: string | null;
+  geometries: number;
+  srid: number | null;
+};
+
+export function summarizeDbf(
+  fileName: string,
+  table: DbfHeader & { parsedRecords: number },
+  format: ExportFormat,
+): DbfSummary {
+  return {
+    fileName,
+    declaredRecords: table.recordCount,
+    parsedRecords: table.parsedRecords,
+    fields: table.fields.length,
+    headerLength: table.headerLength,
+    recordLength: table.recordLength,
+    encoding: table.encoding,
+    encodingSource: table.encodingSource,
+    format,
+    shapeType: null,
+    geometries: 0,
+    srid: null,
+  };
+}
+
+export function summarizeLayer(layer: ShapefileLayer, format: ExportFormat): DbfSummary {
+  const { table } = layer;
+  return {
+    fileName: layer.name,
+    declaredRecords: table?.recordCount ?? layer.features.length,
+    parsedRecords: table?.parsedRecords ?? layer.features.length,
+    fields: table?.fields.length ?? 0,
+    headerLength: table?.headerLength ?? 0,
+    recordLength: table?.recordLength ?? 0,
+    encoding: table?.encoding ?? null,
+    encodingSource: table?.encodingSource ?? null,
+    format,
+    shapeType: layer.shapeType,
+    geometries: layer.features.filter((feature) => feature.geometry).length,
+    srid: layer.srid,
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { parseDbf } from "./dbf";
+import { validateDbf } from "./dbfValidate";
+import { writeDbf } from "./dbfWrite";
+
+const TYPE_OFFSET = 32 + 11;
+
+/** A one-column table whose raw values are written as text, then retyped. */
+function tableOf(type: "N" | "F", values: string[]) {
+  const buffer = writeDbf(
+    [{ name: "VALUE", type: "C", length: 12, decimalCount: 0 }],
+    values.map((value) => [value.padStart(12, " ")]),
+  );
+  new Uint8Array(buffer)[TYPE_OFFSET] = type.charCodeAt(0);
+  return buffer;
+}
+
+const mismatchesOf = (buffer: ArrayBuffer) =>
+  validateDbf(buffer)
+    .issues.find((issue) => issue.code === "type-mismatch")
+    ?.samples?.map((sample) => sample.value) ?? [];
+
+describe("validateDbf numeric fields", () => {
+  it("accepts plain signed decimals", () => {
+    const buffer = tableOf("N", ["12", "-3.5", "+0.25", ".5", "7.", ""]);
+    expect(validateDbf(buffer).valid).toBe(true);
+    expect(parseDbf(buffer).records.map((row) => row[0])).toEqual([12, -3.5, 0.25, 0.5, 7, null]);
+  });
+
+  it("rejects what Number() takes but dBase does not", () => {
+    const buffer = tableOf("N", ["0x1A", "1e3", "Infinity", "0b11", "1 000"]);
+    expect(mismatchesOf(buffer)).toEqual(["0x1A", "1e3", "Infinity", "0b11", "1 000"]);
+    expect(parseDbf(buffer).records.every((row) => row[0] === null)).toBe(true);
+  });
+
+  it("allows an exponent in float fields only", () => {
+    expect(validateDbf(tableOf("F", ["1.5e+002", "-2E-3"])).valid).toBe(true);
+    expect(mismatchesOf(tableOf("F", ["0x1A"]))).toEqual(["0x1A"]);
+  });
+});
@@ -0,0 +1,318 @@
+import { DbfConvertOptions, DbfFieldMeta, DbfHeader, isValidFieldText, readDbfHeader } from "./dbf";
+
+export type DbfIssueSeverity = "error" | "warning" | "info";
+
+export type DbfIssueCode =
+  | "header"
+  | "record-length"
+  | "record-count"
+  | "truncated"
+  | "trailing-bytes"
+  | "missing-eof"
+  | "deleted-records"
+  | "deletion-flag"
+  | "type-mismatch"
+  | "duplicate-field"
+  | "empty-field-name";
+
+export type DbfValidationIssue = {
+  severity: DbfIssueSeverity;
+  code: DbfIssueCode;
+  message: string;
+  field?: string;
+  count?: number;
+  /** A few offending values; `record` is the zero-based position in the file. */
+  samples?: { record: number; value: string }[];
+};
+
+export type DbfValidationReport = {
+  /** False when any issue is an error. */
+  valid: boolean;
+  declaredRecords: number;
+  /** Complete records physically present, including any past the declared count. */
+  actualRecords: number;
+  deletedRecords: number;
+  /** Bytes after the last complete record that are not the EOF marker. */
+  truncatedTailBytes: number;
+  hasEofMarker: boolean;
+  issues: DbfValidationIssue[];
+};
+
+export type DbfValidator = {
+  push: (chunk: Uint8Array) => void;
+  finish: () => DbfValidationReport;
+};
+
+const EOF_MARKER = 0x1a;
+const DELETED_FLAG = 0x2a;
+const ACTIVE_FLAG = 0x20;
+const MAX_SAMPLES = 5;
+// Enough data after the header for code page detection of field names.
+const HEADER_PREFETCH_BYTES = 64 * 1024;
+const TYPED_FIELDS = new Set(["N", "F", "D", "L"]);
+
+function concat(a: Uint8Array, b: Uint8Array) {
+  if (!a.byteLength) return b;
+  const merged = new Uint8Array(a.byteLength + b.byteLength);
+  merged.set(a, 0);
+  merged.set(b, a.byteLength);
+  return merged;
+}
+
+function plural(count: number, word: string) {
+  return `${count.toLocaleString()} ${word}${count === 1 ? "" : "s"}`;
+}
+
+function headerIssues(header: DbfHeader): DbfValidationIssue[] {
+  const issues: DbfValidationIssue[] = [];
+  const fieldBytes = header.fields.reduce((total, field) => total + field.length, 0);
+  if (fieldBytes + 1 !== header.recordLength) {
+    issues.push({
+      severity: "error",
+      code: "record-length",
+      message: `Fields add up to ${fieldBytes + 1} bytes per record but the header says ${header.recordLength}; values will be misaligned.`,
+    });
+  }
+
+  for (const index of header.unnamedFields) {
+    issues.push({
+      severity: "warning",
+      code: "empty-field-name",
+      field: header.fields[index].name,
+      message: `Field ${index + 1} has no name and was read as "${header.fields[index].name}".`,
+    });
+  }
+
+  const byName = new Map<string, DbfFieldMeta[]>();
+  for (const field of header.fields) {
+    const key = field.name.toUpperCase();
+    byName.set(key, [...(byName.get(key) ?? []), field]);
+  }
+  byName.forEach((fields) => {
+    if (fields.length < 2) return;
+    issues.push({
+      severity: "error",
+      code: "duplicate-field",
+      field: fields[0].name,
+      count: fields.length,
+      message: `Field name "${fields[0].name}" is used ${fields.length} times; only the last one survives in JSON and GeoJSON output.`,
+    });
+  });
+  return issues;
+}
+
+/**
+ * Checks a DBF fed to it chunk by chunk, so large files can be validated
+ * while they stream through the converter.
+ */
+export function createDbfValidator(
+  options: Pick<DbfConvertOptions, "encoding" | "cpg"> = {},
+): DbfValidator {
+  let prefix: Uint8Array = new Uint8Array(0);
+  let header: DbfHeader | null = null;
+  let headerError: unknown = null;
+  let pending: Uint8Array = new Uint8Array(0);
+  let checks: { field: DbfFieldMeta; offset: number }[] = [];
+  let records = 0;
+  let deleted = 0;
+  let badFlags = 0;
+  let tailBytes = 0;
+  let firstTailByte = -1;
+  const mismatches = new Map<DbfFieldMeta, { count: number; samples: { record: number; value: string }[] }>();
+
+  const checkRecord = (data: Uint8Array, offset: number) => {
+    const flag = data[offset];
+    if (flag === DELETED_FLAG) {
+      deleted += 1;
+      return;
+    }
+    if (flag !== ACTIVE_FLAG) badFlags += 1;
+
+    for (const check of checks) {
+      const start = offset + check.offset;
+      const text = String.fromCharCode(...data.subarray(start, start + check.field.length));
+      if (isValidFieldText(check.field, text)) continue;
+      const entry = mismatches.get(check.field) ?? { count: 0, samples: [] };
+      entry.count += 1;
+      if (entry.samples.length < MAX_SAMPLES) {
+        entry.samples.push({ record: records, value: text.trim() });
+      }
+      mismatches.set(check.field, entry);
+    }
+  };
+
+  const consume = (bytes: Uint8Array) => {
+    if (!header) return;
+    const { recordLength, recordCount } = header;
+    const data = concat(pending, bytes);
+    let offset = 0;
+    while (records < recordCount && offset + recordLength <= data.byteLength) {
+      checkRecord(data, offset);
+      offset += recordLength;
+      records += 1;
+    }
+    if (records < recordCount) {
+      pending = data.slice(offset);
+      return;
+    }
+    pending = new Uint8Array(0);
+    if (offset < data.byteLength) {
+      if (firstTailByte < 0) firstTailByte = data[offset];
+      tailBytes += data.byteLength - offset;
+    }
+  };
+
+  const start = () => {
+    const current = readDbfHeader(prefix.slice().buffer, options);
+    header = current;
+    let offset = 1;
+    checks = [];
+    for (const field of current.fields) {
+      if (TYPED_FIELDS.has(field.type)) checks.push({ field, offset });
+      offset += field.length;
+    }
+    const rest = prefix.subarray(current.headerLength);
+    prefix = new Uint8Array(0);
+    consume(rest);
+    return current;
+  };
+
+  return {
+    push(chunk) {
+      if (header) {
+        consume(chunk);
+        return;
+      }
+      if (headerError) return;
+      prefix = concat(prefix, chunk);
+      if (prefix.byteLength < 32) return;
+      const headerLength = new DataView(prefix.buffer, prefix.byteOffset).getUint16(8, true);
+      if (prefix.byteLength < headerLength + HEADER_PREFETCH_BYTES) return;
+      try {
+        start();
+      } catch (error) {
+        // Reported by `finish`; nothing past a broken header can be checked.
+        headerError = error;
+        prefix = new Uint8Array(0);
+      }
+    },
+
+    finish() {
+      let current: DbfHeader;
+      try {
+        if (headerError) throw headerError;
+        current = header ?? start();
+      } catch (error) {
+        return {
+          valid: false,
+          declaredRecords: 0,
+          actualRecords: 0,
+          deletedRecords: 0,
+          truncatedTailBytes: 0,
+          hasEofMarker: false,
+          issues: [
+            {
+              severity: "error",
+              code: "header",
+              message: error instanceof Error ? error.message : "Unreadable DBF header.",
+            },
+          ],
+        };
+      }
+
+      const { recordCount, recordLength } = current;
+      const issues = headerIssues(current);
+      let actualRecords = records;
+      let truncatedTailBytes = 0;
+      let hasEofMarker = false;
+
+      if (records < recordCount) {
+        truncatedTailBytes = pending.byteLength;
+        issues.push({
+          severity: "error",
+          code: "truncated",
+          message: `Header declares ${plural(recordCount, "record")} but the file holds ${records.toLocaleString()} complete ones${
+            truncatedTailBytes ? ` and ${plural(truncatedTailBytes, "byte")} of a cut-off record` : ""
+          }.`,
+        });
+      } else {
+        hasEofMarker = firstTailByte === EOF_MARKER;
+        const extra = tailBytes - (hasEofMarker ? 1 : 0);
+        const undeclared = Math.floor(extra / recordLength);
+        truncatedTailBytes = extra % recordLength;
+        actualRecords += undeclared;
+        if (!hasEofMarker) {
+          issues.push({
+            severity: "warning",
+            code: "missing-eof",
+            message: "The 0x1A end-of-file marker is missing after the last record.",
+          });
+        }
+        if (undeclared) {
+          issues.push({
+            severity: "warning",
+            code: "record-count",
+            count: undeclared,
+            message: `${plural(undeclared, "record")} follow the ${recordCount.toLocaleString()} the header declares and are ignored.`,
+          });
+        }
+        if (truncatedTailBytes) {
+          issues.push({
+            severity: "warning",
+            code: "trailing-bytes",
+            count: truncatedTailBytes,
+            message: `${plural(truncatedTailBytes, "stray byte")} after the last record.`,
+          });
+        }
+      }
+
+      if (badFlags) {
+        issues.push({
+          severity: "error",
+          code: "deletion-flag",
+          count: badFlags,
+          message: `${plural(badFlags, "record")} start with neither a blank nor "*" deletion flag; the layout is probably off.`,
+        });
+      }
+      if (deleted) {
+        issues.push({
+          severity: "info",
+          code: "deleted-records",
+          count: deleted,
+          message: `${plural(deleted, "record")} flagged as deleted and left out of exports.`,
+        });
+      }
+      mismatches.forEach(({ count, samples }, field) => {
+        issues.push({
+          severity: "error",
+          code: "type-mismatch",
+          field: field.name,
+          count,
+          samples,
+          message: `${field.type}(${field.length}${
+            field.decimalCount ? `,${field.decimalCount}` : ""
+          }) field "${field.name}" has ${plural(count, "unparseable value")}, read as empty.`,
+        });
+      });
+
+      return {
+        valid: issues.every((issue) => issue.severity !== "error"),
+        declaredRecords: recordCount,
+        actualRecords,
+        deletedRecords: deleted,
+        truncatedTailBytes,
+        hasEofMarker,
+        issues,
+      };
+    },
+  };
+}
+
+export function validateDbf(
+  buffer: ArrayBuffer,
+  options: Pick<DbfConvertOptions, "encoding" | "cpg"> = {},
+): DbfValidationReport {
+  const validator = createDbfValidator(options);
+  validator.push(new Uint8Array(buffer));
+  return validator.finish();
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { DbfFieldMeta, DbfRow, parseDbf } from "./dbf";
+import { writeDbf } from "./dbfWrite";
+import { exportTable } from "./exporters";
+
+const fields: DbfFieldMeta[] = [
+  { name: "NAME", type: "C", length: 12, decimalCount: 0 },
+  { name: "AREA", type: "N", length: 10, decimalCount: 2 },
+  { name: "COUNT", type: "N", length: 6, decimalCount: 0 },
+  { name: "SURVEYED", type: "D", length: 8, decimalCount: 0 },
+  { name: "ACTIVE", type: "L", length: 1, decimalCount: 0 },
+];
+
+const records: DbfRow[] = [
+  ["Haifa", 1234.5, 12, "2020-03-01", true],
+  ["תל אביב יפו", 0.25, 0, "1999-12-31", false],
+  ["", null, null, null, null],
+];
+
+describe("writeDbf", () => {
+  it.each(["utf-8", "windows-1255", "cp862"] as const)(
+    "round-trips through parseDbf in %s",
+    (encoding) => {
+      const parsed = parseDbf(writeDbf(fields, records, { encoding }), { encoding });
+      expect(parsed.fields.map((field) => [field.name, field.type])).toEqual(
+        fields.map((field) => [field.name, field.type]),
+      );
+      expect(parsed.records).toEqual(records);
+    },
+  );
+
+  it("records the code page in the header", () => {
+    const parsed = parseDbf(writeDbf(fields, records, { encoding: "windows-1255" }));
+    expect(parsed.encoding).toBe("windows-1255");
+    expect(parsed.records[1][0]).toBe("תל אביב יפו");
+  });
+
+  it("widens a text field whose values need more bytes than it declares", () => {
+    // 11 Hebrew letters and spaces fit C(12) in Windows-1255 but take 20 bytes in UTF-8.
+    const parsed = parseDbf(writeDbf(fields, records, { encoding: "utf-8" }), {
+      encoding: "utf-8",
+    });
+    expect(parsed.fields[0].length).toBe(20);
+    expect(parsed.records[1][0]).toBe("תל אביב יפו");
+  });
+
+  it("rejects text longer than a dBase field can hold", () => {
+    const long = "א".repeat(200);
+    expect(() => writeDbf([fields[0]], [[long]], { encoding: "utf-8" })).toThrow(/400 bytes/);
+  });
+
+  it("rejects numbers that do not fit their field", () => {
+    expect(() => writeDbf([fields[2]], [[12345678]])).toThrow(/does not fit/);
+  });
+
+  it("writes doubles too wide for fixed point in exponent notation", () => {
+    const double = { name: "MEASURE", type: "B", length: 8, decimalCount: 0 };
+    const values = [[123456789012345.6], [1.5e300], [-0.25], [null]];
+    const parsed = parseDbf(writeDbf([double], values));
+    expect(parsed.fields[0]).toMatchObject({ type: "F", length: 20, decimalCount: 8 });
+    expect(parsed.records).toEqual([[123456789012345.6], [1.5e300], [-0.25], [null]]);
+  });
+
+  it("copies ids wider than a double digit for digit", () => {
+    const id = { name: "ID", type: "N", length: 20, decimalCount: 0 };
+    const parsed = parseDbf(writeDbf([id], [["12345678901234567890"], ["-7"]]));
+    expect(parsed.records).toEqual([["12345678901234567890"], ["-7"]]);
+  });
+
+  it("skips deleted rows on the way back", () => {
+    const parsed = parseDbf(writeDbf(fields, records, { deleted: [0] }));
+    expect(parsed.records).toEqual(records.slice(1));
+    expect(parsed.recordIndexes).toEqual([1, 2]);
+  });
+});
+
+describe("exportTable as DBF", () => {
+  it("writes the chosen code page instead of the source's", async () => {
+    const blob = await exportTable(
+      "dbf",
+      { fields, records, encoding: "windows-1255" },
+      { dbfEncoding: "cp862" },
+    );
+    const parsed = parseDbf(await blob.arrayBuffer(), { encoding: "cp862" });
+    expect(parsed.records).toEqual(records);
+  });
+});
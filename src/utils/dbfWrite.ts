@@ -0,0 +1,247 @@
+import { DbfEncoding, getEncoder, languageDriverFor } from "./codepages";
+import { DbfFieldMeta, DbfRow, DbfValue, formatFixed } from "./dbf";
+
+export type DbfWriteOptions = {
+  /** Code page for names and text values. Defaults to UTF-8. */
+  encoding?: DbfEncoding;
+  /** Rows to write with the `*` deletion flag, by index into `records`. */
+  deleted?: Iterable<number>;
+  /** Stamped into the header as the last update date. Defaults to now. */
+  updatedAt?: Date;
+};
+
+const DBASE_III = 0x03;
+const HEADER_SIZE = 32;
+const DESCRIPTOR_SIZE = 32;
+const NAME_BYTES = 10;
+const MAX_CHARACTER_LENGTH = 254;
+const MAX_NUMERIC_LENGTH = 20;
+const SPACE = 0x20;
+
+/**
+ * Maps a field onto the five types dBase III/IV readers all understand.
+ * FoxPro and dBase 7 extras are widened so their parsed values still fit:
+ * integers become `N`, doubles become `F` (written with fewer decimals or an
+ * exponent when too wide for fixed point), timestamps and memos become `C`
+ * (`writeDbf` rejects text longer than 254 bytes).
+ */
+export function toDbaseField(field: DbfFieldMeta): DbfFieldMeta {
+  switch (field.type) {
+    case "C":
+      return { ...field, length: Math.min(Math.max(field.length, 1), MAX_CHARACTER_LENGTH), decimalCount: 0 };
+    case "N":
+    case "F": {
+      const length = Math.min(Math.max(field.length, 1), MAX_NUMERIC_LENGTH);
+      return { ...field, length, decimalCount: Math.min(field.decimalCount, Math.max(length - 2, 0)) };
+    }
+    case "D":
+      return { ...field, length: 8, decimalCount: 0 };
+    case "L":
+      return { ...field, length: 1, decimalCount: 0 };
+    case "I":
+    case "+":
+      return { ...field, type: "N", length: 11, decimalCount: 0 };
+    case "B":
+    case "O":
+      return { ...field, type: "F", length: MAX_NUMERIC_LENGTH, decimalCount: 8 };
+    case "@":
+    case "T":
+      return { ...field, type: "C", length: 24, decimalCount: 0 };
+    default:
+      return { ...field, type: "C", length: MAX_CHARACTER_LENGTH, decimalCount: 0 };
+  }
+}
+
+/** Cuts a field name to at most `length` bytes without splitting a UTF-8 sequence. */
+function fitBytes(bytes: Uint8Array, length: number, encoding: DbfEncoding) {
+  if (bytes.byteLength <= length) return bytes;
+  let end = length;
+  if (encoding === "utf-8") {
+    while (end > 0 && (bytes[end] & 0xc0) === 0x80) end -= 1;
+  }
+  return bytes.subarray(0, end);
+}
+
+/**
+ * Widens `C` columns to their longest encoded value, since a code page change
+ * (e.g. Windows-1255 to UTF-8) can double the byte count. Text that would
+ * need more than 254 bytes throws rather than being cut.
+ */
+function fitTextColumns(
+  columns: DbfFieldMeta[],
+  records: DbfRow[],
+  encode: (text: string) => Uint8Array,
+) {
+  return columns.map((field, index) => {
+    if (field.type !== "C") return field;
+    let length = field.length;
+    for (const row of records) {
+      const value = row[index];
+      if (value === null || value === undefined || value === "") continue;
+      const bytes = encode(String(value)).byteLength;
+      if (bytes > MAX_CHARACTER_LENGTH) {
+        throw new Error(
+          `"${String(value).slice(0, 40)}…" needs ${bytes} bytes; text field "${field.name}" holds at most ${MAX_CHARACTER_LENGTH}.`,
+        );
+      }
+      length = Math.max(length, bytes);
+    }
+    return length === field.length ? field : { ...field, length };
+  });
+}
+
+/**
+ * The most precise form of `value` within `length` characters, for `F` values
+ * whose declared decimals leave too little room: the shortest exact text,
+ * then exponent notation with fewer and fewer digits.
+ */
+function formatFloat(value: number, length: number) {
+  for (const text of [String(value), value.toExponential()]) {
+    if (text.length <= length) return text;
+  }
+  for (let digits = 15; digits >= 0; digits -= 1) {
+    const text = value.toExponential(digits);
+    if (text.length <= length) return text;
+  }
+  return String(value);
+}
+
+function formatNumber(value: DbfValue, field: DbfFieldMeta) {
+  // Wide ids arrive as text (see `dbfColumnKind`) and are copied digit for digit.
+  const digits = typeof value === "string" ? /^\s*([+-]?\d+)\s*$/.exec(value)?.[1] : undefined;
+  const number = typeof value === "number" ? value : Number(String(value).trim());
+  if (!Number.isFinite(number)) {
+    throw new Error(`"${value}" is not a number (field "${field.name}").`);
+  }
+  let text =
+    digits && !field.decimalCount
+      ? digits.replace(/^\+/, "")
+      : formatFixed(number, field.decimalCount);
+  if (text.length > field.length && field.type === "F") {
+    text = formatFloat(number, field.length);
+  }
+  if (text.length > field.length) {
+    throw new Error(
+      `${text} does not fit ${field.type}(${field.length},${field.decimalCount}) field "${field.name}".`,
+    );
+  }
+  return text.padStart(field.length, " ");
+}
+
+function formatDate(value: DbfValue, field: DbfFieldMeta) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(String(value));
+  if (!match) {
+    throw new Error(`"${value}" is not a YYYY-MM-DD date (field "${field.name}").`);
+  }
+  return `${match[1]}${match[2]}${match[3]}`;
+}
+
+function formatLogical(value: DbfValue, field: DbfFieldMeta) {
+  if (typeof value === "boolean") return value ? "T" : "F";
+  const text = String(value).trim();
+  if (/^[TtYy1]/.test(text)) return "T";
+  if (/^[FfNn0]/.test(text)) return "F";
+  throw new Error(`"${value}" is not a logical value (field "${field.name}").`);
+}
+
+/**
+ * Serializes typed rows, as produced by `parseDbf`, into a dBase III table
+ * that `parseDbf` reads back to the same values. Column types and widths come
+ * from `fields` (see `toDbaseField` for types dBase III cannot hold); text
+ * columns are widened when a value needs more bytes in the output code page.
+ * UTF-8 and CP862 have no language driver ID, so header byte 29 is 0 for them
+ * and readers need a `.cpg` (see `cpgFor`) or detection to pick the code page.
+ */
+export function writeDbf(
+  fields: DbfFieldMeta[],
+  records: DbfRow[],
+  options: DbfWriteOptions = {},
+): ArrayBuffer {
+  if (!fields.length) {
+    throw new Error("A DBF needs at least one field.");
+  }
+
+  const encoding = options.encoding ?? "utf-8";
+  const encode = getEncoder(encoding);
+  const columns = fitTextColumns(fields.map(toDbaseField), records, encode);
+  const deleted = new Set(options.deleted ?? []);
+  const updatedAt = options.updatedAt ?? new Date();
+
+  const names = columns.map((field) => {
+    const name = fitBytes(encode(field.name.trim()), NAME_BYTES, encoding);
+    if (!name.byteLength) {
+      throw new Error("DBF field names cannot be empty.");
+    }
+    return name;
+  });
+  const seen = new Set<string>();
+  names.forEach((name, index) => {
+    // dBase matches field names case-insensitively.
+    const key = Array.from(name, (byte) => (byte >= 0x61 && byte <= 0x7a ? byte - 0x20 : byte)).join(",");
+    if (seen.has(key)) {
+      throw new Error(`Field name "${columns[index].name}" clashes with another once cut to ${NAME_BYTES} bytes.`);
+    }
+    seen.add(key);
+  });
+
+  const recordLength = 1 + columns.reduce((total, field) => total + field.length, 0);
+  const headerLength = HEADER_SIZE + columns.length * DESCRIPTOR_SIZE + 1;
+  if (recordLength > 0xffff) {
+    throw new Error(`Records would be ${recordLength} bytes; DBF allows at most 65535.`);
+  }
+
+  const bytes = new Uint8Array(headerLength + records.length * recordLength + 1);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, DBASE_III);
+  view.setUint8(1, updatedAt.getFullYear() - 1900);
+  view.setUint8(2, updatedAt.getMonth() + 1);
+  view.setUint8(3, updatedAt.getDate());
+  view.setUint32(4, records.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+  view.setUint8(29, languageDriverFor(encoding));
+
+  columns.forEach((field, index) => {
+    const offset = HEADER_SIZE + index * DESCRIPTOR_SIZE;
+    bytes.set(names[index], offset);
+    view.setUint8(offset + 11, field.type.charCodeAt(0));
+    view.setUint8(offset + 16, field.length);
+    view.setUint8(offset + 17, field.decimalCount);
+  });
+  view.setUint8(headerLength - 1, 0x0d);
+
+  records.forEach((row, rowIndex) => {
+    let offset = headerLength + rowIndex * recordLength;
+    bytes[offset] = deleted.has(rowIndex) ? 0x2a : SPACE;
+    offset += 1;
+
+    columns.forEach((field, index) => {
+      const value = row[index] ?? null;
+      bytes.fill(SPACE, offset, offset + field.length);
+      if (value !== null && value !== "") {
+        let text: string;
+        switch (field.type) {
+          case "N":
+          case "F":
+            text = formatNumber(value, field);
+            break;
+          case "D":
+            text = formatDate(value, field);
+            break;
+          case "L":
+            text = formatLogical(value, field);
+            break;
+          default:
+            text = String(value);
+        }
+        bytes.set(encode(text), offset);
+      } else if (field.type === "L") {
+        bytes[offset] = 0x3f;
+      }
+      offset += field.length;
+    });
+  });
+
+  bytes[bytes.byteLength - 1] = 0x1a;
+  return bytes.buffer;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { DbfFieldMeta, DbfRow } from "./dbf";
+import { EXPORT_FORMATS, exportTable } from "./exporters";
+import { Feature } from "./geojson";
+
+const fields: DbfFieldMeta[] = [
+  { name: "NAME", type: "C", length: 12, decimalCount: 0 },
+  { name: "AREA", type: "N", length: 10, decimalCount: 2 },
+];
+const records: DbfRow[] = [
+  ["חיפה, עיר", 1.5],
+  ["", null],
+];
+const features: Feature[] = [
+  { type: "Feature", id: 0, geometry: { type: "Point", coordinates: [35, 32] }, properties: {} },
+  {
+    type: "Feature",
+    id: 1,
+    geometry: { type: "Point", coordinates: [34.8, 31.2] },
+    properties: {},
+  },
+];
+
+describe("exportTable", () => {
+  it("writes JSON Lines with one object per row", async () => {
+    const blob = await exportTable("jsonl", { fields, records });
+    expect(await blob.text()).toBe('{"NAME":"חיפה, עיר","AREA":1.5}\n{"NAME":"","AREA":null}\n');
+  });
+
+  it("quotes CSV values and keeps declared decimals", async () => {
+    const blob = await exportTable("csv", { fields, records }, { bom: false });
+    expect(await blob.text()).toBe('NAME,AREA\r\n"חיפה, עיר",1.50\r\n,');
+  });
+
+  it("writes a GeoJSON collection with its bounding box", async () => {
+    const blob = await exportTable("geojson", { fields, records, features });
+    expect(JSON.parse(await blob.text())).toEqual({
+      type: "FeatureCollection",
+      bbox: [34.8, 31.2, 35, 32],
+      features,
+    });
+  });
+
+  it("refuses GeoJSON without geometry", async () => {
+    await expect(exportTable("geojson", { fields, records })).rejects.toThrow(/needs geometry/);
+  });
+
+  it("labels every format with its MIME type", async () => {
+    for (const format of EXPORT_FORMATS.filter((item) => !item.needsGeometry)) {
+      const blob = await exportTable(format.id, { fields, records });
+      expect(blob.type).toBe(format.mimeType);
+    }
+  });
+});
@@ -0,0 +1,140 @@
+import { writeArrowIpc } from "./arrow";
+import type { DbfEncoding } from "./codepages";
+import { DbfConvertOptions, DbfFieldMeta, DbfRow, dbfRecordsToCsv, recordToObject } from "./dbf";
+import { writeDbf } from "./dbfWrite";
+import { BBox, Feature, FeatureCollection, geometryBbox, mergeBbox } from "./geojson";
+import { writeXlsx } from "./xlsx";
+
+export type ExportFormat = "csv" | "jsonl" | "xlsx" | "arrow" | "dbf" | "geojson";
+
+export type ExportFormatInfo = {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  /** Can be written row by row, so the DBF worker streams it instead of buffering. */
+  streamable: boolean;
+  /** Only meaningful when the source has geometry. */
+  needsGeometry: boolean;
+};
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  {
+    id: "csv",
+    label: "CSV (UTF-8)",
+    extension: "csv",
+    mimeType: "text/csv;charset=utf-8",
+    streamable: true,
+    needsGeometry: false,
+  },
+  {
+    id: "jsonl",
+    label: "JSON Lines",
+    extension: "jsonl",
+    mimeType: "application/x-ndjson",
+    streamable: true,
+    needsGeometry: false,
+  },
+  {
+    id: "xlsx",
+    label: "Excel workbook (XLSX)",
+    extension: "xlsx",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    streamable: false,
+    needsGeometry: false,
+  },
+  {
+    id: "arrow",
+    label: "Arrow IPC / Feather",
+    extension: "arrow",
+    mimeType: "application/vnd.apache.arrow.file",
+    streamable: false,
+    needsGeometry: false,
+  },
+  {
+    id: "dbf",
+    label: "dBase table (DBF)",
+    extension: "dbf",
+    mimeType: "application/dbase",
+    streamable: false,
+    needsGeometry: false,
+  },
+  {
+    id: "geojson",
+    label: "GeoJSON",
+    extension: "geojson",
+    mimeType: "application/geo+json",
+    streamable: false,
+    needsGeometry: true,
+  },
+];
+
+export function getExportFormat(format: ExportFormat) {
+  return EXPORT_FORMATS.find((item) => item.id === format) ?? EXPORT_FORMATS[0];
+}
+
+export type ExportSource = {
+  fields: DbfFieldMeta[];
+  records: DbfRow[];
+  /** Features in the same order as `records`, or on their own for a `.shp` without a `.dbf`. */
+  features?: Feature[];
+  /** Used as the XLSX sheet name. */
+  name?: string;
+  /** Code page of the source table; DBF exports are written in it too. */
+  encoding?: DbfEncoding;
+  /** Rows in the whole table, when `records` holds only its leading rows. */
+  totalRecords?: number;
+};
+
+export function dbfRowToJsonLine(fields: DbfFieldMeta[], row: DbfRow) {
+  return JSON.stringify(recordToObject(fields, row));
+}
+
+export function dbfRecordsToJsonLines(fields: DbfFieldMeta[], records: DbfRow[]) {
+  return records.map((row) => `${dbfRowToJsonLine(fields, row)}\n`).join("");
+}
+
+export function featuresToGeoJson(features: Feature[]): FeatureCollection {
+  const bbox = features.reduce<BBox | null>(
+    (acc, feature) => mergeBbox(acc, geometryBbox(feature.geometry)),
+    null,
+  );
+  return { type: "FeatureCollection", ...(bbox ? { bbox } : {}), features };
+}
+
+export type ExportOptions = Pick<DbfConvertOptions, "bom"> & {
+  /** Code page DBF output is written in; defaults to the source table's. */
+  dbfEncoding?: DbfEncoding;
+};
+
+/** Serialises a parsed table in the requested format. */
+export async function exportTable(
+  format: ExportFormat,
+  source: ExportSource,
+  options: ExportOptions = {},
+): Promise<Blob> {
+  const { mimeType } = getExportFormat(format);
+  switch (format) {
+    case "csv":
+      return new Blob([dbfRecordsToCsv(source.fields, source.records, options)], { type: mimeType });
+    case "jsonl":
+      return new Blob([dbfRecordsToJsonLines(source.fields, source.records)], { type: mimeType });
+    case "xlsx":
+      // writeZip labels its blob as a plain zip.
+      return new Blob([await writeXlsx(source.fields, source.records, source.name)], {
+        type: mimeType,
+      });
+    case "arrow":
+      return writeArrowIpc(source.fields, source.records);
+    case "dbf":
+      return new Blob(
+        [writeDbf(source.fields, source.records, { encoding: options.dbfEncoding ?? source.encoding })],
+        { type: mimeType },
+      );
+    case "geojson":
+      if (!source.features?.some((feature) => feature.geometry)) {
+        throw new Error("GeoJSON export needs geometry; add the .shp next to the .dbf.");
+      }
+      return new Blob([JSON.stringify(featuresToGeoJson(source.features))], { type: mimeType });
+  }
+}
@@ -0,0 +1,160 @@
+import { BBox, Feature, Geometry, geometryBbox, mergeBbox } from "./geojson";
+import { toWkt } from "./geometry";
+
+export type DisplayGeometryKind = "Point" | "Polyline" | "Polygon";
+
+export type DisplaySymbol = {
+  outlineColor: number[];
+  outlineWidth: number;
+  fillColor: number[];
+};
+
+/** Mirrors the options object `govmap.displayGeometries` takes. */
+export type DisplayGeometriesBatch = {
+  kind: DisplayGeometryKind;
+  wkts: string[];
+  names: string[];
+  symbols: DisplaySymbol[];
+  tooltips: string[];
+};
+
+export type DisplayPlanOptions = {
+  colorField?: string;
+  labelField?: string;
+  batchSize?: number;
+};
+
+export type DisplayPlan = {
+  batches: DisplayGeometriesBatch[];
+  bbox: BBox | null;
+  skipped: number;
+  legend: { label: string; color: string }[];
+};
+
+const DEFAULT_BATCH_SIZE = 500;
+const DEFAULT_COLOR = "#de3b8a";
+const PALETTE = [
+  "#de3b8a",
+  "#2563eb",
+  "#16a34a",
+  "#f59e0b",
+  "#7c3aed",
+  "#0891b2",
+  "#dc2626",
+  "#65a30d",
+  "#db2777",
+  "#475569",
+];
+const RAMP_LOW = [37, 99, 235];
+const RAMP_HIGH = [220, 38, 38];
+const RAMP_STEPS = 5;
+
+function kindOf(geometry: Geometry): DisplayGeometryKind {
+  switch (geometry.type) {
+    case "Point":
+    case "MultiPoint":
+      return "Point";
+    case "LineString":
+    case "MultiLineString":
+      return "Polyline";
+    default:
+      return "Polygon";
+  }
+}
+
+function hexToRgb(hex: string) {
+  const value = Number.parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function rgbToHex([r, g, b]: number[]) {
+  return `#${[r, g, b].map((channel) => Math.round(channel).toString(16).padStart(2, "0")).join("")}`;
+}
+
+function symbolFor(hex: string): DisplaySymbol {
+  const rgb = hexToRgb(hex);
+  return { outlineColor: [...rgb, 1], outlineWidth: 2, fillColor: [...rgb, 0.35] };
+}
+
+/**
+ * Colours a column of attribute values: numeric columns get a blue-to-red ramp
+ * across their range, anything else cycles through a fixed palette. Takes the
+ * values alone so a legend can be had without building a display plan.
+ */
+export function buildColorScale(values: unknown[]) {
+  const legend: DisplayPlan["legend"] = [];
+  const numeric = values.filter((value): value is number => typeof value === "number");
+  if (numeric.length && numeric.length === values.filter((value) => value != null).length) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const value of numeric) {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+    const span = max - min || 1;
+    const colorAt = (ratio: number) =>
+      rgbToHex(RAMP_LOW.map((low, index) => low + (RAMP_HIGH[index] - low) * ratio));
+    for (let step = 0; step < RAMP_STEPS; step += 1) {
+      const ratio = step / (RAMP_STEPS - 1);
+      legend.push({ label: (min + span * ratio).toLocaleString(), color: colorAt(ratio) });
+    }
+    return {
+      colorOf: (value: unknown) =>
+        typeof value === "number" ? colorAt((value - min) / span) : DEFAULT_COLOR,
+      legend,
+    };
+  }
+
+  const assigned = new Map<string, string>();
+  for (const value of values) {
+    const key = String(value ?? "");
+    if (!assigned.has(key)) {
+      assigned.set(key, PALETTE[assigned.size % PALETTE.length]);
+    }
+  }
+  assigned.forEach((color, label) => legend.push({ label: label || "(empty)", color }));
+  return {
+    colorOf: (value: unknown) => assigned.get(String(value ?? "")) ?? DEFAULT_COLOR,
+    legend,
+  };
+}
+
+/**
+ * Splits features into `displayGeometries` calls. GovMap needs a single
+ * geometry type per call, and large layers are chunked so the iframe can keep
+ * up.
+ */
+export function planFeatureDisplay(features: Feature[], options: DisplayPlanOptions = {}): DisplayPlan {
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  const field = options.colorField;
+  const { colorOf, legend } = field
+    ? buildColorScale(features.map((feature) => feature.properties[field]))
+    : { colorOf: () => DEFAULT_COLOR, legend: [] };
+  const open = new Map<DisplayGeometryKind, DisplayGeometriesBatch>();
+  const batches: DisplayGeometriesBatch[] = [];
+  let bbox: BBox | null = null;
+  let skipped = 0;
+
+  features.forEach((feature, index) => {
+    if (!feature.geometry) {
+      skipped += 1;
+      return;
+    }
+    const kind = kindOf(feature.geometry);
+    let batch = open.get(kind);
+    if (!batch || batch.wkts.length >= batchSize) {
+      batch = { kind, wkts: [], names: [], symbols: [], tooltips: [] };
+      open.set(kind, batch);
+      batches.push(batch);
+    }
+
+    const label = options.labelField ? String(feature.properties[options.labelField] ?? "") : "";
+    batch.wkts.push(toWkt(feature.geometry, { flat: true }));
+    batch.names.push(String(feature.id ?? index));
+    batch.symbols.push(symbolFor(colorOf(field ? feature.properties[field] : undefined)));
+    batch.tooltips.push(label);
+    bbox = mergeBbox(bbox, geometryBbox(feature.geometry));
+  });
+
+  return { batches, bbox, skipped, legend };
+}
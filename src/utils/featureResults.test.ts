@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { parseDbf } from "./dbf";
+import { writeDbf } from "./dbfWrite";
+import { extractResultFeatures, objectsToTable, resultFeaturesToTable } from "./featureResults";
+
+const parcel = (objectId: number, gush: number, area: number) => ({
+  objectId,
+  fields: { GUSH_NUM: gush, LEGAL_AREA: area },
+  wkt: "POLYGON ((200000 600000, 200010 600000, 200010 600010, 200000 600000))",
+});
+
+describe("extractResultFeatures", () => {
+  it("reads a getLayerEntities page", () => {
+    const found = extractResultFeatures({
+      layerName: "PARCEL_ALL",
+      totalCount: 2,
+      pageNumber: 1,
+      data: [parcel(7, 6638, 512), parcel(8, 6638, 85.5)],
+    });
+    expect(found).toHaveLength(2);
+    expect(found![0]).toEqual({
+      layerName: "PARCEL_ALL",
+      feature: {
+        type: "Feature",
+        id: 7,
+        geometry: {
+          type: "Polygon",
+          coordinates: [
+            [
+              [200000, 600000],
+              [200010, 600000],
+              [200010, 600010],
+              [200000, 600000],
+            ],
+          ],
+        },
+        properties: { GUSH_NUM: 6638, LEGAL_AREA: 512 },
+      },
+    });
+  });
+
+  it("reads identify results grouped by layer", () => {
+    const found = extractResultFeatures({
+      data: [
+        { layerName: "PARCEL_ALL", entities: [parcel(1, 6638, 512)] },
+        {
+          layerName: "SUB_GUSH_ALL",
+          entities: [
+            {
+              ObjectId: 2,
+              Fields: [
+                { FieldName: "GUSH_NUM", FieldValue: 6638 },
+                { FieldName: "STATUS", FieldValue: "מוסדר" },
+              ],
+              geometry: { x: 200005, y: 600005 },
+            },
+          ],
+        },
+        { layerName: "NADLAN", entities: [] },
+      ],
+    });
+    expect(found!.map((item) => [item.layerName, item.feature.id])).toEqual([
+      ["PARCEL_ALL", 1],
+      ["SUB_GUSH_ALL", 2],
+    ]);
+    expect(found![1].feature).toMatchObject({
+      geometry: { type: "Point", coordinates: [200005, 600005] },
+      properties: { GUSH_NUM: 6638, STATUS: "מוסדר" },
+    });
+  });
+
+  it("reads intersect results with ArcGIS attributes", () => {
+    const found = extractResultFeatures({
+      layerName: "PARCEL_ALL",
+      exceededTransferLimit: false,
+      data: [
+        {
+          attributes: { OBJECTID: 9, GUSH_NUM: 6638, OWNER: { kind: "state" } },
+          geometry: {
+            paths: [
+              [
+                [200000, 600000],
+                [200010, 600010],
+              ],
+            ],
+          },
+        },
+      ],
+    });
+    expect(found).toEqual([
+      {
+        layerName: "PARCEL_ALL",
+        feature: {
+          type: "Feature",
+          id: 9,
+          geometry: {
+            type: "MultiLineString",
+            coordinates: [
+              [
+                [200000, 600000],
+                [200010, 600010],
+              ],
+            ],
+          },
+          properties: { OBJECTID: 9, GUSH_NUM: 6638, OWNER: '{"kind":"state"}' },
+        },
+      },
+    ]);
+  });
+
+  it("tells an empty result from a response without features", () => {
+    expect(extractResultFeatures({ layerName: "PARCEL_ALL", data: [] })).toEqual([]);
+    expect(extractResultFeatures({ extent: { xmin: 0 }, level: 8 })).toBeNull();
+    expect(extractResultFeatures("ok")).toBeNull();
+  });
+});
+
+describe("resultFeaturesToTable", () => {
+  it("adds layer and id columns and keeps decimals through a DBF", () => {
+    const found = extractResultFeatures({
+      data: [
+        { layerName: "PARCEL_ALL", entities: [parcel(1, 6638, 85.5)] },
+        { layerName: "SUB_GUSH_ALL", entities: [parcel(2, 6639, 0.125)] },
+      ],
+    })!;
+    const table = resultFeaturesToTable(found);
+    expect(table.fields).toEqual([
+      { name: "layer", type: "C", length: 12, decimalCount: 0 },
+      { name: "objectId", type: "N", length: 15, decimalCount: 0 },
+      { name: "GUSH_NUM", type: "N", length: 15, decimalCount: 0 },
+      { name: "LEGAL_AREA", type: "F", length: 19, decimalCount: 3 },
+    ]);
+    expect(parseDbf(writeDbf(table.fields, table.records)).records).toEqual([
+      ["PARCEL_ALL", 1, 6638, 85.5],
+      ["SUB_GUSH_ALL", 2, 6639, 0.125],
+    ]);
+  });
+});
+
+describe("objectsToTable", () => {
+  it("caps inferred decimals at eight", () => {
+    const table = objectsToTable([{ price: 1.123456789012 }, { price: 2e-12 }, { price: 3 }]);
+    expect(table.fields[0]).toEqual({ name: "price", type: "F", length: 19, decimalCount: 8 });
+  });
+});
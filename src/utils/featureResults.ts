@@ -0,0 +1,206 @@
+/**
+ * Finds the features in a GovMap response (getLayerEntities, getEntities,
+ * identifyByXYAndLayer, intersectFeatures, or a plain GeoJSON collection) and
+ * turns them into the table shape the DBF preview and exporters work with.
+ */
+import type { DbfFieldMeta, DbfValue } from "./dbf";
+import type { ExportSource } from "./exporters";
+import type { Feature, Geometry } from "./geojson";
+import { parseGeoJson, parseGeometry } from "./geometry";
+
+export type ResultFeature = {
+  /** From the enclosing `{ layerName, entities }` group or response, when there is one. */
+  layerName?: string;
+  feature: Feature<Record<string, DbfValue>>;
+};
+
+/** Keys that hold an entity's attributes, in the spellings GovMap builds and ArcGIS use. */
+const FIELD_KEYS = ["fields", "Fields", "attributes", "properties"];
+const GEOMETRY_KEYS = ["wkt", "WKT", "geometry", "geom", "shape"];
+const ID_KEYS = ["objectId", "ObjectId", "objectID", "OBJECTID", "id"];
+/** Keys a response nests its entity lists under. */
+const LIST_KEYS = ["data", "entities", "features", "results", "Result"];
+const MAX_DEPTH = 4;
+
+type Loose = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Loose =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function cellValue(value: unknown): DbfValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string" || typeof value === "boolean") return value;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  return JSON.stringify(value);
+}
+
+/** Accepts `{ NAME: value }` maps and `[{ fieldName, fieldValue }]` lists. */
+function fieldsOf(value: unknown): Record<string, DbfValue> | null {
+  if (Array.isArray(value)) {
+    const properties: Record<string, DbfValue> = {};
+    for (const item of value) {
+      if (!isRecord(item)) return null;
+      const name = item.fieldName ?? item.FieldName ?? item.name ?? item.alias;
+      if (typeof name !== "string") return null;
+      properties[name] = cellValue(item.fieldValue ?? item.FieldValue ?? item.value);
+    }
+    return properties;
+  }
+  if (!isRecord(value)) return null;
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, cellValue(item)]));
+}
+
+/** WKT, GeoJSON or an ArcGIS `{ x, y }` / `{ paths }` / `{ rings }` shape; null when unreadable. */
+function geometryOf(value: unknown): Geometry | null {
+  try {
+    let parsed: unknown = null;
+    if (typeof value === "string" && value.trim()) {
+      parsed = parseGeometry(value).geometry;
+    } else if (isRecord(value) && typeof value.type === "string") {
+      parsed = parseGeoJson(value).geometry;
+    } else if (isRecord(value) && typeof value.x === "number" && typeof value.y === "number") {
+      parsed = { type: "Point", coordinates: [value.x, value.y] };
+    } else if (isRecord(value) && Array.isArray(value.rings)) {
+      parsed = { type: "Polygon", coordinates: value.rings };
+    } else if (isRecord(value) && Array.isArray(value.paths)) {
+      parsed = { type: "MultiLineString", coordinates: value.paths };
+    }
+    const geometry = parsed as Geometry | { type: "GeometryCollection" } | null;
+    return geometry && geometry.type !== "GeometryCollection" ? geometry : null;
+  } catch {
+    return null;
+  }
+}
+
+function entityFeature(value: unknown): ResultFeature["feature"] | null {
+  if (!isRecord(value)) return null;
+  const fieldsKey = FIELD_KEYS.find((key) => key in value);
+  const properties = fieldsKey ? fieldsOf(value[fieldsKey]) : null;
+  if (!properties) return null;
+  const geometryKey = GEOMETRY_KEYS.find((key) => value[key] !== undefined && value[key] !== null);
+  const idKey = ID_KEYS.find((key) => value[key] !== undefined && value[key] !== null);
+  const id = idKey ? value[idKey] : (properties.OBJECTID ?? properties.objectid);
+  return {
+    type: "Feature",
+    ...(typeof id === "string" || typeof id === "number" ? { id } : {}),
+    geometry: geometryKey ? geometryOf(value[geometryKey]) : null,
+    properties,
+  };
+}
+
+/**
+ * Every feature in a response, in response order, or null when it holds no
+ * feature list at all (so the caller can fall back to showing raw JSON).
+ */
+export function extractResultFeatures(result: unknown): ResultFeature[] | null {
+  const found: ResultFeature[] = [];
+  let sawList = false;
+
+  const collect = (value: unknown, layerName: string | undefined, depth: number) => {
+    if (depth > MAX_DEPTH) return;
+    if (Array.isArray(value)) {
+      const features = value.map(entityFeature);
+      if (value.length && features.every(Boolean)) {
+        sawList = true;
+        features.forEach((feature) => found.push({ layerName, feature: feature! }));
+        return;
+      }
+      value.forEach((item) => collect(item, layerName, depth + 1));
+      return;
+    }
+    if (!isRecord(value)) return;
+    const layer = typeof value.layerName === "string" ? value.layerName : layerName;
+    for (const key of LIST_KEYS) {
+      if (!(key in value)) continue;
+      if (Array.isArray(value[key]) && !(value[key] as unknown[]).length) sawList = true;
+      collect(value[key], layer, depth + 1);
+    }
+  };
+
+  collect(result, undefined, 0);
+  return found.length || sawList ? found : null;
+}
+
+const MAX_DECIMALS = 8;
+
+/** Digits after the point in the shortest text for `value`, exponent included. */
+function decimalPlaces(value: number) {
+  const [mantissa, exponent = "0"] = String(value).split("e");
+  const fraction = mantissa.split(".")[1]?.length ?? 0;
+  return Math.max(0, fraction - Number(exponent));
+}
+
+function inferField(name: string, values: DbfValue[]): DbfFieldMeta {
+  const present = values.filter((value) => value !== null);
+  if (present.length && present.every((value) => typeof value === "boolean")) {
+    return { name, type: "L", length: 1, decimalCount: 0 };
+  }
+  if (present.length && present.every((value) => typeof value === "number")) {
+    const decimals = Math.max(...present.map((value) => decimalPlaces(value as number)));
+    return decimals
+      ? { name, type: "F", length: 19, decimalCount: Math.min(decimals, MAX_DECIMALS) }
+      : { name, type: "N", length: 15, decimalCount: 0 };
+  }
+  const length = Math.max(1, ...present.map((value) => String(value).length));
+  return { name, type: "C", length: Math.min(length, 254), decimalCount: 0 };
+}
+
+/**
+ * A sortable, exportable table of result features. Columns follow first
+ * appearance; `layer` is added when features come from several layers, and
+ * `objectId` when it is not already an attribute.
+ */
+export function resultFeaturesToTable(
+  items: ResultFeature[],
+  name = "GovMap result",
+): ExportSource {
+  const layers = new Set(items.map((item) => item.layerName ?? ""));
+  const names: string[] = [];
+  const seen = new Set<string>();
+  const add = (key: string) => {
+    if (seen.has(key)) return;
+    seen.add(key);
+    names.push(key);
+  };
+  if (layers.size > 1) add("layer");
+  const attributeNames = new Set(items.flatMap((item) => Object.keys(item.feature.properties)));
+  const idColumn = [...attributeNames].some((key) => key.toLowerCase() === "objectid")
+    ? null
+    : "objectId";
+  if (idColumn && items.some((item) => item.feature.id !== undefined)) add(idColumn);
+  items.forEach((item) => Object.keys(item.feature.properties).forEach(add));
+
+  const rows = items.map((item): Record<string, DbfValue> => ({
+    ...item.feature.properties,
+    ...(layers.size > 1 ? { layer: item.layerName ?? null } : {}),
+    ...(idColumn && seen.has(idColumn) ? { [idColumn]: cellValue(item.feature.id) } : {}),
+  }));
+  const records = rows.map((row) => names.map((key) => row[key] ?? null));
+  const fields = names.map((key, column) =>
+    inferField(
+      key,
+      records.map((record) => record[column]),
+    ),
+  );
+  const features = items.map((item, index) => ({
+    ...item.feature,
+    properties: Object.fromEntries(names.map((key, column) => [key, records[index][column]])),
+  }));
+  return { fields, records, features, name };
+}
+
+/** A table of plain JSON rows, such as a REST list of deals; nested values become JSON text. */
+export function objectsToTable(
+  objects: Record<string, unknown>[],
+  name = "GovMap result",
+): ExportSource {
+  const names = [...new Set(objects.flatMap((item) => Object.keys(item)))];
+  const records = objects.map((item) => names.map((key) => cellValue(item[key])));
+  const fields = names.map((key, column) =>
+    inferField(
+      key,
+      records.map((record) => record[column]),
+    ),
+  );
+  return { fields, records, name };
+}
@@ -0,0 +1,74 @@
+export type Position = number[];
+
+export type BBox = [number, number, number, number];
+
+export type Point = { type: "Point"; coordinates: Position };
+export type MultiPoint = { type: "MultiPoint"; coordinates: Position[] };
+export type LineString = { type: "LineString"; coordinates: Position[] };
+export type MultiLineString = { type: "MultiLineString"; coordinates: Position[][] };
+export type Polygon = { type: "Polygon"; coordinates: Position[][] };
+export type MultiPolygon = { type: "MultiPolygon"; coordinates: Position[][][] };
+
+export type Geometry =
+  | Point
+  | MultiPoint
+  | LineString
+  | MultiLineString
+  | Polygon
+  | MultiPolygon;
+
+export type GeometryCollection = { type: "GeometryCollection"; geometries: AnyGeometry[] };
+
+/** Everything WKT can describe; `Geometry` alone is what shapefiles and GovMap layers hold. */
+export type AnyGeometry = Geometry | GeometryCollection;
+
+export type Feature<P = Record<string, unknown>> = {
+  type: "Feature";
+  id?: string | number;
+  geometry: Geometry | null;
+  properties: P;
+};
+
+export type FeatureCollection<P = Record<string, unknown>> = {
+  type: "FeatureCollection";
+  bbox?: BBox;
+  features: Feature<P>[];
+};
+
+export function eachPosition(geometry: AnyGeometry, visit: (position: Position) => void) {
+  if (geometry.type === "GeometryCollection") {
+    geometry.geometries.forEach((part) => eachPosition(part, visit));
+    return;
+  }
+  const walk = (value: unknown) => {
+    if (!Array.isArray(value)) return;
+    if (typeof value[0] === "number") {
+      visit(value as Position);
+      return;
+    }
+    value.forEach(walk);
+  };
+  walk(geometry.coordinates);
+}
+
+export function geometryBbox(geometry: AnyGeometry | null): BBox | null {
+  if (!geometry) return null;
+  let bbox: BBox | null = null;
+  eachPosition(geometry, ([x, y]) => {
+    if (!bbox) {
+      bbox = [x, y, x, y];
+      return;
+    }
+    bbox[0] = Math.min(bbox[0], x);
+    bbox[1] = Math.min(bbox[1], y);
+    bbox[2] = Math.max(bbox[2], x);
+    bbox[3] = Math.max(bbox[3], y);
+  });
+  return bbox;
+}
+
+export function mergeBbox(a: BBox | null, b: BBox | null): BBox | null {
+  if (!a) return b;
+  if (!b) return a;
+  return [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])];
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { Position } from "./geojson";
+import { parseWkt, toWkt, validateGeometry } from "./geometry";
+
+describe("parseWkt", () => {
+  it("keeps Z and warns when M values are dropped", () => {
+    expect(parseWkt("POINTM(1 2 3)")).toMatchObject({
+      geometry: { type: "Point", coordinates: [1, 2] },
+      warnings: [{ severity: "warning", message: expect.stringMatching(/M \(measure\)/) }],
+    });
+    expect(parseWkt("LINESTRING ZM(1 2 3 4,5 6 7 8)")).toMatchObject({
+      geometry: {
+        coordinates: [
+          [1, 2, 3],
+          [5, 6, 7],
+        ],
+      },
+      warnings: [{ message: expect.stringMatching(/2 positions/) }],
+    });
+    expect(parseWkt("POINT Z(1 2 3)").warnings).toEqual([]);
+  });
+});
+
+describe("toWkt", () => {
+  it.each([
+    "POINT(1 2)",
+    "POINT Z(1 2 3)",
+    "MULTIPOINT((1 2),(3 4))",
+    "POLYGON((0 0,1 0,1 1,0 0),(0.2 0.1,0.5 0.1,0.5 0.4,0.2 0.1))",
+    "GEOMETRYCOLLECTION(POINT(1 2),LINESTRING EMPTY)",
+  ])("round-trips %s", (wkt) => {
+    expect(toWkt(parseWkt(wkt).geometry)).toBe(wkt);
+  });
+
+  it("flattens Z and writes an SRID prefix", () => {
+    expect(toWkt(parseWkt("POINT Z(1 2 3)").geometry, { srid: 2039, flat: true })).toBe(
+      "SRID=2039;POINT(1 2)",
+    );
+  });
+});
+
+describe("validateGeometry", () => {
+  it("says when a ring is too long for the self-intersection check", () => {
+    const ring: Position[] = Array.from({ length: 2500 }, (_, index) => {
+      const angle = (index / 2500) * 2 * Math.PI;
+      return [Math.cos(angle), Math.sin(angle)];
+    });
+    ring.push(ring[0]);
+    const issues = validateGeometry({ type: "Polygon", coordinates: [ring] });
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: "warning", message: expect.stringMatching(/skipped/) }),
+    ]);
+  });
+});
@@ -0,0 +1,924 @@
+import {
+  AnyGeometry,
+  BBox,
+  Geometry,
+  MultiPolygon,
+  Polygon,
+  Position,
+  eachPosition,
+  geometryBbox,
+} from "./geojson";
+
+export type ParsedGeometry = {
+  geometry: AnyGeometry;
+  /** From an EWKT `SRID=…;` prefix or a GeoJSON `crs` member; null when the text does not say. */
+  srid: number | null;
+  /** What parsing could not keep, such as WKT M values. */
+  warnings: GeometryIssue[];
+};
+
+export type GeometryIssue = {
+  severity: "error" | "warning";
+  /** Human-readable location, e.g. "polygon 2, ring 1". Empty for the geometry as a whole. */
+  where: string;
+  message: string;
+};
+
+export type GeometryValidationOptions = {
+  /** Enables a sanity check that coordinates fall where that system covers Israel. */
+  srid?: number;
+};
+
+const WKT_TYPES: Record<string, AnyGeometry["type"]> = {
+  POINT: "Point",
+  MULTIPOINT: "MultiPoint",
+  LINESTRING: "LineString",
+  MULTILINESTRING: "MultiLineString",
+  POLYGON: "Polygon",
+  MULTIPOLYGON: "MultiPolygon",
+  GEOMETRYCOLLECTION: "GeometryCollection",
+};
+
+// Generous ITM extents around Israel; anything outside is almost always lon/lat or a swapped pair.
+const ITM_BOUNDS: BBox = [100000, 350000, 300000, 850000];
+// Self-intersection checks are quadratic; rings longer than this are only checked for closure.
+const MAX_SELF_INTERSECTION_VERTICES = 2000;
+
+// --- WKT ---
+
+/**
+ * Parses WKT or EWKT (`SRID=2039;POINT(…)`), including Z/M/ZM variants,
+ * `EMPTY` and nested GEOMETRYCOLLECTIONs. M values are dropped, with a
+ * warning, since GeoJSON has nowhere to put them.
+ */
+export function parseWkt(text: string): ParsedGeometry {
+  let index = 0;
+  let droppedMeasures = 0;
+
+  const fail: (expected: string) => never = (expected) => {
+    const found = text.slice(index, index + 12).trim();
+    throw new Error(
+      `Invalid WKT at character ${index + 1}: expected ${expected}, found ${found ? `"${found}"` : "end of input"}.`,
+    );
+  };
+  const skipSpace = () => {
+    while (index < text.length && /\s/.test(text[index])) index += 1;
+  };
+  const peek = () => {
+    skipSpace();
+    return text[index];
+  };
+  const expect = (char: string) => {
+    if (peek() !== char) fail(`"${char}"`);
+    index += 1;
+  };
+  const word = () => {
+    skipSpace();
+    const match = /^[A-Za-z]+/.exec(text.slice(index));
+    if (!match) return "";
+    index += match[0].length;
+    return match[0].toUpperCase();
+  };
+  const number = () => {
+    skipSpace();
+    const match = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i.exec(text.slice(index));
+    if (!match) return fail("a number");
+    index += match[0].length;
+    return Number(match[0]);
+  };
+  const isEmpty = () => {
+    const start = index;
+    if (word() === "EMPTY") return true;
+    index = start;
+    return false;
+  };
+
+  const position = (dimension: { tag: string; size: number | null }) => {
+    const values = [number(), number()];
+    while (/[-+.\d]/.test(peek() ?? "")) values.push(number());
+    if (values.length > 4) fail('"," or ")"');
+    const size = dimension.size ?? values.length;
+    if (values.length !== size) {
+      throw new Error(`Invalid WKT: mixed ${size}D and ${values.length}D coordinates.`);
+    }
+    dimension.size = size;
+    // Keep X Y and Z; an M ordinate sits third in "M" geometries and fourth in "ZM" ones.
+    if (dimension.tag === "M" || values.length === 4) droppedMeasures += 1;
+    if (dimension.tag === "M") return values.slice(0, 2);
+    return values.slice(0, 3);
+  };
+  const list = <T>(item: () => T) => {
+    expect("(");
+    const items = [item()];
+    while (peek() === ",") {
+      index += 1;
+      items.push(item());
+    }
+    expect(")");
+    return items;
+  };
+
+  const geometry = (): AnyGeometry => {
+    const keyword = word();
+    const typeMatch =
+      /^(MULTIPOINT|MULTILINESTRING|MULTIPOLYGON|GEOMETRYCOLLECTION|POINT|LINESTRING|POLYGON)(ZM|Z|M)?$/.exec(
+        keyword,
+      );
+    if (!typeMatch) {
+      index -= keyword.length;
+      return fail("a geometry type such as POINT or POLYGON");
+    }
+    const type = WKT_TYPES[typeMatch[1]];
+    let tag = typeMatch[2] ?? "";
+    if (!tag) {
+      const start = index;
+      const next = word();
+      if (next === "Z" || next === "M" || next === "ZM") tag = next;
+      else index = start;
+    }
+    const dimension = { tag, size: tag === "ZM" ? 4 : tag ? 3 : null };
+    const point = () => position(dimension);
+    const line = () => list(point);
+    const polygon = () => list(line);
+
+    if (isEmpty()) {
+      return type === "GeometryCollection"
+        ? { type, geometries: [] }
+        : ({ type, coordinates: [] } as Geometry);
+    }
+    switch (type) {
+      case "Point":
+        return { type, coordinates: list(point)[0] };
+      case "MultiPoint":
+        // Both MULTIPOINT(1 2,3 4) and MULTIPOINT((1 2),(3 4)) are in the wild.
+        return {
+          type,
+          coordinates: list(() => {
+            if (peek() !== "(") return point();
+            return list(point)[0];
+          }),
+        };
+      case "LineString":
+        return { type, coordinates: line() };
+      case "MultiLineString":
+        return { type, coordinates: list(line) };
+      case "Polygon":
+        return { type, coordinates: polygon() };
+      case "MultiPolygon":
+        return { type, coordinates: list(polygon) };
+      case "GeometryCollection":
+        return { type, geometries: list(geometry) };
+    }
+  };
+
+  let srid: number | null = null;
+  const prefix = /^\s*SRID=(\d+)\s*;/i.exec(text);
+  if (prefix) {
+    srid = Number(prefix[1]);
+    index = prefix[0].length;
+  }
+  if (!text.trim()) throw new Error("Geometry is empty.");
+  const result = geometry();
+  skipSpace();
+  if (index < text.length) fail("end of input");
+  const warnings: GeometryIssue[] = droppedMeasures
+    ? [
+        {
+          severity: "warning",
+          where: "",
+          message: `Dropped the M (measure) value of ${droppedMeasures} position${
+            droppedMeasures === 1 ? "" : "s"
+          }; GeoJSON and GovMap only keep X, Y and Z.`,
+        },
+      ]
+    : [];
+  return { geometry: result, srid, warnings };
+}
+
+const isEmptyGeometry = (geometry: AnyGeometry) =>
+  geometry.type === "GeometryCollection"
+    ? !geometry.geometries.length
+    : !geometry.coordinates.length;
+
+export type WktOptions = {
+  /** Written as an EWKT `SRID=…;` prefix. */
+  srid?: number | null;
+  /** Drop Z values, for consumers such as GovMap that only take 2D WKT. */
+  flat?: boolean;
+};
+
+function hasZ(geometry: Geometry) {
+  let sample: unknown = geometry.coordinates;
+  while (Array.isArray(sample) && Array.isArray(sample[0])) {
+    sample = sample[0];
+  }
+  return Array.isArray(sample) && sample.length > 2;
+}
+
+/** Serialises any geometry as WKT, or as EWKT when `srid` is given. */
+export function toWkt(geometry: AnyGeometry, options: WktOptions = {}): string {
+  const position = (value: Position) => (options.flat ? value.slice(0, 2) : value).join(" ");
+  const ring = (value: Position[]) => `(${value.map(position).join(",")})`;
+  const polygon = (value: Position[][]) => `(${value.map(ring).join(",")})`;
+
+  const body = (part: AnyGeometry): string => {
+    const keyword = Object.keys(WKT_TYPES).find((key) => WKT_TYPES[key] === part.type) ?? part.type;
+    if (isEmptyGeometry(part)) return `${keyword} EMPTY`;
+    if (part.type === "GeometryCollection") {
+      return `${keyword}(${part.geometries.map(body).join(",")})`;
+    }
+    const tag = !options.flat && hasZ(part) ? " Z" : "";
+    switch (part.type) {
+      case "Point":
+        return `${keyword}${tag}(${position(part.coordinates)})`;
+      case "MultiPoint":
+        return `${keyword}${tag}(${part.coordinates.map((point) => `(${position(point)})`).join(",")})`;
+      case "LineString":
+        return `${keyword}${tag}${ring(part.coordinates)}`;
+      case "MultiLineString":
+        return `${keyword}${tag}(${part.coordinates.map(ring).join(",")})`;
+      case "Polygon":
+        return `${keyword}${tag}${polygon(part.coordinates)}`;
+      case "MultiPolygon":
+        return `${keyword}${tag}(${part.coordinates.map(polygon).join(",")})`;
+    }
+  };
+  return options.srid ? `SRID=${options.srid};${body(geometry)}` : body(geometry);
+}
+
+// --- GeoJSON ---
+
+const COORDINATE_DEPTH: Record<Geometry["type"], number> = {
+  Point: 0,
+  MultiPoint: 1,
+  LineString: 1,
+  MultiLineString: 2,
+  Polygon: 2,
+  MultiPolygon: 3,
+};
+
+function checkCoordinates(value: unknown, depth: number, type: string): void {
+  if (!Array.isArray(value)) throw new Error(`${type} coordinates must be arrays.`);
+  if (depth === 0) {
+    if (
+      value.length &&
+      (value.length < 2 ||
+        !value.every((item) => typeof item === "number" && Number.isFinite(item)))
+    ) {
+      throw new Error(
+        `${type} has a position that is not two or more finite numbers: ${JSON.stringify(value)}.`,
+      );
+    }
+    return;
+  }
+  value.forEach((item) => checkCoordinates(item, depth - 1, type));
+}
+
+function geoJsonGeometry(value: unknown): AnyGeometry {
+  if (!value || typeof value !== "object") throw new Error("GeoJSON geometry must be an object.");
+  const candidate = value as { type?: unknown; coordinates?: unknown; geometries?: unknown };
+  if (candidate.type === "GeometryCollection") {
+    if (!Array.isArray(candidate.geometries))
+      throw new Error("GeometryCollection needs a geometries array.");
+    return { type: "GeometryCollection", geometries: candidate.geometries.map(geoJsonGeometry) };
+  }
+  const type = candidate.type as Geometry["type"];
+  if (!(type in COORDINATE_DEPTH))
+    throw new Error(`Unsupported GeoJSON type "${String(candidate.type)}".`);
+  checkCoordinates(candidate.coordinates, COORDINATE_DEPTH[type], type);
+  return { type, coordinates: candidate.coordinates } as Geometry;
+}
+
+function sridFromCrs(crs: unknown) {
+  const name = (crs as { properties?: { name?: unknown } } | undefined)?.properties?.name;
+  const match = typeof name === "string" ? /EPSG:{1,2}(\d+)$/i.exec(name) : null;
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Accepts a GeoJSON geometry, Feature or FeatureCollection (as text or an
+ * object). Features contribute their geometry; collections become a
+ * GeometryCollection.
+ */
+export function parseGeoJson(input: string | unknown): ParsedGeometry {
+  const value = typeof input === "string" ? JSON.parse(input) : input;
+  if (!value || typeof value !== "object") throw new Error("GeoJSON must be an object.");
+  const object = value as { type?: unknown; geometry?: unknown; features?: unknown; crs?: unknown };
+  const srid = sridFromCrs(object.crs);
+  if (object.type === "Feature") {
+    if (!object.geometry) throw new Error("Feature has no geometry.");
+    return { geometry: geoJsonGeometry(object.geometry), srid, warnings: [] };
+  }
+  if (object.type === "FeatureCollection") {
+    if (!Array.isArray(object.features))
+      throw new Error("FeatureCollection needs a features array.");
+    const geometries = object.features
+      .map((feature: { geometry?: unknown }) => feature?.geometry)
+      .filter(Boolean)
+      .map(geoJsonGeometry);
+    return { geometry: { type: "GeometryCollection", geometries }, srid, warnings: [] };
+  }
+  return { geometry: geoJsonGeometry(object), srid, warnings: [] };
+}
+
+/** Parses whatever a geometry field holds: GeoJSON when it starts with `{`, WKT/EWKT otherwise. */
+export function parseGeometry(text: string): ParsedGeometry {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("Geometry is empty.");
+  if (trimmed.startsWith("{")) {
+    try {
+      return parseGeoJson(JSON.parse(trimmed));
+    } catch (error) {
+      throw new Error(`Invalid GeoJSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return parseWkt(trimmed);
+}
+
+export function toGeoJson(geometry: AnyGeometry, space?: number): string {
+  return JSON.stringify(geometry, null, space);
+}
+
+// --- Validation ---
+
+type Segment = [Position, Position];
+
+function samePosition(a: Position, b: Position) {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+function cross(o: Position, a: Position, b: Position) {
+  return (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+}
+
+function segmentsIntersect([a, b]: Segment, [c, d]: Segment) {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0)))
+    return true;
+  const onSegment = (p: Position, q: Position, r: Position) =>
+    Math.min(p[0], q[0]) <= r[0] &&
+    r[0] <= Math.max(p[0], q[0]) &&
+    Math.min(p[1], q[1]) <= r[1] &&
+    r[1] <= Math.max(p[1], q[1]);
+  return (
+    (d1 === 0 && onSegment(c, d, a)) ||
+    (d2 === 0 && onSegment(c, d, b)) ||
+    (d3 === 0 && onSegment(a, b, c)) ||
+    (d4 === 0 && onSegment(a, b, d))
+  );
+}
+
+function ringSelfIntersects(ring: Position[]) {
+  const segments: Segment[] = [];
+  for (let index = 0; index + 1 < ring.length; index += 1)
+    segments.push([ring[index], ring[index + 1]]);
+  for (let i = 0; i < segments.length; i += 1) {
+    for (let j = i + 2; j < segments.length; j += 1) {
+      // The first and last segments share the closing vertex.
+      if (i === 0 && j === segments.length - 1) continue;
+      if (segmentsIntersect(segments[i], segments[j])) return true;
+    }
+  }
+  return false;
+}
+
+/** Shoelace area; positive for counter-clockwise rings. */
+function signedRingArea(ring: Position[]) {
+  let sum = 0;
+  for (let index = 0; index + 1 < ring.length; index += 1) {
+    sum += ring[index][0] * ring[index + 1][1] - ring[index + 1][0] * ring[index][1];
+  }
+  return sum / 2;
+}
+
+function pointInRing([x, y]: Position, ring: Position[]) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i, i += 1) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+function checkLine(line: Position[], where: string, issues: GeometryIssue[]) {
+  const distinct = line.filter(
+    (position, index) => index === 0 || !samePosition(position, line[index - 1]),
+  );
+  if (distinct.length < 2) {
+    issues.push({
+      severity: "error",
+      where,
+      message: "A line needs at least two distinct points.",
+    });
+  }
+}
+
+function checkPolygon(rings: Position[][], where: string, issues: GeometryIssue[]) {
+  rings.forEach((ring, index) => {
+    const label = `${where}${where ? ", " : ""}${index ? `hole ${index}` : "outer ring"}`;
+    if (ring.length < 4) {
+      issues.push({
+        severity: "error",
+        where: label,
+        message: `A ring needs at least 4 points, got ${ring.length}.`,
+      });
+      return;
+    }
+    if (!samePosition(ring[0], ring[ring.length - 1])) {
+      issues.push({
+        severity: "error",
+        where: label,
+        message: `Ring is not closed: starts at ${ring[0].join(" ")} but ends at ${ring[ring.length - 1].join(" ")}.`,
+      });
+      return;
+    }
+    if (signedRingArea(ring) === 0) {
+      issues.push({ severity: "error", where: label, message: "Ring has zero area." });
+      return;
+    }
+    if (ring.length > MAX_SELF_INTERSECTION_VERTICES) {
+      issues.push({
+        severity: "warning",
+        where: label,
+        message: `Ring has ${ring.length.toLocaleString()} points; the self-intersection check only runs up to ${MAX_SELF_INTERSECTION_VERTICES.toLocaleString()} and was skipped.`,
+      });
+    } else if (ringSelfIntersects(ring)) {
+      issues.push({ severity: "error", where: label, message: "Ring crosses itself." });
+    }
+    if (index && rings[0].length >= 4 && !pointInRing(ring[0], rings[0])) {
+      issues.push({
+        severity: "error",
+        where: label,
+        message: "Hole lies outside the outer ring.",
+      });
+    }
+  });
+}
+
+function checkExtent(geometry: AnyGeometry, srid: number, issues: GeometryIssue[]) {
+  const bbox = geometryBbox(geometry);
+  if (!bbox) return;
+  const [xmin, ymin, xmax, ymax] = bbox;
+  if (srid === 4326 && (xmin < -180 || xmax > 180 || ymin < -90 || ymax > 90)) {
+    issues.push({
+      severity: "error",
+      where: "",
+      message: "Longitude/latitude values are out of range.",
+    });
+  }
+  if (srid === 2039) {
+    const [bxmin, bymin, bxmax, bymax] = ITM_BOUNDS;
+    if (xmin < bxmin || ymin < bymin || xmax > bxmax || ymax > bymax) {
+      const lonLat =
+        Math.abs(xmin) <= 180 &&
+        Math.abs(xmax) <= 180 &&
+        Math.abs(ymin) <= 90 &&
+        Math.abs(ymax) <= 90;
+      issues.push({
+        severity: "warning",
+        where: "",
+        message: lonLat
+          ? "Coordinates look like longitude/latitude, not ITM metres."
+          : "Coordinates fall outside Israel in ITM; check for swapped X/Y.",
+      });
+    }
+  }
+}
+
+/** Structural checks GovMap does not report: closure, ring sizes, self-crossings, stray extents. */
+export function validateGeometry(
+  geometry: AnyGeometry,
+  options: GeometryValidationOptions = {},
+): GeometryIssue[] {
+  const issues: GeometryIssue[] = [];
+  const visit = (part: AnyGeometry, where: string) => {
+    const nested = (label: string, index: number) =>
+      `${where}${where ? ", " : ""}${label} ${index + 1}`;
+    switch (part.type) {
+      case "Point":
+      case "MultiPoint":
+        break;
+      case "LineString":
+        checkLine(part.coordinates, where, issues);
+        break;
+      case "MultiLineString":
+        part.coordinates.forEach((line, index) => checkLine(line, nested("line", index), issues));
+        break;
+      case "Polygon":
+        checkPolygon(part.coordinates, where, issues);
+        break;
+      case "MultiPolygon":
+        part.coordinates.forEach((polygon, index) =>
+          checkPolygon(polygon, nested("polygon", index), issues),
+        );
+        break;
+      case "GeometryCollection":
+        part.geometries.forEach((child, index) => visit(child, nested("geometry", index)));
+        break;
+    }
+  };
+
+  if (isEmptyGeometry(geometry)) {
+    issues.push({ severity: "warning", where: "", message: `${geometry.type} is empty.` });
+    return issues;
+  }
+  let nonFinite = false;
+  eachPosition(geometry, (position) => {
+    if (position.length < 2 || !position.every(Number.isFinite)) nonFinite = true;
+  });
+  if (nonFinite) {
+    issues.push({
+      severity: "error",
+      where: "",
+      message: "Some coordinates are missing or not finite numbers.",
+    });
+    return issues;
+  }
+  visit(geometry, "");
+  if (options.srid) checkExtent(geometry, options.srid, issues);
+  return issues;
+}
+
+/** Throws with every error found; returns the warnings so callers can log them. */
+export function assertValidGeometry(
+  geometry: AnyGeometry,
+  options: GeometryValidationOptions = {},
+) {
+  const issues = validateGeometry(geometry, options);
+  const errors = issues.filter((issue) => issue.severity === "error");
+  if (errors.length) {
+    throw new Error(
+      `Invalid geometry: ${errors.map((issue) => (issue.where ? `${issue.where}: ${issue.message}` : issue.message)).join(" ")}`,
+    );
+  }
+  return issues;
+}
+
+// --- Measurement (planar, in the geometry's own units; pass ITM for metres) ---
+
+function polygonParts(geometry: AnyGeometry): Position[][][] {
+  switch (geometry.type) {
+    case "Polygon":
+      return [geometry.coordinates];
+    case "MultiPolygon":
+      return geometry.coordinates;
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(polygonParts);
+    default:
+      return [];
+  }
+}
+
+function lineParts(geometry: AnyGeometry): Position[][] {
+  switch (geometry.type) {
+    case "LineString":
+      return [geometry.coordinates];
+    case "MultiLineString":
+      return geometry.coordinates;
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(lineParts);
+    default:
+      return [];
+  }
+}
+
+function pointParts(geometry: AnyGeometry): Position[] {
+  switch (geometry.type) {
+    case "Point":
+      return geometry.coordinates.length ? [geometry.coordinates] : [];
+    case "MultiPoint":
+      return geometry.coordinates;
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(pointParts);
+    default:
+      return [];
+  }
+}
+
+function pathLength(path: Position[]) {
+  let total = 0;
+  for (let index = 0; index + 1 < path.length; index += 1) {
+    total += Math.hypot(path[index + 1][0] - path[index][0], path[index + 1][1] - path[index][1]);
+  }
+  return total;
+}
+
+/** Polygon area with holes subtracted. */
+export function geometryArea(geometry: AnyGeometry): number {
+  return polygonParts(geometry).reduce(
+    (total, [outer, ...holes]) =>
+      total +
+      Math.abs(signedRingArea(outer ?? [])) -
+      holes.reduce((sum, hole) => sum + Math.abs(signedRingArea(hole)), 0),
+    0,
+  );
+}
+
+/** Length of the linear parts; polygons count towards `geometryPerimeter` instead. */
+export function geometryLength(geometry: AnyGeometry): number {
+  return lineParts(geometry).reduce((total, line) => total + pathLength(line), 0);
+}
+
+export function geometryPerimeter(geometry: AnyGeometry): number {
+  return polygonParts(geometry).reduce(
+    (total, rings) => total + rings.reduce((sum, ring) => sum + pathLength(ring), 0),
+    0,
+  );
+}
+
+/**
+ * Area-weighted centroid of the polygonal parts; failing that, the
+ * length-weighted midpoint of the lines, then the mean of the points.
+ */
+export function geometryCentroid(geometry: AnyGeometry): Position | null {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (const rings of polygonParts(geometry)) {
+    rings.forEach((ring, index) => {
+      // Orient every shell positive and every hole negative, whatever the input winding.
+      const sign = Math.sign(signedRingArea(ring)) * (index ? -1 : 1);
+      for (let i = 0; i + 1 < ring.length; i += 1) {
+        const [x0, y0] = ring[i];
+        const [x1, y1] = ring[i + 1];
+        const step = (x0 * y1 - x1 * y0) * sign;
+        area += step / 2;
+        cx += (x0 + x1) * step;
+        cy += (y0 + y1) * step;
+      }
+    });
+  }
+  if (area) return [cx / (6 * area), cy / (6 * area)];
+
+  let length = 0;
+  let lx = 0;
+  let ly = 0;
+  for (const line of lineParts(geometry)) {
+    for (let index = 0; index + 1 < line.length; index += 1) {
+      const [x0, y0] = line[index];
+      const [x1, y1] = line[index + 1];
+      const segment = Math.hypot(x1 - x0, y1 - y0);
+      length += segment;
+      lx += ((x0 + x1) / 2) * segment;
+      ly += ((y0 + y1) / 2) * segment;
+    }
+  }
+  if (length) return [lx / length, ly / length];
+
+  const points = [...pointParts(geometry), ...lineParts(geometry).flat()];
+  if (!points.length) return null;
+  return [
+    points.reduce((sum, [x]) => sum + x, 0) / points.length,
+    points.reduce((sum, [, y]) => sum + y, 0) / points.length,
+  ];
+}
+
+export function bboxToPolygon([xmin, ymin, xmax, ymax]: BBox): Polygon {
+  return {
+    type: "Polygon",
+    coordinates: [
+      [
+        [xmin, ymin],
+        [xmax, ymin],
+        [xmax, ymax],
+        [xmin, ymax],
+        [xmin, ymin],
+      ],
+    ],
+  };
+}
+
+// --- Buffer ---
+
+export type BufferOptions = {
+  /** Segments per quarter circle on rounded corners and caps. */
+  quadrantSegments?: number;
+};
+
+function arc(
+  center: Position,
+  from: number,
+  sweep: number,
+  radius: number,
+  quadrantSegments: number,
+) {
+  const steps = Math.max(1, Math.ceil((Math.abs(sweep) / (Math.PI / 2)) * quadrantSegments));
+  const points: Position[] = [];
+  for (let step = 0; step <= steps; step += 1) {
+    const angle = from + (sweep * step) / steps;
+    points.push([center[0] + radius * Math.cos(angle), center[1] + radius * Math.sin(angle)]);
+  }
+  return points;
+}
+
+/**
+ * Offsets a closed path to its right by `distance` (left when negative),
+ * rounding the corners that open up and mitring the ones that close. Paths
+ * that double back on themselves, such as a line walked out and back, get a
+ * round cap at each turn.
+ */
+function offsetClosedPath(
+  path: Position[],
+  distance: number,
+  quadrantSegments: number,
+): Position[] {
+  const points = path.filter(
+    (position, index) => index === 0 || !samePosition(position, path[index - 1]),
+  );
+  if (samePosition(points[0], points[points.length - 1])) points.pop();
+  const count = points.length;
+  const normal = (a: Position, b: Position) => {
+    const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+    return [(b[1] - a[1]) / length, -(b[0] - a[0]) / length];
+  };
+
+  const result: Position[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const previous = points[(index - 1 + count) % count];
+    const current = points[index];
+    const next = points[(index + 1) % count];
+    const n1 = normal(previous, current);
+    const n2 = normal(current, next);
+    const a: Position = [current[0] + n1[0] * distance, current[1] + n1[1] * distance];
+    const b: Position = [current[0] + n2[0] * distance, current[1] + n2[1] * distance];
+    const turn = cross(previous, current, next);
+    const reversal =
+      turn === 0 &&
+      (current[0] - previous[0]) * (next[0] - current[0]) +
+        (current[1] - previous[1]) * (next[1] - current[1]) <
+        0;
+
+    if (turn * distance > 0 || reversal) {
+      const start = Math.atan2(a[1] - current[1], a[0] - current[0]);
+      let sweep = Math.atan2(b[1] - current[1], b[0] - current[0]) - start;
+      // Rightward offsets turn counter-clockwise around convex corners, leftward ones clockwise.
+      if (distance > 0 && sweep <= 0) sweep += 2 * Math.PI;
+      if (distance < 0 && sweep >= 0) sweep -= 2 * Math.PI;
+      result.push(...arc(current, start, sweep, Math.abs(distance), quadrantSegments));
+    } else if (turn === 0) {
+      result.push(a);
+    } else {
+      // Intersect the two offset edges so the corner stays sharp.
+      const d1 = [current[0] - previous[0], current[1] - previous[1]];
+      const d2 = [next[0] - current[0], next[1] - current[1]];
+      const denominator = d1[0] * d2[1] - d1[1] * d2[0];
+      const t = ((b[0] - a[0]) * d2[1] - (b[1] - a[1]) * d2[0]) / denominator;
+      result.push([a[0] + d1[0] * t, a[1] + d1[1] * t]);
+    }
+  }
+  result.push(result[0]);
+  return result;
+}
+
+function distanceToSegment([x, y]: Position, [ax, ay]: Position, [bx, by]: Position) {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared
+    ? Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / lengthSquared))
+    : 0;
+  return Math.hypot(x - (ax + t * dx), y - (ay + t * dy));
+}
+
+/**
+ * A shrinking ring that has collapsed turns inside out rather than vanishing;
+ * its vertices then sit closer to the original outline than the distance.
+ */
+function clearsRing(offset: Position[], original: Position[], distance: number) {
+  const minimum = Math.abs(distance) * (1 - 1e-9);
+  return offset.every((position) => {
+    for (let index = 0; index + 1 < original.length; index += 1) {
+      if (distanceToSegment(position, original[index], original[index + 1]) < minimum) return false;
+    }
+    return true;
+  });
+}
+
+function oriented(ring: Position[], counterClockwise: boolean) {
+  return signedRingArea(ring) > 0 === counterClockwise ? ring : [...ring].reverse();
+}
+
+/**
+ * Buffers a geometry by `distance` in its own units, with round joins and
+ * caps. Points and lines need a positive distance; polygons also shrink with
+ * a negative one. Outlines are offset rather than unioned, so distances wider
+ * than a shape's narrowest gap or overlapping parts of a multi-geometry can
+ * leave self-overlapping rings (which `validateGeometry` reports).
+ */
+export function bufferGeometry(
+  geometry: AnyGeometry,
+  distance: number,
+  options: BufferOptions = {},
+): Polygon | MultiPolygon {
+  if (!Number.isFinite(distance) || distance === 0)
+    throw new Error("Buffer distance must be a non-zero number.");
+  const quadrantSegments = options.quadrantSegments ?? 8;
+  const polygons: Position[][][] = [];
+
+  const circle = (center: Position) => {
+    const ring = arc(center, 0, 2 * Math.PI, distance, quadrantSegments);
+    ring[ring.length - 1] = ring[0];
+    return [ring];
+  };
+
+  for (const point of pointParts(geometry)) {
+    if (distance < 0) throw new Error("Points can only be buffered by a positive distance.");
+    polygons.push(circle(point));
+  }
+
+  for (const line of lineParts(geometry)) {
+    if (distance < 0) throw new Error("Lines can only be buffered by a positive distance.");
+    const distinct = line.filter(
+      (position, index) => index === 0 || !samePosition(position, line[index - 1]),
+    );
+    if (distinct.length < 2) {
+      if (distinct.length) polygons.push(circle(distinct[0]));
+      continue;
+    }
+    // Walk the line out and back; the right-hand offset of that loop is the buffer outline.
+    const loop = [...distinct, ...distinct.slice(1, -1).reverse()];
+    polygons.push([oriented(offsetClosedPath(loop, distance, quadrantSegments), true)]);
+  }
+
+  for (const [outer, ...holes] of polygonParts(geometry)) {
+    if (!outer || outer.length < 4) continue;
+    // Counter-clockwise shells and clockwise holes both have the polygon's outside on their right.
+    const shell = offsetClosedPath(oriented(outer, true), distance, quadrantSegments);
+    if (distance < 0 && !clearsRing(shell, outer, distance)) continue;
+    const keptHoles = holes
+      .filter((hole) => hole.length >= 4)
+      .map((hole) => [hole, offsetClosedPath(oriented(hole, false), distance, quadrantSegments)])
+      .filter(([hole, offset]) => distance < 0 || clearsRing(offset, hole, distance))
+      .map(([, offset]) => offset);
+    polygons.push([shell, ...keptHoles]);
+  }
+
+  if (polygons.length === 1) return { type: "Polygon", coordinates: polygons[0] };
+  return { type: "MultiPolygon", coordinates: polygons };
+}
+
+// --- Spatial predicates ---
+
+function segmentDistance(first: Segment, second: Segment) {
+  if (segmentsIntersect(first, second)) return 0;
+  return Math.min(
+    distanceToSegment(first[0], second[0], second[1]),
+    distanceToSegment(first[1], second[0], second[1]),
+    distanceToSegment(second[0], first[0], first[1]),
+    distanceToSegment(second[1], first[0], first[1]),
+  );
+}
+
+/** Outlines as segments, with points as zero-length segments. */
+function segmentsOf(geometry: AnyGeometry): Segment[] {
+  const segments: Segment[] = pointParts(geometry).map((point) => [point, point]);
+  for (const path of [...lineParts(geometry), ...polygonParts(geometry).flat()]) {
+    if (path.length === 1) segments.push([path[0], path[0]]);
+    for (let index = 0; index + 1 < path.length; index += 1) {
+      segments.push([path[index], path[index + 1]]);
+    }
+  }
+  return segments;
+}
+
+function insidePolygons(position: Position, polygons: Position[][][]) {
+  return polygons.some(
+    ([outer, ...holes]) =>
+      Boolean(outer) && pointInRing(position, outer) && !holes.some((hole) => pointInRing(position, hole)),
+  );
+}
+
+/**
+ * Whether two geometries touch, overlap or contain one another, or come
+ * within `tolerance` of each other (in their shared units).
+ */
+export function geometriesIntersect(a: AnyGeometry, b: AnyGeometry, tolerance = 0): boolean {
+  const boxA = geometryBbox(a);
+  const boxB = geometryBbox(b);
+  if (!boxA || !boxB) return false;
+  if (
+    boxA[0] > boxB[2] + tolerance ||
+    boxB[0] > boxA[2] + tolerance ||
+    boxA[1] > boxB[3] + tolerance ||
+    boxB[1] > boxA[3] + tolerance
+  ) {
+    return false;
+  }
+
+  const segmentsA = segmentsOf(a);
+  const segmentsB = segmentsOf(b);
+  if (segmentsA.some((first) => segmentsB.some((second) => segmentDistance(first, second) <= tolerance))) {
+    return true;
+  }
+  // No outlines meet, so either one lies wholly inside the other or they are apart.
+  const polygonsA = polygonParts(a);
+  const polygonsB = polygonParts(b);
+  return (
+    (segmentsA.length > 0 && insidePolygons(segmentsA[0][0], polygonsB)) ||
+    (segmentsB.length > 0 && insidePolygons(segmentsB[0][0], polygonsA))
+  );
+}
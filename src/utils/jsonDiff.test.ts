@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { diffJson } from "./jsonDiff";
+
+describe("diffJson", () => {
+  it("matches records by objectId, so an inserted feature is one addition", () => {
+    const before = {
+      data: [
+        { objectId: 1, area: 10 },
+        { objectId: 2, area: 20 },
+      ],
+    };
+    const after = {
+      data: [
+        { objectId: 3, area: 5 },
+        { objectId: 1, area: 10 },
+        { objectId: 2, area: 21 },
+      ],
+    };
+    expect(diffJson(before, after)).toEqual({
+      differences: [
+        { path: "$.data[objectId=2].area", kind: "changed", before: 20, after: 21 },
+        { path: "$.data[objectId=3]", kind: "added", after: { objectId: 3, area: 5 } },
+      ],
+      truncated: false,
+    });
+  });
+
+  it("matches deals by dealId and reports dropped ones", () => {
+    const deal = (dealId: string, price: number) => ({ dealId, price });
+    const { differences } = diffJson(
+      [deal("a", 1), deal("b", 2), deal("c", 3)],
+      [deal("c", 3), deal("a", 1)],
+    );
+    expect(differences).toEqual([{ path: '$[dealId="b"]', kind: "removed", before: deal("b", 2) }]);
+  });
+
+  it("falls back to indexes when ids are missing or repeated", () => {
+    expect(diffJson([{ id: 1 }, { id: 1 }], [{ id: 1 }, { id: 2 }]).differences).toEqual([
+      { path: "$[1].id", kind: "changed", before: 1, after: 2 },
+    ]);
+    expect(diffJson([1, 2], [2, 1]).differences.map((item) => item.path)).toEqual(["$[0]", "$[1]"]);
+  });
+
+  it("says when it stopped at the limit", () => {
+    const many = (offset: number) => Array.from({ length: 5 }, (_, index) => index + offset);
+    expect(diffJson(many(0), many(1), { limit: 5 })).toMatchObject({ truncated: false });
+    const stopped = diffJson(many(0), many(1), { limit: 3 });
+    expect(stopped.differences).toHaveLength(3);
+    expect(stopped.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,135 @@
+export type JsonDifference = {
+  /** Location in `$.data[0].fields` form. */
+  path: string;
+  kind: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+};
+
+export type JsonDiff = {
+  differences: JsonDifference[];
+  /** True when `limit` was reached and later differences were not collected. */
+  truncated: boolean;
+};
+
+export type JsonDiffOptions = {
+  /** Stop after this many differences. */
+  limit?: number;
+  /** Object keys to skip at any depth, such as timestamps. */
+  ignoreKeys?: string[];
+  /**
+   * Keys that identify array items. Arrays whose items all carry a unique value
+   * for one of these are matched by it instead of by index.
+   */
+  idKeys?: string[];
+};
+
+const DEFAULT_LIMIT = 200;
+const DEFAULT_ID_KEYS = ["objectId", "OBJECTID", "dealId", "DEALID", "deal_id", "id"];
+
+function childPath(path: string, key: string | number) {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Items keyed by `key`, or null when an item lacks it or two items share it. */
+function indexBy(items: unknown[], key: string) {
+  const byId = new Map<string, unknown>();
+  for (const item of items) {
+    const id = isObject(item) ? item[key] : undefined;
+    if (typeof id !== "string" && typeof id !== "number") return null;
+    if (byId.has(String(id))) return null;
+    byId.set(String(id), item);
+  }
+  return byId;
+}
+
+/**
+ * Structural differences between two JSON values. Arrays of records with an
+ * id (see `idKeys`) are matched by it, so a reordered or inserted item shows
+ * up once; other arrays are compared by index.
+ */
+export function diffJson(before: unknown, after: unknown, options: JsonDiffOptions = {}): JsonDiff {
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const ignored = new Set(options.ignoreKeys ?? []);
+  const idKeys = options.idKeys ?? DEFAULT_ID_KEYS;
+  const differences: JsonDifference[] = [];
+  let truncated = false;
+
+  const report = (difference: JsonDifference) => {
+    if (differences.length >= limit) truncated = true;
+    else differences.push(difference);
+  };
+
+  const walkById = (left: unknown[], right: unknown[], path: string) => {
+    if (!left.length || !right.length) return false;
+    for (const key of idKeys) {
+      const leftById = indexBy(left, key);
+      const rightById = indexBy(right, key);
+      if (!leftById || !rightById) continue;
+      const itemPath = (item: unknown) =>
+        `${path}[${key}=${JSON.stringify((item as Record<string, unknown>)[key])}]`;
+      for (const [id, item] of leftById) {
+        if (truncated) return true;
+        if (rightById.has(id)) walk(item, rightById.get(id), itemPath(item));
+        else report({ path: itemPath(item), kind: "removed", before: item });
+      }
+      for (const [id, item] of rightById) {
+        if (truncated) return true;
+        if (!leftById.has(id)) report({ path: itemPath(item), kind: "added", after: item });
+      }
+      return true;
+    }
+    return false;
+  };
+
+  const walk = (left: unknown, right: unknown, path: string) => {
+    if (truncated || Object.is(left, right)) return;
+    if (Array.isArray(left) && Array.isArray(right)) {
+      if (walkById(left, right, path)) return;
+      const length = Math.max(left.length, right.length);
+      for (let index = 0; index < length && !truncated; index += 1) {
+        const next = childPath(path, index);
+        if (index >= right.length) {
+          report({ path: next, kind: "removed", before: left[index] });
+        } else if (index >= left.length) {
+          report({ path: next, kind: "added", after: right[index] });
+        } else {
+          walk(left[index], right[index], next);
+        }
+      }
+      return;
+    }
+    if (isObject(left) && isObject(right)) {
+      const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+      for (const key of keys) {
+        if (truncated) return;
+        if (ignored.has(key)) continue;
+        const next = childPath(path, key);
+        if (!(key in right)) report({ path: next, kind: "removed", before: left[key] });
+        else if (!(key in left)) report({ path: next, kind: "added", after: right[key] });
+        else walk(left[key], right[key], next);
+      }
+      return;
+    }
+    report({ path, kind: "changed", before: left, after: right });
+  };
+
+  walk(before, after, "$");
+  return { differences, truncated };
+}
+
+/** One line per difference, for logs and reports. */
+export function formatDifference({ path, kind, before, after }: JsonDifference) {
+  const show = (value: unknown) => {
+    const text = JSON.stringify(value) ?? String(value);
+    return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+  };
+  if (kind === "added") return `+ ${path}: ${show(after)}`;
+  if (kind === "removed") return `- ${path}: ${show(before)}`;
+  return `~ ${path}: ${show(before)} → ${show(after)}`;
+}
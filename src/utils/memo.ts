@@ -0,0 +1,64 @@
+export type DbfMemoFormat = "dbt" | "fpt";
+
+export type DbfMemoFile = {
+  buffer: ArrayBuffer;
+  format: DbfMemoFormat;
+};
+
+const DBT_DEFAULT_BLOCK_SIZE = 512;
+const FPT_DEFAULT_BLOCK_SIZE = 64;
+
+export function memoFormatFromFileName(fileName: string): DbfMemoFormat | null {
+  if (/\.dbt$/i.test(fileName)) return "dbt";
+  if (/\.fpt$/i.test(fileName)) return "fpt";
+  return null;
+}
+
+function memoBlockSize(memo: DbfMemoFile) {
+  const view = new DataView(memo.buffer);
+  if (memo.format === "fpt") {
+    if (view.byteLength < 8) return FPT_DEFAULT_BLOCK_SIZE;
+    return view.getUint16(6, false) || FPT_DEFAULT_BLOCK_SIZE;
+  }
+  // dBase III leaves bytes 20-21 empty and always uses 512-byte blocks.
+  if (view.byteLength < 22) return DBT_DEFAULT_BLOCK_SIZE;
+  return view.getUint16(20, true) || DBT_DEFAULT_BLOCK_SIZE;
+}
+
+/**
+ * Returns the raw bytes of the memo stored at `block`, or null when the block
+ * points outside the memo file.
+ */
+export function readMemoBlock(memo: DbfMemoFile, block: number): Uint8Array | null {
+  const blockSize = memoBlockSize(memo);
+  const start = block * blockSize;
+  const view = new DataView(memo.buffer);
+  if (block <= 0 || start >= view.byteLength) return null;
+
+  if (memo.format === "fpt") {
+    if (start + 8 > view.byteLength) return null;
+    const length = view.getUint32(start + 4, false);
+    const end = Math.min(start + 8 + length, view.byteLength);
+    return new Uint8Array(memo.buffer, start + 8, end - start - 8);
+  }
+
+  // dBase IV prefixes each memo with FF FF 08 00 and a length that includes
+  // the 8-byte prefix; dBase III memos simply run until a 0x1A terminator.
+  if (
+    start + 8 <= view.byteLength &&
+    view.getUint8(start) === 0xff &&
+    view.getUint8(start + 1) === 0xff &&
+    view.getUint8(start + 2) === 0x08 &&
+    view.getUint8(start + 3) === 0x00
+  ) {
+    const length = view.getUint32(start + 4, true);
+    const end = Math.min(start + Math.max(length, 8), view.byteLength);
+    return new Uint8Array(memo.buffer, start + 8, end - start - 8);
+  }
+
+  let end = start;
+  while (end < view.byteLength && view.getUint8(end) !== 0x1a) {
+    end += 1;
+  }
+  return new Uint8Array(memo.buffer, start, end - start);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { Srid, transformPosition } from "./projection";
+
+type ControlPoint = [name: string, wgs84: [number, number], grid: [number, number]];
+
+// Reference grid coordinates from proj4 with the same EPSG projection and
+// datum-shift parameters, so a failure points at the math, not at a choice of
+// published parameter set.
+const CONTROL_POINTS: Record<Exclude<Srid, 4326>, ControlPoint[]> = {
+  2039: [
+    ["Tel Aviv", [34.7818, 32.0853], [179557.039, 665854.83]],
+    ["Jerusalem", [35.2137, 31.7683], [220334.035, 630625.959]],
+    ["Haifa", [34.9896, 32.794], [199332.721, 744388.171]],
+    ["Eilat", [34.9519, 29.5577], [194982.976, 385576.758]],
+    ["Upper Galilee", [35.5, 33.2], [247015.401, 789433.919]],
+  ],
+  28193: [
+    ["Tel Aviv", [34.7818, 32.0853], [129555.358, 165853.694]],
+    ["Jerusalem", [35.2137, 31.7683], [170332.565, 130624.161]],
+    ["Haifa", [34.9896, 32.794], [149331.411, 244388.145]],
+    ["Eilat", [34.9519, 29.5577], [144980.805, -114428.572]],
+    ["Upper Galilee", [35.5, 33.2], [197014.893, 289434.333]],
+  ],
+  32636: [
+    ["Tel Aviv", [34.7818, 32.0853], [668156.435, 3551279.767]],
+    ["Jerusalem", [35.2137, 31.7683], [709643.325, 3516886.849]],
+    ["Haifa", [34.9896, 32.794], [686306.446, 3630202.578]],
+    ["Eilat", [34.9519, 29.5577], [689104.356, 3271365.939]],
+    ["Upper Galilee", [35.5, 33.2], [733041.092, 3676244.293]],
+  ],
+};
+
+/** Allowed error in metres; Cassini uses the truncated series EPSG documents. */
+const TOLERANCE_M: Record<Exclude<Srid, 4326>, number> = { 2039: 0.01, 28193: 0.05, 32636: 0.01 };
+
+/** Metres between two WGS84 positions this close together. */
+function groundDistance([lon1, lat1]: [number, number], [lon2, lat2]: [number, number]) {
+  const metresPerDegree = 111_320;
+  const dx = (lon1 - lon2) * metresPerDegree * Math.cos((lat1 * Math.PI) / 180);
+  const dy = (lat1 - lat2) * metresPerDegree;
+  return Math.hypot(dx, dy);
+}
+
+describe.each([2039, 28193, 32636] as const)("EPSG:%i control points", (srid) => {
+  it.each(CONTROL_POINTS[srid])("%s projects from WGS84", (_name, wgs84, grid) => {
+    const [x, y] = transformPosition(wgs84, 4326, srid);
+    expect(Math.hypot(x - grid[0], y - grid[1])).toBeLessThan(TOLERANCE_M[srid]);
+  });
+
+  it.each(CONTROL_POINTS[srid])("%s unprojects to WGS84", (_name, wgs84, grid) => {
+    const [lon, lat] = transformPosition(grid, srid, 4326);
+    expect(groundDistance([lon, lat], wgs84)).toBeLessThan(TOLERANCE_M[srid]);
+  });
+});
+
+describe("grid to grid", () => {
+  it("takes ITM to the old Cassini grid through WGS84", () => {
+    const [, , itm] = CONTROL_POINTS[2039][1];
+    const [, , cassini] = CONTROL_POINTS[28193][1];
+    const [x, y] = transformPosition(itm, 2039, 28193);
+    expect(Math.hypot(x - cassini[0], y - cassini[1])).toBeLessThan(TOLERANCE_M[28193]);
+  });
+
+  it("leaves a position alone when both systems are the same", () => {
+    expect(transformPosition([179557.039, 665854.83], 2039, 2039)).toEqual([179557.039, 665854.83]);
+  });
+});
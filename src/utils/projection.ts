@@ -0,0 +1,360 @@
+import { Geometry, Position } from "./geojson";
+
+/** Coordinate systems the playground converts between. */
+export type Srid = 2039 | 28193 | 32636 | 4326;
+
+/** The system GovMap's API takes and returns coordinates in (ITM). */
+export const GOVMAP_SRID: Srid = 2039;
+
+export type CoordinateSystem = {
+  srid: Srid;
+  label: string;
+  /** Names of the first and second axis, in the order positions store them. */
+  axes: [string, string];
+  /** Decimal places worth showing: millimetres for grids, ~1 cm for degrees. */
+  precision: number;
+};
+
+export const COORDINATE_SYSTEMS: CoordinateSystem[] = [
+  { srid: 2039, label: "Israeli TM Grid (ITM)", axes: ["X", "Y"], precision: 3 },
+  { srid: 4326, label: "WGS84 lon/lat", axes: ["Lon", "Lat"], precision: 7 },
+  { srid: 28193, label: "Israeli Cassini Grid (old)", axes: ["X", "Y"], precision: 3 },
+  { srid: 32636, label: "WGS84 / UTM 36N", axes: ["E", "N"], precision: 3 },
+];
+
+type Ellipsoid = { a: number; f: number };
+
+/** EPSG-style 7-parameter position vector transformation to WGS84 (m, arc-seconds, ppm). */
+type Helmert = [number, number, number, number, number, number, number];
+
+type TransverseMercator = {
+  kind: "tmerc";
+  lat0: number;
+  lon0: number;
+  k0: number;
+  x0: number;
+  y0: number;
+};
+
+type CassiniSoldner = { kind: "cass"; lat0: number; lon0: number; x0: number; y0: number };
+
+type CrsDefinition = {
+  ellipsoid: Ellipsoid;
+  toWgs84: Helmert | null;
+  projection: TransverseMercator | CassiniSoldner | null;
+};
+
+const GRS80: Ellipsoid = { a: 6378137, f: 1 / 298.257222101 };
+const WGS84: Ellipsoid = { a: 6378137, f: 1 / 298.257223563 };
+const CLARKE_1880_BENOIT: Ellipsoid = { a: 6378300.789, f: 1 / 293.466315538981 };
+
+const dms = (degrees: number, minutes: number, seconds: number) => degrees + minutes / 60 + seconds / 3600;
+
+// Projection and datum-shift parameters as published in the EPSG registry.
+const DEFINITIONS: Record<Srid, CrsDefinition> = {
+  2039: {
+    ellipsoid: GRS80,
+    toWgs84: [-24.0024, -17.1032, -17.8444, -0.33077, -1.85269, 1.66969, 5.4248],
+    projection: {
+      kind: "tmerc",
+      lat0: dms(31, 44, 3.817),
+      lon0: dms(35, 12, 16.261),
+      k0: 1.0000067,
+      x0: 219529.584,
+      y0: 626907.39,
+    },
+  },
+  28193: {
+    ellipsoid: CLARKE_1880_BENOIT,
+    toWgs84: [-275.722, 94.7824, 340.894, -8.001, -4.42, -11.821, 1],
+    projection: {
+      kind: "cass",
+      lat0: dms(31, 44, 2.749),
+      lon0: dms(35, 12, 43.49),
+      x0: 170251.555,
+      y0: 126867.909,
+    },
+  },
+  32636: {
+    ellipsoid: WGS84,
+    toWgs84: null,
+    projection: { kind: "tmerc", lat0: 0, lon0: 33, k0: 0.9996, x0: 500000, y0: 0 },
+  },
+  4326: { ellipsoid: WGS84, toWgs84: null, projection: null },
+};
+
+const DEG = Math.PI / 180;
+const ARC_SECOND = DEG / 3600;
+
+export function isSupportedSrid(srid: number): srid is Srid {
+  return Object.prototype.hasOwnProperty.call(DEFINITIONS, srid);
+}
+
+export function getCoordinateSystem(srid: Srid): CoordinateSystem {
+  return COORDINATE_SYSTEMS.find((item) => item.srid === srid) ?? COORDINATE_SYSTEMS[0];
+}
+
+// --- Transverse Mercator (Krüger series to n^6, after Karney 2011) ---
+
+type KruegerSeries = { e: number; A: number; alpha: number[]; beta: number[] };
+
+const kruegerCache = new Map<Ellipsoid, KruegerSeries>();
+
+function krueger(ellipsoid: Ellipsoid): KruegerSeries {
+  const cached = kruegerCache.get(ellipsoid);
+  if (cached) return cached;
+  const { a, f } = ellipsoid;
+  const n = f / (2 - f);
+  const [n2, n3, n4, n5, n6] = [n ** 2, n ** 3, n ** 4, n ** 5, n ** 6];
+  const series: KruegerSeries = {
+    e: Math.sqrt(f * (2 - f)),
+    A: (a / (1 + n)) * (1 + n2 / 4 + n4 / 64 + n6 / 256),
+    alpha: [
+      n / 2 - (2 * n2) / 3 + (5 * n3) / 16 + (41 * n4) / 180 - (127 * n5) / 288 + (7891 * n6) / 37800,
+      (13 * n2) / 48 - (3 * n3) / 5 + (557 * n4) / 1440 + (281 * n5) / 630 - (1983433 * n6) / 1935360,
+      (61 * n3) / 240 - (103 * n4) / 140 + (15061 * n5) / 26880 + (167603 * n6) / 181440,
+      (49561 * n4) / 161280 - (179 * n5) / 168 + (6601661 * n6) / 7257600,
+      (34729 * n5) / 80640 - (3418889 * n6) / 1995840,
+      (212378941 * n6) / 319334400,
+    ],
+    beta: [
+      n / 2 - (2 * n2) / 3 + (37 * n3) / 96 - n4 / 360 - (81 * n5) / 512 + (96199 * n6) / 604800,
+      n2 / 48 + n3 / 15 - (437 * n4) / 1440 + (46 * n5) / 105 - (1118711 * n6) / 3870720,
+      (17 * n3) / 480 - (37 * n4) / 840 - (209 * n5) / 4480 + (5569 * n6) / 90720,
+      (4397 * n4) / 161280 - (11 * n5) / 504 - (830251 * n6) / 7257600,
+      (4583 * n5) / 161280 - (108847 * n6) / 3991680,
+      (20648693 * n6) / 638668800,
+    ],
+  };
+  kruegerCache.set(ellipsoid, series);
+  return series;
+}
+
+/** Conformal latitude as tan χ, from tan φ. */
+function conformalTan(tau: number, e: number) {
+  const sigma = Math.sinh(e * Math.atanh((e * tau) / Math.hypot(1, tau)));
+  return tau * Math.hypot(1, sigma) - sigma * Math.hypot(1, tau);
+}
+
+/** Gauss-Krüger ξ, η (unscaled) for a longitude relative to the central meridian. */
+function tmercXiEta(lat: number, dLon: number, series: KruegerSeries) {
+  const tauPrime = conformalTan(Math.tan(lat), series.e);
+  const xiPrime = Math.atan2(tauPrime, Math.cos(dLon));
+  const etaPrime = Math.asinh(Math.sin(dLon) / Math.hypot(tauPrime, Math.cos(dLon)));
+  let xi = xiPrime;
+  let eta = etaPrime;
+  series.alpha.forEach((alpha, index) => {
+    const j = 2 * (index + 1);
+    xi += alpha * Math.sin(j * xiPrime) * Math.cosh(j * etaPrime);
+    eta += alpha * Math.cos(j * xiPrime) * Math.sinh(j * etaPrime);
+  });
+  return { xi, eta };
+}
+
+function tmercForward(lat: number, lon: number, projection: TransverseMercator, ellipsoid: Ellipsoid) {
+  const series = krueger(ellipsoid);
+  const scale = projection.k0 * series.A;
+  const origin = tmercXiEta(projection.lat0 * DEG, 0, series).xi;
+  const { xi, eta } = tmercXiEta(lat, lon - projection.lon0 * DEG, series);
+  return [projection.x0 + scale * eta, projection.y0 + scale * (xi - origin)];
+}
+
+function tmercInverse(x: number, y: number, projection: TransverseMercator, ellipsoid: Ellipsoid) {
+  const series = krueger(ellipsoid);
+  const scale = projection.k0 * series.A;
+  const origin = tmercXiEta(projection.lat0 * DEG, 0, series).xi;
+  const xi = (y - projection.y0) / scale + origin;
+  const eta = (x - projection.x0) / scale;
+  let xiPrime = xi;
+  let etaPrime = eta;
+  series.beta.forEach((beta, index) => {
+    const j = 2 * (index + 1);
+    xiPrime -= beta * Math.sin(j * xi) * Math.cosh(j * eta);
+    etaPrime -= beta * Math.cos(j * xi) * Math.sinh(j * eta);
+  });
+
+  const tauPrime = Math.sin(xiPrime) / Math.hypot(Math.sinh(etaPrime), Math.cos(xiPrime));
+  const e2 = series.e ** 2;
+  let tau = tauPrime;
+  for (let iteration = 0; iteration < 10; iteration += 1) {
+    const delta =
+      ((tauPrime - conformalTan(tau, series.e)) / Math.hypot(1, conformalTan(tau, series.e))) *
+      ((1 + (1 - e2) * tau ** 2) / ((1 - e2) * Math.hypot(1, tau)));
+    tau += delta;
+    if (Math.abs(delta) < 1e-12) break;
+  }
+  return [Math.atan(tau), projection.lon0 * DEG + Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime))];
+}
+
+// --- Cassini-Soldner (Snyder, "Map Projections: A Working Manual", pp. 94-95) ---
+
+function meridianArc(lat: number, e2: number, a: number) {
+  const [e4, e6] = [e2 ** 2, e2 ** 3];
+  return (
+    a *
+    ((1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * lat -
+      ((3 * e2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * lat) +
+      ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * lat) -
+      ((35 * e6) / 3072) * Math.sin(6 * lat))
+  );
+}
+
+function cassForward(lat: number, lon: number, projection: CassiniSoldner, { a, f }: Ellipsoid) {
+  const e2 = f * (2 - f);
+  const sinLat = Math.sin(lat);
+  const N = a / Math.sqrt(1 - e2 * sinLat ** 2);
+  const T = Math.tan(lat) ** 2;
+  const A = (lon - projection.lon0 * DEG) * Math.cos(lat);
+  const C = (e2 * Math.cos(lat) ** 2) / (1 - e2);
+  const x = N * (A - (T * A ** 3) / 6 - ((8 - T + 8 * C) * T * A ** 5) / 120);
+  const y =
+    meridianArc(lat, e2, a) -
+    meridianArc(projection.lat0 * DEG, e2, a) +
+    N * Math.tan(lat) * (A ** 2 / 2 + ((5 - T + 6 * C) * A ** 4) / 24);
+  return [projection.x0 + x, projection.y0 + y];
+}
+
+function cassInverse(x: number, y: number, projection: CassiniSoldner, { a, f }: Ellipsoid) {
+  const e2 = f * (2 - f);
+  const M1 = meridianArc(projection.lat0 * DEG, e2, a) + (y - projection.y0);
+  const mu = M1 / (a * (1 - e2 / 4 - (3 * e2 ** 2) / 64 - (5 * e2 ** 3) / 256));
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+  const lat1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+  const sinLat1 = Math.sin(lat1);
+  const T1 = Math.tan(lat1) ** 2;
+  const N1 = a / Math.sqrt(1 - e2 * sinLat1 ** 2);
+  const R1 = (a * (1 - e2)) / (1 - e2 * sinLat1 ** 2) ** 1.5;
+  const D = (x - projection.x0) / N1;
+  const lat = lat1 - ((N1 * Math.tan(lat1)) / R1) * (D ** 2 / 2 - ((1 + 3 * T1) * D ** 4) / 24);
+  const lon =
+    projection.lon0 * DEG + (D - (T1 * D ** 3) / 3 + ((1 + 3 * T1) * T1 * D ** 5) / 15) / Math.cos(lat1);
+  return [lat, lon];
+}
+
+// --- Datum shift through geocentric coordinates ---
+
+function toGeocentric(lat: number, lon: number, { a, f }: Ellipsoid) {
+  const e2 = f * (2 - f);
+  const N = a / Math.sqrt(1 - e2 * Math.sin(lat) ** 2);
+  return [N * Math.cos(lat) * Math.cos(lon), N * Math.cos(lat) * Math.sin(lon), N * (1 - e2) * Math.sin(lat)];
+}
+
+function fromGeocentric([X, Y, Z]: number[], { a, f }: Ellipsoid) {
+  const e2 = f * (2 - f);
+  const p = Math.hypot(X, Y);
+  let lat = Math.atan2(Z, p * (1 - e2));
+  for (let iteration = 0; iteration < 10; iteration += 1) {
+    const N = a / Math.sqrt(1 - e2 * Math.sin(lat) ** 2);
+    const next = Math.atan2(Z + e2 * N * Math.sin(lat), p);
+    if (Math.abs(next - lat) < 1e-14) {
+      lat = next;
+      break;
+    }
+    lat = next;
+  }
+  return [lat, Math.atan2(Y, X)];
+}
+
+function helmert([X, Y, Z]: number[], params: Helmert, inverse: boolean) {
+  const [dx, dy, dz] = params;
+  const [rx, ry, rz] = params.slice(3, 6).map((value) => value * ARC_SECOND);
+  const m = 1 + params[6] * 1e-6;
+  if (!inverse) {
+    return [dx + m * (X - rz * Y + ry * Z), dy + m * (rz * X + Y - rx * Z), dz + m * (-ry * X + rx * Y + Z)];
+  }
+  // Solve the rotation exactly rather than transposing it; the Cassini grid's
+  // 8" rotations would otherwise cost about a centimetre per round trip.
+  const [x, y, z] = [(X - dx) / m, (Y - dy) / m, (Z - dz) / m];
+  const det = 1 + rx * rx + ry * ry + rz * rz;
+  return [
+    ((1 + rx * rx) * x + (rx * ry + rz) * y + (rx * rz - ry) * z) / det,
+    ((rx * ry - rz) * x + (1 + ry * ry) * y + (ry * rz + rx) * z) / det,
+    ((rx * rz + ry) * x + (ry * rz - rx) * y + (1 + rz * rz) * z) / det,
+  ];
+}
+
+/** Latitude and longitude in radians on the system's own datum. */
+function unproject(x: number, y: number, definition: CrsDefinition) {
+  const { projection, ellipsoid } = definition;
+  if (!projection) return [y * DEG, x * DEG];
+  return projection.kind === "tmerc"
+    ? tmercInverse(x, y, projection, ellipsoid)
+    : cassInverse(x, y, projection, ellipsoid);
+}
+
+function project(lat: number, lon: number, definition: CrsDefinition) {
+  const { projection, ellipsoid } = definition;
+  if (!projection) return [lon / DEG, lat / DEG];
+  return projection.kind === "tmerc"
+    ? tmercForward(lat, lon, projection, ellipsoid)
+    : cassForward(lat, lon, projection, ellipsoid);
+}
+
+function shiftDatum(lat: number, lon: number, from: CrsDefinition, to: CrsDefinition) {
+  if (from.ellipsoid === to.ellipsoid && from.toWgs84 === to.toWgs84) return [lat, lon];
+  let xyz = toGeocentric(lat, lon, from.ellipsoid);
+  if (from.toWgs84) xyz = helmert(xyz, from.toWgs84, false);
+  if (to.toWgs84) xyz = helmert(xyz, to.toWgs84, true);
+  return fromGeocentric(xyz, to.ellipsoid);
+}
+
+/**
+ * Converts one position between supported systems. Longitude/latitude
+ * positions are `[lon, lat]`, as in GeoJSON; any Z/M values pass through.
+ */
+export function transformPosition(position: Position, from: Srid, to: Srid): Position {
+  if (from === to) return position.slice();
+  const [x, y, ...rest] = position;
+  if (!Number.isFinite(x) || !Number.isFinite(y)) {
+    throw new Error(`Cannot transform non-numeric coordinates (${x}, ${y}).`);
+  }
+  const source = DEFINITIONS[from];
+  const target = DEFINITIONS[to];
+  const [lat, lon] = unproject(x, y, source);
+  const [shiftedLat, shiftedLon] = shiftDatum(lat, lon, source, target);
+  return [...project(shiftedLat, shiftedLon, target), ...rest];
+}
+
+export function transformGeometry(geometry: Geometry, from: Srid, to: Srid): Geometry {
+  const walk = (value: unknown): unknown => {
+    if (!Array.isArray(value)) return value;
+    if (typeof value[0] === "number") return transformPosition(value as Position, from, to);
+    return value.map(walk);
+  };
+  return { ...geometry, coordinates: walk(geometry.coordinates) } as Geometry;
+}
+
+/**
+ * Rewrites every coordinate tuple in a WKT or EWKT string. Only the first
+ * two ordinates are transformed and then rounded to the target's precision.
+ */
+export function transformWkt(wkt: string, from: Srid, to: Srid): string {
+  if (from === to) return wkt;
+  const { precision } = getCoordinateSystem(to);
+  const retagged = wkt.replace(/^(\s*SRID=)\d+;/i, `$1${to};`);
+  return retagged.replace(/[^(),;]+/g, (tuple) => {
+    const parts = tuple.trim().split(/\s+/);
+    if (parts.length < 2 || !parts.every((part) => /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(part))) {
+      return tuple;
+    }
+    const [x, y] = transformPosition(parts.slice(0, 2).map(Number), from, to);
+    const leading = /^\s*/.exec(tuple)?.[0] ?? "";
+    const trailing = /\s*$/.exec(tuple)?.[0] ?? "";
+    return `${leading}${[roundTo(x, precision), roundTo(y, precision), ...parts.slice(2)].join(" ")}${trailing}`;
+  });
+}
+
+function roundTo(value: number, digits: number) {
+  return Number(value.toFixed(digits));
+}
+
+/** Rounds a transformed position to what is meaningful in `srid`. */
+export function roundPosition(position: Position, srid: Srid): Position {
+  const { precision } = getCoordinateSystem(srid);
+  return position.map((value, index) => (index < 2 ? roundTo(value, precision) : value));
+}
@@ -0,0 +1,137 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cacheKey, createResponseCache, describeCacheStatus } from "./responseCache";
+
+const policies = { deals: { ttlMs: 1000, staleMs: 1000 } };
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/** A loader answering with how many times it has run. */
+function counter() {
+  let calls = 0;
+  return vi.fn(async () => ({ calls: (calls += 1) }));
+}
+
+describe("cacheKey", () => {
+  it("ignores key order, padding and blank params", () => {
+    expect(cacheKey("deals", { b: " 2 ", a: 1, c: "", d: null })).toBe(
+      cacheKey("deals", { a: 1, b: "2" }),
+    );
+    expect(cacheKey("deals", { a: 1 })).not.toBe(cacheKey("other", { a: 1 }));
+  });
+});
+
+describe("createResponseCache", () => {
+  it("keeps entries in memory when IndexedDB is unavailable", async () => {
+    expect(typeof indexedDB).toBe("undefined");
+    const cache = createResponseCache({ policies });
+    const load = counter();
+
+    const first = await cache.fetch("deals", { gush: 6638 }, load);
+    expect(first).toMatchObject({ value: { calls: 1 }, status: { state: "miss", ageMs: 0 } });
+
+    vi.setSystemTime(500);
+    const second = await cache.fetch("deals", { gush: 6638 }, load);
+    expect(second).toMatchObject({ value: { calls: 1 }, status: { state: "hit", ageMs: 500 } });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves a stale entry and revalidates it once", async () => {
+    const cache = createResponseCache({ policies });
+    const load = counter();
+    await cache.fetch("deals", {}, load);
+
+    vi.setSystemTime(1500);
+    const onRevalidate = vi.fn();
+    const stale = await cache.fetch("deals", {}, load, { onRevalidate });
+    await cache.fetch("deals", {}, load);
+    expect(stale).toMatchObject({ value: { calls: 1 }, status: { state: "stale", ageMs: 1500 } });
+    await vi.waitFor(() => expect(onRevalidate).toHaveBeenCalledTimes(1));
+    expect(onRevalidate).toHaveBeenCalledWith(
+      { calls: 2 },
+      { state: "miss", storedAt: 1500, ageMs: 0, ttlMs: 1000 },
+    );
+    expect(load).toHaveBeenCalledTimes(2);
+
+    const fresh = await cache.fetch("deals", {}, load);
+    expect(fresh).toMatchObject({ value: { calls: 2 }, status: { state: "hit", storedAt: 1500 } });
+  });
+
+  it("serves a stale entry without revalidating when asked not to", async () => {
+    const cache = createResponseCache({ policies });
+    const load = counter();
+    await cache.fetch("deals", {}, load);
+
+    vi.setSystemTime(1500);
+    const stale = await cache.fetch("deals", {}, load, { revalidate: false });
+    expect(stale.status?.state).toBe("stale");
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("loads again once the stale window has passed", async () => {
+    const cache = createResponseCache({ policies });
+    const load = counter();
+    await cache.fetch("deals", {}, load);
+
+    vi.setSystemTime(2001);
+    const expired = await cache.fetch("deals", {}, load);
+    expect(expired).toMatchObject({ value: { calls: 2 }, status: { state: "miss" } });
+  });
+
+  it("skips the lookup on bypass but stores the answer", async () => {
+    const cache = createResponseCache({ policies });
+    const load = counter();
+    await cache.fetch("deals", {}, load);
+
+    const bypassed = await cache.fetch("deals", {}, load, { bypass: true });
+    expect(bypassed).toMatchObject({ value: { calls: 2 }, status: { state: "bypass" } });
+    const next = await cache.fetch("deals", {}, load);
+    expect(next).toMatchObject({ value: { calls: 2 }, status: { state: "hit" } });
+  });
+
+  it("never caches endpoints without a policy or failed loads", async () => {
+    const cache = createResponseCache({ policies });
+    const load = counter();
+    expect(await cache.fetch("getView", {}, load)).toEqual({ value: { calls: 1 }, status: null });
+    expect(await cache.fetch("getView", {}, load)).toEqual({ value: { calls: 2 }, status: null });
+
+    await expect(
+      cache.fetch("deals", {}, () => Promise.reject(new Error("offline"))),
+    ).rejects.toThrow("offline");
+    expect((await cache.fetch("deals", {}, load)).status?.state).toBe("miss");
+  });
+
+  it("drops the oldest entries beyond maxEntries", async () => {
+    const cache = createResponseCache({ policies, maxEntries: 2 });
+    const load = counter();
+    for (const gush of [1, 2, 3]) await cache.fetch("deals", { gush }, load);
+    expect((await cache.fetch("deals", { gush: 3 }, load)).status?.state).toBe("hit");
+    expect((await cache.fetch("deals", { gush: 1 }, load)).status?.state).toBe("miss");
+  });
+
+  it("forgets everything on clear", async () => {
+    const cache = createResponseCache({ policies });
+    const load = counter();
+    await cache.fetch("deals", {}, load);
+    await cache.clear();
+    expect((await cache.fetch("deals", {}, load)).status?.state).toBe("miss");
+  });
+});
+
+describe("describeCacheStatus", () => {
+  it("gives the age of served entries", () => {
+    expect(describeCacheStatus({ state: "stale", storedAt: 0, ageMs: 90_000, ttlMs: 1 })).toBe(
+      "cache stale (2m old)",
+    );
+    expect(describeCacheStatus({ state: "bypass", storedAt: 0, ageMs: 0, ttlMs: 1 })).toBe(
+      "cache bypass",
+    );
+  });
+});
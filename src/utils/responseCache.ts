@@ -0,0 +1,231 @@
+/**
+ * Cache for GovMap REST and layer queries, kept in IndexedDB so repeat
+ * lookups while exploring skip the network. Entries are keyed on endpoint plus
+ * normalized params; each endpoint has its own TTL and a stale window during
+ * which the old answer is served while a fresh one is fetched behind it.
+ * Falls back to memory when IndexedDB is unavailable.
+ */
+
+export type CachePolicy = {
+  /** Served without revalidating while younger than this. */
+  ttlMs: number;
+  /** Past the TTL, still served (and revalidated) for this much longer. */
+  staleMs: number;
+};
+
+export type CacheState = "hit" | "stale" | "miss" | "bypass";
+
+export type CacheStatus = {
+  state: CacheState;
+  /** When the served value was fetched. */
+  storedAt: number;
+  ageMs: number;
+  ttlMs: number;
+};
+
+export type CachedResponse<T> = { value: T; status: CacheStatus | null };
+
+export type CacheFetchOptions<T> = {
+  /** Skip the lookup but still store the fresh answer. */
+  bypass?: boolean;
+  /** Called with the fresh answer after a stale one was served. */
+  onRevalidate?: (value: T, status: CacheStatus) => void;
+  /**
+   * Set false to serve a stale answer without loading a fresh one behind it,
+   * for callers whose loads must wait on a rate limiter.
+   */
+  revalidate?: boolean;
+};
+
+export type ResponseCache = {
+  /**
+   * Answers from the cache or `load`. Endpoints without a policy always load
+   * and come back with a null status. Failed loads are never stored.
+   */
+  fetch: <T>(
+    endpoint: string,
+    params: unknown,
+    load: () => Promise<T>,
+    options?: CacheFetchOptions<T>,
+  ) => Promise<CachedResponse<T>>;
+  clear: () => Promise<void>;
+};
+
+export type ResponseCacheOptions = {
+  dbName?: string;
+  policies?: Record<string, CachePolicy>;
+  /** Oldest entries beyond this count are pruned on each store. */
+  maxEntries?: number;
+};
+
+type CacheEntry = { key: string; endpoint: string; value: unknown; storedAt: number };
+
+const MINUTE = 60_000;
+
+/** Endpoints worth caching: playground method ids and REST resources. */
+export const CACHE_POLICIES: Record<string, CachePolicy> = {
+  "street-deals": { ttlMs: 10 * MINUTE, staleMs: 60 * MINUTE },
+  getLayerEntities: { ttlMs: 5 * MINUTE, staleMs: 30 * MINUTE },
+  getEntities: { ttlMs: 5 * MINUTE, staleMs: 30 * MINUTE },
+  getLayerExtent: { ttlMs: 60 * MINUTE, staleMs: 24 * 60 * MINUTE },
+};
+
+const STORE = "responses";
+const BY_STORED = "storedAt";
+const DEFAULT_MAX_ENTRIES = 200;
+
+/** Sorts keys and drops blank values so equivalent requests share a key. */
+function normalize(value: unknown): unknown {
+  if (typeof value === "string") return value.trim();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((key) => [key, normalize((value as Record<string, unknown>)[key])])
+      .filter(([, item]) => item !== undefined && item !== null && item !== ""),
+  );
+}
+
+export function cacheKey(endpoint: string, params: unknown) {
+  return `${endpoint} ${JSON.stringify(normalize(params)) ?? ""}`;
+}
+
+export function formatAge(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  return `${(seconds / 3600).toFixed(1)}h`;
+}
+
+export function describeCacheStatus(status: CacheStatus) {
+  if (status.state === "miss" || status.state === "bypass") return `cache ${status.state}`;
+  return `cache ${status.state} (${formatAge(status.ageMs)} old)`;
+}
+
+function settle<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(name: string) {
+  const request = indexedDB.open(name, 1);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE, { keyPath: "key" });
+    store.createIndex(BY_STORED, "storedAt");
+  };
+  return settle(request);
+}
+
+export function createResponseCache(options: ResponseCacheOptions = {}): ResponseCache {
+  const policies = options.policies ?? CACHE_POLICIES;
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const memory = new Map<string, CacheEntry>();
+  const revalidating = new Set<string>();
+  let database: Promise<IDBDatabase | null> | null = null;
+
+  const open = () => {
+    database ??= (
+      typeof indexedDB === "undefined"
+        ? Promise.resolve(null)
+        : openDatabase(options.dbName ?? "govmap-playground-cache")
+    ).catch((error) => {
+      console.warn("IndexedDB unavailable; cached responses will not survive a reload", error);
+      return null;
+    });
+    return database;
+  };
+
+  const store = async (mode: IDBTransactionMode) => {
+    const db = await open();
+    return db ? db.transaction(STORE, mode).objectStore(STORE) : null;
+  };
+
+  const read = async (key: string) => {
+    const entries = await store("readonly");
+    if (!entries) return memory.get(key);
+    return settle(entries.get(key) as IDBRequest<CacheEntry | undefined>);
+  };
+
+  const write = async (entry: CacheEntry) => {
+    const entries = await store("readwrite");
+    if (!entries) {
+      memory.delete(entry.key);
+      memory.set(entry.key, entry);
+      [...memory.keys()]
+        .slice(0, Math.max(0, memory.size - maxEntries))
+        .forEach((key) => memory.delete(key));
+      return;
+    }
+    await settle(entries.put(entry));
+    const keys = await settle(entries.index(BY_STORED).getAllKeys());
+    await Promise.all(
+      keys
+        .slice(0, Math.max(0, keys.length - maxEntries))
+        .map((key) => settle(entries.delete(key))),
+    );
+  };
+
+  /** Loads and stores; a failed store only costs the next lookup. */
+  const loadAndStore = async <T>(key: string, endpoint: string, load: () => Promise<T>) => {
+    const value = await load();
+    const entry = { key, endpoint, value, storedAt: Date.now() };
+    await write(entry).catch((error) => console.warn("Failed to cache response", error));
+    return entry;
+  };
+
+  return {
+    fetch: async (endpoint, params, load, { bypass, onRevalidate, revalidate = true } = {}) => {
+      const policy = policies[endpoint];
+      if (!policy) return { value: await load(), status: null };
+      const key = cacheKey(endpoint, params);
+      const cached = bypass ? undefined : await read(key).catch(() => undefined);
+      const ageMs = cached ? Date.now() - cached.storedAt : Infinity;
+
+      if (cached && ageMs <= policy.ttlMs + policy.staleMs) {
+        const stale = ageMs > policy.ttlMs;
+        if (stale && revalidate && !revalidating.has(key)) {
+          revalidating.add(key);
+          loadAndStore(key, endpoint, load)
+            .then((entry) =>
+              onRevalidate?.(entry.value as never, {
+                state: "miss",
+                storedAt: entry.storedAt,
+                ageMs: 0,
+                ttlMs: policy.ttlMs,
+              }),
+            )
+            .catch((error) => console.warn(`Revalidating ${endpoint} failed`, error))
+            .finally(() => revalidating.delete(key));
+        }
+        return {
+          value: cached.value as never,
+          status: {
+            state: stale ? "stale" : "hit",
+            storedAt: cached.storedAt,
+            ageMs,
+            ttlMs: policy.ttlMs,
+          },
+        };
+      }
+
+      const entry = await loadAndStore(key, endpoint, load);
+      return {
+        value: entry.value,
+        status: {
+          state: bypass ? "bypass" : "miss",
+          storedAt: entry.storedAt,
+          ageMs: 0,
+          ttlMs: policy.ttlMs,
+        },
+      };
+    },
+    clear: async () => {
+      memory.clear();
+      const entries = await store("readwrite");
+      if (entries) await settle(entries.clear());
+    },
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Playground and street-deals run history kept in IndexedDB, so full payloads and results fit.
+ * Falls back to an in-memory list when IndexedDB is unavailable (private
+ * windows, old browsers); such history lasts until the page reloads.
+ */
+import type { SavedRequest } from "./collections";
+
+export type HistoryEntry = {
+  id: string;
+  /** What the form held, so the run can be loaded back and re-run. */
+  request: SavedRequest["request"];
+  methodName: string;
+  payload: unknown;
+  result: unknown;
+  success: boolean;
+  error?: string;
+  note?: string;
+  startedAt: number;
+  endedAt: number;
+};
+
+export type RunHistory = {
+  /** Every stored run, newest first. */
+  list: () => Promise<HistoryEntry[]>;
+  add: (entry: HistoryEntry) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  clear: () => Promise<void>;
+};
+
+export type RunHistoryOptions = {
+  dbName?: string;
+  /** Oldest runs beyond this count are pruned on each add. */
+  maxEntries?: number;
+};
+
+const STORE = "runs";
+const BY_START = "startedAt";
+const DEFAULT_MAX_ENTRIES = 500;
+
+function settle<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(name: string) {
+  const request = indexedDB.open(name, 1);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+    store.createIndex(BY_START, "startedAt");
+  };
+  return settle(request);
+}
+
+function createMemoryHistory(maxEntries: number): RunHistory {
+  let entries: HistoryEntry[] = [];
+  return {
+    list: async () => [...entries],
+    add: async (entry) => {
+      entries = [entry, ...entries.filter((item) => item.id !== entry.id)].slice(0, maxEntries);
+    },
+    remove: async (id) => {
+      entries = entries.filter((item) => item.id !== id);
+    },
+    clear: async () => {
+      entries = [];
+    },
+  };
+}
+
+export function createRunHistory(options: RunHistoryOptions = {}): RunHistory {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const memory = createMemoryHistory(maxEntries);
+  let database: Promise<IDBDatabase | null> | null = null;
+
+  const open = () => {
+    database ??= (
+      typeof indexedDB === "undefined"
+        ? Promise.resolve(null)
+        : openDatabase(options.dbName ?? "govmap-playground-history")
+    ).catch((error) => {
+      console.warn("IndexedDB unavailable; playground history will not survive a reload", error);
+      return null;
+    });
+    return database;
+  };
+
+  const store = async (mode: IDBTransactionMode) => {
+    const db = await open();
+    return db ? db.transaction(STORE, mode).objectStore(STORE) : null;
+  };
+
+  return {
+    list: async () => {
+      const runs = await store("readonly");
+      if (!runs) return memory.list();
+      const entries = await settle(runs.index(BY_START).getAll() as IDBRequest<HistoryEntry[]>);
+      return entries.reverse();
+    },
+    add: async (entry) => {
+      const runs = await store("readwrite");
+      if (!runs) return memory.add(entry);
+      await settle(runs.put(entry));
+      const keys = await settle(runs.index(BY_START).getAllKeys());
+      await Promise.all(
+        keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => settle(runs.delete(key))),
+      );
+    },
+    remove: async (id) => {
+      const runs = await store("readwrite");
+      if (!runs) return memory.remove(id);
+      await settle(runs.delete(id));
+    },
+    clear: async () => {
+      const runs = await store("readwrite");
+      if (!runs) return memory.clear();
+      await settle(runs.clear());
+    },
+  };
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import { writeDbf } from "./dbfWrite";
+import { Position } from "./geojson";
+import { collectShapefileSources, parseShp, readShapefile } from "./shapefile";
+import { readZip, writeZip } from "./zip";
+
+type ShpRecord = { shapeType: number; write: (view: DataView, at: number) => void; bytes: number };
+
+const point = ([x, y]: Position): ShpRecord => ({
+  shapeType: 1,
+  bytes: 20,
+  write: (view, at) => {
+    view.setFloat64(at + 4, x, true);
+    view.setFloat64(at + 12, y, true);
+  },
+});
+
+/** A polygon record; shells must run clockwise and holes counter-clockwise. */
+const polygon = (rings: Position[][]): ShpRecord => {
+  const points = rings.flat();
+  return {
+    shapeType: 5,
+    bytes: 44 + rings.length * 4 + points.length * 16,
+    write: (view, at) => {
+      view.setInt32(at + 36, rings.length, true);
+      view.setInt32(at + 40, points.length, true);
+      let start = 0;
+      rings.forEach((ring, index) => {
+        view.setInt32(at + 44 + index * 4, start, true);
+        start += ring.length;
+      });
+      points.forEach(([x, y], index) => {
+        const offset = at + 44 + rings.length * 4 + index * 16;
+        view.setFloat64(offset, x, true);
+        view.setFloat64(offset + 8, y, true);
+      });
+    },
+  };
+};
+
+/** Builds a `.shp` and its `.shx` index from records of one shape type. */
+function shapefile(records: ShpRecord[]) {
+  const header = (length: number) => {
+    const buffer = new ArrayBuffer(length);
+    const view = new DataView(buffer);
+    view.setInt32(0, 9994, false);
+    view.setInt32(24, length / 2, false);
+    view.setInt32(28, 1000, true);
+    view.setInt32(32, records[0]?.shapeType ?? 0, true);
+    return { buffer, view };
+  };
+  const shpLength = records.reduce((total, record) => total + 8 + record.bytes, 100);
+  const shp = header(shpLength);
+  const shx = header(100 + records.length * 8);
+  let offset = 100;
+  records.forEach((record, index) => {
+    shp.view.setInt32(offset, index + 1, false);
+    shp.view.setInt32(offset + 4, record.bytes / 2, false);
+    shp.view.setInt32(offset + 8, record.shapeType, true);
+    record.write(shp.view, offset + 8);
+    shx.view.setInt32(100 + index * 8, offset / 2, false);
+    shx.view.setInt32(104 + index * 8, record.bytes / 2, false);
+    offset += 8 + record.bytes;
+  });
+  return { shp: shp.buffer, shx: shx.buffer };
+}
+
+const square = (size: number, offset = 0): Position[] => [
+  [offset, offset],
+  [offset, offset + size],
+  [offset + size, offset + size],
+  [offset + size, offset],
+  [offset, offset],
+];
+
+describe("parseShp", () => {
+  it("reads points back to back and through the .shx index", () => {
+    const { shp, shx } = shapefile([point([1, 2]), point([3, 4])]);
+    const expected = [
+      { type: "Point", coordinates: [1, 2] },
+      { type: "Point", coordinates: [3, 4] },
+    ];
+    expect(parseShp(shp).geometries).toEqual(expected);
+    expect(parseShp(shp, shx)).toEqual({ shapeType: 1, geometries: expected });
+  });
+
+  it("assigns a hole to the shell that contains it and follows the right-hand rule", () => {
+    const hole = square(2, 4).reverse();
+    const { shp } = shapefile([polygon([square(10), hole, square(1, 20)])]);
+    const [geometry] = parseShp(shp).geometries;
+    expect(geometry).toEqual({
+      type: "MultiPolygon",
+      coordinates: [[square(10).reverse(), square(2, 4)], [square(1, 20).reverse()]],
+    });
+  });
+
+  it("rejects files without the shapefile code", () => {
+    expect(() => parseShp(new ArrayBuffer(100))).toThrow("Not a valid .shp file.");
+  });
+
+  it("rejects an index pointing past the end of the .shp", () => {
+    const { shp, shx } = shapefile([point([1, 2])]);
+    expect(() => parseShp(shp.slice(0, 110), shx)).toThrow(/extends beyond/);
+  });
+});
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const bytesOf = (buffer: ArrayBuffer) => new Uint8Array(buffer);
+
+describe("readZip", () => {
+  it("reads back what writeZip packs, skipping folder entries", async () => {
+    const blob = await writeZip([
+      { name: "data/", data: new Uint8Array() },
+      { name: "data/שכבה.prj", data: encode("GEOGCS[]") },
+      { name: "empty.txt", data: new Uint8Array() },
+    ]);
+    const entries = await readZip(await blob.arrayBuffer());
+    expect(entries.map((entry) => [entry.name, new TextDecoder().decode(entry.data)])).toEqual([
+      ["data/שכבה.prj", "GEOGCS[]"],
+      ["empty.txt", ""],
+    ]);
+  });
+
+  it("rejects data that is not a zip", async () => {
+    await expect(readZip(encode("not a zip at all, just text").buffer)).rejects.toThrow(
+      /end-of-central-directory/,
+    );
+  });
+});
+
+describe("collectShapefileSources", () => {
+  const table = (name: string) =>
+    writeDbf([{ name: "NAME", type: "C", length: 10, decimalCount: 0 }], [[name]]);
+
+  it("skips macOS metadata and keeps same-named layers in different folders apart", async () => {
+    const { shp, shx } = shapefile([point([1, 2])]);
+    const archive = await writeZip([
+      { name: "north/parcels.shp", data: bytesOf(shp) },
+      { name: "north/parcels.shx", data: bytesOf(shx) },
+      { name: "north/parcels.dbf", data: bytesOf(table("north")) },
+      { name: "south/PARCELS.dbf", data: bytesOf(table("south")) },
+      { name: "south/parcels.cpg", data: encode("UTF-8") },
+      { name: "__MACOSX/north/._parcels.shp", data: encode("AppleDouble") },
+      { name: "._roads.dbf", data: encode("AppleDouble") },
+    ]);
+    const layers = await collectShapefileSources([
+      { name: "parcels.zip", data: await archive.arrayBuffer() },
+    ]);
+
+    expect(layers.map((layer) => [layer.name, Boolean(layer.shp), layer.cpg])).toEqual([
+      ["north_parcels", true, undefined],
+      ["south_PARCELS", false, "UTF-8"],
+    ]);
+    expect(layers.map((layer) => readShapefile(layer).features[0].properties)).toEqual([
+      { NAME: "north" },
+      { NAME: "south" },
+    ]);
+  });
+
+  it("groups loose files by name regardless of case", async () => {
+    const { shp } = shapefile([point([1, 2])]);
+    const layers = await collectShapefileSources([
+      { name: "Roads.SHP", data: shp },
+      { name: "roads.dbf", data: table("main") },
+      { name: "readme.txt", data: encode("ignored").buffer },
+    ]);
+    expect(layers).toHaveLength(1);
+    expect(layers[0]).toMatchObject({ name: "Roads" });
+    expect(readShapefile(layers[0]).features[0]).toMatchObject({
+      geometry: { type: "Point", coordinates: [1, 2] },
+      properties: { NAME: "main" },
+    });
+  });
+});
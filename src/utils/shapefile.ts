@@ -0,0 +1,334 @@
+import { DbfConvertOptions, DbfParseResult, parseDbf, recordToObject } from "./dbf";
+import { BBox, Feature, Geometry, Position, geometryBbox, mergeBbox } from "./geojson";
+import { DbfMemoFile, memoFormatFromFileName } from "./memo";
+import { ZipEntry, readZip } from "./zip";
+
+export type ShapefileSources = {
+  /**
+   * Base name shared by the component files, without extension. Layers whose
+   * base names clash get their folder path, joined with `_`, instead.
+   */
+  name: string;
+  shp?: ArrayBuffer;
+  shx?: ArrayBuffer;
+  dbf?: ArrayBuffer;
+  prj?: string;
+  cpg?: string;
+  memo?: DbfMemoFile;
+};
+
+export type ShapefileLayer = {
+  name: string;
+  shapeType: string | null;
+  bbox: BBox | null;
+  /** EPSG code inferred from the `.prj`, when it is one we recognise. */
+  srid: number | null;
+  prj: string | null;
+  /** Parsed attribute table, kept so other exports do not re-read the `.dbf`. */
+  table: DbfParseResult | null;
+  features: Feature[];
+};
+
+type ShpParseResult = {
+  shapeType: number;
+  geometries: (Geometry | null)[];
+};
+
+const SHAPE_TYPES: Record<number, string> = {
+  0: "Null",
+  1: "Point",
+  3: "PolyLine",
+  5: "Polygon",
+  8: "MultiPoint",
+  11: "PointZ",
+  13: "PolyLineZ",
+  15: "PolygonZ",
+  18: "MultiPointZ",
+  21: "PointM",
+  23: "PolyLineM",
+  25: "PolygonM",
+  28: "MultiPointM",
+  31: "MultiPatch",
+};
+
+const SHP_HEADER_LENGTH = 100;
+const SHP_FILE_CODE = 9994;
+
+function hasZ(shapeType: number) {
+  return shapeType >= 11 && shapeType <= 18;
+}
+
+function readPoints(view: DataView, offset: number, count: number): Position[] {
+  const points: Position[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const at = offset + index * 16;
+    points.push([view.getFloat64(at, true), view.getFloat64(at + 8, true)]);
+  }
+  return points;
+}
+
+// Z values follow the XY block as [zmin, zmax, z0..zn]; M values after that are ignored.
+function attachZ(view: DataView, offset: number, points: Position[]) {
+  points.forEach((point, index) => {
+    point.push(view.getFloat64(offset + 16 + index * 8, true));
+  });
+}
+
+function signedArea(ring: Position[]) {
+  let area = 0;
+  for (let index = 0, prev = ring.length - 1; index < ring.length; prev = index, index += 1) {
+    area += (ring[index][0] - ring[prev][0]) * (ring[index][1] + ring[prev][1]);
+  }
+  return area / 2;
+}
+
+function ringContains(ring: Position[], [x, y]: Position) {
+  let inside = false;
+  for (let index = 0, prev = ring.length - 1; index < ring.length; prev = index, index += 1) {
+    const [xi, yi] = ring[index];
+    const [xj, yj] = ring[prev];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Shapefiles mark outer rings clockwise and holes counter-clockwise without
+ * saying which hole belongs to which shell, so holes are assigned to the first
+ * shell containing them. Output follows the GeoJSON right-hand rule.
+ */
+function ringsToGeometry(rings: Position[][]): Geometry | null {
+  const shells: Position[][][] = [];
+  const holes: Position[][] = [];
+  for (const ring of rings) {
+    if (ring.length < 4) continue;
+    // signedArea is positive for clockwise rings.
+    if (signedArea(ring) >= 0) shells.push([ring.slice().reverse()]);
+    else holes.push(ring.slice().reverse());
+  }
+  for (const hole of holes) {
+    const owner = shells.find((shell) => ringContains(shell[0], hole[0]));
+    if (owner) owner.push(hole);
+    else shells.push([hole.slice().reverse()]);
+  }
+  if (!shells.length) return null;
+  return shells.length === 1
+    ? { type: "Polygon", coordinates: shells[0] }
+    : { type: "MultiPolygon", coordinates: shells };
+}
+
+function readRecord(view: DataView, offset: number, length: number): Geometry | null {
+  if (length < 4) return null;
+  const shapeType = view.getInt32(offset, true);
+  const withZ = hasZ(shapeType);
+
+  switch (shapeType) {
+    case 0:
+      return null;
+    case 1:
+    case 11:
+    case 21: {
+      const point: Position = [view.getFloat64(offset + 4, true), view.getFloat64(offset + 12, true)];
+      if (withZ) point.push(view.getFloat64(offset + 20, true));
+      return { type: "Point", coordinates: point };
+    }
+    case 8:
+    case 18:
+    case 28: {
+      const count = view.getInt32(offset + 36, true);
+      const points = readPoints(view, offset + 40, count);
+      if (withZ) attachZ(view, offset + 40 + count * 16, points);
+      return { type: "MultiPoint", coordinates: points };
+    }
+    case 3:
+    case 13:
+    case 23:
+    case 5:
+    case 15:
+    case 25: {
+      const partCount = view.getInt32(offset + 36, true);
+      const pointCount = view.getInt32(offset + 40, true);
+      const partsOffset = offset + 44;
+      const pointsOffset = partsOffset + partCount * 4;
+      const points = readPoints(view, pointsOffset, pointCount);
+      if (withZ) attachZ(view, pointsOffset + pointCount * 16, points);
+
+      const parts: Position[][] = [];
+      for (let part = 0; part < partCount; part += 1) {
+        const start = view.getInt32(partsOffset + part * 4, true);
+        const end = part + 1 < partCount ? view.getInt32(partsOffset + (part + 1) * 4, true) : pointCount;
+        parts.push(points.slice(start, end));
+      }
+
+      if (shapeType % 10 === 5) {
+        return ringsToGeometry(parts);
+      }
+      return parts.length === 1
+        ? { type: "LineString", coordinates: parts[0] }
+        : { type: "MultiLineString", coordinates: parts };
+    }
+    default:
+      // MultiPatch and unknown types have no GeoJSON equivalent.
+      return null;
+  }
+}
+
+function shxOffsets(shx: ArrayBuffer) {
+  const view = new DataView(shx);
+  const offsets: { offset: number; length: number }[] = [];
+  for (let at = SHP_HEADER_LENGTH; at + 8 <= view.byteLength; at += 8) {
+    offsets.push({
+      offset: view.getInt32(at, false) * 2,
+      length: view.getInt32(at + 4, false) * 2,
+    });
+  }
+  return offsets;
+}
+
+/**
+ * Reads every geometry in a `.shp`. With a `.shx` the records are located
+ * through the index, otherwise they are read back to back.
+ */
+export function parseShp(shp: ArrayBuffer, shx?: ArrayBuffer): ShpParseResult {
+  const view = new DataView(shp);
+  if (view.byteLength < SHP_HEADER_LENGTH || view.getInt32(0, false) !== SHP_FILE_CODE) {
+    throw new Error("Not a valid .shp file.");
+  }
+  const shapeType = view.getInt32(32, true);
+  const geometries: (Geometry | null)[] = [];
+
+  if (shx) {
+    for (const { offset, length } of shxOffsets(shx)) {
+      if (offset + 8 + length > view.byteLength) {
+        throw new Error("Shape record extends beyond the .shp file.");
+      }
+      geometries.push(readRecord(view, offset + 8, length));
+    }
+    return { shapeType, geometries };
+  }
+
+  let offset = SHP_HEADER_LENGTH;
+  while (offset + 8 <= view.byteLength) {
+    const length = view.getInt32(offset + 4, false) * 2;
+    if (offset + 8 + length > view.byteLength) break;
+    geometries.push(readRecord(view, offset + 8, length));
+    offset += 8 + length;
+  }
+  return { shapeType, geometries };
+}
+
+export function sridFromPrj(prj: string): number | null {
+  const authority = /AUTHORITY\["EPSG",\s*"?(\d+)"?\]\]\s*$/i.exec(prj.trim());
+  if (authority) return Number(authority[1]);
+  if (/Israel_TM_Grid|Israel 1993 \/ Israeli TM/i.test(prj)) return 2039;
+  if (/Israel_CS_Grid|Cassini/i.test(prj) && /Israel/i.test(prj)) return 28193;
+  if (/UTM_Zone_36N|UTM zone 36N/i.test(prj)) return 32636;
+  if (/^GEOGCS\[.*WGS_?1984/i.test(prj.trim())) return 4326;
+  return null;
+}
+
+export function readShapefile(
+  sources: ShapefileSources,
+  options: Pick<DbfConvertOptions, "encoding"> = {},
+): ShapefileLayer {
+  if (!sources.shp && !sources.dbf) {
+    throw new Error(`"${sources.name}" has neither a .shp nor a .dbf file.`);
+  }
+
+  const shp = sources.shp ? parseShp(sources.shp, sources.shx) : null;
+  const dbf = sources.dbf
+    ? parseDbf(sources.dbf, { encoding: options.encoding, cpg: sources.cpg, memo: sources.memo })
+    : null;
+
+  const features: Feature[] = [];
+  if (dbf) {
+    dbf.records.forEach((row, index) => {
+      const recordIndex = dbf.recordIndexes[index];
+      features.push({
+        type: "Feature",
+        id: recordIndex,
+        geometry: shp?.geometries[recordIndex] ?? null,
+        properties: recordToObject(dbf.fields, row),
+      });
+    });
+  } else if (shp) {
+    shp.geometries.forEach((geometry, index) => {
+      features.push({ type: "Feature", id: index, geometry, properties: {} });
+    });
+  }
+
+  const bbox = features.reduce<BBox | null>(
+    (acc, feature) => mergeBbox(acc, geometryBbox(feature.geometry)),
+    null,
+  );
+  return {
+    name: sources.name,
+    shapeType: shp ? SHAPE_TYPES[shp.shapeType] ?? String(shp.shapeType) : null,
+    bbox,
+    srid: sources.prj ? sridFromPrj(sources.prj) : null,
+    prj: sources.prj ?? null,
+    table: dbf,
+    features,
+  };
+}
+
+function baseName(path: string) {
+  const fileName = path.split(/[\\/]/).pop() ?? path;
+  return fileName.replace(/\.[^.]+$/, "");
+}
+
+// macOS zips carry `__MACOSX/._name.shp` AppleDouble metadata next to the real files.
+function isMacMetadata(path: string) {
+  return /(^|[\\/])__MACOSX[\\/]/.test(path) || /^\._/.test(path.split(/[\\/]/).pop() ?? "");
+}
+
+/**
+ * Groups loose files and the contents of any zip archives into one entry per
+ * layer. Component files belong together when they share a path up to the
+ * extension; layers that share a base name in different folders are named
+ * after their folders so neither hides the other.
+ */
+export async function collectShapefileSources(entries: ZipEntry[]): Promise<ShapefileSources[]> {
+  const expanded: ZipEntry[] = [];
+  for (const entry of entries) {
+    if (/\.zip$/i.test(entry.name)) {
+      expanded.push(...(await readZip(entry.data)));
+    } else {
+      expanded.push(entry);
+    }
+  }
+
+  const textDecoder = new TextDecoder("utf-8");
+  const groups = new Map<string, ShapefileSources>();
+  const stems = new Map<ShapefileSources, string>();
+  for (const entry of expanded) {
+    if (isMacMetadata(entry.name)) continue;
+    const stem = entry.name.replace(/\.[^./\\]+$/, "");
+    const group = groups.get(stem.toLowerCase()) ?? { name: baseName(entry.name) };
+    const extension = entry.name.split(".").pop()?.toLowerCase();
+    const memoFormat = memoFormatFromFileName(entry.name);
+    if (extension === "shp") group.shp = entry.data;
+    else if (extension === "shx") group.shx = entry.data;
+    else if (extension === "dbf") group.dbf = entry.data;
+    else if (extension === "prj") group.prj = textDecoder.decode(entry.data);
+    else if (extension === "cpg") group.cpg = textDecoder.decode(entry.data);
+    else if (memoFormat) group.memo = { buffer: entry.data, format: memoFormat };
+    else continue;
+    groups.set(stem.toLowerCase(), group);
+    if (!stems.has(group)) stems.set(group, stem);
+  }
+
+  const layers = Array.from(groups.values()).filter((group) => group.shp || group.dbf);
+  const counts = new Map<string, number>();
+  for (const layer of layers) {
+    counts.set(layer.name.toLowerCase(), (counts.get(layer.name.toLowerCase()) ?? 0) + 1);
+  }
+  for (const layer of layers) {
+    if (counts.get(layer.name.toLowerCase())! > 1) {
+      layer.name = stems.get(layer)!.split(/[\\/]/).filter(Boolean).join("_");
+    }
+  }
+  return layers;
+}
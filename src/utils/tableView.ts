@@ -0,0 +1,123 @@
+import { DbfFieldMeta, DbfRow, DbfValue, dbfColumnKind, formatDbfValue, recordToObject } from "./dbf";
+import type { ExportSource } from "./exporters";
+
+export type ColumnFilter =
+  | { kind: "text"; query: string }
+  /** Bounds are kept as typed so half-entered numbers survive re-renders. */
+  | { kind: "range"; min: string; max: string };
+
+export type SortState = { column: number; direction: "asc" | "desc" };
+
+export type TableViewState = {
+  /** Field indexes hidden from the grid and from exports. */
+  hidden: number[];
+  filters: Record<number, ColumnFilter>;
+  sort: SortState | null;
+};
+
+export const EMPTY_TABLE_VIEW: TableViewState = { hidden: [], filters: {}, sort: null };
+
+/** Numeric columns get a min/max filter; everything else is matched as text. */
+export function filterKindFor(field: DbfFieldMeta): ColumnFilter["kind"] {
+  const kind = dbfColumnKind(field);
+  return kind === "integer" || kind === "number" ? "range" : "text";
+}
+
+function parseBound(value: string) {
+  if (!value.trim()) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+export function isFilterActive(filter: ColumnFilter | undefined) {
+  if (!filter) return false;
+  return filter.kind === "text"
+    ? filter.query.trim() !== ""
+    : parseBound(filter.min) !== null || parseBound(filter.max) !== null;
+}
+
+const collator = new Intl.Collator(["he", "en"], { numeric: true, sensitivity: "base" });
+
+function compareValues(a: DbfValue, b: DbfValue) {
+  // Empty cells sort last in both directions, so they are handled by the caller.
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b);
+  return collator.compare(String(a), String(b));
+}
+
+function compilePredicate(field: DbfFieldMeta, column: number, filter: ColumnFilter) {
+  if (filter.kind === "text") {
+    const query = filter.query.trim().toLowerCase();
+    return (row: DbfRow) => formatDbfValue(row[column] ?? null, field).toLowerCase().includes(query);
+  }
+  const min = parseBound(filter.min);
+  const max = parseBound(filter.max);
+  return (row: DbfRow) => {
+    const value = row[column];
+    return (
+      typeof value === "number" && (min === null || value >= min) && (max === null || value <= max)
+    );
+  };
+}
+
+/** A predicate passing the rows that match every active filter in `view`. */
+export function createRowFilter(fields: DbfFieldMeta[], view: TableViewState) {
+  const predicates = Object.entries(view.filters)
+    .filter(([, filter]) => isFilterActive(filter))
+    .map(([column, filter]) => compilePredicate(fields[Number(column)], Number(column), filter));
+  return (row: DbfRow) => predicates.every((predicate) => predicate(row));
+}
+
+/** Sorts `indexes` into `records` in place. Ties keep file order. */
+export function sortRowIndexes(records: DbfRow[], indexes: number[], sort: SortState | null) {
+  if (!sort) return indexes;
+  const sign = sort.direction === "asc" ? 1 : -1;
+  return indexes.sort((left, right) => {
+    const a = records[left][sort.column] ?? null;
+    const b = records[right][sort.column] ?? null;
+    if (a === null || b === null) {
+      return a === b ? left - right : a === null ? 1 : -1;
+    }
+    return sign * compareValues(a, b) || left - right;
+  });
+}
+
+/**
+ * Returns the indexes of the rows that pass every active filter, in sort
+ * order. Ties keep file order.
+ */
+export function applyTableView(
+  fields: DbfFieldMeta[],
+  records: DbfRow[],
+  view: TableViewState,
+): number[] {
+  const keep = createRowFilter(fields, view);
+  const indexes: number[] = [];
+  records.forEach((row, index) => {
+    if (keep(row)) indexes.push(index);
+  });
+  return sortRowIndexes(records, indexes, view.sort);
+}
+
+export function visibleColumns(fields: DbfFieldMeta[], view: TableViewState) {
+  return fields.map((_, index) => index).filter((index) => !view.hidden.includes(index));
+}
+
+/** Cuts a table down to the given rows and columns, keeping features aligned. */
+export function projectTable(
+  source: ExportSource,
+  rowIndexes: number[],
+  columns: number[],
+): ExportSource {
+  const fields = columns.map((column) => source.fields[column]);
+  const records = rowIndexes.map((row) => columns.map((column) => source.records[row][column] ?? null));
+  const sourceFeatures = source.features;
+  const features =
+    sourceFeatures && sourceFeatures.length === source.records.length
+      ? rowIndexes.map((row, index) => ({
+          ...sourceFeatures[row],
+          properties: recordToObject(fields, records[index]),
+        }))
+      : undefined;
+  return { ...source, fields, records, features };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { read, utils } from "xlsx";
+import { DbfFieldMeta, DbfRow } from "./dbf";
+import { writeXlsx } from "./xlsx";
+import { readZip } from "./zip";
+
+const fields: DbfFieldMeta[] = [
+  { name: "NAME", type: "C", length: 12, decimalCount: 0 },
+  { name: "AREA", type: "N", length: 10, decimalCount: 2 },
+  { name: "DAY", type: "D", length: 8, decimalCount: 0 },
+  { name: "STAMP", type: "T", length: 8, decimalCount: 0 },
+  { name: "OK", type: "L", length: 1, decimalCount: 0 },
+];
+
+const records: DbfRow[] = [
+  ['תל אביב & "יפו"', 1234.5, "2020-02-29", "2020-02-29T12:00:00.000Z", true],
+  ["bell\u0007 <b>", null, null, null, false],
+];
+
+async function workbookOf(rows: DbfRow[], sheetName?: string) {
+  const blob = await writeXlsx(fields, rows, sheetName);
+  return read(new Uint8Array(await blob.arrayBuffer()));
+}
+
+describe("writeXlsx", () => {
+  it("writes typed cells a spreadsheet reader understands", async () => {
+    const workbook = await workbookOf(records, "גושים/חלקות");
+    expect(workbook.SheetNames).toEqual(["גושים_חלקות"]);
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    expect(utils.sheet_to_json(sheet, { header: 1, raw: true })).toEqual([
+      ["NAME", "AREA", "DAY", "STAMP", "OK"],
+      ['תל אביב & "יפו"', 1234.5, 43890, 43890.5, true],
+      ["bell <b>", undefined, undefined, undefined, false],
+    ]);
+    expect(sheet.B2.w).toBe("1234.50");
+    expect(sheet.C2.w).toBe("2020-02-29");
+    expect(sheet["!autofilter"]).toEqual({ ref: "A1:E3" });
+  });
+
+  it("keeps strings inline so the package needs no shared-strings part", async () => {
+    const blob = await writeXlsx(fields, records);
+    const entries = await readZip(await blob.arrayBuffer());
+    expect(entries.map((entry) => entry.name)).not.toContain("xl/sharedStrings.xml");
+    const sheet = new TextDecoder().decode(
+      entries.find((entry) => entry.name === "xl/worksheets/sheet1.xml")?.data,
+    );
+    expect(sheet).toContain(
+      '<c r="A2" t="inlineStr"><is><t xml:space="preserve">תל אביב &amp; &quot;יפו&quot;</t></is></c>',
+    );
+    expect(sheet).not.toContain("\u0007");
+  });
+
+  it("refuses a table without fields", async () => {
+    await expect(writeXlsx([], [])).rejects.toThrow(/no fields/);
+  });
+});
@@ -0,0 +1,209 @@
+import { DbfFieldMeta, DbfRow, dbfColumnKind } from "./dbf";
+import { writeZip } from "./zip";
+
+const MAX_ROWS = 1048576;
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 86400000;
+const FIRST_CUSTOM_FORMAT_ID = 164;
+const DATE_FORMAT = "yyyy-mm-dd";
+const DATETIME_FORMAT = "yyyy-mm-dd hh:mm:ss";
+
+// Control characters are not allowed anywhere in XML 1.0.
+const INVALID_XML = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g;
+
+function escapeXml(value: string) {
+  return value
+    .replace(INVALID_XML, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function columnName(index: number) {
+  let name = "";
+  let remaining = index + 1;
+  while (remaining > 0) {
+    const digit = (remaining - 1) % 26;
+    name = String.fromCharCode(65 + digit) + name;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return name;
+}
+
+function toExcelSerial(iso: string) {
+  const time = Date.parse(iso.length === 10 ? `${iso}T00:00:00Z` : iso);
+  return Number.isNaN(time) ? null : (time - EXCEL_EPOCH_MS) / MS_PER_DAY;
+}
+
+function numberFormatFor(field: DbfFieldMeta) {
+  switch (dbfColumnKind(field)) {
+    case "integer":
+      return "0";
+    case "number":
+      return field.decimalCount > 0 ? `0.${"0".repeat(field.decimalCount)}` : null;
+    case "date":
+      return DATE_FORMAT;
+    case "datetime":
+      return DATETIME_FORMAT;
+    default:
+      return null;
+  }
+}
+
+function buildStyles(formats: string[]) {
+  const custom = formats
+    .map((code, index) => `<numFmt numFmtId="${FIRST_CUSTOM_FORMAT_ID + index}" formatCode="${escapeXml(code)}"/>`)
+    .join("");
+  const cellFormats = formats
+    .map(
+      (_, index) =>
+        `<xf numFmtId="${FIRST_CUSTOM_FORMAT_ID + index}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`,
+    )
+    .join("");
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<numFmts count="${formats.length}">${custom}</numFmts>` +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    `<cellXfs count="${formats.length + 2}">` +
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+    cellFormats +
+    "</cellXfs></styleSheet>"
+  );
+}
+
+function cellXml(reference: string, value: DbfRow[number], field: DbfFieldMeta, style: number) {
+  if (value === null || value === "") return "";
+  const styleAttr = style ? ` s="${style}"` : "";
+  if (typeof value === "boolean") {
+    return `<c r="${reference}" t="b"${styleAttr}><v>${value ? 1 : 0}</v></c>`;
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `<c r="${reference}"${styleAttr}><v>${value}</v></c>` : "";
+  }
+  const kind = dbfColumnKind(field);
+  if (kind === "date" || kind === "datetime") {
+    const serial = toExcelSerial(value);
+    if (serial !== null) return `<c r="${reference}"${styleAttr}><v>${serial}</v></c>`;
+  }
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+/**
+ * Writes a single-sheet workbook. Numeric, date and logical DBF fields become
+ * typed cells, and `N` fields keep their declared decimal places as a number
+ * format.
+ */
+export async function writeXlsx(
+  fields: DbfFieldMeta[],
+  records: DbfRow[],
+  sheetName = "Sheet1",
+): Promise<Blob> {
+  if (!fields.length) {
+    throw new Error("Nothing to export: the table has no fields.");
+  }
+  if (records.length + 1 > MAX_ROWS) {
+    throw new Error(`XLSX holds at most ${MAX_ROWS - 1} data rows; export CSV or Arrow instead.`);
+  }
+
+  const formats: string[] = [];
+  const styles = fields.map((field) => {
+    const format = numberFormatFor(field);
+    if (!format) return 0;
+    let index = formats.indexOf(format);
+    if (index < 0) {
+      formats.push(format);
+      index = formats.length - 1;
+    }
+    return index + 2;
+  });
+  const columns = fields.map((_, index) => columnName(index));
+  const lastCell = `${columns[columns.length - 1]}${records.length + 1}`;
+
+  const rows: string[] = [];
+  rows.push(
+    `<row r="1">${fields
+      .map(
+        (field, index) =>
+          `<c r="${columns[index]}1" t="inlineStr" s="1"><is><t>${escapeXml(field.name)}</t></is></c>`,
+      )
+      .join("")}</row>`,
+  );
+  records.forEach((record, rowIndex) => {
+    const rowNumber = rowIndex + 2;
+    const cells = record
+      .map((value, index) => cellXml(`${columns[index]}${rowNumber}`, value, fields[index], styles[index]))
+      .join("");
+    rows.push(`<row r="${rowNumber}">${cells}</row>`);
+  });
+
+  const widths = fields
+    .map(
+      (field, index) =>
+        `<col min="${index + 1}" max="${index + 1}" width="${Math.min(Math.max(field.length, field.name.length, 8) + 2, 60)}" customWidth="1"/>`,
+    )
+    .join("");
+
+  const sheet =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<dimension ref="A1:${lastCell}"/>` +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<cols>${widths}</cols>` +
+    `<sheetData>${rows.join("")}</sheetData>` +
+    `<autoFilter ref="A1:${lastCell}"/>` +
+    "</worksheet>";
+
+  const safeSheetName = escapeXml(sheetName.replace(/[\\/?*[\]:]/g, "_").slice(0, 31) || "Sheet1");
+  const encoder = new TextEncoder();
+  return writeZip([
+    {
+      name: "[Content_Types].xml",
+      data: encoder.encode(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+          '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+          '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+          '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+          "</Types>",
+      ),
+    },
+    {
+      name: "_rels/.rels",
+      data: encoder.encode(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+          '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+          "</Relationships>",
+      ),
+    },
+    {
+      name: "xl/workbook.xml",
+      data: encoder.encode(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+          '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+          `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+          "</workbook>",
+      ),
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data: encoder.encode(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+          '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+          '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+          "</Relationships>",
+      ),
+    },
+    { name: "xl/styles.xml", data: encoder.encode(buildStyles(formats)) },
+    { name: "xl/worksheets/sheet1.xml", data: encoder.encode(sheet) },
+  ]);
+}
@@ -0,0 +1,178 @@
+export type ZipEntry = {
+  name: string;
+  data: ArrayBuffer;
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_LENGTH = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const nameDecoder = new TextDecoder("utf-8");
+
+async function inflateRaw(bytes: Uint8Array<ArrayBuffer>) {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).arrayBuffer();
+}
+
+function findEndOfCentralDirectory(view: DataView) {
+  const lowest = Math.max(0, view.byteLength - EOCD_MIN_LENGTH - MAX_COMMENT_LENGTH);
+  for (let offset = view.byteLength - EOCD_MIN_LENGTH; offset >= lowest; offset -= 1) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+  }
+  return -1;
+}
+
+/**
+ * Extracts every file from a zip archive. Only stored and deflated entries are
+ * supported, which covers what GovMap and desktop GIS tools produce.
+ */
+export async function readZip(buffer: ArrayBuffer): Promise<ZipEntry[]> {
+  const view = new DataView(buffer);
+  if (view.byteLength < EOCD_MIN_LENGTH) {
+    throw new Error("Buffer is too small to be a zip archive.");
+  }
+
+  const eocd = findEndOfCentralDirectory(view);
+  if (eocd < 0) {
+    throw new Error("Zip end-of-central-directory record not found.");
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  const directoryOffset = view.getUint32(eocd + 16, true);
+  if (directoryOffset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error("Zip64 archives are not supported.");
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error("Zip central directory is corrupt.");
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = nameDecoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+
+    if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) {
+      throw new Error(`Zip entry "${name}" has a corrupt local header.`);
+    }
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (dataStart + compressedSize > view.byteLength) {
+      throw new Error(`Zip entry "${name}" is truncated.`);
+    }
+    const compressed = new Uint8Array(buffer, dataStart, compressedSize);
+
+    if (method === 0) {
+      entries.push({ name, data: compressed.slice().buffer });
+    } else if (method === 8) {
+      entries.push({ name, data: await inflateRaw(compressed) });
+    } else {
+      throw new Error(`Zip entry "${name}" uses unsupported compression method ${method}.`);
+    }
+  }
+
+  return entries;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflateRaw(bytes: Uint8Array<ArrayBuffer>) {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// 1980-01-01 00:00, the earliest timestamp the DOS date fields can hold.
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+const UTF8_NAME_FLAG = 0x0800;
+
+/** Packs entries into a deflated zip archive. */
+export async function writeZip(
+  entries: { name: string; data: Uint8Array<ArrayBuffer> }[],
+): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  const central: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const compressed = await deflateRaw(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(30 + name.byteLength);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_SIGNATURE, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, UTF8_NAME_FLAG, true);
+    localView.setUint16(8, 8, true);
+    localView.setUint16(10, DOS_TIME, true);
+    localView.setUint16(12, DOS_DATE, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, compressed.byteLength, true);
+    localView.setUint32(22, entry.data.byteLength, true);
+    localView.setUint16(26, name.byteLength, true);
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.byteLength);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, CENTRAL_SIGNATURE, true);
+    headerView.setUint16(4, 20, true);
+    headerView.setUint16(6, 20, true);
+    headerView.setUint16(8, UTF8_NAME_FLAG, true);
+    headerView.setUint16(10, 8, true);
+    headerView.setUint16(12, DOS_TIME, true);
+    headerView.setUint16(14, DOS_DATE, true);
+    headerView.setUint32(16, crc, true);
+    headerView.setUint32(20, compressed.byteLength, true);
+    headerView.setUint32(24, entry.data.byteLength, true);
+    headerView.setUint16(28, name.byteLength, true);
+    headerView.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    parts.push(local, compressed);
+    central.push(header);
+    offset += local.byteLength + compressed.byteLength;
+  }
+
+  const centralLength = central.reduce((total, item) => total + item.byteLength, 0);
+  const eocd = new Uint8Array(EOCD_MIN_LENGTH);
+  const eocdView = new DataView(eocd.buffer);
+  eocdView.setUint32(0, EOCD_SIGNATURE, true);
+  eocdView.setUint16(8, entries.length, true);
+  eocdView.setUint16(10, entries.length, true);
+  eocdView.setUint32(12, centralLength, true);
+  eocdView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, eocd], { type: "application/zip" });
+}
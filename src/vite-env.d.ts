@@ -2,6 +2,8 @@
 
 interface ImportMetaEnv {
   readonly VITE_GOVMAP_TOKEN?: string;
+  /** "1" or fake-runtime settings such as "latency=400&fail=0.2" to use the offline GovMap. */
+  readonly VITE_GOVMAP_FAKE?: string;
   // Add other env variables here as needed
 }
 
@@ -0,0 +1,112 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { DbfFieldMeta, DbfRow, UTF8_BOM, convertDbfToCsv, parseDbf } from "../utils/dbf";
+import { writeDbf } from "../utils/dbfWrite";
+import type { DbfWorkerRequest, DbfWorkerResponse } from "./dbfConvert.worker";
+
+type ConvertRequest = Extract<DbfWorkerRequest, { type: "convert" }>;
+
+const fields: DbfFieldMeta[] = [
+  { name: "CITY", type: "C", length: 12, decimalCount: 0 },
+  { name: "GUSH", type: "N", length: 6, decimalCount: 0 },
+];
+const records: DbfRow[] = Array.from({ length: 30 }, (_, index) => [
+  index % 2 ? "חיפה" : "עכו",
+  6600 + index,
+]);
+const file = new File([writeDbf(fields, records, { encoding: "windows-1255" })], "parcels.dbf");
+
+// The worker talks to `self`; a stand-in scope collects what it posts.
+const scope = {
+  posted: [] as DbfWorkerResponse[],
+  onmessage: null as ((event: { data: DbfWorkerRequest }) => void) | null,
+  postMessage(message: DbfWorkerResponse) {
+    scope.posted.push(message);
+  },
+};
+
+beforeAll(async () => {
+  vi.stubGlobal("self", scope);
+  await import("./dbfConvert.worker");
+});
+
+/** Sends one request and resolves with everything posted until it finishes. */
+async function run(request: Omit<ConvertRequest, "type" | "file">) {
+  scope.posted = [];
+  scope.onmessage?.({ data: { type: "convert", file, ...request } });
+  await vi.waitFor(() => {
+    if (!scope.posted.some((message) => message.type === "done" || message.type === "error")) {
+      throw new Error("still converting");
+    }
+  });
+  const output = new Blob(
+    scope.posted.flatMap((message) =>
+      message.type === "chunk" ? [message.bytes as Uint8Array<ArrayBuffer>] : [],
+    ),
+  );
+  return { messages: scope.posted, output };
+}
+
+describe("dbfConvert worker", () => {
+  it("streams the same CSV the in-memory converter builds", async () => {
+    const { messages, output } = await run({});
+    // Blob.text() drops the BOM, so it is checked on the raw bytes.
+    const expected = convertDbfToCsv(await file.arrayBuffer()).csv;
+    expect(await output.text()).toBe(expected.replace(UTF8_BOM, ""));
+    expect(new Uint8Array(await output.slice(0, 3).arrayBuffer())).toEqual(
+      new Uint8Array([0xef, 0xbb, 0xbf]),
+    );
+    expect(messages.at(-1)).toMatchObject({
+      type: "done",
+      summary: { parsedRecords: 30, encoding: "windows-1255" },
+      validation: { valid: true },
+      savedToDisk: false,
+    });
+  });
+
+  it("posts only the requested number of preview rows", async () => {
+    const { messages } = await run({ previewRows: 4 });
+    const previewed = messages.flatMap((message) => (message.type === "rows" ? message.rows : []));
+    expect(previewed).toEqual(records.slice(0, 4));
+  });
+
+  it("builds non-streamable formats once every row is in", async () => {
+    const { output } = await run({ format: "dbf", outputEncoding: "utf-8" });
+    const parsed = parseDbf(await output.arrayBuffer());
+    expect(parsed.encoding).toBe("utf-8");
+    expect(parsed.records).toEqual(records);
+  });
+
+  it("applies filters and hidden columns to every row while streaming", async () => {
+    const { messages, output } = await run({
+      view: { hidden: [1], filters: { 0: { kind: "text", query: "עכו" } }, sort: null },
+    });
+    expect(await output.text()).toBe(["CITY", ...Array(15).fill("עכו")].join("\r\n"));
+    expect(messages.at(-1)).toMatchObject({ summary: { parsedRecords: 30 }, exportedRecords: 15 });
+  });
+
+  it("sorts the matching rows of a view before writing them", async () => {
+    const { output } = await run({
+      format: "jsonl",
+      view: {
+        hidden: [0],
+        filters: {
+          0: { kind: "text", query: "חיפה" },
+          1: { kind: "range", min: "6620", max: "" },
+        },
+        sort: { column: 1, direction: "desc" },
+      },
+    });
+    const gush = (await output.text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line).GUSH);
+    expect(gush).toEqual([6629, 6627, 6625, 6623, 6621]);
+  });
+
+  it("reports a file that is not a DBF as an error", async () => {
+    scope.posted = [];
+    scope.onmessage?.({ data: { type: "convert", file: new File(["tiny"], "bad.dbf") } });
+    await vi.waitFor(() => expect(scope.posted.at(-1)?.type).toBe("error"));
+    expect(scope.posted.at(-1)).toMatchObject({ message: expect.stringMatching(/too small/) });
+  });
+});
@@ -0,0 +1,227 @@
+import type { DbfEncoding } from "../utils/codepages";
+import { DbfFieldMeta, DbfRow, UTF8_BOM, dbfCsvHeader, dbfRowToCsv } from "../utils/dbf";
+import { DbfStreamSummary, streamDbf } from "../utils/dbfStream";
+import { DbfValidationReport, DbfValidator, createDbfValidator } from "../utils/dbfValidate";
+import { ExportFormat, dbfRowToJsonLine, exportTable, getExportFormat } from "../utils/exporters";
+import type { DbfMemoFile } from "../utils/memo";
+import { TableViewState, createRowFilter, sortRowIndexes, visibleColumns } from "../utils/tableView";
+
+export type DbfWorkerRequest =
+  | {
+      type: "convert";
+      file: File;
+      cpg?: string;
+      memo?: DbfMemoFile;
+      encoding?: DbfEncoding;
+      /** Code page of DBF output; defaults to the input's. */
+      outputEncoding?: DbfEncoding;
+      /** Defaults to CSV. GeoJSON needs geometry, which a bare DBF does not have. */
+      format?: Exclude<ExportFormat, "geojson">;
+      /**
+       * Parsed rows posted back for the preview grid; the rest never leave the
+       * worker. Pass Infinity to keep every row (default 0).
+       */
+      previewRows?: number;
+      /** When set, the output is written straight to this file instead of posted back. */
+      output?: FileSystemFileHandle;
+      /**
+       * Filters, hidden columns and sort from the preview grid, applied to
+       * every row of the file. Sorting holds the matching rows until the end.
+       */
+      view?: TableViewState;
+    }
+  | { type: "cancel" };
+
+export type DbfWorkerResponse =
+  | { type: "progress"; bytesRead: number; totalBytes: number; records: number }
+  | { type: "chunk"; bytes: Uint8Array }
+  | { type: "rows"; rows: DbfRow[] }
+  | {
+      type: "done";
+      summary: DbfStreamSummary;
+      validation: DbfValidationReport;
+      savedToDisk: boolean;
+      /** Rows written to the output, after any `view` filters. */
+      exportedRecords: number;
+    }
+  | { type: "error"; message: string };
+
+type WorkerScope = {
+  postMessage(message: DbfWorkerResponse, transfer?: Transferable[]): void;
+  onmessage: ((event: MessageEvent<DbfWorkerRequest>) => void) | null;
+};
+
+const scope = self as unknown as WorkerScope;
+const FLUSH_CHARS = 1024 * 1024;
+const PROGRESS_INTERVAL_MS = 200;
+
+let controller: AbortController | null = null;
+
+async function feedValidator(stream: ReadableStream<Uint8Array>, validator: DbfValidator) {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      validator.push(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function convert(request: Extract<DbfWorkerRequest, { type: "convert" }>) {
+  controller = new AbortController();
+  const encoder = new TextEncoder();
+  const totalBytes = request.file.size;
+  let writable: FileSystemWritableFileStream | null = null;
+  const format = getExportFormat(request.format ?? "csv");
+  const { view } = request;
+  let fields: DbfFieldMeta[] = [];
+  let columns: number[] = [];
+  let keep: (row: DbfRow) => boolean = () => true;
+  let encoding: DbfEncoding | undefined;
+  let buffered = "";
+  // Formats that cannot be written incrementally, and sorted views, are built
+  // once all rows are in.
+  const collected: DbfRow[] = [];
+  const writesAtEnd = !format.streamable || Boolean(view?.sort);
+  const project = (row: DbfRow) => columns.map((column) => row[column] ?? null);
+  let exportedRecords = 0;
+  let lastProgressAt = 0;
+  let previewed = 0;
+
+  const emit = async (bytes: Uint8Array<ArrayBuffer>) => {
+    if (writable) {
+      await writable.write(bytes);
+    } else {
+      scope.postMessage({ type: "chunk", bytes }, [bytes.buffer]);
+    }
+  };
+
+  const flush = async () => {
+    if (!buffered) return;
+    const bytes = encoder.encode(buffered);
+    buffered = "";
+    await emit(bytes);
+  };
+
+  try {
+    writable = request.output ? await request.output.createWritable() : null;
+    // The validator sees every chunk on its way to the parser, so the file is
+    // read once.
+    const validator = createDbfValidator({ cpg: request.cpg, encoding: request.encoding });
+    let validatedBytes = 0;
+    const source = request.file.stream().pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, stream) {
+          validator.push(chunk);
+          validatedBytes += chunk.byteLength;
+          stream.enqueue(chunk);
+        },
+      }),
+    );
+    const summary = await streamDbf(
+      source,
+      {
+        onHeader: (header) => {
+          if (view) {
+            columns = visibleColumns(header.fields, view);
+            keep = createRowFilter(header.fields, view);
+          } else {
+            columns = header.fields.map((_, index) => index);
+          }
+          fields = columns.map((column) => header.fields[column]);
+          encoding = header.encoding;
+          if (format.id === "csv" && !writesAtEnd) {
+            buffered = UTF8_BOM + dbfCsvHeader(fields);
+          }
+        },
+        onRows: async (rows, progress) => {
+          for (const row of rows) {
+            if (!keep(row)) continue;
+            exportedRecords += 1;
+            // Sorting needs the full row, since the sort column may be hidden.
+            if (view?.sort) {
+              collected.push(row);
+            } else if (format.id === "csv") {
+              buffered += `\r\n${dbfRowToCsv(fields, project(row))}`;
+            } else if (format.id === "jsonl") {
+              buffered += `${dbfRowToJsonLine(fields, project(row))}\n`;
+            } else {
+              collected.push(project(row));
+            }
+          }
+          const previewLimit = request.previewRows ?? 0;
+          if (previewed < previewLimit && rows.length) {
+            const sample = rows.slice(0, previewLimit - previewed);
+            previewed += sample.length;
+            scope.postMessage({ type: "rows", rows: sample });
+          }
+          if (buffered.length >= FLUSH_CHARS) {
+            await flush();
+          }
+          const now = Date.now();
+          if (now - lastProgressAt >= PROGRESS_INTERVAL_MS) {
+            lastProgressAt = now;
+            scope.postMessage({ type: "progress", totalBytes, ...progress });
+          }
+        },
+      },
+      {
+        cpg: request.cpg,
+        memo: request.memo,
+        encoding: request.encoding,
+        signal: controller.signal,
+      },
+    );
+    // streamDbf stops at the declared record count; whatever follows still
+    // matters for the report.
+    if (validatedBytes < totalBytes) {
+      await feedValidator(request.file.slice(validatedBytes).stream(), validator);
+    }
+    if (writesAtEnd) {
+      const records = view?.sort
+        ? sortRowIndexes(collected, collected.map((_, index) => index), view.sort).map((index) =>
+            project(collected[index]),
+          )
+        : collected;
+      const blob = await exportTable(
+        format.id,
+        { fields, records, name: request.file.name.replace(/\.dbf$/i, ""), encoding },
+        { dbfEncoding: request.outputEncoding },
+      );
+      await emit(new Uint8Array(await blob.arrayBuffer()));
+    } else {
+      await flush();
+    }
+    await writable?.close();
+    scope.postMessage({
+      type: "progress",
+      totalBytes,
+      bytesRead: summary.bytesRead,
+      records: summary.parsedRecords,
+    });
+    scope.postMessage({
+      type: "done",
+      summary,
+      validation: validator.finish(),
+      savedToDisk: Boolean(writable),
+      exportedRecords,
+    });
+  } catch (error) {
+    await writable?.abort().catch(() => undefined);
+    const message = error instanceof Error ? error.message : "Failed to parse DBF file.";
+    scope.postMessage({ type: "error", message });
+  } finally {
+    controller = null;
+  }
+}
+
+scope.onmessage = (event) => {
+  if (event.data.type === "cancel") {
+    controller?.abort();
+    return;
+  }
+  convert(event.data);
+};
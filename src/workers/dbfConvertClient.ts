@@ -0,0 +1,75 @@
+import type { DbfRow } from "../utils/dbf";
+import type { DbfStreamProgress, DbfStreamSummary } from "../utils/dbfStream";
+import type { DbfValidationReport } from "../utils/dbfValidate";
+import { getExportFormat } from "../utils/exporters";
+import type { DbfWorkerRequest, DbfWorkerResponse } from "./dbfConvert.worker";
+
+export type DbfWorkerProgress = DbfStreamProgress & { totalBytes: number };
+
+export type DbfWorkerResult = {
+  summary: DbfStreamSummary;
+  validation: DbfValidationReport;
+  /** The converted file, or null when it was written to disk by the worker. */
+  output: Blob | null;
+  /** The leading rows the job was asked to post back with `previewRows`. */
+  rows: DbfRow[];
+  /** Rows in the output, which is fewer than parsed when a `view` filters them. */
+  exportedRecords: number;
+};
+
+export type DbfWorkerJobRequest = Omit<Extract<DbfWorkerRequest, { type: "convert" }>, "type">;
+
+export type DbfWorkerJob = {
+  promise: Promise<DbfWorkerResult>;
+  cancel: () => void;
+};
+
+/**
+ * Runs a DBF conversion (CSV unless `request.format` says otherwise) in a
+ * dedicated worker. The worker is torn down once the job settles.
+ */
+export function startDbfWorkerJob(
+  request: DbfWorkerJobRequest,
+  onProgress: (progress: DbfWorkerProgress) => void,
+): DbfWorkerJob {
+  const worker = new Worker(new URL("./dbfConvert.worker.ts", import.meta.url), { type: "module" });
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  const rows: DbfRow[] = [];
+  const { mimeType } = getExportFormat(request.format ?? "csv");
+
+  const promise = new Promise<DbfWorkerResult>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<DbfWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "progress":
+          onProgress(message);
+          break;
+        case "chunk":
+          parts.push(message.bytes as Uint8Array<ArrayBuffer>);
+          break;
+        case "rows":
+          for (const row of message.rows) rows.push(row);
+          break;
+        case "done":
+          resolve({
+            summary: message.summary,
+            validation: message.validation,
+            output: message.savedToDisk ? null : new Blob(parts, { type: mimeType }),
+            rows,
+            exportedRecords: message.exportedRecords,
+          });
+          break;
+        case "error":
+          reject(new Error(message.message));
+          break;
+      }
+    };
+    worker.onerror = (event) => reject(new Error(event.message || "DBF worker crashed."));
+    worker.postMessage({ type: "convert", ...request } satisfies DbfWorkerRequest);
+  }).finally(() => worker.terminate());
+
+  return {
+    promise,
+    cancel: () => worker.postMessage({ type: "cancel" } satisfies DbfWorkerRequest),
+  };
+}